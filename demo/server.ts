@@ -2,9 +2,11 @@ import { serve } from '@hono/node-server';
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
 import { serveStatic } from '@hono/node-server/serve-static';
 import { readFile } from 'node:fs/promises';
-import { SessionManager } from 'secstream/server';
+import { SecStreamError, SessionManager } from 'secstream/server';
+import type { SessionLimitsConfig } from 'secstream/server';
 import { parseAudioMetadata } from 'secstream/server';
 import { calculateSliceCrc32 } from './utils/crc32.js';
 
@@ -27,6 +29,16 @@ app.use('/*', serveStatic({
   rewriteRequestPath: (path) => path.replace(/^\//, ''),
 }));
 
+// Session limits shared by both managers (override with environment variables)
+const sessionLimits: SessionLimitsConfig = {
+  idleTimeoutMs: Number(process.env.SESSION_IDLE_TIMEOUT_MS ?? 30 * 60 * 1000),
+  maxLifetimeMs: process.env.SESSION_MAX_LIFETIME_MS ? Number(process.env.SESSION_MAX_LIFETIME_MS) : undefined,
+  maxSessions: Number(process.env.MAX_SESSIONS ?? 100),
+  maxTracksPerSession: Number(process.env.MAX_TRACKS_PER_SESSION ?? 20),
+  // The demo evicts old sessions instead of turning visitors away
+  evictionPolicy: process.env.SESSION_EVICTION_POLICY === 'reject' ? 'reject' : 'lru',
+};
+
 // Create session manager with optimized settings for low latency streaming
 const sessionManager = new SessionManager({
   sliceDurationMs: 5000, // 5 second slices
@@ -38,6 +50,7 @@ const sessionManager = new SessionManager({
   // Cache settings for better performance
   serverCacheSize: 10,
   serverCacheTtlMs: 300_000, // 5 minutes
+  sessionLimits,
 });
 
 // Create a second session manager with randomized slice lengths
@@ -50,6 +63,7 @@ const randomizedSessionManager = new SessionManager({
   prewarmConcurrency: 3,
   serverCacheSize: 10,
   serverCacheTtlMs: 300_000,
+  sessionLimits,
 });
 
 // Track which session belongs to which manager
@@ -124,10 +138,12 @@ app.post('/api/sessions', async (c) => {
     const errorResponse = {
       error: 'Failed to create session',
       details: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof SecStreamError ? error.code : undefined,
       timestamp: new Date().toISOString()
     };
     console.error('📤 Sending error response:', errorResponse);
-    return c.json(errorResponse, 500);
+    // Limit errors carry their own status (e.g. 503 SESSION_LIMIT_REACHED)
+    return c.json(errorResponse, error instanceof SecStreamError ? error.status as ContentfulStatusCode : 500);
   }
 });
 
@@ -1,21 +1,35 @@
-import type { EncryptedSlice, SessionInfo, TrackInfo } from '../../shared/types/interfaces.js';
+import type { SliceRequestProof } from '../../shared/crypto/request-proof.js';
+import type { EncryptedSliceIds } from '../../shared/protocol/slice-ids.js';
+import type { EncryptedSliceTimings, SliceTimingTable } from '../../shared/protocol/slice-timings.js';
+import type { EncryptedSlice, SessionInfo, SliceRequest, SliceTrim, TrackInfo } from '../../shared/types/interfaces.js';
 import type {
   CompressionProcessor,
   CryptoMetadata,
   EncryptionProcessor,
   KeyExchangeProcessor,
+  KeyExchangeRequest,
+  KeyExchangeResponse,
   ProcessingConfig,
+  SliceEncryptionOptions,
 } from '../../shared/types/processors.js';
 import type { RetryConfig } from '../network/retry-manager.js';
 import type { Transport } from '../network/transport.js';
 import type { DecryptionWorkerConfig } from '../workers/decryption-worker-types.js';
 import { DeflateCompressionProcessor } from '../../shared/compression/processors/deflate-processor.js';
 import { EcdhP256KeyExchangeProcessor } from '../../shared/crypto/key-exchange/ecdh-p256-processor.js';
+import { EpochKeyCache } from '../../shared/crypto/key-rotation.js';
 import { AesGcmEncryptionProcessor } from '../../shared/crypto/processors/aes-gcm-processor.js';
+import { createSliceRequestProof, deriveRequestProofKey } from '../../shared/crypto/request-proof.js';
+import { importServerIdentityPublicKey, verifyKeyExchange } from '../../shared/crypto/server-identity.js';
+import { assertSliceIdentity, assertSliceProcessors, getSliceSessionId } from '../../shared/protocol/slice-envelope.js';
+import { decryptSliceIds } from '../../shared/protocol/slice-ids.js';
+import { decryptSliceTimings } from '../../shared/protocol/slice-timings.js';
+import { decodeSliceTrim } from '../../shared/protocol/slice-trim.js';
 import { RetryManager } from '../network/retry-manager.js';
 import {
   DecodingError,
   DecryptionError,
+  KeyExchangeAuthenticationError,
   NetworkError,
 } from '../network/transport.js';
 import { DecryptionWorkerManager } from '../workers/decryption-worker-manager.js';
@@ -25,6 +39,17 @@ const DEFAULT_PREFETCH_CONCURRENCY = 3;
 const DEFAULT_BUFFER_SIZE = 5;
 const DEFAULT_POLL_INTERVAL_MS = 50;
 
+// Rolling disclosure lists only the first IDs; keep the ones learned so far
+function mergeSliceIds(current: string[], update: { sliceIds: string[]; sliceIdDisclosure?: 'rolling' }): string[] {
+  if (update.sliceIdDisclosure !== 'rolling') {
+    return update.sliceIds;
+  }
+  update.sliceIds.forEach((sliceId, index) => {
+    current[index] = sliceId;
+  });
+  return current;
+}
+
 export interface ClientConfig<
   TCompressionProcessor extends CompressionProcessor = CompressionProcessor,
   TEncryptionProcessor extends EncryptionProcessor = EncryptionProcessor,
@@ -38,6 +63,12 @@ export interface ClientConfig<
   workerConfig?: Partial<DecryptionWorkerConfig>;
   /** URL to the worker script (required if workerConfig.enabled is true) */
   workerUrl?: string;
+  /**
+   * Pinned server identity public key (ECDSA P-256, base64 SPKI or CryptoKey)
+   * When set, every key exchange response must be signed by this key (SignedEcdhP256KeyExchangeProcessor
+   * on the server); otherwise the exchange fails with KeyExchangeAuthenticationError
+   */
+  serverIdentityKey?: string | CryptoKey;
 }
 
 export interface AudioSliceData {
@@ -75,6 +106,9 @@ export class SecureAudioClient<
   private sessionInfo: SessionInfo | null = null;
   private activeTrackId: string | null = null;
   private trackKeys = new Map<string, TKey>(); // trackId → encryption key (lazy loaded on track initialization)
+  private epochKeys = new EpochKeyCache(); // Derived keys of rotating-key slices
+  private requestProofKeys = new WeakMap<object, Promise<CryptoKey>>(); // session key → slice request proof key
+  private sliceTimings = new Map<string, SliceTimingTable>(); // trackId → decrypted slice timing table
 
   // Multi-track buffer management (trackId → sliceIndex → data)
   private audioBuffers = new Map<string, Map<number, AudioSliceData>>();
@@ -184,6 +218,8 @@ export class SecureAudioClient<
       }
     });
 
+    await this.verifyServerIdentity(sessionId, keyExchangeRequest, keyExchangeResponse);
+
     // Store session info
     this.sessionInfo = keyExchangeResponse.sessionInfo;
 
@@ -197,6 +233,7 @@ export class SecureAudioClient<
       this.activeTrackId = this.sessionInfo.tracks[0].trackId;
       this.trackKeys.set(this.activeTrackId, sessionKey);
       this.sessionInfo.activeTrackId = this.activeTrackId;
+      await this.loadSliceTimings(this.activeTrackId, this.sessionInfo.tracks[0]);
     } else {
       // Single-track session (backward compatibility)
       // Exchange key immediately for the single track
@@ -206,6 +243,7 @@ export class SecureAudioClient<
       const defaultTrackId = 'default';
       this.trackKeys.set(defaultTrackId, sessionKey);
       this.activeTrackId = defaultTrackId;
+      await this.loadSliceTimings(defaultTrackId, this.sessionInfo);
     }
 
     // Initialize worker manager if configured
@@ -260,7 +298,11 @@ export class SecureAudioClient<
       isFloat32: this.sessionInfo.isFloat32,
       sliceIds: this.sessionInfo.sliceIds,
       format: this.sessionInfo.format,
-      duration: (this.sessionInfo.totalSlices * this.sessionInfo.sliceDuration) / 1000,
+      isComplete: this.sessionInfo.isComplete,
+      firstSliceIndex: this.sessionInfo.firstSliceIndex,
+      sliceTimings: this.sessionInfo.sliceTimings,
+      sliceIdDisclosure: this.sessionInfo.sliceIdDisclosure,
+      duration: this.getSliceTimings()?.duration ?? (this.sessionInfo.totalSlices * this.sessionInfo.sliceDuration) / 1000,
     };
   }
 
@@ -326,6 +368,8 @@ export class SecureAudioClient<
       }
     });
 
+    await this.verifyServerIdentity(this.sessionInfo.sessionId, keyExchangeRequest, keyExchangeResponse);
+
     // Store the track-specific key
     const trackKey = await this.keyExchangeProcessor.processKeyExchangeResponse(keyExchangeResponse) as TKey;
     this.trackKeys.set(trackInfo.trackId, trackKey);
@@ -340,6 +384,9 @@ export class SecureAudioClient<
           this.sessionInfo.tracks[trackIndex] = updatedTrack;
         }
       }
+      if (updatedTrack) {
+        await this.loadSliceTimings(trackInfo.trackId, updatedTrack);
+      }
     }
   }
 
@@ -381,6 +428,10 @@ export class SecureAudioClient<
     this.sessionInfo.isFloat32 = updatedTrackInfo.isFloat32;
     this.sessionInfo.sliceIds = updatedTrackInfo.sliceIds;
     this.sessionInfo.format = updatedTrackInfo.format;
+    this.sessionInfo.isComplete = updatedTrackInfo.isComplete;
+    this.sessionInfo.firstSliceIndex = updatedTrackInfo.firstSliceIndex;
+    this.sessionInfo.sliceTimings = updatedTrackInfo.sliceTimings;
+    this.sessionInfo.sliceIdDisclosure = updatedTrackInfo.sliceIdDisclosure;
 
     return updatedTrackInfo;
   }
@@ -448,6 +499,7 @@ export class SecureAudioClient<
 
     // Remove track encryption key
     this.trackKeys.delete(trackId);
+    this.sliceTimings.delete(trackId);
 
     // Handle active track removal - switch to another track
     let newActiveTrackId = this.activeTrackId;
@@ -534,11 +586,12 @@ export class SecureAudioClient<
       throw new Error(`Track key not available for ${targetTrackId}`);
     }
 
-    // Get sequence from slice ID using track's slice IDs
-    const sequence = trackInfo.sliceIds.indexOf(sliceId);
-    if (sequence === -1) {
+    // Get sequence from slice ID using track's slice IDs (live sessions only list a window)
+    const position = trackInfo.sliceIds.indexOf(sliceId);
+    if (position === -1) {
       throw new Error(`Invalid slice ID: ${sliceId}`);
     }
+    const sequence = (trackInfo.firstSliceIndex ?? 0) + position;
 
     // Initialize track buffer if needed
     if (!this.audioBuffers.has(targetTrackId)) {
@@ -608,7 +661,11 @@ export class SecureAudioClient<
           throw new Error('Operation cancelled');
         }
         try {
-          return await this.transport.fetchSlice(this.sessionInfo!.sessionId, sliceId, targetTrackId);
+          // A fresh proof per attempt: the server rejects reused nonces
+          const proof = this.sessionInfo!.sliceRequestProofs
+            ? await this.createSliceProof(trackKey, { sessionId: this.sessionInfo!.sessionId, sliceId, trackId: targetTrackId })
+            : undefined;
+          return await this.transport.fetchSlice(this.sessionInfo!.sessionId, sliceId, targetTrackId, loadController.signal, proof);
         } catch(error) {
           throw new NetworkError(`Failed to fetch slice ${sliceId}`, error as Error);
         }
@@ -619,13 +676,35 @@ export class SecureAudioClient<
         throw new Error('Operation cancelled');
       }
 
+      // Decrypt with the identity of the requested slice, never the one the envelope claims:
+      // a swapped or reordered slice fails instead of playing at the wrong position
+      const sliceTrackId = this.sessionInfo.tracks ? targetTrackId : undefined;
+      const expected: SliceEncryptionOptions = {
+        sessionId: getSliceSessionId(this.sessionInfo.sessionId, sliceTrackId),
+        trackId: sliceTrackId,
+        sequence,
+        sliceId,
+      };
+      try {
+        assertSliceIdentity(encryptedSlice, expected);
+      } catch(error) {
+        throw new DecryptionError((error as Error).message, error as Error);
+      }
+
+      // Rolling disclosure: learn the IDs of the slices that follow
+      if (encryptedSlice.nextSliceIds) {
+        await this.recordSliceIds(targetTrackId, encryptedSlice.nextSliceIds, trackKey).catch(() => {
+          // Unknown IDs are resolved from the server when needed
+        });
+      }
+
       // Decrypt and decompress the slice with retry (using track-specific key)
       const audioData = await this.retryManager.retry(async() => {
         if (loadController.signal.aborted) {
           throw new Error('Operation cancelled');
         }
         try {
-          return await this.decryptSlice(encryptedSlice, trackKey);
+          return await this.decryptSlice(encryptedSlice, trackKey, expected);
         } catch(error) {
           throw new DecryptionError(`Failed to decrypt slice ${sliceId}`, error as Error);
         }
@@ -650,7 +729,9 @@ export class SecureAudioClient<
           } else {
             // Compressed format (MP3, FLAC, OGG) - use Web Audio API decoder
             // This is more efficient than server-side decoding
-            return await this.createAudioBufferFromCompressed(audioData);
+            const { trim, audio } = decodeSliceTrim(audioData);
+            const decoded = await this.createAudioBufferFromCompressed(audio);
+            return trim ? this.trimAudioBuffer(decoded, trim) : decoded;
           }
         } catch(error) {
           throw new DecodingError(`Failed to decode slice ${sliceId}`, error as Error);
@@ -708,7 +789,7 @@ export class SecureAudioClient<
       if (sliceIndex >= trackInfo.totalSlices)
         break;
 
-      const sliceId = trackInfo.sliceIds[sliceIndex];
+      const sliceId = trackInfo.sliceIds[sliceIndex - (trackInfo.firstSliceIndex ?? 0)];
       if (!sliceId)
         continue;
 
@@ -762,15 +843,252 @@ export class SecureAudioClient<
     return this.sessionInfo;
   }
 
+  /**
+   * Get the ID of a slice by its index (track-aware)
+   * Returns null if the index is unknown or has expired from a live session's window
+   */
+  getSliceId(sliceIndex: number, trackId?: string): string | null {
+    const trackInfo = this.getTrackInfo(trackId || this.activeTrackId || 'default');
+    if (!trackInfo) {
+      return null;
+    }
+    return trackInfo.sliceIds[sliceIndex - (trackInfo.firstSliceIndex ?? 0)] ?? null;
+  }
+
+  /**
+   * Get the ID of a slice by its index, asking the server when it has not been disclosed yet
+   * Sessions with rolling slice ID disclosure only list the first IDs; the rest arrive with the
+   * slices before them, or are resolved here on seeks
+   * Returns null if the index is out of range or has expired from a live session's window
+   */
+  async resolveSliceId(sliceIndex: number, trackId?: string): Promise<string | null> {
+    const known = this.getSliceId(sliceIndex, trackId);
+    if (known !== null || !this.sessionInfo) {
+      return known;
+    }
+
+    const targetTrackId = trackId || this.activeTrackId || 'default';
+    const trackInfo = this.getTrackInfo(targetTrackId);
+    const resolveSliceIds = this.transport.resolveSliceIds?.bind(this.transport);
+    if (
+      !trackInfo
+      || trackInfo.sliceIdDisclosure !== 'rolling'
+      || sliceIndex < 0
+      || sliceIndex >= trackInfo.totalSlices
+      || !resolveSliceIds
+    ) {
+      return null;
+    }
+
+    if (!this.trackKeys.has(trackInfo.trackId)) {
+      await this.initializeTrack(trackInfo.trackId);
+    }
+    const trackKey = this.trackKeys.get(trackInfo.trackId);
+    if (!trackKey) {
+      throw new Error(`Track key not available for ${trackInfo.trackId}`);
+    }
+
+    const sliceIds = await this.retryManager.retry(async() => {
+      try {
+        return await resolveSliceIds(this.sessionInfo!.sessionId, sliceIndex, this.sessionInfo!.tracks ? trackInfo.trackId : undefined);
+      } catch(error) {
+        throw new NetworkError(`Failed to resolve slice ${sliceIndex}`, error as Error);
+      }
+    });
+    try {
+      await this.recordSliceIds(trackInfo.trackId, sliceIds, trackKey);
+    } catch(error) {
+      throw new DecryptionError(`Failed to decrypt slice IDs at ${sliceIndex}`, error as Error);
+    }
+    return this.getSliceId(sliceIndex, trackInfo.trackId);
+  }
+
+  /**
+   * Sign a slice request with the proof key derived from the track's session key
+   */
+  private async createSliceProof(trackKey: TKey, request: SliceRequest): Promise<SliceRequestProof> {
+    const deriveKey = async(): Promise<CryptoKey> => this.keyExchangeProcessor.deriveRequestProofKey
+      ? await this.keyExchangeProcessor.deriveRequestProofKey(trackKey as CryptoKey, request.sessionId)
+      : await deriveRequestProofKey(trackKey, request.sessionId);
+
+    let key: Promise<CryptoKey>;
+    if (typeof trackKey === 'object' && trackKey !== null) {
+      key = this.requestProofKeys.get(trackKey) ?? deriveKey();
+      this.requestProofKeys.set(trackKey, key);
+      key.catch(() => this.requestProofKeys.delete(trackKey));
+    } else {
+      key = deriveKey();
+    }
+    return await createSliceRequestProof(await key, request);
+  }
+
+  /**
+   * Decrypt disclosed slice IDs into the track's slice list (updated in place, so
+   * sessionInfo.sliceIds stays in sync for the active track)
+   */
+  private async recordSliceIds(trackId: string, encrypted: EncryptedSliceIds, key: TKey): Promise<void> {
+    const trackInfo = this.getTrackInfo(trackId);
+    if (!trackInfo) {
+      return;
+    }
+
+    const sliceIds = await decryptSliceIds(
+      this.encryptionProcessor as unknown as EncryptionProcessor<TKey>,
+      key,
+      encrypted,
+      this.sessionInfo?.tracks ? trackId : undefined,
+    );
+    const offset = encrypted.firstIndex - (trackInfo.firstSliceIndex ?? 0);
+    sliceIds.forEach((sliceId, index) => {
+      if (offset + index < trackInfo.totalSlices) {
+        trackInfo.sliceIds[offset + index] = sliceId;
+      }
+    });
+  }
+
+  /**
+   * Fetch the latest slice list of a session that is still receiving audio
+   * New slices are merged into the local session info (which is updated in place)
+   * @returns Updated session info
+   */
+  async refreshSessionInfo(): Promise<SessionInfo> {
+    if (!this.sessionInfo) {
+      throw new Error('Session not initialized');
+    }
+
+    const latest = await this.retryManager.retry(async() => {
+      try {
+        return await this.transport.getSessionInfo(this.sessionInfo!.sessionId);
+      } catch(error) {
+        throw new NetworkError('Failed to refresh session info', error as Error);
+      }
+    });
+
+    // Multi-track: merge each track, then mirror the active one into the backward compatible fields
+    if (this.sessionInfo.tracks && latest.tracks) {
+      for (const track of this.sessionInfo.tracks) {
+        const update = latest.tracks.find(t => t.trackId === track.trackId);
+        if (update && update.totalSlices >= track.totalSlices) {
+          track.totalSlices = update.totalSlices;
+          track.sliceIds = mergeSliceIds(track.sliceIds, update);
+          track.duration = update.duration;
+          track.isComplete = update.isComplete;
+          track.firstSliceIndex = update.firstSliceIndex;
+          track.sliceTimings = update.sliceTimings;
+          await this.loadSliceTimings(track.trackId, track);
+        }
+      }
+
+      const activeTrack = this.getCurrentTrackInfo();
+      if (activeTrack) {
+        this.sessionInfo.totalSlices = activeTrack.totalSlices;
+        this.sessionInfo.sliceIds = activeTrack.sliceIds;
+        this.sessionInfo.isComplete = activeTrack.isComplete;
+        this.sessionInfo.firstSliceIndex = activeTrack.firstSliceIndex;
+        this.sessionInfo.sliceTimings = activeTrack.sliceTimings;
+      }
+      return this.sessionInfo;
+    }
+
+    if (latest.totalSlices >= this.sessionInfo.totalSlices) {
+      this.sessionInfo.totalSlices = latest.totalSlices;
+      this.sessionInfo.sliceIds = mergeSliceIds(this.sessionInfo.sliceIds, latest);
+      this.sessionInfo.isComplete = latest.isComplete;
+      this.sessionInfo.firstSliceIndex = latest.firstSliceIndex;
+      this.sessionInfo.sliceTimings = latest.sliceTimings;
+      if (this.activeTrackId) {
+        await this.loadSliceTimings(this.activeTrackId, this.sessionInfo);
+      }
+    }
+    return this.sessionInfo;
+  }
+
+  /**
+   * Decrypt a track's published timing table once its key is known
+   */
+  private async loadSliceTimings(
+    trackId: string,
+    info: { sliceTimings?: EncryptedSliceTimings; sampleRate: number; totalSlices: number },
+  ): Promise<void> {
+    const key = this.trackKeys.get(trackId);
+    const current = this.sliceTimings.get(trackId);
+    if (!info.sliceTimings || !key || current?.totalSlices === info.totalSlices) {
+      return;
+    }
+
+    try {
+      const table = await decryptSliceTimings(
+        this.encryptionProcessor as unknown as EncryptionProcessor<TKey>,
+        key,
+        info.sliceTimings,
+        info.sampleRate,
+        this.sessionInfo?.tracks ? trackId : undefined,
+      );
+      if (table.totalSlices === info.totalSlices) {
+        this.sliceTimings.set(trackId, table);
+      }
+    } catch {
+      // A table that does not decrypt is ignored; timing falls back to sliceDuration
+    }
+  }
+
+  /**
+   * Check the server signature of a key exchange against the pinned identity key
+   * No-op unless serverIdentityKey is configured
+   */
+  private async verifyServerIdentity(
+    sessionId: string,
+    request: KeyExchangeRequest,
+    response: KeyExchangeResponse,
+  ): Promise<void> {
+    const pinnedKey = this.config.serverIdentityKey;
+    if (!pinnedKey) {
+      return;
+    }
+
+    const signature = response.metadata?.signature;
+    if (typeof signature !== 'string' || !request.publicKey || !response.publicKey) {
+      throw new KeyExchangeAuthenticationError('Key exchange response is not signed by the server');
+    }
+
+    let verified: boolean;
+    try {
+      const publicKey = typeof pinnedKey === 'string' ? await importServerIdentityPublicKey(pinnedKey) : pinnedKey;
+      verified = await verifyKeyExchange(publicKey, {
+        sessionId,
+        clientPublicKey: request.publicKey,
+        serverPublicKey: response.publicKey,
+      }, signature);
+    } catch(error) {
+      throw new KeyExchangeAuthenticationError('Could not verify the key exchange signature', error as Error);
+    }
+
+    if (!verified) {
+      throw new KeyExchangeAuthenticationError('Key exchange signature does not match the pinned server identity key');
+    }
+  }
+
   /**
    * Decrypt slice data using configurable processor (track-aware)
    * Uses Web Worker if configured, otherwise falls back to main thread
+   * Slices with a key epoch are decrypted with the epoch key derived from the track key.
+   * expected identifies the requested slice (see assertSliceIdentity)
    */
-  private async decryptSlice(encryptedSlice: EncryptedSlice, trackKey: TKey): Promise<ArrayBuffer> {
+  private async decryptSlice(encryptedSlice: EncryptedSlice, trackKey: TKey, expected: SliceEncryptionOptions): Promise<ArrayBuffer> {
     if (!trackKey) {
       throw new Error('Track key not available');
     }
 
+    // Fail with a clear message instead of an opaque crypto/decompression error
+    try {
+      assertSliceProcessors(encryptedSlice.processors, {
+        compression: this.compressionProcessor.getName(),
+        encryption: this.encryptionProcessor.getName(),
+      });
+    } catch(error) {
+      throw new DecryptionError((error as Error).message, error as Error);
+    }
+
     // Try using Web Worker if available
     if (this.workerManager) {
       try {
@@ -788,7 +1106,7 @@ export class SecureAudioClient<
           throw new TypeError('Unknown key type, using main thread');
         }
 
-        return await this.workerManager.decryptSlice(encryptedSlice, transferableKey);
+        return await this.workerManager.decryptSlice(encryptedSlice, transferableKey, expected);
       } catch {
         // Fall through to main thread decryption
       }
@@ -798,13 +1116,17 @@ export class SecureAudioClient<
     // Data is binary - no encoding conversion needed
     const encryptedData = encryptedSlice.encryptedData;
     const metadata: CryptoMetadata = { iv: encryptedSlice.iv };
+    const sliceKey = encryptedSlice.keyEpoch === undefined
+      ? trackKey
+      : await this.epochKeys.get(trackKey, expected.sessionId, encryptedSlice.keyEpoch);
 
     // Decrypt using configurable processor
     // Type assertion is safe here because we know the encryption processor accepts TKey type
     const compressedData = await this.encryptionProcessor.decrypt(
       encryptedData,
-      trackKey as Parameters<TEncryptionProcessor['decrypt']>[1],
+      sliceKey as Parameters<TEncryptionProcessor['decrypt']>[1],
       metadata,
+      expected,
     );
 
     // Decompress using configurable processor
@@ -905,6 +1227,24 @@ export class SecureAudioClient<
     return await this.audioContext.decodeAudioData(compressedData);
   }
 
+  /**
+   * Drop the decoded samples that belong to neighbouring slices (gapless MP3 slices carry the
+   * encoder and decoder delays and a frame that primes the decoder)
+   */
+  private trimAudioBuffer(audioBuffer: AudioBuffer, trim: SliceTrim): AudioBuffer {
+    const start = Math.min(trim.start, audioBuffer.length);
+    const length = Math.max(1, audioBuffer.length - start - trim.end);
+    if (start === 0 && length === audioBuffer.length) {
+      return audioBuffer;
+    }
+
+    const trimmed = this.audioContext.createBuffer(audioBuffer.numberOfChannels, length, audioBuffer.sampleRate);
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+      trimmed.getChannelData(channel).set(audioBuffer.getChannelData(channel).subarray(start, start + length));
+    }
+    return trimmed;
+  }
+
   // Mark a slice as played for cleanup purposes (track-aware)
   markSlicePlayed(sequence: number, trackId?: string): void {
     const targetTrackId = trackId || this.activeTrackId;
@@ -970,7 +1310,17 @@ export class SecureAudioClient<
   getTotalDuration(): number {
     if (!this.sessionInfo)
       return 0;
-    return (this.sessionInfo.totalSlices * this.sessionInfo.sliceDuration) / 1000;
+    return this.getSliceTimings()?.duration ?? (this.sessionInfo.totalSlices * this.sessionInfo.sliceDuration) / 1000;
+  }
+
+  /**
+   * Exact slice start times and durations of a track (default: active track)
+   * Null until the server has published the timing table (e.g. while the audio is still uploading);
+   * every slice then lasts sessionInfo.sliceDuration
+   */
+  getSliceTimings(trackId?: string): SliceTimingTable | null {
+    const targetTrackId = trackId ?? this.activeTrackId;
+    return (targetTrackId && this.sliceTimings.get(targetTrackId)) || null;
   }
 
   // Clean up resources
@@ -979,6 +1329,7 @@ export class SecureAudioClient<
     this.cancelPendingLoads();
     this.audioBuffers.clear();
     this.playedSlices.clear();
+    this.sliceTimings.clear();
 
     // Clean up worker manager
     if (this.workerManager) {
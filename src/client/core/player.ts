@@ -22,6 +22,10 @@ export interface PlayerState {
 
 export interface PlayerConfig {
   bufferingTimeoutMs?: number; // Default: 10000ms (10 seconds)
+  /** How often to poll for new slices at the end of a session that is still receiving audio (default: 2000ms) */
+  growingSessionPollMs?: number;
+  /** How far behind the newest slice playback of a live session starts (default: 10000ms) */
+  liveLatencyMs?: number;
   bufferStrategy?: BufferManagementStrategy; // Default: BalancedBufferStrategy
   prefetchStrategy?: PrefetchStrategy; // Default: LinearPrefetchStrategy
   /** Enable smart prefetch of next track when approaching end (default: true) */
@@ -67,6 +71,8 @@ export class SecureAudioPlayer extends EventTarget {
     this.client = client;
     this.config = {
       bufferingTimeoutMs: 10000, // Default 10 seconds
+      growingSessionPollMs: 2000,
+      liveLatencyMs: 10000,
       smartPrefetchNextTrack: true, // Enable by default
       nextTrackPrefetchThreshold: 10, // Start prefetching 10 seconds before end
       ...config,
@@ -193,6 +199,11 @@ export class SecureAudioPlayer extends EventTarget {
       this._playbackStartTime = 0;
     }
 
+    // Live sessions start near the live edge unless resuming from pause
+    if (sessionInfo.isLive && !this._isPaused) {
+      this._currentSliceIndex = Math.max(this._currentSliceIndex, this.getLiveEdgeIndex(sessionInfo));
+    }
+
     await this.playCurrentSlice();
 
     // Start realtime progress updates
@@ -414,9 +425,10 @@ export class SecureAudioPlayer extends EventTarget {
       throw new Error('No session initialized');
     }
 
-    // Pre-calculate total duration for efficiency
+    // Pre-calculate total duration for efficiency (exact when the server published slice timings)
+    const sliceTimings = this.client.getSliceTimings();
     const sliceDurationSeconds = sessionInfo.sliceDuration / 1000;
-    const totalDuration = sessionInfo.totalSlices * sliceDurationSeconds;
+    const totalDuration = this.client.getTotalDuration();
 
     // Clamp timeSeconds to valid range for accuracy
     const clampedTime = Math.max(0, Math.min(timeSeconds, totalDuration - 0.01));
@@ -436,12 +448,14 @@ export class SecureAudioPlayer extends EventTarget {
     this._currentSeekOperationId = operationId;
 
     // Calculate target slice with high precision
-    const targetSliceIndex = Math.floor(clampedTime / sliceDurationSeconds);
-    let offsetWithinSlice = clampedTime - (targetSliceIndex * sliceDurationSeconds);
+    const targetSliceIndex = sliceTimings
+      ? sliceTimings.getSliceIndex(clampedTime)
+      : Math.floor(clampedTime / sliceDurationSeconds);
+    let offsetWithinSlice = clampedTime - this.getSliceStartTime(targetSliceIndex);
 
     // Optimize last slice handling
     if (targetSliceIndex === sessionInfo.totalSlices - 1) {
-      const lastSliceStartTime = targetSliceIndex * sliceDurationSeconds;
+      const lastSliceStartTime = this.getSliceStartTime(targetSliceIndex);
       const actualLastSliceDuration = totalDuration - lastSliceStartTime;
       offsetWithinSlice = Math.min(offsetWithinSlice, actualLastSliceDuration - 0.01);
     }
@@ -489,7 +503,7 @@ export class SecureAudioPlayer extends EventTarget {
         }, this.config.bufferingTimeoutMs!);
 
         try {
-          const sliceId = sessionInfo.sliceIds[targetSliceIndex];
+          const sliceId = await this.client.resolveSliceId(targetSliceIndex);
           if (!sliceId) {
             throw new Error(`No slice ID found for index ${targetSliceIndex}`);
           }
@@ -587,7 +601,7 @@ export class SecureAudioPlayer extends EventTarget {
     }
 
     // Load the slice using slice ID from session info
-    const sliceId = sessionInfo.sliceIds[sliceIndex];
+    const sliceId = await this.client.resolveSliceId(sliceIndex);
     if (!sliceId) {
       throw new Error(`No slice ID found for index ${sliceIndex}`);
     }
@@ -672,7 +686,7 @@ export class SecureAudioPlayer extends EventTarget {
       isBuffering: this._isBuffering,
       isEnded: this._isEnded,
       currentTime: this.getCurrentTime(),
-      duration: sessionInfo ? (sessionInfo.totalSlices * sessionInfo.sliceDuration) / 1000 : 0,
+      duration: this.client.getTotalDuration(),
       currentSlice: this._currentSliceIndex,
       totalSlices: sessionInfo ? sessionInfo.totalSlices : 0,
       // Multi-track info
@@ -702,6 +716,19 @@ export class SecureAudioPlayer extends EventTarget {
     return { bufferSize };
   }
 
+  /**
+   * Start time of a slice in seconds, from the slice timing table when available
+   */
+  private getSliceStartTime(sliceIndex: number): number {
+    const sliceTimings = this.client.getSliceTimings();
+    if (sliceTimings) {
+      return sliceTimings.getStartTime(sliceIndex);
+    }
+
+    const sessionInfo = this.client.getSessionInfo();
+    return sessionInfo ? (sliceIndex * sessionInfo.sliceDuration) / 1000 : 0;
+  }
+
   /**
    * Get current playback time in seconds
    */
@@ -710,7 +737,7 @@ export class SecureAudioPlayer extends EventTarget {
     if (!sessionInfo)
       return 0;
 
-    const sliceStartSeconds = (this._currentSliceIndex * sessionInfo.sliceDuration) / 1000;
+    const sliceStartSeconds = this.getSliceStartTime(this._currentSliceIndex);
 
     // When buffering, freeze time at current position
     if (this._isBuffering) {
@@ -755,7 +782,7 @@ export class SecureAudioPlayer extends EventTarget {
       }, this.config.bufferingTimeoutMs!);
 
       try {
-        const sliceId = sessionInfo.sliceIds[this._currentSliceIndex];
+        const sliceId = await this.client.resolveSliceId(this._currentSliceIndex);
         if (!sliceId) {
           throw new Error(`No slice ID found for index ${this._currentSliceIndex}`);
         }
@@ -835,14 +862,28 @@ export class SecureAudioPlayer extends EventTarget {
       return; // User paused, don't auto-advance
     }
 
-    // If current slice is the last slice, end playback
+    // If current slice is the last slice, end playback - unless the session is still receiving audio
     if (this._currentSliceIndex >= sessionInfo.totalSlices - 1) {
-      this.end();
-      return;
+      const hasMoreSlices = sessionInfo.isComplete === false && await this.waitForGrowingSession();
+      if (!hasMoreSlices) {
+        // A buffering timeout has already paused playback
+        if (this._isPlaying) {
+          this.end();
+        }
+        return;
+      }
     }
 
     this._currentSliceIndex++;
 
+    if (sessionInfo.isLive) {
+      // Keep the slice window fresh and skip ahead if playback fell out of it
+      this.client.refreshSessionInfo().catch(() => {});
+      if (this._currentSliceIndex < (sessionInfo.firstSliceIndex ?? 0)) {
+        this._currentSliceIndex = this.getLiveEdgeIndex(sessionInfo);
+      }
+    }
+
     if (this._currentSliceIndex < sessionInfo.totalSlices) {
       // Try to play next slice only if still playing
       let nextSliceData = this.client.getSliceData(this._currentSliceIndex);
@@ -862,7 +903,7 @@ export class SecureAudioPlayer extends EventTarget {
           if (!sessionInfo) {
             throw new Error('Session not initialized, cannot load slice');
           } else {
-            const sliceId = sessionInfo.sliceIds[this._currentSliceIndex];
+            const sliceId = await this.client.resolveSliceId(this._currentSliceIndex);
             if (sliceId) {
               nextSliceData = await this.client.loadSlice(sliceId);
 
@@ -886,6 +927,47 @@ export class SecureAudioPlayer extends EventTarget {
     }
   }
 
+  /**
+   * Index of the slice that lags the newest slice of a live session by liveLatencyMs
+   */
+  private getLiveEdgeIndex(sessionInfo: SessionInfo): number {
+    const latencySlices = Math.max(1, Math.ceil(this.config.liveLatencyMs! / sessionInfo.sliceDuration));
+    return Math.max(sessionInfo.firstSliceIndex ?? 0, sessionInfo.totalSlices - latencySlices);
+  }
+
+  /**
+   * Buffer at the last known slice of a session that is still receiving audio
+   * Polls for new slices until they appear, the upload completes or the buffering timeout expires
+   * @returns true if slices after the current one are available
+   */
+  private async waitForGrowingSession(): Promise<boolean> {
+    const sliceIndex = this._currentSliceIndex;
+
+    this.enterBufferingState();
+    this._bufferingTimeout = window.setTimeout(() => {
+      this.handleBufferingTimeout(sliceIndex);
+    }, this.config.bufferingTimeoutMs!);
+
+    while (this._isBuffering && this._isPlaying) {
+      await new Promise(resolve => window.setTimeout(resolve, this.config.growingSessionPollMs!));
+      if (!this._isBuffering || !this._isPlaying) {
+        break;
+      }
+
+      try {
+        const sessionInfo = await this.client.refreshSessionInfo();
+        if (sessionInfo.totalSlices > sliceIndex + 1 || sessionInfo.isComplete !== false) {
+          this.exitBufferingState();
+          return sessionInfo.totalSlices > sliceIndex + 1;
+        }
+      } catch {
+        // Keep polling until the buffering timeout expires
+      }
+    }
+
+    return false;
+  }
+
   /**
    * Set volume (0-1)
    */
@@ -1115,7 +1197,7 @@ export class SecureAudioPlayer extends EventTarget {
       if (this.client.isSliceAvailable(sliceIndex))
         continue;
 
-      const sliceId = sessionInfo.sliceIds[sliceIndex];
+      const sliceId = this.client.getSliceId(sliceIndex);
       if (!sliceId)
         continue;
 
@@ -1219,7 +1301,7 @@ export class SecureAudioPlayer extends EventTarget {
         this.handleBufferingTimeout(this._currentSliceIndex);
       }, Math.floor(this.config.bufferingTimeoutMs! / 2)); // Shorter timeout for manual retry
 
-      const sliceId = sessionInfo.sliceIds[this._currentSliceIndex];
+      const sliceId = await this.client.resolveSliceId(this._currentSliceIndex);
       if (!sliceId) {
         throw new Error(`No slice ID found for index ${this._currentSliceIndex}`);
       }
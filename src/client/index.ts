@@ -7,11 +7,62 @@ export {
 export {
   EcdhP256KeyExchangeProcessor,
 } from '../shared/crypto/key-exchange/ecdh-p256-processor.js';
+export { EcdhP384KeyExchangeProcessor } from '../shared/crypto/key-exchange/ecdh-p384-processor.js';
+export { EcdhKeyExchangeProcessor } from '../shared/crypto/key-exchange/ecdh-processor.js';
+export type { ECDHKeyExchangeMetadata } from '../shared/crypto/key-exchange/ecdh-processor.js';
+export { NegotiatedKeyExchangeProcessor } from '../shared/crypto/key-exchange/negotiated-processor.js';
+export type { NegotiatedKeyExchangeRequestMetadata } from '../shared/crypto/key-exchange/negotiated-processor.js';
+export { SignedEcdhP256KeyExchangeProcessor } from '../shared/crypto/key-exchange/signed-ecdh-p256-processor.js';
+export { X25519KeyExchangeProcessor } from '../shared/crypto/key-exchange/x25519-processor.js';
+export { isCurveSupported, KEY_EXCHANGE_CURVES } from '../shared/crypto/key-management.js';
+export type { KeyExchangeCurve } from '../shared/crypto/key-management.js';
+// Key rotation
+export { deriveEpochKey, EpochKeyCache, getKeyEpoch } from '../shared/crypto/key-rotation.js';
 // Encryption processors
 export {
   AesGcmEncryptionProcessor,
+  HkdfAesGcmEncryptionProcessor,
   XorStreamCipherProcessor,
 } from '../shared/crypto/processors/index.js';
+// Slice request proofs
+export { createSliceRequestProof, deriveRequestProofKey, verifySliceRequestProof } from '../shared/crypto/request-proof.js';
+export type { SliceRequestProof } from '../shared/crypto/request-proof.js';
+// Server identity (authenticated key exchange)
+export { importServerIdentityPublicKey, verifyKeyExchange } from '../shared/crypto/server-identity.js';
+export type { KeyExchangeTranscript } from '../shared/crypto/server-identity.js';
+
+// HTTP wire protocol (for custom transports)
+export {
+  apiRoutes,
+  AUDIO_FORM_FIELD,
+  DEFAULT_API_BASE_PATH,
+  formatSliceRequestProof,
+  parseSliceRequestProof,
+  SLICE_CONTENT_TYPE,
+  SLICE_PROOF_HEADER,
+} from '../shared/protocol/http.js';
+export type { ApiErrorBody } from '../shared/protocol/http.js';
+export {
+  assertSliceIdentity,
+  assertSliceProcessors,
+  decodeSlice,
+  encodeSlice,
+  getSliceEncryptionOptions,
+  getSliceSessionId,
+  SLICE_ENVELOPE_MAGIC,
+  SLICE_ENVELOPE_VERSION,
+  SliceEnvelopeError,
+} from '../shared/protocol/slice-envelope.js';
+export type {
+  DecodeSliceOptions,
+  EncodeSliceOptions,
+  SliceEnvelopeErrorCode,
+} from '../shared/protocol/slice-envelope.js';
+export { decryptSliceIds, encryptSliceIds } from '../shared/protocol/slice-ids.js';
+export type { EncryptedSliceIds } from '../shared/protocol/slice-ids.js';
+export { decryptSliceTimings, encryptSliceTimings, SliceTimingTable } from '../shared/protocol/slice-timings.js';
+export type { EncryptedSliceTimings } from '../shared/protocol/slice-timings.js';
+export { decodeSliceTrim, encodeSliceTrim, SLICE_TRIM_MAGIC } from '../shared/protocol/slice-trim.js';
 
 // Slice ID generators
 export {
@@ -27,6 +78,9 @@ export type {
   LegacyKeyExchangeRequest as KeyExchangeRequest,
   LegacyKeyExchangeResponse as KeyExchangeResponse,
   SessionInfo,
+  SliceProcessorIds,
+  SliceRequest,
+  SliceTrim,
   TrackInfo,
 } from '../shared/types/interfaces.js';
 
@@ -48,6 +102,7 @@ export type {
   CryptoMetadata,
   EncryptionOptions,
   EncryptionProcessor,
+  SliceEncryptionOptions,
 } from '../shared/types/processors.js';
 export type {
   KeyExchangeProcessor,
@@ -70,16 +125,23 @@ export { SecureAudioPlayer } from './core/player.js';
 // ============================================================================
 
 export type { PlayerConfig, PlayerEvent, PlayerState } from './core/player.js';
+// Built-in HTTP transport for the SecureAudioAPI wire protocol
+export { FetchTransport } from './network/fetch-transport.js';
+export type { FetchTransportConfig } from './network/fetch-transport.js';
+
 // Network utilities and error types
 export { RetryManager } from './network/retry-manager.js';
 export type { RetryConfig } from './network/retry-manager.js';
-
-// Transport interface - developers implement this
+// Transport interface - developers implement this (or use FetchTransport)
 export type { Transport } from './network/transport.js';
 export {
   DecodingError,
   DecryptionError,
+  HttpError,
+  KeyExchangeAuthenticationError,
   NetworkError,
+  RequestAbortedError,
+  TimeoutError,
 } from './network/transport.js';
 
 export {
@@ -0,0 +1,286 @@
+import type { SliceRequestProof } from '../../shared/crypto/request-proof.js';
+import type { ApiErrorBody } from '../../shared/protocol/http.js';
+import type { EncryptedSliceIds } from '../../shared/protocol/slice-ids.js';
+import type { EncryptedSlice, SessionInfo, TrackInfo } from '../../shared/types/interfaces.js';
+import type { KeyExchangeRequest, KeyExchangeResponse } from '../../shared/types/processors.js';
+import type { Transport } from './transport.js';
+import {
+  apiRoutes,
+  AUDIO_FORM_FIELD,
+  DEFAULT_API_BASE_PATH,
+  formatSliceRequestProof,
+  SLICE_CONTENT_TYPE,
+  SLICE_PROOF_HEADER,
+} from '../../shared/protocol/http.js';
+import { decodeSlice, SliceEnvelopeError } from '../../shared/protocol/slice-envelope.js';
+import { HttpError, NetworkError, RequestAbortedError, TimeoutError } from './transport.js';
+
+/**
+ * Configuration options for FetchTransport
+ */
+export interface FetchTransportConfig {
+  /** Server origin, e.g. 'https://audio.example.com'. Default: '' (same origin) */
+  baseUrl?: string;
+  /** Path prefix the server API is mounted under. Default: '/api' */
+  basePath?: string;
+  /**
+   * Extra request headers, or a function resolving them per request
+   * Use the function form for auth tokens that may be refreshed
+   */
+  headers?: HeadersInit | (() => HeadersInit | Promise<HeadersInit>);
+  /** Credentials mode passed to fetch (e.g. 'include' for cookie auth) */
+  credentials?: RequestCredentials;
+  /** Per-request timeout in milliseconds, 0 disables. Default: 30000 */
+  timeoutMs?: number;
+  /** Custom fetch implementation. Default: globalThis.fetch */
+  fetch?: typeof fetch;
+  /**
+   * Session tokens by session ID, sent as Authorization: Bearer on that session's requests
+   * Tokens returned by createSession are added automatically; see setSessionToken
+   */
+  sessionTokens?: Record<string, string>;
+}
+
+type TrackMetadata = Parameters<Transport['addTrack']>[2];
+
+/**
+ * Built-in Transport speaking the wire protocol served by SecureAudioAPI
+ * Failures are reported as NetworkError subclasses: HttpError, TimeoutError, RequestAbortedError
+ */
+export class FetchTransport implements Transport {
+  private readonly apiUrl: string;
+  private readonly headers?: FetchTransportConfig['headers'];
+  private readonly credentials?: RequestCredentials;
+  private readonly timeoutMs: number;
+  private readonly fetchImpl: typeof fetch;
+  private readonly sessionTokens: Map<string, string>;
+
+  constructor(config: FetchTransportConfig = {}) {
+    const baseUrl = (config.baseUrl ?? '').replace(/\/+$/, '');
+    const basePath = (config.basePath ?? DEFAULT_API_BASE_PATH).replace(/\/+$/, '');
+    this.apiUrl = `${baseUrl}${basePath}`;
+    this.headers = config.headers;
+    this.credentials = config.credentials;
+    this.timeoutMs = config.timeoutMs ?? 30000;
+    this.fetchImpl = config.fetch ?? ((input, init) => globalThis.fetch(input, init));
+    this.sessionTokens = new Map(Object.entries(config.sessionTokens ?? {}));
+  }
+
+  /**
+   * Set (or with null, forget) the session token sent with a session's requests
+   * Use it for tokens issued to listeners or refreshed before they expire
+   */
+  setSessionToken(sessionId: string, token: string | null): void {
+    if (token === null) {
+      this.sessionTokens.delete(sessionId);
+    } else {
+      this.sessionTokens.set(sessionId, token);
+    }
+  }
+
+  async createSession(audioData: File | ArrayBuffer): Promise<string> {
+    const { sessionId, token } = await this.request(apiRoutes.sessions(), {
+      method: 'POST',
+      body: this.createAudioBody(audioData),
+    }, async response => await this.readJson<{ sessionId: string; token?: string }>(response));
+    if (token) {
+      this.sessionTokens.set(sessionId, token);
+    }
+    return sessionId;
+  }
+
+  async performKeyExchange<TRequestData = unknown, TResponseData = unknown, TSessionInfo = SessionInfo>(
+    sessionId: string,
+    request: KeyExchangeRequest<TRequestData>,
+    trackId?: string,
+  ): Promise<KeyExchangeResponse<TResponseData, TSessionInfo>> {
+    return await this.request(this.withTrack(apiRoutes.keyExchange(sessionId), trackId), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.authorizationHeader(sessionId) },
+      body: JSON.stringify(request),
+    }, async response => await this.readJson<KeyExchangeResponse<TResponseData, TSessionInfo>>(response));
+  }
+
+  async getSessionInfo(sessionId: string): Promise<SessionInfo> {
+    return await this.request(
+      apiRoutes.info(sessionId),
+      { method: 'GET', headers: this.authorizationHeader(sessionId) },
+      async response => await this.readJson<SessionInfo>(response),
+    );
+  }
+
+  async fetchSlice(
+    sessionId: string,
+    sliceId: string,
+    trackId?: string,
+    signal?: AbortSignal,
+    proof?: SliceRequestProof,
+  ): Promise<EncryptedSlice> {
+    const headers: Record<string, string> = { Accept: SLICE_CONTENT_TYPE, ...this.authorizationHeader(sessionId) };
+    if (proof) {
+      headers[SLICE_PROOF_HEADER] = formatSliceRequestProof(proof);
+    }
+    return await this.request(this.withTrack(apiRoutes.slice(sessionId, sliceId), trackId), {
+      method: 'GET',
+      headers,
+    }, async response => await this.readSlice(response, sliceId), signal);
+  }
+
+  async resolveSliceIds(sessionId: string, sliceIndex: number, trackId?: string): Promise<EncryptedSliceIds> {
+    return await this.request(this.withTrack(apiRoutes.sliceIds(sessionId, sliceIndex), trackId), {
+      method: 'GET',
+      headers: this.authorizationHeader(sessionId),
+    }, async response => await this.readJson<EncryptedSliceIds>(response));
+  }
+
+  async addTrack(sessionId: string, audioData: File | ArrayBuffer, metadata?: TrackMetadata): Promise<TrackInfo> {
+    const formData = new FormData();
+    formData.append(AUDIO_FORM_FIELD, audioData instanceof Blob ? audioData : new Blob([audioData]));
+    for (const [name, value] of Object.entries(metadata ?? {})) {
+      if (value) {
+        formData.append(name, value);
+      }
+    }
+
+    return await this.request(apiRoutes.tracks(sessionId), {
+      method: 'POST',
+      headers: this.authorizationHeader(sessionId),
+      body: formData,
+    }, async response => await this.readJson<TrackInfo>(response));
+  }
+
+  async removeTrack(sessionId: string, trackIdOrIndex: string | number): Promise<SessionInfo> {
+    return await this.request(apiRoutes.track(sessionId, trackIdOrIndex), {
+      method: 'DELETE',
+      headers: this.authorizationHeader(sessionId),
+    }, async response => await this.readJson<SessionInfo>(response));
+  }
+
+  /**
+   * Destroy a session on the server (not part of the Transport interface)
+   */
+  async destroySession(sessionId: string): Promise<void> {
+    await this.request(apiRoutes.session(sessionId), { method: 'DELETE', headers: this.authorizationHeader(sessionId) }, async() => {});
+    this.sessionTokens.delete(sessionId);
+  }
+
+  /**
+   * Perform a request with configured headers, timeout and cancellation
+   * The timeout and signal also cover reading the body through readBody.
+   * Non-2xx responses are converted to HttpError
+   */
+  private async request<T>(
+    path: string,
+    init: RequestInit,
+    readBody: (response: Response) => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const url = `${this.apiUrl}${path}`;
+
+    if (signal?.aborted) {
+      throw new RequestAbortedError(`Request to ${url} was aborted`);
+    }
+
+    const headers = new Headers(typeof this.headers === 'function' ? await this.headers() : this.headers);
+    new Headers(init.headers).forEach((value, name) => headers.set(name, value));
+
+    const controller = new AbortController();
+    // Custom fetch implementations may not stop a stalled body when the signal aborts
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+    });
+    aborted.catch(() => {});
+    const onAbort = (): void => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    let timedOut = false;
+    const timeout = this.timeoutMs > 0
+      ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, this.timeoutMs)
+      : undefined;
+
+    try {
+      const response = await Promise.race([
+        this.fetchImpl(url, {
+          ...init,
+          headers,
+          credentials: this.credentials,
+          signal: controller.signal,
+        }),
+        aborted,
+      ]);
+
+      if (!response.ok) {
+        throw await Promise.race([this.createHttpError(response, url), aborted]);
+      }
+
+      return await Promise.race([readBody(response), aborted]);
+    } catch(error) {
+      // Checked first: aborted body reads surface as read errors
+      if (timedOut) {
+        throw new TimeoutError(`Request to ${url} timed out after ${this.timeoutMs}ms`, this.timeoutMs);
+      }
+      if (signal?.aborted) {
+        throw new RequestAbortedError(`Request to ${url} was aborted`, error as Error);
+      }
+      if (error instanceof NetworkError) {
+        throw error;
+      }
+      throw new NetworkError(`Request to ${url} failed`, error as Error);
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private async createHttpError(response: Response, url: string): Promise<HttpError> {
+    let body: Partial<ApiErrorBody> = {};
+    try {
+      body = await response.json() as Partial<ApiErrorBody>;
+    } catch {
+      // Not a JSON error body (e.g. proxy error page)
+    }
+
+    const message = body.error ?? `HTTP ${response.status}: ${response.statusText}`;
+    return new HttpError(message, response.status, url, body.code);
+  }
+
+  private async readSlice(response: Response, sliceId: string): Promise<EncryptedSlice> {
+    try {
+      return decodeSlice(await response.arrayBuffer());
+    } catch(error) {
+      if (error instanceof SliceEnvelopeError) {
+        throw new NetworkError(`Invalid slice envelope for ${sliceId}: ${error.message}`, error);
+      }
+      throw new NetworkError(`Failed to read slice ${sliceId}`, error as Error);
+    }
+  }
+
+  private async readJson<T>(response: Response): Promise<T> {
+    try {
+      return await response.json() as T;
+    } catch(error) {
+      throw new NetworkError(`Invalid JSON response from ${response.url || this.apiUrl}`, error as Error);
+    }
+  }
+
+  private createAudioBody(audioData: File | ArrayBuffer): BodyInit {
+    if (audioData instanceof Blob) {
+      const formData = new FormData();
+      formData.append(AUDIO_FORM_FIELD, audioData);
+      return formData;
+    }
+    return audioData;
+  }
+
+  private authorizationHeader(sessionId: string): Record<string, string> {
+    const token = this.sessionTokens.get(sessionId);
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  }
+
+  private withTrack(path: string, trackId?: string): string {
+    return trackId ? `${path}${path.includes('?') ? '&' : '?'}trackId=${encodeURIComponent(trackId)}` : path;
+  }
+}
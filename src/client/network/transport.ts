@@ -1,3 +1,5 @@
+import type { SliceRequestProof } from '../../shared/crypto/request-proof.js';
+import type { EncryptedSliceIds } from '../../shared/protocol/slice-ids.js';
 import type { EncryptedSlice, SessionInfo, TrackInfo } from '../../shared/types/interfaces.js';
 import type { KeyExchangeRequest, KeyExchangeResponse } from '../../shared/types/processors.js';
 
@@ -40,8 +42,26 @@ export interface Transport {
    * @param sessionId - Session identifier
    * @param sliceId - Slice identifier
    * @param trackId - Optional track ID for multi-track sessions
+   * @param signal - Aborted when the slice is no longer needed (seek, track switch, destroy)
+   * @param proof - Proof of the session key, set when the server requires slice request proofs
+   *                (SessionInfo.sliceRequestProofs); send it along, e.g. formatted with formatSliceRequestProof
    */
-  fetchSlice: (sessionId: string, sliceId: string, trackId?: string) => Promise<EncryptedSlice>;
+  fetchSlice: (
+    sessionId: string,
+    sliceId: string,
+    trackId?: string,
+    signal?: AbortSignal,
+    proof?: SliceRequestProof
+  ) => Promise<EncryptedSlice>;
+
+  /**
+   * Resolve a slice position to slice IDs (optional, required for rolling slice ID disclosure)
+   * Developer decides: how to request the lookup, how to parse the response
+   * @param sessionId - Session identifier
+   * @param sliceIndex - Index of the first slice to resolve
+   * @param trackId - Optional track ID for multi-track sessions
+   */
+  resolveSliceIds?: (sessionId: string, sliceIndex: number, trackId?: string) => Promise<EncryptedSliceIds>;
 
   /**
    * Add a new track to an existing session (incremental track addition)
@@ -75,6 +95,58 @@ export class NetworkError extends Error {
   }
 }
 
+/**
+ * Indicates the server answered with a non-success HTTP status
+ */
+export class HttpError extends NetworkError {
+  public readonly status: number;
+  /** Machine-readable error code from the response body, if provided */
+  public readonly code?: string;
+  public readonly url: string;
+
+  constructor(message: string, status: number, url: string, code?: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.url = url;
+    this.code = code;
+  }
+}
+
+/**
+ * Indicates a request did not complete within the configured timeout
+ */
+export class TimeoutError extends NetworkError {
+  public readonly timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number) {
+    super(message);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Indicates a request was cancelled through its AbortSignal
+ */
+export class RequestAbortedError extends NetworkError {
+  constructor(message: string, cause?: Error) {
+    super(message, cause);
+    this.name = 'RequestAbortedError';
+  }
+}
+
+/**
+ * Indicates the key exchange response was not signed by the pinned server identity key
+ * The exchange is rejected: the transport may be intercepted
+ */
+export class KeyExchangeAuthenticationError extends NetworkError {
+  constructor(message: string, cause?: Error) {
+    super(message, cause);
+    this.name = 'KeyExchangeAuthenticationError';
+  }
+}
+
 /**
  * Indicates a decryption failure during slice processing
  */
@@ -37,6 +37,7 @@
  */
 
 import type { EncryptedSlice } from '../../shared/types/interfaces.js';
+import type { SliceEncryptionOptions } from '../../shared/types/processors.js';
 import type {
   DecryptionWorkerConfig,
   WorkerErrorResponse,
@@ -44,6 +45,7 @@ import type {
   WorkerResponse,
   WorkerSuccessResponse,
 } from './decryption-worker-types.js';
+import { encodeSlice } from '../../shared/protocol/slice-envelope.js';
 
 interface PendingTask {
   taskId: string;
@@ -160,10 +162,13 @@ export class DecryptionWorkerManager {
 
   /**
    * Decrypt a slice using a worker from the pool
+   * Pass the session key, not an epoch key: the worker derives the key of the slice's key epoch.
+   * The worker decrypts with the options of the requested slice and rejects slices claiming others
    */
   async decryptSlice(
     encryptedSlice: EncryptedSlice,
     sessionKey: ArrayBuffer | string,
+    options: SliceEncryptionOptions,
   ): Promise<ArrayBuffer> {
     if (!this.isInitialized) {
       throw new Error('DecryptionWorkerManager not initialized');
@@ -184,7 +189,7 @@ export class DecryptionWorkerManager {
 
       // Queue the task
       this.taskQueue.push(() => {
-        this.sendDecryptTask(taskId, encryptedSlice, sessionKey);
+        this.sendDecryptTask(taskId, encryptedSlice, sessionKey, options);
       });
 
       // Process queue
@@ -199,35 +204,31 @@ export class DecryptionWorkerManager {
     taskId: string,
     encryptedSlice: EncryptedSlice,
     sessionKey: ArrayBuffer | string,
+    options: SliceEncryptionOptions,
   ): void {
     const worker = this.workers[this.nextWorkerIndex];
     this.nextWorkerIndex = (this.nextWorkerIndex + 1) % this.workers.length;
 
-    const message: WorkerMessage = {
-      type: 'decrypt',
-      taskId,
-      encryptedSlice,
-      sessionKey,
-    };
+    // One envelope buffer instead of separate data/IV buffers; the integrity tag is
+    // unnecessary for an in-memory hand-off
+    const envelope = encodeSlice(encryptedSlice, { integrity: false });
 
     // Transfer ArrayBuffers for zero-copy performance
-    const transferList: Transferable[] = [];
+    const transferList: Transferable[] = [envelope];
     if (sessionKey instanceof ArrayBuffer) {
       // Clone sessionKey since it's reused across tasks
       sessionKey = sessionKey.slice(0);
       transferList.push(sessionKey);
     }
 
-    // Clone encrypted data and IV to transfer
-    const encryptedData = encryptedSlice.encryptedData.slice(0);
-    const iv = encryptedSlice.iv.slice(0);
-    transferList.push(encryptedData, iv);
-
-    // Update message with cloned buffers
-    message.encryptedSlice = {
-      ...encryptedSlice,
-      encryptedData,
-      iv,
+    const message: WorkerMessage = {
+      type: 'decrypt',
+      taskId,
+      envelope,
+      sliceId: encryptedSlice.id,
+      sessionId: encryptedSlice.sessionId,
+      sessionKey,
+      options,
     };
 
     worker.postMessage(message, transferList);
@@ -3,7 +3,7 @@
  * Enables offloading crypto operations to background threads
  */
 
-import type { EncryptedSlice } from '../../shared/types/interfaces.js';
+import type { SliceEncryptionOptions } from '../../shared/types/processors.js';
 
 /**
  * Message types for worker communication
@@ -25,8 +25,14 @@ export interface WorkerInitMessage {
 export interface WorkerDecryptMessage {
   type: 'decrypt';
   taskId: string;
-  encryptedSlice: EncryptedSlice;
-  sessionKey: ArrayBuffer | string; // Transferable types only
+  /** Slice encoded with encodeSlice - a single transferable buffer */
+  envelope: ArrayBuffer;
+  /** Kept outside the envelope for error reporting */
+  sliceId: string;
+  sessionId: string;
+  sessionKey: ArrayBuffer | string; // Transferable types only; epoch keys are derived in the worker
+  /** Identity of the requested slice, used for decryption instead of the envelope's */
+  options: SliceEncryptionOptions;
 }
 
 /**
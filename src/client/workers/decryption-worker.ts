@@ -15,11 +15,14 @@
  * - ArrayBuffer and Transferable support
  */
 
-import type { CompressionProcessor, CryptoMetadata, EncryptionProcessor } from '../../shared/types/processors.js';
+import type { CompressionProcessor, CryptoMetadata, EncryptionProcessor, SliceEncryptionOptions } from '../../shared/types/processors.js';
 import type { WorkerMessage, WorkerResponse } from './decryption-worker-types.js';
 import { DeflateCompressionProcessor } from '../../shared/compression/processors/deflate-processor.js';
+import { deriveEpochKey } from '../../shared/crypto/key-rotation.js';
 import { AesGcmEncryptionProcessor } from '../../shared/crypto/processors/aes-gcm-processor.js';
+import { HkdfAesGcmEncryptionProcessor } from '../../shared/crypto/processors/hkdf-aes-gcm-processor.js';
 import { XorStreamCipherProcessor } from '../../shared/crypto/processors/xor-cipher-processor.js';
+import { assertSliceIdentity, decodeSlice } from '../../shared/protocol/slice-envelope.js';
 
 // Verify we're in a Web Worker context
 if (typeof self === 'undefined') {
@@ -52,6 +55,9 @@ function initializeProcessors(compressionName: string, encryptionName: string):
     case 'AesGcmEncryptionProcessor':
       encryptionProcessor = new AesGcmEncryptionProcessor();
       break;
+    case 'HkdfAesGcmEncryptionProcessor':
+      encryptionProcessor = new HkdfAesGcmEncryptionProcessor() as unknown as EncryptionProcessor;
+      break;
     case 'XorStreamCipherProcessor':
       encryptionProcessor = new XorStreamCipherProcessor() as unknown as EncryptionProcessor;
       break;
@@ -66,7 +72,8 @@ function initializeProcessors(compressionName: string, encryptionName: string):
 async function decryptSlice(
   encryptedData: ArrayBuffer,
   iv: ArrayBuffer,
-  sessionKey: ArrayBuffer | string,
+  sessionKey: ArrayBuffer | string | CryptoKey,
+  options: SliceEncryptionOptions,
 ): Promise<ArrayBuffer> {
   if (!compressionProcessor || !encryptionProcessor) {
     throw new Error('Processors not initialized');
@@ -79,6 +86,7 @@ async function decryptSlice(
     encryptedData,
     sessionKey as Parameters<EncryptionProcessor['decrypt']>[1],
     metadata,
+    options,
   );
 
   // Decompress
@@ -107,13 +115,32 @@ self.onmessage = async(event: MessageEvent<WorkerMessage>) => {
 
       case 'decrypt': {
         operation = 'decrypt';
-        const { taskId: msgTaskId, encryptedSlice, sessionKey } = message;
+        const { taskId: msgTaskId, envelope, sessionKey, options } = message;
         taskId = msgTaskId;
 
+        // Reject slices produced by other processors before touching the key
+        const encryptedSlice = decodeSlice(envelope, {
+          expectedProcessors: {
+            compression: compressionProcessor?.getName(),
+            encryption: encryptionProcessor?.getName(),
+          },
+        });
+        assertSliceIdentity(encryptedSlice, options);
+
+        // Rotating-key slices use the epoch key derived from the raw session key
+        let sliceKey: ArrayBuffer | string | CryptoKey = sessionKey;
+        if (encryptedSlice.keyEpoch !== undefined) {
+          if (!(sessionKey instanceof ArrayBuffer)) {
+            throw new TypeError('Key rotation requires a raw (ArrayBuffer) session key');
+          }
+          sliceKey = await deriveEpochKey(sessionKey, options.sessionId, encryptedSlice.keyEpoch);
+        }
+
         const decryptedData = await decryptSlice(
           encryptedSlice.encryptedData,
           encryptedSlice.iv,
-          sessionKey,
+          sliceKey,
+          options,
         );
 
         const response: WorkerResponse = {
@@ -155,11 +182,10 @@ self.onmessage = async(event: MessageEvent<WorkerMessage>) => {
       });
     } else if (message.type === 'decrypt') {
       Object.assign(errorContext, {
-        sliceId: message.encryptedSlice.id,
-        sessionId: message.encryptedSlice.sessionId,
+        sliceId: message.sliceId,
+        sessionId: message.sessionId,
         taskId: message.taskId,
-        encryptedDataSize: message.encryptedSlice.encryptedData.byteLength,
-        ivSize: message.encryptedSlice.iv.byteLength,
+        envelopeSize: message.envelope.byteLength,
       });
     }
 
@@ -172,8 +198,8 @@ self.onmessage = async(event: MessageEvent<WorkerMessage>) => {
         error: errorMessage,
         errorDetails: {
           operation: 'decrypt',
-          sliceId: message.encryptedSlice.id,
-          sessionId: message.encryptedSlice.sessionId,
+          sliceId: message.sliceId,
+          sessionId: message.sessionId,
           processorName: `${compressionProcessor?.getName() || 'unknown'}/${encryptionProcessor?.getName() || 'unknown'}`,
           stack: errorStack,
         },
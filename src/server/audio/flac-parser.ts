@@ -0,0 +1,456 @@
+/**
+ * FLAC parsing utilities for frame-aligned slicing
+ * Slices hold whole frames behind a "fLaC" marker and STREAMINFO block, so every slice is
+ * a complete FLAC stream that decodes on its own and stays bit-exact
+ */
+
+// "fLaC" stream marker
+const FLAC_MARKER = 0x664C6143;
+
+// Metadata block types
+const STREAMINFO_TYPE = 0;
+const SEEKTABLE_TYPE = 3;
+
+// STREAMINFO block data length
+const STREAMINFO_LENGTH = 34;
+
+// Seek points of placeholder entries
+const PLACEHOLDER_SEEK_POINT = 0xFFFFFFFF;
+
+// CRC-8 of frame headers (polynomial 0x07) and CRC-16 of frames (polynomial 0x8005)
+const CRC8_TABLE = createCrcTable(0x07, 8);
+const CRC16_TABLE = createCrcTable(0x8005, 16);
+
+export interface FlacStreamInfo {
+  minBlockSize: number;
+  maxBlockSize: number;
+  sampleRate: number;
+  channels: number;
+  bitDepth: number;
+  totalSamples: number; // 0 if the encoder did not know it
+  /** STREAMINFO block data, copied into every slice */
+  streamInfo: Uint8Array;
+  /** Bytes of the marker and metadata blocks; the first frame follows */
+  headerLength: number;
+  /** SEEKTABLE points (placeholders removed): first sample and byte offset of a frame */
+  seekPoints: Array<{ sample: number; offset: number }>;
+}
+
+export interface FlacFrameHeader {
+  headerLength: number; // Including the CRC-8
+  blockSize: number; // Samples per channel
+  variableBlockSize: boolean; // Coded number is a sample number (else a frame number)
+  numberLength: number; // Bytes of the coded number, which starts at byte 4
+}
+
+/**
+ * Frame index of a FLAC stream for frame-aligned slicing
+ * Either every frame (scanned) or the frames named by the SEEKTABLE; slices read from the
+ * nearest known frames and locate the others while assembling
+ */
+export interface FlacFrameMap {
+  headerLength: number;
+  streamInfo: Uint8Array;
+  /** Byte offsets and first samples of the known frames */
+  frameOffsets: number[];
+  frameSamples: number[];
+  /** Whether the frames come from the SEEKTABLE rather than from scanning every frame */
+  seekTable: boolean;
+  /** Samples of the stream (scanned maps: of the frames found so far) */
+  totalSamples: number;
+}
+
+/**
+ * Byte range of a slice and the first sample of the frame it starts with (see findFlacSliceRange)
+ */
+export interface FlacSliceRange {
+  start: number;
+  end: number;
+  firstSample: number;
+}
+
+/**
+ * Parse STREAMINFO and SEEKTABLE from the metadata blocks of a FLAC stream
+ * @returns null if the stream is not FLAC or its metadata blocks are incomplete
+ */
+export function parseFlacStreamInfo(buffer: ArrayBuffer): FlacStreamInfo | null {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 8 || view.getUint32(0, false) !== FLAC_MARKER) {
+    return null;
+  }
+
+  let streamInfo: Uint8Array | null = null;
+  const seekPoints: FlacStreamInfo['seekPoints'] = [];
+  let offset = 4;
+  while (true) {
+    if (offset + 4 > buffer.byteLength) {
+      return null;
+    }
+    const blockHeader = view.getUint32(offset, false);
+    const isLast = (blockHeader >>> 31) === 1;
+    const blockType = (blockHeader >>> 24) & 0x7F;
+    const blockLength = blockHeader & 0xFFFFFF;
+    const dataOffset = offset + 4;
+    if (dataOffset + blockLength > buffer.byteLength) {
+      return null;
+    }
+
+    if (blockType === STREAMINFO_TYPE && blockLength >= STREAMINFO_LENGTH) {
+      streamInfo = new Uint8Array(buffer.slice(dataOffset, dataOffset + STREAMINFO_LENGTH));
+    } else if (blockType === SEEKTABLE_TYPE) {
+      for (let point = dataOffset; point + 18 <= dataOffset + blockLength; point += 18) {
+        if (view.getUint32(point, false) !== PLACEHOLDER_SEEK_POINT) {
+          seekPoints.push({ sample: readUint64(view, point), offset: readUint64(view, point + 8) });
+        }
+      }
+    }
+
+    offset = dataOffset + blockLength;
+    if (isLast) {
+      break;
+    }
+  }
+  if (!streamInfo) {
+    return null;
+  }
+
+  const info = new DataView(streamInfo.buffer);
+  return {
+    minBlockSize: info.getUint16(0, false),
+    maxBlockSize: info.getUint16(2, false),
+    // 20 bits sample rate, 3 bits channels - 1, 5 bits bits per sample - 1, 36 bits total samples
+    sampleRate: info.getUint32(10, false) >>> 12,
+    channels: ((info.getUint8(12) >> 1) & 0x7) + 1,
+    bitDepth: (((info.getUint8(12) & 0x1) << 4) | (info.getUint8(13) >> 4)) + 1,
+    totalSamples: (info.getUint8(13) & 0xF) * 2 ** 32 + info.getUint32(14, false),
+    streamInfo,
+    headerLength: offset,
+    seekPoints,
+  };
+}
+
+/**
+ * Parse and verify (CRC-8) the frame header at offset
+ * @returns null if there is no valid frame header, or it extends past end
+ */
+export function parseFlacFrameHeader(bytes: Uint8Array, offset: number, end: number = bytes.length): FlacFrameHeader | null {
+  if (offset + 6 > end || bytes[offset] !== 0xFF || (bytes[offset + 1] & 0xFE) !== 0xF8) {
+    return null;
+  }
+
+  const blockSizeCode = bytes[offset + 2] >> 4;
+  const sampleRateCode = bytes[offset + 2] & 0xF;
+  const channelCode = bytes[offset + 3] >> 4;
+  const sampleSizeCode = (bytes[offset + 3] >> 1) & 0x7;
+  if (blockSizeCode === 0 || sampleRateCode === 0xF || channelCode > 10 || sampleSizeCode === 3 || (bytes[offset + 3] & 0x1) !== 0) {
+    return null;
+  }
+
+  // UTF-8 style coded frame or sample number
+  const numberLength = codedNumberLength(bytes[offset + 4]);
+  if (numberLength === 0) {
+    return null;
+  }
+  let position = offset + 4 + numberLength;
+  if (position > end) {
+    return null;
+  }
+  for (let i = offset + 5; i < position; i++) {
+    if ((bytes[i] & 0xC0) !== 0x80) {
+      return null;
+    }
+  }
+
+  let blockSize: number;
+  if (blockSizeCode === 1) {
+    blockSize = 192;
+  } else if (blockSizeCode <= 5) {
+    blockSize = 576 << (blockSizeCode - 2);
+  } else if (blockSizeCode === 6) {
+    blockSize = bytes[position++] + 1;
+  } else if (blockSizeCode === 7) {
+    blockSize = ((bytes[position] << 8) | bytes[position + 1]) + 1;
+    position += 2;
+  } else {
+    blockSize = 256 << (blockSizeCode - 8);
+  }
+  if (sampleRateCode === 12) {
+    position += 1;
+  } else if (sampleRateCode === 13 || sampleRateCode === 14) {
+    position += 2;
+  }
+
+  if (position + 1 > end || crc8(bytes, offset, position) !== bytes[position]) {
+    return null;
+  }
+  return { headerLength: position + 1 - offset, blockSize, variableBlockSize: (bytes[offset + 1] & 0x1) === 1, numberLength };
+}
+
+/**
+ * Create an empty (scanned) frame map; scanFlacFrames fills it
+ */
+export function createFlacFrameMap(info: FlacStreamInfo): FlacFrameMap {
+  return { headerLength: info.headerLength, streamInfo: info.streamInfo, frameOffsets: [], frameSamples: [], seekTable: false, totalSamples: 0 };
+}
+
+/**
+ * Add the frames of buffer[start, end) to a scanned map, start being a frame boundary
+ * A frame ends where the next valid header follows a matching CRC-16, which skips sync
+ * codes inside audio data; with final, the last frame runs to end. base is the stream
+ * offset of buffer[0]
+ * @returns Offset of the first frame whose end is not known yet
+ */
+export function scanFlacFrames(map: FlacFrameMap, buffer: ArrayBuffer, start: number, end: number, final: boolean, base = 0): number {
+  const bytes = new Uint8Array(buffer);
+  let frameStart = start;
+
+  while (frameStart < end) {
+    const header = parseFlacFrameHeader(bytes, frameStart, end);
+    if (!header) {
+      // Incomplete header, or trailing data that is not a frame
+      break;
+    }
+
+    let crc = crc16(bytes, frameStart, frameStart + header.headerLength);
+    let frameEnd = -1;
+    for (let position = frameStart + header.headerLength; position < end; position++) {
+      if (crc === 0 && bytes[position] === 0xFF && parseFlacFrameHeader(bytes, position, end)) {
+        frameEnd = position;
+        break;
+      }
+      crc = ((crc << 8) & 0xFFFF) ^ CRC16_TABLE[(crc >> 8) ^ bytes[position]];
+    }
+    if (frameEnd < 0) {
+      if (!final) {
+        break;
+      }
+      frameEnd = end;
+    }
+
+    map.frameOffsets.push(base + frameStart);
+    map.frameSamples.push(map.totalSamples);
+    map.totalSamples += header.blockSize;
+    frameStart = frameEnd;
+  }
+
+  return frameStart;
+}
+
+/**
+ * Build the frame map of a complete FLAC stream
+ * The SEEKTABLE is used when present (and STREAMINFO knows the length); otherwise every
+ * frame is located by its sync code
+ * @returns null if the stream is not FLAC or its metadata blocks are incomplete
+ */
+export function buildFlacFrameMap(buffer: ArrayBuffer): FlacFrameMap | null {
+  const info = parseFlacStreamInfo(buffer);
+  if (!info) {
+    return null;
+  }
+  const seekTableMap = createFlacSeekTableMap(info);
+  if (seekTableMap) {
+    return seekTableMap;
+  }
+
+  const map = createFlacFrameMap(info);
+  scanFlacFrames(map, buffer, info.headerLength, buffer.byteLength, true);
+  return map;
+}
+
+/**
+ * Frame map of the frames named by the SEEKTABLE
+ * @returns null if there are no seek points or STREAMINFO does not know the length
+ */
+export function createFlacSeekTableMap(info: FlacStreamInfo): FlacFrameMap | null {
+  if (info.seekPoints.length === 0 || info.totalSamples === 0) {
+    return null;
+  }
+
+  const map: FlacFrameMap = { ...createFlacFrameMap(info), seekTable: true, totalSamples: info.totalSamples };
+  // Seek point offsets are relative to the first frame, which starts at sample 0
+  map.frameOffsets.push(info.headerLength);
+  map.frameSamples.push(0);
+  for (const point of info.seekPoints) {
+    if (point.sample > map.frameSamples.at(-1)! && point.sample < info.totalSamples) {
+      map.frameOffsets.push(info.headerLength + point.offset);
+      map.frameSamples.push(point.sample);
+    }
+  }
+  return map;
+}
+
+/**
+ * Byte range holding the frames that start within [startSample, endSample): from the last
+ * known frame at or before startSample to the first known frame at or after endSample
+ * totalBytes is the end of the last frame
+ */
+export function findFlacSliceRange(map: FlacFrameMap, startSample: number, endSample: number, totalBytes: number): FlacSliceRange {
+  const count = map.frameOffsets.length;
+  if (count === 0) {
+    return { start: map.headerLength, end: map.headerLength, firstSample: 0 };
+  }
+
+  const first = Math.max(0, findFrameAfter(map.frameSamples, startSample) - 1);
+  const last = findFrameAfter(map.frameSamples, endSample - 1);
+
+  return {
+    start: map.frameOffsets[first],
+    end: last < count ? map.frameOffsets[last] : totalBytes,
+    firstSample: map.frameSamples[first],
+  };
+}
+
+/**
+ * Build a standalone FLAC stream from the frames in data that start within
+ * [startSample, endSample); data holds the stream bytes of range
+ * Frame numbers restart at zero and STREAMINFO gets the slice length (its MD5 is cleared)
+ */
+export function assembleFlacSlice(map: FlacFrameMap, data: ArrayBuffer, range: FlacSliceRange, startSample: number, endSample: number): ArrayBuffer {
+  const frames: FlacFrameMap = { ...map, frameOffsets: [], frameSamples: [], totalSamples: range.firstSample };
+  scanFlacFrames(frames, data, 0, data.byteLength, true);
+
+  const bytes = new Uint8Array(data);
+  const parts: Uint8Array[] = [];
+  let sliceSamples = 0;
+  let frameNumber = 0;
+  for (let i = 0; i < frames.frameOffsets.length; i++) {
+    const sample = frames.frameSamples[i];
+    if (sample < startSample || sample >= endSample) {
+      continue;
+    }
+    const frameEnd = i + 1 < frames.frameOffsets.length ? frames.frameOffsets[i + 1] : data.byteLength;
+    const frame = bytes.subarray(frames.frameOffsets[i], frameEnd);
+    const header = parseFlacFrameHeader(frame, 0)!;
+    parts.push(renumberFrame(frame, header, header.variableBlockSize ? sliceSamples : frameNumber));
+    sliceSamples += (i + 1 < frames.frameSamples.length ? frames.frameSamples[i + 1] : frames.totalSamples) - sample;
+    frameNumber++;
+  }
+
+  // Single STREAMINFO block with the slice length and no MD5 signature
+  const streamInfo = map.streamInfo.slice();
+  streamInfo[13] = (streamInfo[13] & 0xF0) | Math.floor(sliceSamples / 2 ** 32);
+  new DataView(streamInfo.buffer).setUint32(14, sliceSamples >>> 0, false);
+  streamInfo.fill(0, 18);
+
+  const prefix = new Uint8Array(8 + STREAMINFO_LENGTH);
+  const view = new DataView(prefix.buffer);
+  view.setUint32(0, FLAC_MARKER, false);
+  view.setUint32(4, 0x80000000 | STREAMINFO_LENGTH, false); // Last metadata block, STREAMINFO
+  prefix.set(streamInfo, 8);
+  return concatBytes([prefix, ...parts]).buffer as ArrayBuffer;
+}
+
+/**
+ * Rewrite the coded number of a frame, updating its CRC-8 and CRC-16
+ */
+function renumberFrame(frame: Uint8Array, header: FlacFrameHeader, number: number): Uint8Array {
+  const coded = encodeNumber(number);
+  const rest = frame.subarray(4 + header.numberLength, header.headerLength - 1);
+  const body = frame.subarray(header.headerLength, frame.length - 2);
+  const renumbered = new Uint8Array(4 + coded.length + rest.length + 1 + body.length + 2);
+
+  renumbered.set(frame.subarray(0, 4));
+  renumbered.set(coded, 4);
+  renumbered.set(rest, 4 + coded.length);
+  const headerEnd = 4 + coded.length + rest.length;
+  renumbered[headerEnd] = crc8(renumbered, 0, headerEnd);
+  renumbered.set(body, headerEnd + 1);
+  const crc = crc16(renumbered, 0, renumbered.length - 2);
+  renumbered[renumbered.length - 2] = crc >> 8;
+  renumbered[renumbered.length - 1] = crc & 0xFF;
+  return renumbered;
+}
+
+function codedNumberLength(first: number): number {
+  if (first < 0x80) {
+    return 1;
+  }
+  for (let length = 2; length <= 7; length++) {
+    // length leading ones, then a zero
+    const mask = (0xFF << (7 - length)) & 0xFF;
+    if ((first & mask) === ((mask << 1) & 0xFF)) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+/**
+ * UTF-8 style coding of frame and sample numbers (up to 36 bits)
+ */
+function encodeNumber(value: number): Uint8Array {
+  if (value < 0x80) {
+    return new Uint8Array([value]);
+  }
+  let length = 2;
+  while (length < 7 && value >= 2 ** (5 * length + 1)) {
+    length++;
+  }
+
+  const coded = new Uint8Array(length);
+  let rest = value;
+  for (let i = length - 1; i > 0; i--) {
+    coded[i] = 0x80 | (rest % 64);
+    rest = Math.floor(rest / 64);
+  }
+  coded[0] = ((0xFF << (8 - length)) & 0xFF) | rest;
+  return coded;
+}
+
+function findFrameAfter(frameSamples: number[], sample: number): number {
+  let left = 0;
+  let right = frameSamples.length;
+  while (left < right) {
+    const mid = Math.floor((left + right) / 2);
+    if (frameSamples[mid] > sample) {
+      right = mid;
+    } else {
+      left = mid + 1;
+    }
+  }
+  return left;
+}
+
+function createCrcTable(polynomial: number, width: number): Uint16Array {
+  const top = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  const table = new Uint16Array(256);
+  for (let i = 0; i < 256; i++) {
+    let value = i << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & top ? ((value << 1) ^ polynomial) & mask : (value << 1) & mask;
+    }
+    table[i] = value;
+  }
+  return table;
+}
+
+function crc8(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    crc = CRC8_TABLE[crc ^ bytes[i]];
+  }
+  return crc;
+}
+
+function crc16(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    crc = ((crc << 8) & 0xFFFF) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]];
+  }
+  return crc;
+}
+
+function readUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, false) * 2 ** 32 + view.getUint32(offset + 4, false);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
@@ -1,10 +1,16 @@
 /**
  * Audio format detection and parsing utilities
- * Supports WAV, MP3, FLAC, and other common audio formats
+ * Supports WAV, MP3, FLAC, Ogg Vorbis, Opus (Ogg and WebM), AAC/ALAC (MP4) and other common audio formats
  */
 
+import { parseFlacStreamInfo } from './flac-parser.js';
+import { getMP3SampleCount, parseMP3GaplessInfo } from './mp3-frame-parser.js';
+import { parseMP4SampleTable } from './mp4-parser.js';
+import { detectOggCodec, findLastOggGranule, parseOggStreamInfo } from './ogg-parser.js';
+import { parseOpusStreamHeader } from './opus-parser.js';
+
 export interface AudioMetadata {
-  format: 'wav' | 'mp3' | 'flac' | 'ogg' | 'aac' | 'unknown';
+  format: 'wav' | 'mp3' | 'flac' | 'ogg' | 'opus' | 'webm' | 'aac' | 'alac' | 'mp4' | 'unknown';
   sampleRate: number;
   channels: number;
   bitDepth?: number;
@@ -13,6 +19,11 @@ export interface AudioMetadata {
   dataOffset: number;
   dataLength: number;
   totalSamples?: number; // For MP3: calculated from duration and sample rate
+  codec?: 'vorbis' | 'opus' | 'aac' | 'alac'; // Codec inside an Ogg, WebM or MP4 container
+  container?: 'ogg' | 'webm' | 'mp4'; // Container of Ogg Vorbis, Opus, AAC and ALAC audio
+  preSkip?: number; // Opus: samples dropped by the decoder at the start, included in granule positions
+  encoderDelay?: number; // MP3: samples the encoder added before the audio (LAME tag)
+  encoderPadding?: number; // MP3: samples the encoder added after the audio (LAME tag)
 }
 
 /**
@@ -33,9 +44,19 @@ export function detectAudioFormat(buffer: ArrayBuffer): AudioMetadata['format']
       return 'flac';
     }
 
-    // OGG: "OggS" at 0
+    // OGG: "OggS" at 0; Opus if the first page carries an OpusHead
     if (view.getUint32(0, false) === 0x4F676753) {
-      return 'ogg';
+      return detectOggCodec(buffer) === 'opus' ? 'opus' : 'ogg';
+    }
+
+    // WebM/Matroska: EBML header at 0 (the codec is in the track header)
+    if (view.getUint32(0, false) === 0x1A45DFA3) {
+      return 'webm';
+    }
+
+    // MP4/M4A: "ftyp" box at 0 (the codec is in the movie box)
+    if (view.getUint32(4, false) === 0x66747970) {
+      return 'mp4';
     }
   }
 
@@ -79,7 +100,7 @@ function parseWAV(buffer: ArrayBuffer): AudioMetadata {
   let bitDepth = 16;
 
   // Find fmt and data chunks
-  while (offset < buffer.byteLength - 8) {
+  while (offset + 8 <= buffer.byteLength) {
     const chunkId = view.getUint32(offset, false);
     const chunkSize = view.getUint32(offset + 4, true);
 
@@ -192,9 +213,12 @@ function parseMP3(buffer: ArrayBuffer): AudioMetadata {
   const totalBytes = buffer.byteLength - dataOffset;
   const estimatedTotalFrames = scannedBytes > 0 ? Math.floor((totalBytes / scannedBytes) * frameCount) : frameCount;
 
-  // Calculate duration and total samples
-  const duration = (estimatedTotalFrames * samplesPerFrame) / sampleRate;
-  const totalSamples = Math.floor(duration * sampleRate);
+  // Calculate duration and total samples; exact if the Xing/Info header counts the frames
+  const gapless = parseMP3GaplessInfo(buffer, offset);
+  const totalSamples = gapless?.frameCount !== undefined
+    ? getMP3SampleCount(gapless.frameCount, samplesPerFrame, gapless.encoderDelay, gapless.encoderPadding)
+    : estimatedTotalFrames * samplesPerFrame;
+  const duration = totalSamples / sampleRate;
 
   return {
     format: 'mp3',
@@ -205,53 +229,151 @@ function parseMP3(buffer: ArrayBuffer): AudioMetadata {
     dataLength: totalBytes,
     duration,
     totalSamples,
+    encoderDelay: gapless?.encoderDelay,
+    encoderPadding: gapless?.encoderPadding,
   };
 }
 
 /**
- * Parses FLAC metadata
+ * Parses FLAC metadata blocks
+ * Total samples come from STREAMINFO, if the encoder knew them. The metadata blocks are
+ * part of the payload, since every slice has to start with STREAMINFO
  */
 function parseFLAC(buffer: ArrayBuffer): AudioMetadata {
-  const view = new DataView(buffer);
+  const info = parseFlacStreamInfo(buffer);
+  if (!info) {
+    // Truncated metadata blocks
+    return {
+      format: 'flac',
+      sampleRate: 44100,
+      channels: 2,
+      bitDepth: 16,
+      dataOffset: 0,
+      dataLength: buffer.byteLength,
+    };
+  }
 
-  // Skip "fLaC" signature
-  let offset = 4;
-  let sampleRate = 44100;
-  let channels = 2;
-  let bitDepth = 16;
+  const totalSamples = info.totalSamples > 0 ? info.totalSamples : undefined;
+  return {
+    format: 'flac',
+    sampleRate: info.sampleRate,
+    channels: info.channels,
+    bitDepth: info.bitDepth,
+    dataOffset: 0,
+    dataLength: buffer.byteLength,
+    duration: totalSamples !== undefined ? totalSamples / info.sampleRate : undefined,
+    totalSamples,
+  };
+}
 
-  // Read metadata blocks
-  while (offset < buffer.byteLength - 4) {
-    const blockHeader = view.getUint32(offset, false);
-    const isLast = (blockHeader >> 31) === 1;
-    const blockType = (blockHeader >> 24) & 0x7F;
-    const blockLength = blockHeader & 0xFFFFFF;
+/**
+ * Parses Ogg identification headers (Vorbis and Opus)
+ * Total samples come from the granule position of the last page. The header pages are
+ * part of the payload, since every slice has to start with them
+ */
+function parseOgg(buffer: ArrayBuffer): AudioMetadata {
+  const info = parseOggStreamInfo(buffer);
+  if (!info) {
+    // Other codecs or truncated headers
+    return parseUnknown(buffer);
+  }
+  if (info.codec === 'opus') {
+    return parseOpus(buffer);
+  }
 
-    if (blockType === 0) { // STREAMINFO block
-      // Sample rate is at bytes 10-12 (20 bits)
-      sampleRate = (view.getUint32(offset + 10, false) >> 12) & 0xFFFFF;
+  const lastGranule = findLastOggGranule(buffer, info.headerLength);
+  const totalSamples = lastGranule !== null ? Math.max(0, lastGranule - info.preSkip) : undefined;
 
-      // Channels at bits 78-80 (3 bits) + 1
-      channels = ((view.getUint8(offset + 12) >> 1) & 0x7) + 1;
+  return {
+    format: 'ogg',
+    codec: info.codec,
+    container: 'ogg',
+    sampleRate: info.sampleRate,
+    channels: info.channels,
+    bitrate: info.bitrate,
+    preSkip: info.preSkip,
+    dataOffset: 0,
+    dataLength: buffer.byteLength,
+    duration: totalSamples !== undefined ? totalSamples / info.sampleRate : undefined,
+    totalSamples,
+  };
+}
 
-      // Bits per sample at bits 81-85 (5 bits) + 1
-      bitDepth = (((view.getUint8(offset + 12) & 0x1) << 4)
-        | (view.getUint8(offset + 13) >> 4)) + 1;
-      break;
-    }
+/**
+ * Parses Opus in Ogg or WebM
+ * Ogg total samples come from the last granule position, WebM ones from the declared
+ * segment duration (if any). Opus always decodes at 48 kHz
+ */
+function parseOpus(buffer: ArrayBuffer): AudioMetadata {
+  const header = parseOpusStreamHeader(buffer);
+  if (!header) {
+    // Other WebM codecs or truncated headers
+    return parseUnknown(buffer);
+  }
 
-    offset += 4 + blockLength;
-    if (isLast)
-      break;
+  let totalSamples: number | undefined;
+  if (header.container === 'ogg') {
+    const lastGranule = findLastOggGranule(buffer, header.dataOffset);
+    totalSamples = lastGranule !== null ? Math.max(0, lastGranule - header.preSkip) : undefined;
+  } else if (header.duration !== undefined) {
+    totalSamples = Math.round(header.duration * 48000);
   }
 
   return {
-    format: 'flac',
-    sampleRate,
-    channels,
-    bitDepth,
-    dataOffset: offset,
-    dataLength: buffer.byteLength - offset,
+    format: 'opus',
+    codec: 'opus',
+    container: header.container,
+    sampleRate: 48000,
+    channels: header.channels,
+    preSkip: header.preSkip,
+    dataOffset: 0,
+    dataLength: buffer.byteLength,
+    duration: totalSamples !== undefined ? totalSamples / 48000 : undefined,
+    totalSamples,
+  };
+}
+
+/**
+ * Parses the AAC or ALAC track of an MP4 file
+ * Total samples come from the sample table and edit list, so they are exact. The whole
+ * file is the payload, since the sample table holds file offsets
+ */
+function parseMP4(buffer: ArrayBuffer): AudioMetadata {
+  const table = parseMP4SampleTable(buffer);
+  if (!table) {
+    // Other codecs, no audio track or movie box not present
+    return parseUnknown(buffer);
+  }
+
+  const duration = table.totalSamples / table.sampleRate;
+  const mediaBytes = table.sampleSizes.reduce((sum, size) => sum + size, 0);
+
+  return {
+    format: table.codec,
+    codec: table.codec,
+    container: 'mp4',
+    sampleRate: table.sampleRate,
+    channels: table.channels,
+    bitDepth: table.bitDepth,
+    bitrate: duration > 0 ? Math.round((mediaBytes * 8) / duration / 1000) : undefined,
+    dataOffset: 0,
+    dataLength: buffer.byteLength,
+    duration,
+    totalSamples: table.totalSamples,
+  };
+}
+
+/**
+ * Fallback for unknown formats
+ */
+function parseUnknown(buffer: ArrayBuffer): AudioMetadata {
+  return {
+    format: 'unknown',
+    sampleRate: 44100,
+    channels: 2,
+    bitDepth: 16,
+    dataOffset: 0,
+    dataLength: buffer.byteLength,
   };
 }
 
@@ -268,16 +390,15 @@ export function parseAudioMetadata(buffer: ArrayBuffer): AudioMetadata {
       return parseMP3(buffer);
     case 'flac':
       return parseFLAC(buffer);
+    case 'ogg':
+      return parseOgg(buffer);
+    case 'opus':
+    case 'webm':
+      return parseOpus(buffer);
+    case 'mp4':
+      return parseMP4(buffer);
     default:
-      // Fallback for unknown formats
-      return {
-        format: 'unknown',
-        sampleRate: 44100,
-        channels: 2,
-        bitDepth: 16,
-        dataOffset: 0,
-        dataLength: buffer.byteLength,
-      };
+      return parseUnknown(buffer);
   }
 }
 
@@ -313,8 +434,11 @@ export function estimateSampleCount(metadata: AudioMetadata): number {
       return estimatedFrames * 1152;
     }
     case 'flac':
-      // FLAC frames are variable, rough estimate
+      // STREAMINFO without a sample count: rough estimate
       return Math.floor(metadata.dataLength / metadata.channels / ((metadata.bitDepth || 16) / 8));
+    case 'opus':
+      // Rough estimate assuming 64 kbps
+      return Math.floor((metadata.dataLength * 8 / 64000) * metadata.sampleRate);
     default:
       return Math.floor(metadata.dataLength / (metadata.channels * 2)); // Assume 16-bit
   }
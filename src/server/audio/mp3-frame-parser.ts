@@ -3,6 +3,18 @@
  * Safari requires MP3 buffers to start and end at exact frame boundaries
  */
 
+import type { SliceTrim } from '../../shared/types/interfaces.js';
+
+// Samples a decoder outputs before the first encoded sample (filterbank and MDCT overlap)
+export const MP3_DECODER_DELAY = 529;
+
+// "Xing" (VBR) and "Info" (CBR) tags
+const XING_TAG = 0x58696E67;
+const INFO_TAG = 0x496E666F;
+
+// Encoders that write the LAME extension: "LAME", "Lavf", "Lavc"
+const LAME_ENCODERS = [0x4C414D45, 0x4C617666, 0x4C617663];
+
 export interface MP3FrameInfo {
   offset: number; // Byte offset of frame start
   length: number; // Frame length in bytes
@@ -100,9 +112,92 @@ export function parseMP3FrameHeader(buffer: ArrayBuffer, offset: number): MP3Fra
   };
 }
 
+/**
+ * Encoder delay and padding of a gapless MP3 (Xing/Info header with LAME extension)
+ */
+export interface MP3GaplessInfo {
+  encoderDelay: number; // Samples the encoder added before the audio
+  encoderPadding: number; // Samples the encoder added after the audio
+  frameCount?: number; // Audio frames, the Xing/Info frame not included
+}
+
+/**
+ * Byte range of a gapless MP3 slice and the decoded samples outside of it (see findMP3GaplessSliceRange)
+ */
+export interface MP3GaplessSliceRange {
+  start: number;
+  end: number;
+  trim: SliceTrim;
+}
+
+/**
+ * Parse the Xing/Info header of the frame at offset
+ * The frame carries no audio; delay and padding are 0 unless the LAME extension follows
+ * @returns null if the frame is incomplete or an audio frame
+ */
+export function parseMP3GaplessInfo(buffer: ArrayBuffer, offset: number): MP3GaplessInfo | null {
+  const frame = parseMP3FrameHeader(buffer, offset);
+  if (!frame || offset + frame.length > buffer.byteLength) {
+    return null;
+  }
+
+  // The tag follows the side information
+  const view = new DataView(buffer);
+  const header = view.getUint32(offset, false);
+  const isMPEG1 = ((header >> 19) & 0x3) === 3;
+  const isMono = ((header >> 6) & 0x3) === 3;
+  const sideInfoLength = isMPEG1 ? (isMono ? 17 : 32) : (isMono ? 9 : 17);
+  const end = offset + frame.length;
+  let position = offset + 4 + sideInfoLength;
+  if (position + 8 > end) {
+    return null;
+  }
+  const tag = view.getUint32(position, false);
+  if (tag !== XING_TAG && tag !== INFO_TAG) {
+    return null;
+  }
+
+  // Optional fields: frame count, byte count, seek table, quality
+  const flags = view.getUint32(position + 4, false);
+  position += 8;
+  let frameCount: number | undefined;
+  if (flags & 0x1 && position + 4 <= end) {
+    frameCount = view.getUint32(position, false);
+  }
+  position += (flags & 0x1 ? 4 : 0) + (flags & 0x2 ? 4 : 0) + (flags & 0x4 ? 100 : 0) + (flags & 0x8 ? 4 : 0);
+
+  // LAME extension: 12 bits delay and 12 bits padding at byte 21
+  let encoderDelay = 0;
+  let encoderPadding = 0;
+  if (position + 24 <= end && LAME_ENCODERS.includes(view.getUint32(position, false))) {
+    const delays = (view.getUint8(position + 21) << 16) | (view.getUint8(position + 22) << 8) | view.getUint8(position + 23);
+    encoderDelay = delays >> 12;
+    encoderPadding = delays & 0xFFF;
+  }
+
+  return { encoderDelay, encoderPadding, frameCount };
+}
+
+/**
+ * Samples of audio in the first frameCount audio frames
+ * The encoder and decoder delays come first; the padding, which covers at least the decoder
+ * delay, only applies once the last frame is known (final)
+ */
+export function getMP3SampleCount(
+  frameCount: number,
+  samplesPerFrame: number,
+  encoderDelay: number,
+  encoderPadding: number,
+  final = true,
+): number {
+  const padding = final ? Math.max(encoderPadding, MP3_DECODER_DELAY) : MP3_DECODER_DELAY;
+  return Math.max(0, frameCount * samplesPerFrame - encoderDelay - padding);
+}
+
 /**
  * Scan MP3 buffer and build frame boundary map
- * Returns array of frame offsets (byte positions)
+ * Returns array of frame offsets (byte positions); a leading Xing/Info frame carries no audio
+ * and is left out
  */
 export function buildMP3FrameMap(buffer: ArrayBuffer): number[] {
   const view = new DataView(buffer);
@@ -120,11 +215,15 @@ export function buildMP3FrameMap(buffer: ArrayBuffer): number[] {
   }
 
   // Scan for frames
+  let isFirstFrame = true;
   while (offset < buffer.byteLength - 4) {
     const frameInfo = parseMP3FrameHeader(buffer, offset);
 
     if (frameInfo) {
-      frameBoundaries.push(offset);
+      if (!isFirstFrame || !parseMP3GaplessInfo(buffer, offset)) {
+        frameBoundaries.push(offset);
+      }
+      isFirstFrame = false;
       offset += frameInfo.length;
     } else {
       // Not a valid frame header, try next byte
@@ -174,28 +273,72 @@ export function findFrameBoundary(frameBoundaries: number[], targetByte: number)
 }
 
 /**
- * Slice MP3 buffer at proper frame boundaries for Safari compatibility
- * Returns a slice that starts and ends at frame boundaries
+ * Byte range [start, end) of a slice that starts and ends at frame boundaries
+ * bufferLength ends the last frame when the slice would otherwise be empty
  */
-export function sliceMP3AtFrameBoundaries(
-  buffer: ArrayBuffer,
+export function findMP3SliceRange(
   frameBoundaries: number[],
   startByte: number,
   endByte: number,
-): ArrayBuffer {
+  bufferLength: number,
+): { start: number; end: number } {
   // Find closest frame boundaries
-  const actualStart = findFrameBoundary(frameBoundaries, startByte);
-  const actualEnd = findFrameBoundary(frameBoundaries, endByte);
+  const start = findFrameBoundary(frameBoundaries, startByte);
+  const end = findFrameBoundary(frameBoundaries, endByte);
 
   // Ensure we have at least one complete frame
-  if (actualStart >= actualEnd) {
-    // Fallback: include at least the frame at actualStart
-    const startIndex = frameBoundaries.indexOf(actualStart);
+  if (start >= end) {
+    // Fallback: include at least the frame at start
+    const startIndex = frameBoundaries.indexOf(start);
     if (startIndex < frameBoundaries.length - 1) {
-      return buffer.slice(actualStart, frameBoundaries[startIndex + 1]);
+      return { start, end: frameBoundaries[startIndex + 1] };
     }
-    return buffer.slice(actualStart);
+    return { start, end: bufferLength };
   }
 
-  return buffer.slice(actualStart, actualEnd);
+  return { start, end };
+}
+
+/**
+ * Byte range of the frames that decode the samples [startSample, endSample) without gaps
+ * Decoded sample p of the frames is sample p - encoderDelay - MP3_DECODER_DELAY of the audio.
+ * The range starts one frame early, which primes the decoder (bit reservoir, MDCT overlap);
+ * trim lists the decoded samples before and after the slice
+ */
+export function findMP3GaplessSliceRange(
+  frameBoundaries: number[],
+  samplesPerFrame: number,
+  encoderDelay: number,
+  startSample: number,
+  endSample: number,
+  bufferLength: number,
+): MP3GaplessSliceRange {
+  const delay = encoderDelay + MP3_DECODER_DELAY;
+  const first = Math.max(0, Math.floor((startSample + delay) / samplesPerFrame) - 1);
+  const last = Math.min(frameBoundaries.length, Math.ceil((endSample + delay) / samplesPerFrame));
+
+  return {
+    start: first < frameBoundaries.length ? frameBoundaries[first] : bufferLength,
+    end: last < frameBoundaries.length ? frameBoundaries[last] : bufferLength,
+    trim: {
+      start: startSample + delay - first * samplesPerFrame,
+      end: Math.max(0, last * samplesPerFrame - endSample - delay),
+    },
+  };
+}
+
+/**
+ * Slice MP3 buffer at proper frame boundaries for Safari compatibility
+ * Returns a slice that starts and ends at frame boundaries
+ * bufferLength limits the fallback slice when the buffer is only partially filled
+ */
+export function sliceMP3AtFrameBoundaries(
+  buffer: ArrayBuffer,
+  frameBoundaries: number[],
+  startByte: number,
+  endByte: number,
+  bufferLength: number = buffer.byteLength,
+): ArrayBuffer {
+  const { start, end } = findMP3SliceRange(frameBoundaries, startByte, endByte, bufferLength);
+  return buffer.slice(start, end);
 }
@@ -0,0 +1,489 @@
+/**
+ * MP4/M4A (ISO base media file format) parsing utilities for AAC and ALAC audio
+ * The sample table of the movie box locates every access unit, so slices are cut at
+ * access-unit boundaries and rewrapped as standalone M4A files: a pre-roll of earlier
+ * units primes AAC decoders, and an edit list trims the output to the exact samples
+ */
+
+// Decoded samples that prime an AAC decoder before a slice (two access units)
+const AAC_PRE_ROLL_SAMPLES = 2048;
+
+// Language code "und" (packed ISO 639-2) for media headers
+const UNDETERMINED_LANGUAGE = 0x55C4;
+
+// Unity transformation matrix of movie and track headers
+const UNITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+export interface MP4BoxHeader {
+  type: string;
+  size: number; // Including the header; 0 = extends to the end of the file
+  headerSize: number;
+}
+
+/**
+ * Audio track of an MP4 file with the position of every access unit
+ * Sample positions are in media timescale units, which audio tracks set to the sample rate
+ */
+export interface MP4SampleTable {
+  codec: 'aac' | 'alac';
+  sampleRate: number; // Media timescale
+  channels: number;
+  bitDepth: number;
+  /** Sample description box (codec configuration), copied into every slice */
+  sampleDescription: Uint8Array;
+  /** File offset and size of each access unit */
+  sampleOffsets: number[];
+  sampleSizes: number[];
+  /** Decoded sample position after each access unit, encoder delay included */
+  sampleEnds: number[];
+  /** Decoded samples before the first playable one (edit list media time, e.g. AAC priming) */
+  encoderDelay: number;
+  /** Playable samples (encoder delay and padding excluded) */
+  totalSamples: number;
+}
+
+/**
+ * Access units and trimming of one slice (see findMP4SliceRange)
+ */
+export interface MP4SliceRange {
+  start: number; // Byte range to read
+  end: number;
+  first: number; // Access units [first, last), pre-roll included
+  last: number;
+  mediaTime: number; // Decoded samples the slice drops at its start
+  duration: number; // Samples of the slice
+}
+
+interface BoxRange {
+  type: string;
+  offset: number;
+  dataOffset: number;
+  end: number;
+}
+
+/**
+ * Check for the file type box that starts MP4 and M4A files
+ */
+export function isMP4(buffer: ArrayBuffer): boolean {
+  return buffer.byteLength >= 8 && new DataView(buffer).getUint32(4, false) === 0x66747970; // "ftyp"
+}
+
+/**
+ * Parse the header of the box at offset
+ * @returns null if fewer than its header bytes are available
+ */
+export function parseMP4BoxHeader(buffer: ArrayBuffer, offset: number): MP4BoxHeader | null {
+  if (offset + 8 > buffer.byteLength) {
+    return null;
+  }
+  const view = new DataView(buffer);
+  const size = view.getUint32(offset, false);
+  const type = readType(view, offset + 4);
+  if (size !== 1) {
+    return { type, size, headerSize: 8 };
+  }
+
+  // 64-bit size
+  if (offset + 16 > buffer.byteLength) {
+    return null;
+  }
+  return { type, size: readUint64(view, offset + 8), headerSize: 16 };
+}
+
+/**
+ * Find the complete movie box among the top-level boxes of buffer
+ * @returns null if the movie box has not arrived yet
+ */
+export function findMP4MovieBox(buffer: ArrayBuffer): { offset: number; size: number } | null {
+  let offset = 0;
+  while (true) {
+    const header = parseMP4BoxHeader(buffer, offset);
+    if (!header || header.size === 0 || header.size < header.headerSize) {
+      return null;
+    }
+    if (header.type === 'moov') {
+      return offset + header.size <= buffer.byteLength ? { offset, size: header.size } : null;
+    }
+    offset += header.size;
+  }
+}
+
+/**
+ * Parse the sample table of the first AAC or ALAC track
+ * buffer holds the top-level boxes of the file up to its movie box; offsets of access
+ * units are file offsets, so the media data does not have to be present
+ * @returns null if the movie box is incomplete or has no AAC or ALAC track
+ */
+export function parseMP4SampleTable(buffer: ArrayBuffer): MP4SampleTable | null {
+  const moov = findMP4MovieBox(buffer);
+  if (!moov) {
+    return null;
+  }
+
+  const view = new DataView(buffer);
+  const headerSize = parseMP4BoxHeader(buffer, moov.offset)!.headerSize;
+  const children = listBoxes(view, moov.offset + headerSize, moov.offset + moov.size);
+  const mvhd = children.find(box => box.type === 'mvhd');
+  if (!mvhd) {
+    return null;
+  }
+  const movieTimescale = view.getUint32(mvhd.dataOffset + (view.getUint8(mvhd.dataOffset) === 1 ? 20 : 12), false);
+
+  for (const trak of children.filter(box => box.type === 'trak')) {
+    const table = parseTrack(view, trak, movieTimescale);
+    if (table) {
+      return table;
+    }
+  }
+  return null;
+}
+
+/**
+ * Access units holding samples [startSample, endSample) of the playable track, with the
+ * codec's pre-roll before them, and the trimming that cuts the slice to exactly those samples
+ */
+export function findMP4SliceRange(table: MP4SampleTable, startSample: number, endSample: number): MP4SliceRange {
+  const count = table.sampleOffsets.length;
+  if (count === 0) {
+    return { start: 0, end: 0, first: 0, last: 0, mediaTime: 0, duration: 0 };
+  }
+
+  // Decoded positions include the encoder delay
+  const target = Math.min(startSample, table.totalSamples) + table.encoderDelay;
+  const targetEnd = Math.max(target, Math.min(endSample, table.totalSamples) + table.encoderDelay);
+  const preRoll = table.codec === 'aac' ? AAC_PRE_ROLL_SAMPLES : 0;
+
+  const first = Math.min(findSampleAt(table.sampleEnds, Math.max(0, target - preRoll)), count - 1);
+  const last = Math.min(Math.max(findSampleAt(table.sampleEnds, targetEnd - 1) + 1, first + 1), count);
+  const firstSample = first > 0 ? table.sampleEnds[first - 1] : 0;
+
+  // Access units are usually contiguous, but chunks of other tracks may sit between them
+  let start = Infinity;
+  let end = 0;
+  for (let i = first; i < last; i++) {
+    start = Math.min(start, table.sampleOffsets[i]);
+    end = Math.max(end, table.sampleOffsets[i] + table.sampleSizes[i]);
+  }
+
+  return { start, end, first, last, mediaTime: target - firstSample, duration: targetEnd - target };
+}
+
+/**
+ * Build a standalone M4A file from the access units of a slice
+ * data holds the file bytes [range.start, range.end)
+ */
+export function assembleMP4Slice(table: MP4SampleTable, data: ArrayBuffer, range: MP4SliceRange): ArrayBuffer {
+  const bytes = new Uint8Array(data);
+  const units: Uint8Array[] = [];
+  const durations: number[] = [];
+  for (let i = range.first; i < range.last; i++) {
+    const offset = table.sampleOffsets[i] - range.start;
+    units.push(bytes.subarray(offset, offset + table.sampleSizes[i]));
+    durations.push(table.sampleEnds[i] - (i > 0 ? table.sampleEnds[i - 1] : 0));
+  }
+
+  const ftyp = box('ftyp', ascii('M4A '), uint32s(0), ascii('M4A '), ascii('mp42'), ascii('isom'));
+  // The chunk offset depends on the size of the movie box, which does not
+  const moovSize = buildMovieBox(table, range, units, durations, 0).length;
+  const moov = buildMovieBox(table, range, units, durations, ftyp.length + moovSize + 8);
+  return concatBytes([ftyp, moov, box('mdat', ...units)]).buffer as ArrayBuffer;
+}
+
+function parseTrack(view: DataView, trak: BoxRange, movieTimescale: number): MP4SampleTable | null {
+  const mdia = findBox(view, trak, 'mdia');
+  const hdlr = mdia && findBox(view, mdia, 'hdlr');
+  if (!mdia || !hdlr || readType(view, hdlr.dataOffset + 8) !== 'soun') {
+    return null;
+  }
+
+  const mdhd = findBox(view, mdia, 'mdhd');
+  const stbl = findPath(view, mdia, ['minf', 'stbl']);
+  const stsd = stbl && findBox(view, stbl, 'stsd');
+  if (!mdhd || !stbl || !stsd) {
+    return null;
+  }
+  const timescale = view.getUint32(mdhd.dataOffset + (view.getUint8(mdhd.dataOffset) === 1 ? 20 : 12), false);
+
+  // First sample entry (AudioSampleEntry): channel count, sample size
+  const entry = stsd.dataOffset + 8;
+  if (entry + 36 > stsd.end) {
+    return null;
+  }
+  const entryType = readType(view, entry + 4);
+  const codec = entryType === 'mp4a' ? 'aac' : entryType === 'alac' ? 'alac' : null;
+  if (!codec || timescale === 0) {
+    return null;
+  }
+
+  const sampleSizes = readSampleSizes(view, stbl);
+  const chunkOffsets = readChunkOffsets(view, stbl);
+  const sampleEnds = readSampleEnds(view, stbl, sampleSizes.length);
+  const sampleOffsets = locateSamples(view, stbl, chunkOffsets, sampleSizes);
+  if (!sampleSizes.length || !sampleOffsets || sampleEnds.length !== sampleSizes.length) {
+    return null;
+  }
+
+  // The first non-empty edit skips the encoder delay and ends before the padding
+  const decodedSamples = sampleEnds.at(-1)!;
+  let encoderDelay = 0;
+  let totalSamples = decodedSamples;
+  const elst = findPath(view, trak, ['edts', 'elst']);
+  if (elst) {
+    const edit = readFirstEdit(view, elst);
+    if (edit) {
+      encoderDelay = Math.min(edit.mediaTime, decodedSamples);
+      const editSamples = movieTimescale > 0 ? Math.round((edit.segmentDuration * timescale) / movieTimescale) : 0;
+      totalSamples = editSamples > 0 ? Math.min(editSamples, decodedSamples - encoderDelay) : decodedSamples - encoderDelay;
+    }
+  }
+
+  return {
+    codec,
+    sampleRate: timescale,
+    channels: view.getUint16(entry + 24, false),
+    bitDepth: view.getUint16(entry + 26, false),
+    sampleDescription: new Uint8Array(view.buffer.slice(stsd.offset, stsd.end)),
+    sampleOffsets,
+    sampleSizes,
+    sampleEnds,
+    encoderDelay,
+    totalSamples,
+  };
+}
+
+function readSampleSizes(view: DataView, stbl: BoxRange): number[] {
+  const stsz = findBox(view, stbl, 'stsz');
+  if (!stsz) {
+    return [];
+  }
+  const constantSize = view.getUint32(stsz.dataOffset + 4, false);
+  const count = view.getUint32(stsz.dataOffset + 8, false);
+  if (constantSize !== 0) {
+    return Array.from({ length: count }, () => constantSize);
+  }
+  if (stsz.dataOffset + 12 + count * 4 > stsz.end) {
+    return [];
+  }
+  return Array.from({ length: count }, (_, i) => view.getUint32(stsz.dataOffset + 12 + i * 4, false));
+}
+
+function readChunkOffsets(view: DataView, stbl: BoxRange): number[] {
+  const stco = findBox(view, stbl, 'stco');
+  const co64 = stco ? null : findBox(view, stbl, 'co64');
+  const box = stco ?? co64;
+  if (!box) {
+    return [];
+  }
+  const count = view.getUint32(box.dataOffset + 4, false);
+  const entrySize = stco ? 4 : 8;
+  if (box.dataOffset + 8 + count * entrySize > box.end) {
+    return [];
+  }
+  return Array.from({ length: count }, (_, i) => {
+    const offset = box.dataOffset + 8 + i * entrySize;
+    return stco ? view.getUint32(offset, false) : readUint64(view, offset);
+  });
+}
+
+/**
+ * Decoded sample position after each access unit, from the time-to-sample runs
+ */
+function readSampleEnds(view: DataView, stbl: BoxRange, sampleCount: number): number[] {
+  const stts = findBox(view, stbl, 'stts');
+  if (!stts) {
+    return [];
+  }
+  const sampleEnds: number[] = [];
+  let position = 0;
+  const entryCount = view.getUint32(stts.dataOffset + 4, false);
+  for (let i = 0; i < entryCount && stts.dataOffset + 16 + i * 8 <= stts.end; i++) {
+    const count = view.getUint32(stts.dataOffset + 8 + i * 8, false);
+    const delta = view.getUint32(stts.dataOffset + 12 + i * 8, false);
+    for (let j = 0; j < count && sampleEnds.length < sampleCount; j++) {
+      position += delta;
+      sampleEnds.push(position);
+    }
+  }
+  return sampleEnds;
+}
+
+/**
+ * File offset of each access unit: chunks hold runs of units, as described by the
+ * sample-to-chunk table
+ */
+function locateSamples(view: DataView, stbl: BoxRange, chunkOffsets: number[], sampleSizes: number[]): number[] | null {
+  const stsc = findBox(view, stbl, 'stsc');
+  if (!stsc) {
+    return null;
+  }
+  const entryCount = view.getUint32(stsc.dataOffset + 4, false);
+  if (stsc.dataOffset + 8 + entryCount * 12 > stsc.end) {
+    return null;
+  }
+  const firstChunks = Array.from({ length: entryCount }, (_, i) => view.getUint32(stsc.dataOffset + 8 + i * 12, false));
+  const samplesPerChunk = Array.from({ length: entryCount }, (_, i) => view.getUint32(stsc.dataOffset + 12 + i * 12, false));
+
+  const sampleOffsets: number[] = [];
+  let entry = 0;
+  for (let chunk = 0; chunk < chunkOffsets.length && sampleOffsets.length < sampleSizes.length; chunk++) {
+    // First chunks are 1-based
+    while (entry + 1 < entryCount && firstChunks[entry + 1] <= chunk + 1) {
+      entry++;
+    }
+    let offset = chunkOffsets[chunk];
+    for (let i = 0; i < samplesPerChunk[entry] && sampleOffsets.length < sampleSizes.length; i++) {
+      sampleOffsets.push(offset);
+      offset += sampleSizes[sampleOffsets.length - 1];
+    }
+  }
+  return sampleOffsets.length === sampleSizes.length ? sampleOffsets : null;
+}
+
+function readFirstEdit(view: DataView, elst: BoxRange): { segmentDuration: number; mediaTime: number } | null {
+  const version = view.getUint8(elst.dataOffset);
+  const entryCount = view.getUint32(elst.dataOffset + 4, false);
+  const entrySize = version === 1 ? 20 : 12;
+  for (let i = 0; i < entryCount && elst.dataOffset + 8 + (i + 1) * entrySize <= elst.end; i++) {
+    const offset = elst.dataOffset + 8 + i * entrySize;
+    const segmentDuration = version === 1 ? readUint64(view, offset) : view.getUint32(offset, false);
+    const mediaTime = version === 1 ? view.getInt32(offset + 8, false) * 2 ** 32 + view.getUint32(offset + 12, false) : view.getInt32(offset + 4, false);
+    // Empty edits (media time -1) only delay the presentation
+    if (mediaTime >= 0) {
+      return { segmentDuration, mediaTime };
+    }
+  }
+  return null;
+}
+
+function buildMovieBox(table: MP4SampleTable, range: MP4SliceRange, units: Uint8Array[], durations: number[], chunkOffset: number): Uint8Array {
+  const mediaDuration = durations.reduce((sum, duration) => sum + duration, 0);
+
+  // Time-to-sample runs of equal durations
+  const runs: number[] = [];
+  for (const duration of durations) {
+    if (runs.length > 0 && runs.at(-1) === duration) {
+      runs[runs.length - 2]++;
+    } else {
+      runs.push(1, duration);
+    }
+  }
+
+  const stbl = box(
+    'stbl',
+    table.sampleDescription,
+    fullBox('stts', 0, 0, uint32s(runs.length / 2, ...runs)),
+    fullBox('stsc', 0, 0, uint32s(1, 1, units.length, 1)),
+    fullBox('stsz', 0, 0, uint32s(0, units.length, ...units.map(unit => unit.length))),
+    fullBox('stco', 0, 0, uint32s(1, chunkOffset)),
+  );
+  const minf = box(
+    'minf',
+    fullBox('smhd', 0, 0, uint32s(0)),
+    box('dinf', fullBox('dref', 0, 0, uint32s(1), fullBox('url ', 0, 1))),
+    stbl,
+  );
+  const mdia = box(
+    'mdia',
+    fullBox('mdhd', 0, 0, uint32s(0, 0, table.sampleRate, mediaDuration, UNDETERMINED_LANGUAGE << 16)),
+    fullBox('hdlr', 0, 0, uint32s(0), ascii('soun'), uint32s(0, 0, 0), ascii('SoundHandler\0')),
+    minf,
+  );
+  // The edit list drops the pre-roll and ends the track with the slice
+  const trak = box(
+    'trak',
+    fullBox('tkhd', 0, 0x000003, uint32s(0, 0, 1, 0, range.duration, 0, 0, 0, 0x01000000, ...UNITY_MATRIX, 0, 0)),
+    box('edts', fullBox('elst', 0, 0, uint32s(1, range.duration, range.mediaTime, 0x00010000))),
+    mdia,
+  );
+  return box(
+    'moov',
+    fullBox('mvhd', 0, 0, uint32s(0, 0, table.sampleRate, range.duration, 0x00010000, 0x01000000, 0, 0, ...UNITY_MATRIX, 0, 0, 0, 0, 0, 0, 2)),
+    trak,
+  );
+}
+
+function listBoxes(view: DataView, start: number, end: number): BoxRange[] {
+  const boxes: BoxRange[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    const header = parseMP4BoxHeader(view.buffer as ArrayBuffer, offset);
+    if (!header) {
+      break;
+    }
+    const boxEnd = header.size === 0 ? end : offset + header.size;
+    if (header.size !== 0 && header.size < header.headerSize) {
+      break;
+    }
+    boxes.push({ type: header.type, offset, dataOffset: offset + header.headerSize, end: Math.min(boxEnd, end) });
+    offset = boxEnd;
+  }
+  return boxes;
+}
+
+function findBox(view: DataView, parent: BoxRange, type: string): BoxRange | null {
+  return listBoxes(view, parent.dataOffset, parent.end).find(box => box.type === type) ?? null;
+}
+
+function findPath(view: DataView, parent: BoxRange, types: string[]): BoxRange | null {
+  let box: BoxRange | null = parent;
+  for (const type of types) {
+    box = box && findBox(view, box, type);
+  }
+  return box;
+}
+
+function box(type: string, ...parts: Uint8Array[]): Uint8Array {
+  const payload = concatBytes(parts);
+  const bytes = new Uint8Array(8 + payload.length);
+  new DataView(bytes.buffer).setUint32(0, bytes.length, false);
+  bytes.set(ascii(type), 4);
+  bytes.set(payload, 8);
+  return bytes;
+}
+
+function fullBox(type: string, version: number, flags: number, ...parts: Uint8Array[]): Uint8Array {
+  return box(type, uint32s(((version << 24) | flags) >>> 0), ...parts);
+}
+
+function uint32s(...values: number[]): Uint8Array {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value >>> 0, false));
+  return bytes;
+}
+
+function ascii(text: string): Uint8Array {
+  return Uint8Array.from(text, char => char.charCodeAt(0));
+}
+
+function readType(view: DataView, offset: number): string {
+  return String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+}
+
+function readUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, false) * 2 ** 32 + view.getUint32(offset + 4, false);
+}
+
+function findSampleAt(sampleEnds: number[], sample: number): number {
+  let left = 0;
+  let right = sampleEnds.length;
+  while (left < right) {
+    const mid = Math.floor((left + right) / 2);
+    if (sampleEnds[mid] > sample) {
+      right = mid;
+    } else {
+      left = mid + 1;
+    }
+  }
+  return left;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
@@ -0,0 +1,421 @@
+/**
+ * Ogg container parsing utilities
+ * Ogg slices start and end at page boundaries and carry the codec header pages,
+ * so every slice is a complete Ogg stream that decodes on its own
+ */
+
+// "OggS" capture pattern at the start of every page
+const OGG_CAPTURE_PATTERN = 0x4F676753;
+
+// Fixed part of a page header; the segment table follows
+const PAGE_HEADER_SIZE = 27;
+
+// Identification header sizes (Opus headers may be longer with a channel mapping table)
+const VORBIS_ID_HEADER_SIZE = 30;
+const OPUS_ID_HEADER_SIZE = 19;
+
+// CRC-32 used by Ogg (polynomial 0x04C11DB7, no reflection, no final XOR)
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let value = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & 0x80000000 ? (value << 1) ^ 0x04C11DB7 : value << 1;
+    }
+    table[i] = value >>> 0;
+  }
+  return table;
+})();
+
+export interface OggPageInfo {
+  offset: number; // Byte offset of the page
+  length: number; // Page length in bytes (header, segment table and body)
+  bodyOffset: number; // Byte offset of the page body
+  headerType: number; // 0x01 continued packet, 0x02 first page, 0x04 last page
+  granulePosition: number; // Position after the last packet completed on this page, -1 if none completes
+  serialNumber: number;
+  sequenceNumber: number;
+  packetsCompleted: number; // Packets ending on this page
+}
+
+export interface OggStreamInfo {
+  codec: 'vorbis' | 'opus';
+  sampleRate: number;
+  channels: number;
+  bitrate?: number; // Nominal bitrate in kbps (Vorbis)
+  preSkip: number; // Samples the decoder drops at the start (Opus); granule positions include them
+  headerLength: number; // Bytes of the pages carrying the codec headers
+}
+
+/**
+ * Page index of an Ogg stream for page-aligned slicing
+ */
+export interface OggPageMap {
+  /** Bytes of the codec header pages, which start every slice */
+  headerLength: number;
+  preSkip: number;
+  /** Byte offsets of the audio pages */
+  pageOffsets: number[];
+  /** Sample position after each audio page; pages completing no packet take the value of the next page that does */
+  pageEnds: number[];
+  /** Sample position after the last page that completes a packet */
+  totalSamples: number;
+}
+
+/**
+ * Parse an Ogg page header
+ * Only the header and segment table have to be inside the buffer; the body may extend past it
+ */
+export function parseOggPageHeader(buffer: ArrayBuffer, offset: number): OggPageInfo | null {
+  if (offset + PAGE_HEADER_SIZE > buffer.byteLength) {
+    return null;
+  }
+
+  const view = new DataView(buffer);
+  if (view.getUint32(offset, false) !== OGG_CAPTURE_PATTERN || view.getUint8(offset + 4) !== 0) {
+    return null;
+  }
+
+  const segmentCount = view.getUint8(offset + 26);
+  const bodyOffset = offset + PAGE_HEADER_SIZE + segmentCount;
+  if (bodyOffset > buffer.byteLength) {
+    return null;
+  }
+
+  // Lacing values below 255 end a packet
+  let bodyLength = 0;
+  let packetsCompleted = 0;
+  for (let i = 0; i < segmentCount; i++) {
+    const lacing = view.getUint8(offset + PAGE_HEADER_SIZE + i);
+    bodyLength += lacing;
+    if (lacing < 255) {
+      packetsCompleted++;
+    }
+  }
+
+  // 64-bit granule position; all ones means no packet completes on this page
+  const granuleLow = view.getUint32(offset + 6, true);
+  const granuleHigh = view.getUint32(offset + 10, true);
+  const granulePosition = granuleLow === 0xFFFFFFFF && granuleHigh === 0xFFFFFFFF
+    ? -1
+    : granuleHigh * 0x100000000 + granuleLow;
+
+  return {
+    offset,
+    length: bodyOffset - offset + bodyLength,
+    bodyOffset,
+    headerType: view.getUint8(offset + 5),
+    granulePosition,
+    serialNumber: view.getUint32(offset + 14, true),
+    sequenceNumber: view.getUint32(offset + 18, true),
+    packetsCompleted,
+  };
+}
+
+/**
+ * Identify the codec from the first page of an Ogg stream
+ * @returns The codec, 'unknown' for other codecs (FLAC, Speex, ...) or null if the first page is incomplete
+ */
+export function detectOggCodec(buffer: ArrayBuffer): OggStreamInfo['codec'] | 'unknown' | null {
+  const page = parseOggPageHeader(buffer, 0);
+  if (!page || page.length > buffer.byteLength) {
+    return null;
+  }
+
+  // The first page may have no segments; identification headers must fit into its body
+  const body = new DataView(buffer, page.bodyOffset, page.length - page.bodyOffset);
+  if (body.byteLength >= VORBIS_ID_HEADER_SIZE && body.getUint8(0) === 1 && matchesAscii(body, 1, 'vorbis')) {
+    return 'vorbis';
+  }
+  if (body.byteLength >= OPUS_ID_HEADER_SIZE && matchesAscii(body, 0, 'OpusHead')) {
+    return 'opus';
+  }
+  return 'unknown';
+}
+
+/**
+ * Parse the identification header of a Vorbis or Opus stream
+ * @returns null if the codec header pages are incomplete or the codec is not supported
+ */
+export function parseOggStreamInfo(buffer: ArrayBuffer): OggStreamInfo | null {
+  const codec = detectOggCodec(buffer);
+  if (codec === null || codec === 'unknown') {
+    return null;
+  }
+
+  const view = new DataView(buffer);
+  const body = parseOggPageHeader(buffer, 0)!.bodyOffset;
+  let info: Omit<OggStreamInfo, 'headerLength'>;
+  let headerPackets: number;
+
+  if (codec === 'vorbis') {
+    // Identification, comment and setup header
+    const nominalBitrate = view.getInt32(body + 20, true);
+    info = {
+      codec,
+      channels: view.getUint8(body + 11),
+      sampleRate: view.getUint32(body + 12, true),
+      bitrate: nominalBitrate > 0 ? Math.round(nominalBitrate / 1000) : undefined,
+      preSkip: 0,
+    };
+    headerPackets = 3;
+  } else {
+    // Identification and comment header; Opus always decodes at 48 kHz
+    info = {
+      codec,
+      channels: view.getUint8(body + 9),
+      sampleRate: 48000,
+      preSkip: view.getUint16(body + 10, true),
+    };
+    headerPackets = 2;
+  }
+
+  // The last header packet ends its page, so audio starts on a fresh page
+  let offset = 0;
+  let packets = 0;
+  while (packets < headerPackets) {
+    const page = parseOggPageHeader(buffer, offset);
+    if (!page || offset + page.length > buffer.byteLength) {
+      return null;
+    }
+    packets += page.packetsCompleted;
+    offset += page.length;
+  }
+
+  return { ...info, headerLength: offset };
+}
+
+/**
+ * Find the granule position of the last complete page that has one, ignoring pages before start
+ */
+export function findLastOggGranule(buffer: ArrayBuffer, start = 0): number | null {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  for (let offset = buffer.byteLength - PAGE_HEADER_SIZE; offset >= start; offset--) {
+    if (view.getUint32(offset, false) !== OGG_CAPTURE_PATTERN) {
+      continue;
+    }
+    const page = parseOggPageHeader(buffer, offset);
+    if (!page || page.granulePosition < 0 || offset + page.length > buffer.byteLength) {
+      continue;
+    }
+    // Audio data may contain the capture pattern; the checksum tells real pages apart
+    if (pageChecksum(bytes.subarray(offset, offset + page.length)) === view.getUint32(offset + 22, true)) {
+      return page.granulePosition;
+    }
+  }
+  return null;
+}
+
+/**
+ * Create an empty page map for a stream
+ */
+export function createOggPageMap(info: OggStreamInfo): OggPageMap {
+  return {
+    headerLength: info.headerLength,
+    preSkip: info.preSkip,
+    pageOffsets: [],
+    pageEnds: [],
+    totalSamples: 0,
+  };
+}
+
+/**
+ * Add the complete pages in buffer[start, end) to a page map
+ * base is the stream offset of buffer[0], so buffers may hold any part of the stream
+ * @returns Offset after the last complete page, where scanning continues
+ */
+export function scanOggPages(map: OggPageMap, buffer: ArrayBuffer, start: number, end: number, base = 0): number {
+  let offset = start;
+  while (offset + PAGE_HEADER_SIZE <= end) {
+    const page = parseOggPageHeader(buffer, offset);
+    if (!page) {
+      // Not a page, resynchronize on the next byte
+      offset++;
+      continue;
+    }
+    if (offset + page.length > end) {
+      break;
+    }
+
+    if (base + offset >= map.headerLength) {
+      addOggPage(map, base + offset, page.granulePosition);
+    }
+    offset += page.length;
+  }
+  return offset;
+}
+
+/**
+ * Scan an Ogg stream and build its page map
+ * @returns null if the stream is not Vorbis or Opus
+ */
+export function buildOggPageMap(buffer: ArrayBuffer): OggPageMap | null {
+  const info = parseOggStreamInfo(buffer);
+  if (!info) {
+    return null;
+  }
+
+  const map = createOggPageMap(info);
+  scanOggPages(map, buffer, info.headerLength, buffer.byteLength);
+  finishOggPageMap(map);
+  return map;
+}
+
+/**
+ * Close the page map of a complete stream: trailing pages that complete no packet end with it
+ */
+export function finishOggPageMap(map: OggPageMap): void {
+  for (let i = map.pageEnds.length - 1; i >= 0 && map.pageEnds[i] === Infinity; i--) {
+    map.pageEnds[i] = map.totalSamples;
+  }
+}
+
+/**
+ * Byte range [start, end) of the audio pages holding samples [startSample, endSample)
+ * Consecutive slices get consecutive pages; bufferLength ends the last page
+ */
+export function findOggSliceRange(
+  map: OggPageMap,
+  startSample: number,
+  endSample: number,
+  bufferLength: number,
+): { start: number; end: number } {
+  const pageCount = map.pageOffsets.length;
+  if (pageCount === 0) {
+    return { start: map.headerLength, end: bufferLength };
+  }
+
+  const first = Math.min(findPageAt(map.pageEnds, startSample), pageCount - 1);
+  const last = Math.max(findPageAt(map.pageEnds, endSample), first + 1);
+
+  return {
+    start: map.pageOffsets[first],
+    end: last < pageCount ? map.pageOffsets[last] : bufferLength,
+  };
+}
+
+/**
+ * Join the codec header pages and a run of audio pages into a standalone Ogg stream
+ * The audio pages are renumbered to follow the header pages, so decoders see no gap
+ */
+export function assembleOggSlice(header: ArrayBuffer, pages: ArrayBuffer): ArrayBuffer {
+  const bytes = new Uint8Array(header.byteLength + pages.byteLength);
+  bytes.set(new Uint8Array(header));
+  bytes.set(new Uint8Array(pages), header.byteLength);
+
+  const buffer = bytes.buffer;
+  const view = new DataView(buffer);
+  let offset = 0;
+  let sequence = 0;
+  while (offset < bytes.byteLength) {
+    const page = parseOggPageHeader(buffer, offset);
+    if (!page || offset + page.length > bytes.byteLength) {
+      break;
+    }
+
+    if (page.sequenceNumber !== sequence) {
+      view.setUint32(offset + 18, sequence, true);
+      view.setUint32(offset + 22, pageChecksum(bytes.subarray(offset, offset + page.length)), true);
+    }
+    sequence++;
+    offset += page.length;
+  }
+
+  return buffer;
+}
+
+/**
+ * Write an Ogg page holding complete packets (each shorter than 255 * 255 bytes, and at most 255 segments in total)
+ */
+export function writeOggPage(
+  packets: Uint8Array[],
+  headerType: number,
+  granulePosition: number,
+  serialNumber: number,
+  sequenceNumber: number,
+): Uint8Array {
+  const lacing = packets.flatMap(packet => [...Array.from({ length: Math.floor(packet.length / 255) }, () => 255), packet.length % 255]);
+  const bodyLength = packets.reduce((sum, packet) => sum + packet.length, 0);
+  const page = new Uint8Array(PAGE_HEADER_SIZE + lacing.length + bodyLength);
+  const view = new DataView(page.buffer);
+
+  view.setUint32(0, OGG_CAPTURE_PATTERN, false);
+  view.setUint8(5, headerType);
+  view.setUint32(6, granulePosition % 0x100000000, true);
+  view.setUint32(10, Math.floor(granulePosition / 0x100000000), true);
+  view.setUint32(14, serialNumber, true);
+  view.setUint32(18, sequenceNumber, true);
+  view.setUint8(26, lacing.length);
+  page.set(lacing, PAGE_HEADER_SIZE);
+
+  let offset = PAGE_HEADER_SIZE + lacing.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+  view.setUint32(22, pageChecksum(page), true);
+  return page;
+}
+
+/**
+ * Ogg CRC-32 of a page, computed as if its checksum field were zero
+ */
+export function pageChecksum(page: Uint8Array): number {
+  let crc = 0;
+  for (let i = 0; i < page.length; i++) {
+    const byte = i >= 22 && i < 26 ? 0 : page[i];
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ byte) & 0xFF]) >>> 0;
+  }
+  return crc;
+}
+
+/**
+ * Record an audio page, filling in the positions of earlier pages that completed no packet
+ */
+function addOggPage(map: OggPageMap, offset: number, granulePosition: number): void {
+  if (granulePosition < 0) {
+    // Completed by a later page
+    map.pageOffsets.push(offset);
+    map.pageEnds.push(Infinity);
+    return;
+  }
+
+  const position = Math.max(0, granulePosition - map.preSkip);
+  for (let i = map.pageEnds.length - 1; i >= 0 && map.pageEnds[i] === Infinity; i--) {
+    map.pageEnds[i] = position;
+  }
+  map.pageOffsets.push(offset);
+  map.pageEnds.push(position);
+  map.totalSamples = Math.max(map.totalSamples, position);
+}
+
+/**
+ * Index of the first page ending after sample (pageEnds is non-decreasing), or pageEnds.length
+ */
+function findPageAt(pageEnds: number[], sample: number): number {
+  let left = 0;
+  let right = pageEnds.length;
+  while (left < right) {
+    const mid = Math.floor((left + right) / 2);
+    if (pageEnds[mid] > sample) {
+      right = mid;
+    } else {
+      left = mid + 1;
+    }
+  }
+  return left;
+}
+
+function matchesAscii(view: DataView, offset: number, text: string): boolean {
+  if (offset + text.length > view.byteLength) {
+    return false;
+  }
+  for (let i = 0; i < text.length; i++) {
+    if (view.getUint8(offset + i) !== text.charCodeAt(i)) {
+      return false;
+    }
+  }
+  return true;
+}
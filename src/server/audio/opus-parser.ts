@@ -0,0 +1,448 @@
+/**
+ * Opus packet parsing utilities for Ogg and WebM containers
+ * Opus slices are rewrapped as standalone Ogg Opus streams: a pre-roll of earlier packets
+ * primes the decoder, and the pre-skip and final granule position trim its output to the
+ * exact samples of the slice
+ */
+
+import { detectOggCodec, parseOggPageHeader, parseOggStreamInfo, writeOggPage } from './ogg-parser.js';
+import { isWebM, parseWebMHeader, scanWebMFrames } from './webm-parser.js';
+
+// Decoded samples that prime the decoder before a slice (80 ms, as recommended by RFC 7845)
+const PRE_ROLL_SAMPLES = 3840;
+
+// Serial number of the Ogg streams built for slices
+const SLICE_SERIAL_NUMBER = 0x5EC5;
+
+// Ogg page flags
+const CONTINUED_PACKET = 0x01;
+const BEGINNING_OF_STREAM = 0x02;
+const END_OF_STREAM = 0x04;
+
+// Lacing values per Ogg page
+const MAX_PAGE_SEGMENTS = 255;
+
+export interface OpusHeadInfo {
+  channels: number;
+  preSkip: number; // Samples the decoder drops at the start
+  mappingFamily: number;
+  streamCount: number;
+  coupledStreamCount: number;
+  channelMapping: number[];
+}
+
+/**
+ * Container-level description of an Opus stream
+ */
+export interface OpusStreamHeader {
+  container: 'ogg' | 'webm';
+  channels: number;
+  preSkip: number;
+  headOffset: number; // Byte range of the OpusHead identification header
+  headLength: number;
+  trackNumber: number; // WebM track of the Opus stream (0 for Ogg)
+  dataOffset: number; // Where packets start: after the Ogg header pages or at the first WebM cluster
+  duration?: number; // Seconds declared by a WebM segment
+}
+
+/**
+ * Packet index of an Opus stream for sample-accurate slicing
+ */
+export interface OpusPacketMap {
+  container: 'ogg' | 'webm';
+  trackNumber: number;
+  headOffset: number;
+  headLength: number;
+  preSkip: number;
+  /** Where each packet is read from: the packet itself (WebM) or the page it starts on (Ogg) */
+  packetOffsets: number[];
+  /** End of each packet (Ogg: of the page it ends on); -1 while the last packet is incomplete */
+  packetEnds: number[];
+  /** Ogg: packets starting before each packet on the same page */
+  pageSkips: number[];
+  /** Decoded sample position after each packet, pre-skip included */
+  sampleEnds: number[];
+  /** Playable samples of the complete packets (pre-skip and end trimming excluded) */
+  totalSamples: number;
+}
+
+/**
+ * Packets and trimming of one slice (see findOpusSliceRange)
+ */
+export interface OpusSliceRange {
+  start: number; // Byte range to read
+  end: number;
+  first: number; // Packets [first, last), pre-roll included
+  last: number;
+  preSkip: number; // Decoded samples the slice drops at its start
+  granulePosition: number; // Final granule position: pre-skip plus slice samples
+}
+
+/**
+ * Parse an OpusHead identification header (RFC 7845)
+ */
+export function parseOpusHead(head: Uint8Array): OpusHeadInfo | null {
+  if (head.length < 19 || String.fromCharCode(...head.subarray(0, 8)) !== 'OpusHead') {
+    return null;
+  }
+
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  const channels = head[9];
+  const mappingFamily = head[18];
+  if (mappingFamily === 0) {
+    return {
+      channels,
+      preSkip: view.getUint16(10, true),
+      mappingFamily,
+      streamCount: 1,
+      coupledStreamCount: channels > 1 ? 1 : 0,
+      channelMapping: channels > 1 ? [0, 1] : [0],
+    };
+  }
+
+  if (head.length < 21 + channels) {
+    return null;
+  }
+  return {
+    channels,
+    preSkip: view.getUint16(10, true),
+    mappingFamily,
+    streamCount: head[19],
+    coupledStreamCount: head[20],
+    channelMapping: Array.from(head.subarray(21, 21 + channels)),
+  };
+}
+
+/**
+ * Samples (at 48 kHz) of an Opus packet, from its TOC byte
+ */
+export function getOpusPacketSamples(packet: Uint8Array): number {
+  if (packet.length === 0) {
+    return 0;
+  }
+
+  const config = packet[0] >> 3;
+  let frameSize: number;
+  if (config < 12) {
+    frameSize = [480, 960, 1920, 2880][config & 3]; // SILK: 10, 20, 40, 60 ms
+  } else if (config < 16) {
+    frameSize = config & 1 ? 960 : 480; // Hybrid: 10, 20 ms
+  } else {
+    frameSize = [120, 240, 480, 960][config & 3]; // CELT: 2.5, 5, 10, 20 ms
+  }
+
+  const code = packet[0] & 3;
+  const frames = code === 0 ? 1 : code < 3 ? 2 : (packet[1] ?? 0) & 0x3F;
+  return frameSize * frames;
+}
+
+/**
+ * Parse the container header of an Ogg or WebM Opus stream
+ * @returns null if the header is incomplete or the stream is not Opus
+ */
+export function parseOpusStreamHeader(buffer: ArrayBuffer): OpusStreamHeader | null {
+  if (isWebM(buffer)) {
+    const track = parseWebMHeader(buffer);
+    if (!track || track.codecId !== 'A_OPUS') {
+      return null;
+    }
+    const head = parseOpusHead(new Uint8Array(buffer, track.codecPrivateOffset, track.codecPrivateLength));
+    if (!head) {
+      return null;
+    }
+    return {
+      container: 'webm',
+      channels: head.channels,
+      preSkip: head.preSkip || Math.round((track.codecDelay * 48000) / 1e9),
+      headOffset: track.codecPrivateOffset,
+      headLength: track.codecPrivateLength,
+      trackNumber: track.trackNumber,
+      dataOffset: track.clusterOffset,
+      duration: track.duration,
+    };
+  }
+
+  if (detectOggCodec(buffer) !== 'opus') {
+    return null;
+  }
+  const info = parseOggStreamInfo(buffer);
+  if (!info) {
+    return null;
+  }
+  // OpusHead is the only packet of the first page
+  const page = parseOggPageHeader(buffer, 0)!;
+  return {
+    container: 'ogg',
+    channels: info.channels,
+    preSkip: info.preSkip,
+    headOffset: page.bodyOffset,
+    headLength: page.length - (page.bodyOffset - page.offset),
+    trackNumber: 0,
+    dataOffset: info.headerLength,
+  };
+}
+
+/**
+ * Create an empty packet map for a stream
+ */
+export function createOpusPacketMap(header: OpusStreamHeader): OpusPacketMap {
+  return {
+    container: header.container,
+    trackNumber: header.trackNumber,
+    headOffset: header.headOffset,
+    headLength: header.headLength,
+    preSkip: header.preSkip,
+    packetOffsets: [],
+    packetEnds: [],
+    pageSkips: [],
+    sampleEnds: [],
+    totalSamples: 0,
+  };
+}
+
+/**
+ * Add the packets of the complete pages or elements in buffer[start, end) to a packet map
+ * base is the stream offset of buffer[0], so buffers may hold any part of the stream
+ * @returns Offset after the last complete page or element, where scanning continues
+ */
+export function scanOpusPackets(map: OpusPacketMap, buffer: ArrayBuffer, start: number, end: number, base = 0): number {
+  if (map.container === 'webm') {
+    const bytes = new Uint8Array(buffer);
+    return scanWebMFrames(buffer, start, end, map.trackNumber, (offset, length) => {
+      const local = offset - base;
+      addPacket(map, offset, offset + length, 0, getOpusPacketSamples(bytes.subarray(local, local + length)));
+      map.totalSamples = Math.max(0, map.sampleEnds[map.sampleEnds.length - 1] - map.preSkip);
+    }, base);
+  }
+  return scanOggOpusPages(map, buffer, start, end, base);
+}
+
+/**
+ * Scan an Ogg or WebM Opus stream and build its packet map
+ * @returns null if the stream is not Opus
+ */
+export function buildOpusPacketMap(buffer: ArrayBuffer): OpusPacketMap | null {
+  const header = parseOpusStreamHeader(buffer);
+  if (!header) {
+    return null;
+  }
+
+  const map = createOpusPacketMap(header);
+  scanOpusPackets(map, buffer, header.dataOffset, buffer.byteLength);
+  return map;
+}
+
+/**
+ * Packets holding samples [startSample, endSample) of the playable stream, with a pre-roll
+ * of up to 80 ms before them, and the trimming that cuts the slice to exactly those samples
+ */
+export function findOpusSliceRange(map: OpusPacketMap, startSample: number, endSample: number): OpusSliceRange {
+  const count = completePackets(map);
+  if (count === 0) {
+    return { start: 0, end: 0, first: 0, last: 0, preSkip: 0, granulePosition: 0 };
+  }
+
+  // Decoded positions include the stream's own pre-skip
+  const target = Math.min(startSample, map.totalSamples) + map.preSkip;
+  const targetEnd = Math.max(target, Math.min(endSample, map.totalSamples) + map.preSkip);
+
+  const first = Math.min(findPacketAt(map.sampleEnds, Math.max(0, target - PRE_ROLL_SAMPLES), count), count - 1);
+  const last = Math.min(Math.max(findPacketAt(map.sampleEnds, targetEnd - 1, count) + 1, first + 1), count);
+  const firstSample = first > 0 ? map.sampleEnds[first - 1] : 0;
+
+  return {
+    start: map.packetOffsets[first],
+    end: map.packetEnds[last - 1],
+    first,
+    last,
+    preSkip: target - firstSample,
+    granulePosition: targetEnd - firstSample,
+  };
+}
+
+/**
+ * Extract packets [first, last) from data, which holds the stream bytes starting at base
+ */
+export function extractOpusPackets(map: OpusPacketMap, data: ArrayBuffer, base: number, first: number, last: number): Uint8Array[] {
+  const bytes = new Uint8Array(data);
+  if (map.container === 'webm') {
+    const packets: Uint8Array[] = [];
+    for (let i = first; i < last; i++) {
+      packets.push(bytes.subarray(map.packetOffsets[i] - base, map.packetEnds[i] - base));
+    }
+    return packets;
+  }
+
+  // Ogg: reassemble the packets starting on the pages in data, then skip the ones before first
+  const packets: Uint8Array[] = [];
+  const wanted = map.pageSkips[first] + last - first;
+  let pending: Uint8Array[] | null = null;
+  let offset = map.packetOffsets[first] - base;
+  while (packets.length < wanted) {
+    const page = parseOggPageHeader(data, offset);
+    if (!page || offset + page.length > data.byteLength) {
+      break;
+    }
+
+    let position = page.bodyOffset;
+    let packetStart = position;
+    // A packet continued from before the first page is not one of ours
+    let skipping = offset === map.packetOffsets[first] - base && (page.headerType & CONTINUED_PACKET) !== 0;
+    for (let i = 0; i < page.bodyOffset - offset - 27; i++) {
+      const lacing = bytes[offset + 27 + i];
+      position += lacing;
+      if (lacing < 255) {
+        const fragment = bytes.subarray(packetStart, position);
+        if (!skipping) {
+          packets.push(pending ? concatBytes([...pending, fragment]) : fragment);
+        }
+        pending = null;
+        skipping = false;
+        packetStart = position;
+      }
+    }
+    if (packetStart < position && !skipping) {
+      pending = [...(pending ?? []), bytes.subarray(packetStart, position)];
+    }
+    offset += page.length;
+  }
+
+  return packets.slice(map.pageSkips[first], wanted);
+}
+
+/**
+ * Build a standalone Ogg Opus stream for a slice from the stream's OpusHead and the packets of a range
+ */
+export function assembleOpusSlice(head: ArrayBuffer, packets: Uint8Array[], range: OpusSliceRange): ArrayBuffer {
+  // The pre-skip drops the pre-roll and the samples before the slice start
+  const sliceHead = new Uint8Array(head.slice(0));
+  new DataView(sliceHead.buffer).setUint16(10, Math.min(range.preSkip, 0xFFFF), true);
+
+  const vendor = new TextEncoder().encode('secstream');
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  tags.set(new TextEncoder().encode('OpusTags'));
+  new DataView(tags.buffer).setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+
+  const pages = [
+    writeOggPage([sliceHead], BEGINNING_OF_STREAM, 0, SLICE_SERIAL_NUMBER, 0),
+    writeOggPage([tags], 0, 0, SLICE_SERIAL_NUMBER, 1),
+  ];
+
+  // The last page carries the final granule position, which trims the decoded output
+  let decoded = 0;
+  let pagePackets: Uint8Array[] = [];
+  let segments = 0;
+  packets.forEach((packet, index) => {
+    pagePackets.push(packet);
+    segments += Math.floor(packet.length / 255) + 1;
+    decoded += getOpusPacketSamples(packet);
+
+    const next = packets[index + 1];
+    const isLast = next === undefined;
+    if (isLast || segments + Math.floor(next.length / 255) + 1 > MAX_PAGE_SEGMENTS) {
+      const granulePosition = isLast ? range.granulePosition : Math.min(decoded, range.granulePosition);
+      pages.push(writeOggPage(pagePackets, isLast ? END_OF_STREAM : 0, granulePosition, SLICE_SERIAL_NUMBER, pages.length));
+      pagePackets = [];
+      segments = 0;
+    }
+  });
+
+  return concatBytes(pages).buffer as ArrayBuffer;
+}
+
+/**
+ * Index the packets of the complete Ogg pages in buffer[start, end)
+ */
+function scanOggOpusPages(map: OpusPacketMap, buffer: ArrayBuffer, start: number, end: number, base: number): number {
+  const bytes = new Uint8Array(buffer);
+  let offset = start;
+
+  while (offset + 27 <= end) {
+    const page = parseOggPageHeader(buffer, offset);
+    if (!page) {
+      // Not a page, resynchronize on the next byte
+      offset++;
+      continue;
+    }
+    if (offset + page.length > end) {
+      break;
+    }
+
+    const pageEnd = base + offset + page.length;
+    let position = page.bodyOffset;
+    let packetStart = position;
+    let continued = (page.headerType & CONTINUED_PACKET) !== 0;
+    let skip = 0;
+    for (let i = 0; i < page.bodyOffset - offset - 27; i++) {
+      const lacing = bytes[offset + 27 + i];
+      position += lacing;
+      if (lacing < 255) {
+        if (continued) {
+          // Completes the packet started on an earlier page
+          if (map.packetEnds.length > 0 && map.packetEnds[map.packetEnds.length - 1] < 0) {
+            map.packetEnds[map.packetEnds.length - 1] = pageEnd;
+          }
+          continued = false;
+        } else {
+          addPacket(map, base + offset, pageEnd, skip++, getOpusPacketSamples(bytes.subarray(packetStart, position)));
+        }
+        packetStart = position;
+      }
+    }
+    if (packetStart < position && !continued) {
+      // Continues on the next page
+      addPacket(map, base + offset, -1, skip, getOpusPacketSamples(bytes.subarray(packetStart, position)));
+    }
+
+    // Granule positions trim the end of the stream
+    if (page.granulePosition >= 0) {
+      const count = completePackets(map);
+      const decoded = count > 0 ? map.sampleEnds[count - 1] : 0;
+      map.totalSamples = Math.max(0, Math.min(decoded, page.granulePosition) - map.preSkip);
+    }
+    offset += page.length;
+  }
+
+  return offset;
+}
+
+function addPacket(map: OpusPacketMap, offset: number, end: number, skip: number, samples: number): void {
+  const previous = map.sampleEnds.length > 0 ? map.sampleEnds[map.sampleEnds.length - 1] : 0;
+  map.packetOffsets.push(offset);
+  map.packetEnds.push(end);
+  map.pageSkips.push(skip);
+  map.sampleEnds.push(previous + samples);
+}
+
+function completePackets(map: OpusPacketMap): number {
+  const count = map.packetEnds.length;
+  return count > 0 && map.packetEnds[count - 1] < 0 ? count - 1 : count;
+}
+
+/**
+ * Index of the first of count packets ending after sample, or count
+ */
+function findPacketAt(sampleEnds: number[], sample: number, count: number): number {
+  let left = 0;
+  let right = count;
+  while (left < right) {
+    const mid = Math.floor((left + right) / 2);
+    if (sampleEnds[mid] > sample) {
+      right = mid;
+    } else {
+      left = mid + 1;
+    }
+  }
+  return left;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
@@ -2,9 +2,9 @@
  * Audio decoder interface for converting compressed formats to PCM
  * Required for Safari/Firefox compatibility with FLAC/OGG streaming
  *
- * AAC handling: Server falls back to byte estimation for AAC files on Safari/Firefox
- * since AAC decoders are too large (1MB+) for Cloudflare Workers deployment.
- * The client's Web Audio API may still be able to decode AAC slices.
+ * AAC handling: AAC decoders are too large (1MB+) for Cloudflare Workers deployment.
+ * AAC and ALAC in MP4 are instead sliced into standalone M4A files, which the client's
+ * Web Audio API decodes on every browser.
  */
 
 import type { AudioMetadata } from './format-parser.js';
@@ -1,6 +1,6 @@
 /**
  * WASM-based audio decoder implementation using @wasm-audio-decoders
- * Supports FLAC, Ogg Vorbis, and MP3 formats
+ * Supports FLAC, Ogg Vorbis, Opus (Ogg and WebM), and MP3 formats
  * Optimized for size and compatible with Cloudflare Workers, Node.js, and browsers
  */
 
@@ -9,12 +9,15 @@ import type { AudioDecoder, PCMAudioData } from './types.js';
 import { FLACDecoder } from '@wasm-audio-decoders/flac';
 import { OggVorbisDecoder } from '@wasm-audio-decoders/ogg-vorbis';
 import { MPEGDecoder } from 'mpg123-decoder';
+import { OpusDecoder } from 'opus-decoder';
+import { buildOpusPacketMap, extractOpusPackets, parseOpusHead } from './opus-parser.js';
 
 /**
- * WASM-based audio decoder for FLAC, Ogg Vorbis, and MP3 formats
+ * WASM-based audio decoder for FLAC, Ogg Vorbis, Opus, and MP3 formats
  * Uses highly optimized WASM decoders with small bundle sizes:
  * - FLAC: ~67 KiB
  * - Ogg Vorbis: ~80 KiB
+ * - Opus: ~88 KiB
  * - MP3: ~76 KiB
  *
  * This decoder is compatible with:
@@ -37,13 +40,17 @@ export class WASMAudioDecoder implements AudioDecoder {
       return await this.decodeOggVorbis(compressedData);
     }
 
+    if (format === 'opus') {
+      return await this.decodeOpus(compressedData);
+    }
+
     if (format === 'mp3') {
       return await this.decodeMP3(compressedData);
     }
 
     throw new Error(
       `WASMAudioDecoder does not support format: ${format}. `
-      + 'Supported formats: FLAC, Ogg Vorbis, MP3.',
+      + 'Supported formats: FLAC, Ogg Vorbis, Opus, MP3.',
     );
   }
 
@@ -56,8 +63,8 @@ export class WASMAudioDecoder implements AudioDecoder {
     // Initialize the decoder
     await decoder.ready;
 
-    // Decode the entire file
-    const result = await decoder.decode(new Uint8Array(compressedData));
+    // Decode the entire file (decode() would hold back the last frames until a flush)
+    const result = await decoder.decodeFile(new Uint8Array(compressedData));
 
     // Free decoder resources
     await decoder.free();
@@ -124,6 +131,54 @@ export class WASMAudioDecoder implements AudioDecoder {
     };
   }
 
+  /**
+   * Decode Opus audio (Ogg or WebM) to PCM
+   * The packets are taken from the container; the decoder drops the pre-skip and the
+   * output is trimmed to the playable length
+   */
+  private async decodeOpus(compressedData: ArrayBuffer): Promise<PCMAudioData> {
+    const packetMap = buildOpusPacketMap(compressedData);
+    const head = packetMap && parseOpusHead(new Uint8Array(compressedData, packetMap.headOffset, packetMap.headLength));
+    if (!packetMap || !head) {
+      throw new Error('Opus decoding failed: No Opus stream found');
+    }
+
+    const decoder = new OpusDecoder({
+      channels: head.channels,
+      preSkip: packetMap.preSkip,
+      streamCount: head.streamCount,
+      coupledStreamCount: head.coupledStreamCount,
+      channelMappingTable: head.channelMapping,
+    });
+
+    // Initialize the decoder
+    await decoder.ready;
+
+    // Decode all packets
+    const packets = extractOpusPackets(packetMap, compressedData, 0, 0, packetMap.packetOffsets.length);
+    const result = decoder.decodeFrames(packets);
+
+    // Free decoder resources
+    decoder.free();
+
+    if (!result || !result.channelData || result.channelData.length === 0) {
+      throw new Error('Opus decoding failed: No audio data returned');
+    }
+
+    // Opus decoder returns Float32 samples at 48 kHz
+    const channels = result.channelData.length;
+    const sampleCount = Math.min(result.samplesDecoded, packetMap.totalSamples);
+    const interleavedData = this.interleaveChannels(result.channelData, sampleCount);
+
+    return {
+      pcmData: interleavedData.buffer as ArrayBuffer,
+      sampleRate: result.sampleRate,
+      channels,
+      bitDepth: 32,
+      isFloat32: true,
+    };
+  }
+
   /**
    * Decode MP3 audio to PCM
    */
@@ -186,13 +241,13 @@ export class WASMAudioDecoder implements AudioDecoder {
    * Check if this decoder supports the given format
    */
   supportsFormat(format: string): boolean {
-    return format === 'flac' || format === 'ogg' || format === 'mp3';
+    return format === 'flac' || format === 'ogg' || format === 'opus' || format === 'mp3';
   }
 
   /**
    * Get decoder name
    */
   getName(): string {
-    return 'WASMAudioDecoder (FLAC, Ogg Vorbis, MP3)';
+    return 'WASMAudioDecoder (FLAC, Ogg Vorbis, Opus, MP3)';
   }
 }
@@ -0,0 +1,335 @@
+/**
+ * WebM/Matroska parsing utilities
+ * Reads the audio track header and locates the frames of the track, including files
+ * recorded live (MediaRecorder) whose segment and clusters have no declared size
+ */
+
+// EBML element IDs (marker bits included)
+const EBML_HEADER_ID = 0x1A45DFA3;
+const SEGMENT_ID = 0x18538067;
+const INFO_ID = 0x1549A966;
+const TIMECODE_SCALE_ID = 0x2AD7B1;
+const DURATION_ID = 0x4489;
+const TRACKS_ID = 0x1654AE6B;
+const TRACK_ENTRY_ID = 0xAE;
+const TRACK_NUMBER_ID = 0xD7;
+const TRACK_TYPE_ID = 0x83;
+const CODEC_ID_ID = 0x86;
+const CODEC_PRIVATE_ID = 0x63A2;
+const CODEC_DELAY_ID = 0x56AA;
+const AUDIO_ID = 0xE1;
+const SAMPLING_FREQUENCY_ID = 0xB5;
+const CHANNELS_ID = 0x9F;
+const CLUSTER_ID = 0x1F43B675;
+const BLOCK_GROUP_ID = 0xA0;
+const BLOCK_ID = 0xA1;
+const SIMPLE_BLOCK_ID = 0xA3;
+
+// Matroska track type of audio tracks
+const AUDIO_TRACK_TYPE = 2;
+
+export interface WebMAudioTrack {
+  trackNumber: number;
+  codecId: string; // e.g. A_OPUS, A_VORBIS
+  sampleRate: number;
+  channels: number;
+  codecPrivateOffset: number; // Byte range of the codec setup data (OpusHead for Opus)
+  codecPrivateLength: number;
+  codecDelay: number; // Nanoseconds the decoder output is delayed by
+  duration?: number; // Seconds, if the segment declares it
+  clusterOffset: number; // Byte offset of the first cluster
+}
+
+interface EbmlElement {
+  id: number;
+  size: number; // -1 if unknown
+  dataOffset: number;
+}
+
+/**
+ * Check for the EBML header that starts WebM and Matroska files
+ */
+export function isWebM(buffer: ArrayBuffer): boolean {
+  return buffer.byteLength >= 4 && new DataView(buffer).getUint32(0, false) === EBML_HEADER_ID;
+}
+
+/**
+ * Parse the segment header up to the first cluster and return the first audio track
+ * @returns null if the header is incomplete or has no audio track
+ */
+export function parseWebMHeader(buffer: ArrayBuffer): WebMAudioTrack | null {
+  const view = new DataView(buffer);
+  const end = buffer.byteLength;
+
+  const ebml = readElementHeader(view, 0, end);
+  if (!ebml || ebml.id !== EBML_HEADER_ID || ebml.size < 0) {
+    return null;
+  }
+  const segment = readElementHeader(view, ebml.dataOffset + ebml.size, end);
+  if (!segment || segment.id !== SEGMENT_ID) {
+    return null;
+  }
+
+  let timecodeScale = 1_000_000;
+  let durationTicks: number | undefined;
+  let track: Omit<WebMAudioTrack, 'duration' | 'clusterOffset'> | null = null;
+
+  let offset = segment.dataOffset;
+  while (true) {
+    const element = readElementHeader(view, offset, end);
+    if (!element) {
+      return null;
+    }
+    if (element.id === CLUSTER_ID) {
+      break;
+    }
+    if (element.size < 0 || element.dataOffset + element.size > end) {
+      return null;
+    }
+
+    const elementEnd = element.dataOffset + element.size;
+    if (element.id === INFO_ID) {
+      forEachChild(view, element.dataOffset, elementEnd, (child) => {
+        if (child.id === TIMECODE_SCALE_ID) {
+          timecodeScale = readUint(view, child);
+        } else if (child.id === DURATION_ID) {
+          durationTicks = readFloat(view, child);
+        }
+      });
+    } else if (element.id === TRACKS_ID) {
+      forEachChild(view, element.dataOffset, elementEnd, (child) => {
+        if (child.id === TRACK_ENTRY_ID && !track) {
+          track = parseTrackEntry(view, child);
+        }
+      });
+    }
+    offset = elementEnd;
+  }
+
+  if (!track) {
+    return null;
+  }
+  return {
+    ...(track as Omit<WebMAudioTrack, 'duration' | 'clusterOffset'>),
+    duration: durationTicks !== undefined ? (durationTicks * timecodeScale) / 1e9 : undefined,
+    clusterOffset: offset,
+  };
+}
+
+/**
+ * Find the frames of a track in the complete elements of buffer[start, end)
+ * Clusters and block groups are entered, all other elements skipped, so sizes of
+ * clusters may be unknown. base is the stream offset of buffer[0]
+ * @returns Offset after the last complete element, where scanning continues
+ */
+export function scanWebMFrames(
+  buffer: ArrayBuffer,
+  start: number,
+  end: number,
+  trackNumber: number,
+  onFrame: (offset: number, length: number) => void,
+  base = 0,
+): number {
+  const view = new DataView(buffer);
+  let offset = start;
+
+  while (true) {
+    const element = readElementHeader(view, offset, end);
+    if (!element) {
+      break;
+    }
+    if (element.id === SEGMENT_ID || element.id === CLUSTER_ID || element.id === BLOCK_GROUP_ID) {
+      offset = element.dataOffset;
+      continue;
+    }
+
+    const elementEnd = element.dataOffset + element.size;
+    if (element.size < 0 || elementEnd > end) {
+      break;
+    }
+    if (element.id === SIMPLE_BLOCK_ID || element.id === BLOCK_ID) {
+      readBlockFrames(view, element.dataOffset, elementEnd, trackNumber, (frameOffset, length) => onFrame(base + frameOffset, length));
+    }
+    offset = elementEnd;
+  }
+
+  return offset;
+}
+
+function parseTrackEntry(view: DataView, entry: EbmlElement): Omit<WebMAudioTrack, 'duration' | 'clusterOffset'> | null {
+  // Matroska defaults
+  let trackNumber = 0;
+  let trackType = 0;
+  let codecId = '';
+  let sampleRate = 8000;
+  let channels = 1;
+  let codecPrivateOffset = 0;
+  let codecPrivateLength = 0;
+  let codecDelay = 0;
+
+  forEachChild(view, entry.dataOffset, entry.dataOffset + entry.size, (child) => {
+    switch (child.id) {
+      case TRACK_NUMBER_ID:
+        trackNumber = readUint(view, child);
+        break;
+      case TRACK_TYPE_ID:
+        trackType = readUint(view, child);
+        break;
+      case CODEC_ID_ID:
+        codecId = String.fromCharCode(...new Uint8Array(view.buffer, child.dataOffset, child.size)).replace(/\0+$/, '');
+        break;
+      case CODEC_PRIVATE_ID:
+        codecPrivateOffset = child.dataOffset;
+        codecPrivateLength = child.size;
+        break;
+      case CODEC_DELAY_ID:
+        codecDelay = readUint(view, child);
+        break;
+      case AUDIO_ID:
+        forEachChild(view, child.dataOffset, child.dataOffset + child.size, (setting) => {
+          if (setting.id === SAMPLING_FREQUENCY_ID) {
+            sampleRate = readFloat(view, setting);
+          } else if (setting.id === CHANNELS_ID) {
+            channels = readUint(view, setting);
+          }
+        });
+        break;
+    }
+  });
+
+  if (trackType !== AUDIO_TRACK_TYPE) {
+    return null;
+  }
+  return { trackNumber, codecId, sampleRate, channels, codecPrivateOffset, codecPrivateLength, codecDelay };
+}
+
+/**
+ * Report the frames of a (Simple)Block of the track, splitting laced blocks
+ */
+function readBlockFrames(view: DataView, start: number, end: number, trackNumber: number, onFrame: (offset: number, length: number) => void): void {
+  const track = readVint(view, start, end, false);
+  if (!track || track.value !== trackNumber) {
+    return;
+  }
+
+  // Relative timecode (int16) and flags
+  let offset = start + track.length + 3;
+  if (offset > end) {
+    return;
+  }
+  const lacing = (view.getUint8(offset - 1) >> 1) & 0x3;
+  if (lacing === 0) {
+    onFrame(offset, end - offset);
+    return;
+  }
+
+  const frameCount = view.getUint8(offset) + 1;
+  offset++;
+  const sizes: number[] = [];
+  if (lacing === 1) {
+    // Xiph lacing: sizes as runs of 255
+    for (let i = 0; i < frameCount - 1; i++) {
+      let size = 0;
+      let byte: number;
+      do {
+        if (offset >= end) {
+          return;
+        }
+        byte = view.getUint8(offset++);
+        size += byte;
+      } while (byte === 255);
+      sizes.push(size);
+    }
+  } else if (lacing === 3) {
+    // EBML lacing: first size, then signed differences
+    for (let i = 0; i < frameCount - 1; i++) {
+      const vint = readVint(view, offset, end, false);
+      if (!vint) {
+        return;
+      }
+      offset += vint.length;
+      sizes.push(i === 0 ? vint.value : sizes[i - 1] + vint.value - (2 ** (7 * vint.length - 1) - 1));
+    }
+  } else {
+    // Fixed-size lacing
+    const size = Math.floor((end - offset) / frameCount);
+    sizes.push(...Array.from({ length: frameCount - 1 }, () => size));
+  }
+
+  // The last frame takes the rest of the block
+  sizes.push(end - offset - sizes.reduce((sum, size) => sum + size, 0));
+  for (const size of sizes) {
+    if (size < 0 || offset + size > end) {
+      return;
+    }
+    onFrame(offset, size);
+    offset += size;
+  }
+}
+
+function forEachChild(view: DataView, start: number, end: number, callback: (element: EbmlElement) => void): void {
+  let offset = start;
+  while (offset < end) {
+    const element = readElementHeader(view, offset, end);
+    if (!element || element.size < 0 || element.dataOffset + element.size > end) {
+      return;
+    }
+    callback(element);
+    offset = element.dataOffset + element.size;
+  }
+}
+
+function readElementHeader(view: DataView, offset: number, end: number): EbmlElement | null {
+  const id = readVint(view, offset, end, true);
+  if (!id) {
+    return null;
+  }
+  const size = readVint(view, offset + id.length, end, false);
+  if (!size) {
+    return null;
+  }
+  return { id: id.value, size: size.value, dataOffset: offset + id.length + size.length };
+}
+
+/**
+ * Read a variable-length integer; with keepMarker for element IDs
+ * Sizes with all value bits set are unknown (-1)
+ */
+function readVint(view: DataView, offset: number, end: number, keepMarker: boolean): { value: number; length: number } | null {
+  if (offset >= end) {
+    return null;
+  }
+  const first = view.getUint8(offset);
+  if (first === 0) {
+    return null; // Longer than 8 bytes
+  }
+
+  const length = Math.clz32(first) - 23;
+  if (offset + length > end) {
+    return null;
+  }
+  const mask = 0xFF >> length;
+  let value = keepMarker ? first : first & mask;
+  let allOnes = (first & mask) === mask;
+  for (let i = 1; i < length; i++) {
+    const byte = view.getUint8(offset + i);
+    value = value * 256 + byte;
+    allOnes &&= byte === 0xFF;
+  }
+  return { value: !keepMarker && allOnes ? -1 : value, length };
+}
+
+function readUint(view: DataView, element: EbmlElement): number {
+  let value = 0;
+  for (let i = 0; i < element.size; i++) {
+    value = value * 256 + view.getUint8(element.dataOffset + i);
+  }
+  return value;
+}
+
+function readFloat(view: DataView, element: EbmlElement): number {
+  if (element.size === 4) {
+    return view.getFloat32(element.dataOffset, false);
+  }
+  return element.size === 8 ? view.getFloat64(element.dataOffset, false) : 0;
+}
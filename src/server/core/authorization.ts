@@ -0,0 +1,71 @@
+import type { SliceRequestProof } from '../../shared/crypto/request-proof.js';
+import type { SessionTokenClaims } from './session-tokens.js';
+
+/**
+ * Request authorization
+ *
+ * Every SessionManager / SecureAudioServer operation accepts a RequestContext. With a
+ * SessionTokenSigner configured, operations on an existing session require a token issued for
+ * that session; the authorize hook then decides whether the caller may perform the action.
+ */
+
+/**
+ * Operations passed to the authorize hook
+ */
+export type SessionAction
+  = | 'createSession'
+    | 'issueToken'
+    | 'keyExchange'
+    | 'getSessionInfo'
+    | 'getSlice'
+    | 'resolveSliceIds'
+    | 'addTrack'
+    | 'removeTrack'
+    | 'destroySession'
+    | 'appendLiveAudio'
+    | 'endLiveSession';
+
+/**
+ * User (and tenant) a session was created by
+ */
+export interface SessionOwner {
+  subject?: string;
+  tenant?: string;
+}
+
+/**
+ * Caller of an operation
+ * subject/tenant are set by the application from its own authentication; token and claims
+ * come from the session token the client presents
+ */
+export interface RequestContext {
+  /** Authenticated user, as determined by the application */
+  subject?: string;
+  /** Tenant of the authenticated user */
+  tenant?: string;
+  /** Session token presented by the client (Authorization: Bearer) */
+  token?: string;
+  /** Verified claims of token, filled in by SessionManager */
+  claims?: SessionTokenClaims;
+  /** Proof of the session key sent with a slice request (X-SecStream-Proof) */
+  sliceProof?: SliceRequestProof;
+  /** User-Agent header for browser-aware processing */
+  userAgent?: string;
+}
+
+/**
+ * Session an operation targets (null when creating a session)
+ */
+export interface AuthorizationTarget {
+  sessionId: string;
+  owner?: SessionOwner;
+}
+
+/**
+ * Decide whether a caller may perform an action; return false to reject with 403
+ */
+export type AuthorizeHook = (
+  context: RequestContext,
+  action: SessionAction,
+  session: AuthorizationTarget | null,
+) => boolean | Promise<boolean>;
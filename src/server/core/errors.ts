@@ -0,0 +1,144 @@
+/**
+ * Structured server errors
+ * Each error carries a stable code and an HTTP status so handlers can map them to responses
+ */
+
+/**
+ * Base class for errors raised by SessionManager and SecureAudioServer
+ */
+export class SecStreamError extends Error {
+  public readonly code: string;
+  public readonly status: number;
+
+  constructor(message: string, code: string, status: number) {
+    super(message);
+    this.name = 'SecStreamError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * The requested session does not exist (never created, expired or destroyed)
+ */
+export class SessionNotFoundError extends SecStreamError {
+  constructor(sessionId: string) {
+    super(`Session ${sessionId} not found`, 'SESSION_NOT_FOUND', 404);
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+/**
+ * The requested track does not exist in the session
+ */
+export class TrackNotFoundError extends SecStreamError {
+  constructor(message: string) {
+    super(message, 'TRACK_NOT_FOUND', 404);
+    this.name = 'TrackNotFoundError';
+  }
+}
+
+/**
+ * The operation is not valid for the current session state or input
+ */
+export class InvalidOperationError extends SecStreamError {
+  constructor(message: string) {
+    super(message, 'INVALID_OPERATION', 400);
+    this.name = 'InvalidOperationError';
+  }
+}
+
+/**
+ * The session's audio is still being uploaded to another instance and cannot be served here yet
+ */
+export class SessionNotReadyError extends SecStreamError {
+  constructor(sessionId: string) {
+    super(`Session ${sessionId} is still receiving audio`, 'SESSION_NOT_READY', 409);
+    this.name = 'SessionNotReadyError';
+  }
+}
+
+/**
+ * The request carries no session token, or one that is malformed, expired or issued for another session
+ */
+export class InvalidSessionTokenError extends SecStreamError {
+  constructor(message: string) {
+    super(message, 'INVALID_SESSION_TOKEN', 401);
+    this.name = 'InvalidSessionTokenError';
+  }
+}
+
+/**
+ * The authorization hook denied the operation
+ */
+export class AuthorizationError extends SecStreamError {
+  constructor(message: string) {
+    super(message, 'FORBIDDEN', 403);
+    this.name = 'AuthorizationError';
+  }
+}
+
+/**
+ * The session fetches slices faster than real-time playback allows (see SessionManagerConfig.pacing)
+ * retryAfterMs is unset when the session has been revoked
+ */
+export class PacingError extends SecStreamError {
+  public readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number) {
+    super(message, 'SLICE_RATE_LIMITED', 429);
+    this.name = 'PacingError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * The slice request carries no proof of the session key, or one that is stale, replayed or forged
+ * (see SessionManagerConfig.sliceRequestProofs)
+ */
+export class InvalidRequestProofError extends SecStreamError {
+  constructor(message: string) {
+    super(message, 'INVALID_REQUEST_PROOF', 401);
+    this.name = 'InvalidRequestProofError';
+  }
+}
+
+/**
+ * The instance already holds SessionLimitsConfig.maxSessions sessions and the eviction policy is 'reject'
+ */
+export class SessionLimitError extends SecStreamError {
+  public readonly limit: number;
+
+  constructor(limit: number) {
+    super(`Session limit of ${limit} reached`, 'SESSION_LIMIT_REACHED', 503);
+    this.name = 'SessionLimitError';
+    this.limit = limit;
+  }
+}
+
+/**
+ * The session would hold more than SessionLimitsConfig.maxTracksPerSession tracks
+ */
+export class TrackLimitError extends SecStreamError {
+  public readonly limit: number;
+
+  constructor(limit: number) {
+    super(`Sessions may hold at most ${limit} tracks`, 'TRACK_LIMIT_REACHED', 409);
+    this.name = 'TrackLimitError';
+    this.limit = limit;
+  }
+}
+
+/**
+ * The memory budget is exhausted (see SessionManagerConfig.memoryBudget): the session or track was
+ * refused, or waited longer than queueTimeoutMs for memory to be released
+ */
+export class MemoryBudgetError extends SecStreamError {
+  public readonly maxBytes: number;
+
+  constructor(message: string, maxBytes: number) {
+    super(message, 'MEMORY_BUDGET_EXCEEDED', 503);
+    this.name = 'MemoryBudgetError';
+    this.maxBytes = maxBytes;
+  }
+}
@@ -0,0 +1,251 @@
+import type { Timer } from '../../shared/utils/timers.js';
+import { createTimeout } from '../../shared/utils/timers.js';
+import { MemoryBudgetError } from './errors.js';
+
+/**
+ * Process-wide memory accounting
+ *
+ * SessionManager reports the bytes every session and track holds in uploaded source buffers,
+ * decoded audio and encrypted slice caches. When the total exceeds the budget, slice caches and
+ * decoded PCM are cleared, least recently used first; while it stays exhausted, new sessions and tracks are
+ * refused or queued. Only buffers held by SecStream are counted, not the whole process heap.
+ */
+
+/**
+ * Configuration options for the memory budget (SessionManagerConfig.memoryBudget)
+ */
+export interface MemoryBudgetConfig {
+  /** Bytes all sessions of this instance may hold together */
+  maxBytes: number;
+  /**
+   * Handling of new sessions and tracks while the budget is exhausted
+   * - 'reject': fail with MemoryBudgetError
+   * - 'queue': wait until enough memory is released (up to queueTimeoutMs)
+   * Default: 'reject'
+   */
+  admission?: 'reject' | 'queue';
+  /** Maximum wait of queued sessions and tracks in ms. Default: 30_000 */
+  queueTimeoutMs?: number;
+}
+
+/**
+ * Kinds of memory held by a session or track
+ * - source: uploaded audio (buffers and streaming uploads)
+ * - decoded: audio prepared for slicing (the extracted payload, and PCM decoded for strict browsers)
+ * - sliceCache: encrypted slices cached for repeated requests
+ */
+export type MemoryCategory = 'source' | 'decoded' | 'sliceCache';
+
+/**
+ * Snapshot of the memory budget
+ */
+export interface MemoryUsage {
+  maxBytes: number;
+  totalBytes: number;
+  source: number;
+  decoded: number;
+  sliceCache: number;
+  /** Sessions and tracks waiting for memory */
+  queued: number;
+}
+
+interface Holding {
+  sessionId: string;
+  bytes: Record<MemoryCategory, number>;
+  reclaim?: () => void;
+}
+
+interface QueuedAdmission {
+  holder: string;
+  sessionId: string;
+  bytes: number;
+  resolve: () => void;
+  timer: Timer;
+}
+
+/**
+ * Tracks the bytes held per session or track ("holder") against a global budget
+ */
+export class MemoryBudget {
+  private readonly maxBytes: number;
+  private readonly admission: 'reject' | 'queue';
+  private readonly queueTimeoutMs: number;
+  private holdings = new Map<string, Holding>(); // Least recently used first
+  private totals: Record<MemoryCategory, number> = { source: 0, decoded: 0, sliceCache: 0 };
+  private queue: QueuedAdmission[] = [];
+  private draining = false;
+
+  constructor(config: MemoryBudgetConfig) {
+    this.maxBytes = config.maxBytes;
+    this.admission = config.admission ?? 'reject';
+    this.queueTimeoutMs = config.queueTimeoutMs ?? 30_000;
+  }
+
+  get totalBytes(): number {
+    return this.totals.source + this.totals.decoded + this.totals.sliceCache;
+  }
+
+  /**
+   * Wait until bytes fit into the budget and reserve them as source memory of the holder
+   * Caches are cleared first if that makes room
+   * @throws MemoryBudgetError if the budget is exhausted ('reject') or the wait timed out ('queue')
+   */
+  async admit(holder: string, sessionId: string, bytes: number): Promise<void> {
+    if (this.queue.length === 0 && this.fits(bytes)) {
+      this.set(holder, sessionId, 'source', bytes);
+      return;
+    }
+    if (this.admission === 'reject' || bytes > this.maxBytes) {
+      throw new MemoryBudgetError(`Memory budget of ${this.maxBytes} bytes is exhausted`, this.maxBytes);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const entry: QueuedAdmission = {
+        holder,
+        sessionId,
+        bytes,
+        resolve,
+        timer: createTimeout(() => {
+          this.queue.splice(this.queue.indexOf(entry), 1);
+          reject(new MemoryBudgetError(`No memory was released within ${this.queueTimeoutMs} ms`, this.maxBytes));
+        }, this.queueTimeoutMs),
+      };
+      this.queue.push(entry);
+    });
+  }
+
+  /**
+   * Report the bytes a holder currently holds in one category
+   * Growth marks the holder as recently used and clears slice caches if the budget is exceeded
+   */
+  set(holder: string, sessionId: string, category: MemoryCategory, bytes: number): void {
+    const holding = this.getHolding(holder, sessionId);
+    const delta = bytes - holding.bytes[category];
+    if (delta === 0) {
+      return;
+    }
+
+    holding.bytes[category] = bytes;
+    this.totals[category] += delta;
+    if (delta > 0) {
+      this.touch(holder);
+      if (this.totalBytes > this.maxBytes) {
+        this.reclaimCaches(this.totalBytes - this.maxBytes);
+      }
+    } else {
+      this.drainQueue();
+    }
+  }
+
+  /**
+   * Register how to clear the caches of a holder, resetting its decoded and cache bytes
+   * (a new audio processor replaces the previous one)
+   */
+  register(holder: string, sessionId: string, reclaim: () => void): void {
+    this.set(holder, sessionId, 'decoded', 0);
+    this.set(holder, sessionId, 'sliceCache', 0);
+    this.getHolding(holder, sessionId).reclaim = reclaim;
+  }
+
+  /**
+   * Mark a holder as recently used, so its slice cache is cleared last
+   */
+  touch(holder: string): void {
+    const holding = this.holdings.get(holder);
+    if (holding) {
+      this.holdings.delete(holder);
+      this.holdings.set(holder, holding);
+    }
+  }
+
+  /**
+   * Forget a holder and everything it held
+   */
+  release(holder: string): void {
+    const holding = this.holdings.get(holder);
+    if (!holding) {
+      return;
+    }
+
+    this.holdings.delete(holder);
+    for (const category of Object.keys(holding.bytes) as MemoryCategory[]) {
+      this.totals[category] -= holding.bytes[category];
+    }
+    this.drainQueue();
+  }
+
+  /**
+   * Forget every holder of a session
+   */
+  releaseSession(sessionId: string): void {
+    for (const [holder, holding] of this.holdings) {
+      if (holding.sessionId === sessionId) {
+        this.release(holder);
+      }
+    }
+  }
+
+  getUsage(): MemoryUsage {
+    return {
+      maxBytes: this.maxBytes,
+      totalBytes: this.totalBytes,
+      ...this.totals,
+      queued: this.queue.length,
+    };
+  }
+
+  private getHolding(holder: string, sessionId: string): Holding {
+    let holding = this.holdings.get(holder);
+    if (!holding) {
+      holding = { sessionId, bytes: { source: 0, decoded: 0, sliceCache: 0 } };
+      this.holdings.set(holder, holding);
+    }
+    return holding;
+  }
+
+  private fits(bytes: number): boolean {
+    // Streaming uploads of unknown size need some room left
+    const required = Math.max(bytes, 1);
+    if (this.totalBytes + required > this.maxBytes) {
+      this.reclaimCaches(this.totalBytes + required - this.maxBytes);
+    }
+    return this.totalBytes + required <= this.maxBytes;
+  }
+
+  /**
+   * Clear caches, least recently used holders first, until bytes have been freed
+   * (holders with decoded audio may hold decoded PCM, which is cleared with the slice cache)
+   */
+  private reclaimCaches(bytes: number): void {
+    const target = this.totalBytes - bytes;
+    for (const holding of [...this.holdings.values()]) {
+      if (this.totalBytes <= target) {
+        return;
+      }
+      if (holding.bytes.sliceCache > 0 || holding.bytes.decoded > 0) {
+        holding.reclaim?.();
+      }
+    }
+  }
+
+  /**
+   * Admit queued sessions and tracks in order while they fit
+   */
+  private drainQueue(): void {
+    if (this.draining) {
+      return;
+    }
+
+    this.draining = true;
+    try {
+      while (this.queue.length > 0 && this.fits(this.queue[0].bytes)) {
+        const entry = this.queue.shift()!;
+        entry.timer.clear();
+        this.set(entry.holder, entry.sessionId, 'source', entry.bytes);
+        entry.resolve();
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+}
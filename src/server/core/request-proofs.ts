@@ -0,0 +1,106 @@
+import type { SliceRequestProof } from '../../shared/crypto/request-proof.js';
+import type { SliceRequest } from '../../shared/types/interfaces.js';
+import { verifySliceRequestProof } from '../../shared/crypto/request-proof.js';
+
+/**
+ * Slice request proof checks
+ *
+ * Verifies the proofs clients attach to slice requests when SessionManagerConfig.sliceRequestProofs
+ * is set: the MAC must match the session key, the timestamp must be recent and the nonce unused.
+ * Nonces are remembered for the freshness window, so each instance rejects replays of the
+ * requests it served.
+ */
+
+/**
+ * Configuration options for slice request proofs (SessionManagerConfig.sliceRequestProofs)
+ */
+export interface SliceRequestProofConfig {
+  /** Accepted age of a proof in ms, also the tolerated clock skew. Default: 30_000 */
+  maxAgeMs?: number;
+}
+
+/**
+ * Outcome of a proof check
+ */
+export type SliceProofResult = 'valid' | 'missing' | 'stale' | 'replayed' | 'invalid';
+
+/**
+ * Checks slice request proofs and remembers used nonces per session
+ */
+export class SliceProofVerifier {
+  private readonly maxAgeMs: number;
+  private nonces = new Map<string, Map<string, number>>(); // sessionId → nonce → timestamp
+  private keys = new WeakMap<object, Promise<CryptoKey>>(); // session key → proof key
+
+  constructor(config: SliceRequestProofConfig = {}) {
+    this.maxAgeMs = config.maxAgeMs ?? 30_000;
+  }
+
+  /**
+   * Check the proof of a slice request
+   * @param request - Request the proof must cover
+   * @param proof - Proof sent by the client
+   * @param sessionKey - Session key of the session (or track) the slice belongs to
+   * @param deriveKey - Derives the proof key from the session key
+   * @param now - Current time (epoch ms)
+   */
+  async verify(
+    request: SliceRequest,
+    proof: SliceRequestProof | undefined,
+    sessionKey: unknown,
+    deriveKey: () => Promise<CryptoKey>,
+    now: number = Date.now(),
+  ): Promise<SliceProofResult> {
+    if (!proof) {
+      return 'missing';
+    }
+    if (Math.abs(now - proof.timestamp) > this.maxAgeMs) {
+      return 'stale';
+    }
+
+    if (!(await verifySliceRequestProof(await this.getKey(sessionKey, deriveKey), request, proof))) {
+      return 'invalid';
+    }
+
+    // Only authentic proofs are remembered, so forged requests cannot fill the nonce cache
+    let nonces = this.nonces.get(request.sessionId);
+    if (!nonces) {
+      nonces = new Map();
+      this.nonces.set(request.sessionId, nonces);
+    }
+    for (const [nonce, timestamp] of nonces) {
+      if (Math.abs(now - timestamp) > this.maxAgeMs) {
+        nonces.delete(nonce);
+      }
+    }
+    if (nonces.has(proof.nonce)) {
+      return 'replayed';
+    }
+    nonces.set(proof.nonce, proof.timestamp);
+    return 'valid';
+  }
+
+  /**
+   * Derived proof key, cached per session key object
+   */
+  private async getKey(sessionKey: unknown, deriveKey: () => Promise<CryptoKey>): Promise<CryptoKey> {
+    if (typeof sessionKey !== 'object' || sessionKey === null) {
+      return await deriveKey();
+    }
+
+    let key = this.keys.get(sessionKey);
+    if (!key) {
+      key = deriveKey();
+      this.keys.set(sessionKey, key);
+      key.catch(() => this.keys.delete(sessionKey));
+    }
+    return await key;
+  }
+
+  /**
+   * Drop the nonces of a session
+   */
+  forget(sessionId: string): void {
+    this.nonces.delete(sessionId);
+  }
+}
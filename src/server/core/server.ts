@@ -1,6 +1,9 @@
-import type { EncryptedSlice, SessionInfo } from '../../shared/types/interfaces.js';
+import type { EncryptedSliceIds } from '../../shared/protocol/slice-ids.js';
+import type { EncryptedSlice, SessionInfo, TrackInfo } from '../../shared/types/interfaces.js';
 import type { KeyExchangeRequest, KeyExchangeResponse } from '../../shared/types/processors.js';
-import type { SessionManager } from './session-manager.js';
+import type { AudioSourceProvider } from '../sources/audio-source-provider.js';
+import type { RequestContext } from './authorization.js';
+import type { LiveSessionOptions, SessionManager } from './session-manager.js';
 
 /**
  * Core server class that provides secure audio streaming functionality.
@@ -18,52 +21,162 @@ export class SecureAudioServer {
 
   /**
    * Create a new audio session from uploaded audio data
-   * @param audioData - Raw audio data (ArrayBuffer or ReadableStream)
-   * @returns Promise resolving to session information
+   * @param audioData - Raw audio data (ArrayBuffer, ReadableStream or AudioSourceProvider)
+   * @param context - Caller of the operation
+   * @returns Promise resolving to session information (with a session token when tokens are configured)
    */
-  async createSession(audioData: ArrayBuffer | ReadableStream): Promise<{ sessionId: string }> {
-    const sessionId = await this.sessionManager.createSession(audioData);
-    return { sessionId };
+  async createSession(audioData: ArrayBuffer | ReadableStream | AudioSourceProvider, context?: RequestContext): Promise<{ sessionId: string; token?: string }> {
+    const sessionId = await this.sessionManager.createSession(audioData, context);
+    return await this.withToken(sessionId, context);
+  }
+
+  /**
+   * Create a new multi-track session
+   * @param tracks - Audio data and optional metadata for each track
+   * @param context - Caller of the operation
+   * @returns Promise resolving to session information (with a session token when tokens are configured)
+   */
+  async createMultiTrackSession(tracks: Array<{
+    audioData: ArrayBuffer | ReadableStream | AudioSourceProvider;
+    metadata?: { title?: string; artist?: string; album?: string };
+  }>, context?: RequestContext): Promise<{ sessionId: string; token?: string }> {
+    const sessionId = await this.sessionManager.createMultiTrackSession(tracks, context);
+    return await this.withToken(sessionId, context);
+  }
+
+  /**
+   * Create a live session (see SessionManager.createLiveSession)
+   * @param initialAudio - First chunk of the stream, containing the complete audio header
+   * @param options - Live session options
+   * @param context - Caller of the operation
+   * @returns Promise resolving to session information (with a session token when tokens are configured)
+   */
+  async createLiveSession(initialAudio: ArrayBuffer | Uint8Array, options?: LiveSessionOptions, context?: RequestContext): Promise<{ sessionId: string; token?: string }> {
+    const sessionId = await this.sessionManager.createLiveSession(initialAudio, options, context);
+    return await this.withToken(sessionId, context);
+  }
+
+  /**
+   * Append audio to a live session
+   * @param sessionId - Live session identifier
+   * @param chunk - Next bytes of the stream
+   * @param context - Caller of the operation
+   */
+  async appendLiveAudio(sessionId: string, chunk: ArrayBuffer | Uint8Array, context?: RequestContext): Promise<void> {
+    await this.sessionManager.appendLiveAudio(sessionId, chunk, context);
+  }
+
+  /**
+   * End a live session
+   * @param sessionId - Live session identifier
+   * @param context - Caller of the operation
+   */
+  async endLiveSession(sessionId: string, context?: RequestContext): Promise<void> {
+    await this.sessionManager.endLiveSession(sessionId, context);
   }
 
   /**
    * Handle key exchange for a session
    * @param sessionId - The session identifier
    * @param request - Key exchange request from client
+   * @param trackId - Optional track ID for multi-track sessions
+   * @param context - Caller of the operation
    * @returns Promise resolving to key exchange response
    */
   async handleKeyExchange<TRequestData = unknown, TResponseData = unknown>(
     sessionId: string,
     request: KeyExchangeRequest<TRequestData>,
+    trackId?: string,
+    context?: RequestContext,
   ): Promise<KeyExchangeResponse<TResponseData, SessionInfo>> {
-    return await this.sessionManager.handleKeyExchange(sessionId, request);
+    return await this.sessionManager.handleKeyExchange(sessionId, request, trackId, context);
   }
 
   /**
    * Get session information
    * @param sessionId - The session identifier
+   * @param context - Caller of the operation
    * @returns Session information or null if not found
    */
-  async getSessionInfo(sessionId: string): Promise<SessionInfo | null> {
-    return this.sessionManager.getSessionInfo(sessionId);
+  async getSessionInfo(sessionId: string, context?: RequestContext): Promise<SessionInfo | null> {
+    return await this.sessionManager.resolveSessionInfo(sessionId, context);
   }
 
   /**
    * Get an encrypted audio slice
    * @param sessionId - The session identifier
    * @param sliceId - The slice identifier (e.g., "slice_0")
+   * @param trackId - Optional track ID for multi-track sessions
+   * @param userAgent - Optional User-Agent header for browser-aware processing
+   * @param context - Caller of the operation
    * @returns Encrypted slice data or null if not found
    */
-  async getSlice(sessionId: string, sliceId: string): Promise<EncryptedSlice | null> {
-    return await this.sessionManager.getSlice(sessionId, sliceId);
+  async getSlice(
+    sessionId: string,
+    sliceId: string,
+    trackId?: string,
+    userAgent?: string,
+    context?: RequestContext,
+  ): Promise<EncryptedSlice | null> {
+    return await this.sessionManager.getSlice(sessionId, sliceId, trackId, userAgent ?? context?.userAgent, context);
+  }
+
+  /**
+   * Resolve a slice position to slice IDs (rolling slice ID disclosure)
+   * @param sessionId - The session identifier
+   * @param sliceIndex - Index of the first slice to resolve
+   * @param trackId - Optional track ID for multi-track sessions
+   * @param context - Caller of the operation
+   * @returns Encrypted IDs of the slices starting at sliceIndex
+   */
+  async resolveSliceIds(sessionId: string, sliceIndex: number, trackId?: string, context?: RequestContext): Promise<EncryptedSliceIds> {
+    return await this.sessionManager.resolveSliceIds(sessionId, sliceIndex, trackId, context);
+  }
+
+  /**
+   * Add a track to an existing session
+   * @param sessionId - The session identifier
+   * @param audioData - Audio data for the new track
+   * @param metadata - Optional track metadata
+   * @param context - Caller of the operation
+   * @returns Track information (populated after key exchange)
+   */
+  async addTrack(
+    sessionId: string,
+    audioData: ArrayBuffer | ReadableStream | AudioSourceProvider,
+    metadata?: { title?: string; artist?: string; album?: string },
+    context?: RequestContext,
+  ): Promise<TrackInfo> {
+    return await this.sessionManager.addTrack(sessionId, audioData, metadata, context);
+  }
+
+  /**
+   * Remove a track from a multi-track session
+   * @param sessionId - The session identifier
+   * @param trackIdOrIndex - Track ID or index to remove
+   * @param context - Caller of the operation
+   * @returns Updated session information
+   */
+  async removeTrack(sessionId: string, trackIdOrIndex: string | number, context?: RequestContext): Promise<SessionInfo> {
+    return await this.sessionManager.removeTrack(sessionId, trackIdOrIndex, context);
   }
 
   /**
    * Destroy a session and clean up resources
    * @param sessionId - The session identifier
+   * @param context - Caller of the operation
+   */
+  async destroySession(sessionId: string, context?: RequestContext): Promise<void> {
+    await this.sessionManager.destroySession(sessionId, context);
+  }
+
+  /**
+   * Issue a session token (requires SessionManagerConfig.sessionTokens)
+   * @param sessionId - The session identifier
+   * @param context - Caller the token is issued to
    */
-  destroySession(sessionId: string): void {
-    this.sessionManager.destroySession(sessionId);
+  async issueSessionToken(sessionId: string, context?: RequestContext): Promise<string> {
+    return await this.sessionManager.issueSessionToken(sessionId, context);
   }
 
   /**
@@ -73,4 +186,10 @@ export class SecureAudioServer {
   getStats(): { activeSessions: number; totalSessions: number } {
     return this.sessionManager.getStats();
   }
+
+  private async withToken(sessionId: string, context?: RequestContext): Promise<{ sessionId: string; token?: string }> {
+    return this.sessionManager.hasSessionTokens()
+      ? { sessionId, token: await this.sessionManager.issueSessionToken(sessionId, context) }
+      : { sessionId };
+  }
 }
@@ -0,0 +1,103 @@
+import type { SessionOwner } from './authorization.js';
+import type { PacingEvent } from './slice-pacer.js';
+
+/**
+ * Session lifecycle events
+ *
+ * SessionManager dispatches a CustomEvent for each moment of a session's life, so applications
+ * can plug in billing, auditing or cleanup of external resources. Event names and detail types
+ * are listed in SessionManagerEventMap. Listeners run synchronously inside the operation;
+ * defer slow work and do not throw.
+ */
+
+/**
+ * Fields shared by every lifecycle event
+ */
+export interface SessionEventDetail {
+  sessionId: string;
+  timestamp: number;
+}
+
+/**
+ * 'sessioncreated': a session was created on this instance
+ */
+export interface SessionCreatedEvent extends SessionEventDetail {
+  trackCount: number;
+  isLive: boolean;
+  owner?: SessionOwner;
+}
+
+/**
+ * 'keyexchange': a key exchange completed (per track in multi-track sessions)
+ */
+export interface KeyExchangeEvent extends SessionEventDetail {
+  trackId?: string;
+}
+
+/**
+ * 'trackprocessed': the audio of a session or track was sliced and is ready to be served
+ */
+export interface TrackProcessedEvent extends SessionEventDetail {
+  trackId?: string;
+  /** Slices known so far (growing sessions publish more later) */
+  totalSlices: number;
+  /** Time spent processing, in ms */
+  durationMs: number;
+}
+
+/**
+ * 'trackfailed': the audio of a session or track could not be received or processed
+ */
+export interface TrackFailedEvent extends SessionEventDetail {
+  trackId?: string;
+  error: unknown;
+}
+
+/**
+ * 'sliceserved': an encrypted slice was returned to a client
+ */
+export interface SliceServedEvent extends SessionEventDetail {
+  trackId?: string;
+  sliceId: string;
+  sequence: number;
+  /** Size of the encrypted payload */
+  bytes: number;
+  /** Time from request to response in ms, including pacing delays */
+  latencyMs: number;
+}
+
+/**
+ * 'cachehit' / 'cachemiss': a slice request was answered from the encrypted slice cache
+ * (or joined a request in progress), or the slice had to be prepared
+ */
+export interface SliceCacheEvent extends SessionEventDetail {
+  trackId?: string;
+  sliceId: string;
+}
+
+/**
+ * 'sessiondestroyed': a session ended
+ * - destroyed: destroySession was called
+ * - expired: the session was idle for too long or reached its maximum lifetime
+ * - evicted: the session made room for a new one (SessionLimitsConfig.evictionPolicy 'lru')
+ * - revoked: pacing revoked the session
+ * - failed: the audio upload of the session failed
+ */
+export interface SessionDestroyedEvent extends SessionEventDetail {
+  reason: 'destroyed' | 'expired' | 'evicted' | 'revoked' | 'failed';
+}
+
+/**
+ * Events dispatched by SessionManager
+ */
+export interface SessionManagerEventMap {
+  sessioncreated: CustomEvent<SessionCreatedEvent>;
+  keyexchange: CustomEvent<KeyExchangeEvent>;
+  trackprocessed: CustomEvent<TrackProcessedEvent>;
+  trackfailed: CustomEvent<TrackFailedEvent>;
+  sliceserved: CustomEvent<SliceServedEvent>;
+  cachehit: CustomEvent<SliceCacheEvent>;
+  cachemiss: CustomEvent<SliceCacheEvent>;
+  sessiondestroyed: CustomEvent<SessionDestroyedEvent>;
+  pacing: CustomEvent<PacingEvent>;
+}
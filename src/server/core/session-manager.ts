@@ -1,4 +1,5 @@
-import type { AudioConfig, EncryptedSlice, SessionInfo, SliceIdGenerator, TrackInfo } from '../../shared/types/interfaces.js';
+import type { EncryptedSliceIds } from '../../shared/protocol/slice-ids.js';
+import type { AudioConfig, EncryptedSlice, SessionInfo, SliceIdGenerator, SliceRequest, TrackInfo } from '../../shared/types/interfaces.js';
 import type {
   KeyExchangeProcessor,
   KeyExchangeRequest,
@@ -6,9 +7,49 @@ import type {
   ProcessingConfig,
 } from '../../shared/types/processors.js';
 import type { Timer } from '../../shared/utils/timers.js';
+import type { ProcessedAudio, SliceIdDisclosureConfig, SlicePlan } from '../processing/audio-processor.js';
+import type { LiveSlicer } from '../processing/live-slicer.js';
+import type { SessionRecord, SessionStore, TrackRecord, WrappedSessionKey } from '../store/session-store.js';
+import type { AuthorizationTarget, AuthorizeHook, RequestContext, SessionAction, SessionOwner } from './authorization.js';
+import type { MemoryBudgetConfig, MemoryUsage } from './memory-budget.js';
+import type { SliceRequestProofConfig } from './request-proofs.js';
+import type { SessionDestroyedEvent, SessionManagerEventMap } from './session-events.js';
+import type { SessionTokenSigner } from './session-tokens.js';
+import type { PacedSlice, PacingConfig, PacingEvent } from './slice-pacer.js';
 import { EcdhP256KeyExchangeProcessor } from '../../shared/crypto/key-exchange/ecdh-p256-processor.js';
-import { createInterval } from '../../shared/utils/timers.js';
+import { deriveRequestProofKey } from '../../shared/crypto/request-proof.js';
+import { getSliceSessionId } from '../../shared/protocol/slice-envelope.js';
+import { createInterval, sleep } from '../../shared/utils/timers.js';
+import { AudioIngest } from '../processing/audio-ingest.js';
 import { AudioProcessor } from '../processing/audio-processor.js';
+import { AudioSourceProvider } from '../sources/audio-source-provider.js';
+import { InMemorySessionStore } from '../store/in-memory-store.js';
+import { createKeyWrappingKey, unwrapSessionKey, wrapSessionKey } from '../store/key-wrapping.js';
+import {
+  AuthorizationError,
+  InvalidOperationError,
+  InvalidRequestProofError,
+  InvalidSessionTokenError,
+  PacingError,
+  SessionLimitError,
+  SessionNotFoundError,
+  SessionNotReadyError,
+  TrackLimitError,
+  TrackNotFoundError,
+} from './errors.js';
+import { MemoryBudget } from './memory-budget.js';
+import { SliceProofVerifier } from './request-proofs.js';
+import { SlicePacer } from './slice-pacer.js';
+
+// Minimum interval between lastAccessed writes to the session store
+const STORE_TOUCH_INTERVAL_MS = 60_000;
+
+// Default number of slices a live session keeps available
+const DEFAULT_LIVE_WINDOW_SLICES = 12;
+
+// Default idle timeout and cleanup interval of sessions
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
 
 /**
  * Track-specific data within a session
@@ -22,8 +63,20 @@ interface TrackData {
   keyExchangeProcessor?: KeyExchangeProcessor;
   keyExchangeComplete?: boolean;
   audioData?: ArrayBuffer;
+  /** Upload still in progress (ReadableStream input); cleared once stored */
+  ingest?: AudioIngest;
+  /** Audio read in place (AudioSourceProvider input); never copied to the store */
+  source?: AudioSourceProvider;
   getSlice?: (sliceId: string, userAgent?: string) => Promise<EncryptedSlice | null>;
   metadata?: { title?: string; artist?: string; album?: string };
+  // Persistence state (see SessionStore)
+  audioRef?: string;
+  /** Size of the audio under audioRef, if the store holds it in memory */
+  storedAudioBytes?: number;
+  sourceRef?: string;
+  sessionInfo?: SessionInfo;
+  slicePlan?: SlicePlan;
+  wrappedKey?: WrappedSessionKey;
 }
 
 interface AudioSession {
@@ -44,9 +97,27 @@ interface AudioSession {
   lastAccessed: Date;
   keyExchangeComplete?: boolean;
   audioData?: ArrayBuffer;
+  ingest?: AudioIngest;
+  source?: AudioSourceProvider;
+  audioRef?: string;
+  storedAudioBytes?: number;
+  sourceRef?: string;
+  slicePlan?: SlicePlan;
+  wrappedKey?: WrappedSessionKey;
+
+  // Live sessions: slices are cut from a sliding window and served by this instance only
+  liveSlicer?: LiveSlicer;
+  // Pending live operations, applied in call order
+  liveQueue?: Promise<void>;
 
   // Multi-track flags
   isMultiTrack: boolean;
+
+  // Creator of the session (from the request context)
+  owner?: SessionOwner;
+
+  // Last lastAccessed value written to the session store (epoch ms)
+  persistedAccessAt?: number;
 }
 
 /**
@@ -56,6 +127,12 @@ interface AudioSession {
 export interface SessionManagerConfig extends Partial<AudioConfig> {
   /** Custom processing configuration (compression, encryption, key exchange) */
   processingConfig?: ProcessingConfig;
+  /**
+   * Create the key exchange processor for each session/track
+   * Use for processors that need constructor arguments (e.g. SignedEcdhP256KeyExchangeProcessor).
+   * Default: a new instance of processingConfig.keyExchangeProcessor's class
+   */
+  keyExchangeProcessorFactory?: () => KeyExchangeProcessor;
   /** Custom slice ID generator */
   sliceIdGenerator?: SliceIdGenerator;
   /** Number of slices to prewarm after key exchange. Default: 0 */
@@ -78,6 +155,88 @@ export interface SessionManagerConfig extends Partial<AudioConfig> {
    * When enabled, first track is fully processed and cached during session creation
    */
   prewarmFirstTrack?: boolean;
+  /**
+   * Session persistence backend. Default: InMemorySessionStore (process-local)
+   * Use a shared store so any instance can serve key exchange and slices for a session
+   */
+  sessionStore?: SessionStore;
+  /**
+   * Reopen provider-backed audio on instances that did not create the session
+   * (see AudioSourceProvider.ref). Without it, such sessions are served by their creating instance only
+   */
+  resolveAudioSource?: (ref: string) => Promise<AudioSourceProvider | null> | AudioSourceProvider | null;
+  /**
+   * Secret used to wrap session keys before they are written to the session store.
+   * Must be identical on every instance sharing a store. Default: random per-instance key
+   */
+  sessionKeyWrappingSecret?: string | ArrayBuffer;
+  /**
+   * Signs and verifies session tokens. When set, every operation on an existing session requires
+   * a token issued for that session (RequestContext.token); see issueSessionToken
+   */
+  sessionTokens?: SessionTokenSigner;
+  /**
+   * Decide whether a caller may perform an operation (called after the session token is verified)
+   * Default: every operation is allowed
+   */
+  authorize?: AuthorizeHook;
+  /**
+   * Pace slice requests against real-time playback (anti-scraping)
+   * Sessions that fetch far ahead are delayed, throttled (PacingError) or revoked; decisions are
+   * dispatched as 'pacing' events. Default: disabled
+   */
+  pacing?: PacingConfig;
+  /**
+   * Rolling slice ID disclosure: session info only lists the first slice IDs, every slice carries
+   * the IDs of the following slices, and seeks resolve positions with resolveSliceIds. Default: disabled
+   */
+  sliceIdDisclosure?: SliceIdDisclosureConfig;
+  /**
+   * Require every slice request to carry a proof signed with a key derived from the session key
+   * (RequestContext.sliceProof), so a leaked session ID or replayed request cannot pull slices.
+   * Default: disabled
+   */
+  sliceRequestProofs?: SliceRequestProofConfig;
+  /** Session expiry and capacity limits. Default: 30 minute idle timeout, no other limits */
+  sessionLimits?: SessionLimitsConfig;
+  /**
+   * Bound the memory held by all sessions together (source buffers, decoded audio, slice caches)
+   * Slice caches are cleared under pressure; new sessions and tracks are refused or queued while
+   * the budget is exhausted. Default: unbounded
+   */
+  memoryBudget?: MemoryBudgetConfig;
+}
+
+/**
+ * Session expiry and capacity limits (SessionManagerConfig.sessionLimits)
+ * Limits apply per instance; expired sessions are destroyed on access and by a periodic cleanup
+ */
+export interface SessionLimitsConfig {
+  /** Destroy sessions that have not been accessed for this long (ms). Default: 30 minutes */
+  idleTimeoutMs?: number;
+  /** Destroy sessions this long after creation, even while in use (ms). Default: unlimited */
+  maxLifetimeMs?: number;
+  /** Interval of the expired session cleanup (ms). Default: 5 minutes */
+  cleanupIntervalMs?: number;
+  /** Maximum number of sessions held by this instance. Default: unlimited */
+  maxSessions?: number;
+  /** Maximum number of tracks per session (TrackLimitError beyond). Default: unlimited */
+  maxTracksPerSession?: number;
+  /**
+   * What to do when a new session would exceed maxSessions
+   * - 'reject': fail with SessionLimitError
+   * - 'lru': destroy the least recently accessed session
+   * Default: 'reject'
+   */
+  evictionPolicy?: 'lru' | 'reject';
+}
+
+/**
+ * Options for SessionManager.createLiveSession
+ */
+export interface LiveSessionOptions {
+  /** Number of most recent slices that stay available to listeners. Default: 12 */
+  windowSlices?: number;
 }
 
 /**
@@ -85,15 +244,28 @@ export interface SessionManagerConfig extends Partial<AudioConfig> {
  * Handles session lifecycle, cleanup, and statistics
  * Compatible with Node.js, Cloudflare Workers, and other JavaScript environments
  * Supports customizable compression, encryption, and key exchange processors
+ *
+ * Dispatches session lifecycle events (see SessionManagerEventMap) and 'pacing' events when
+ * config.pacing is set. Listeners run synchronously
  */
-export class SessionManager {
+export class SessionManager extends EventTarget {
   private sessions = new Map<string, AudioSession>();
+  // Sessions being created, counted against maxSessions until they are added to sessions
+  private pendingSessions = 0;
+  private loading = new Map<string, Promise<AudioSession | null>>();
+  private readonly store: SessionStore;
+  private wrappingKey: Promise<CryptoKey> | null = null;
   private config: SessionManagerConfig & Required<Pick<AudioConfig, 'sliceDurationMs' | 'compressionLevel' | 'encryptionAlgorithm'>>;
 
   private cleanupTimer: Timer | null = null;
   private keyExchangeProcessorFactory: () => KeyExchangeProcessor;
+  private readonly pacer: SlicePacer | null;
+  private readonly proofVerifier: SliceProofVerifier | null;
+  private readonly memory: MemoryBudget | null;
+  private readonly limits: SessionLimitsConfig & Required<Pick<SessionLimitsConfig, 'idleTimeoutMs' | 'cleanupIntervalMs' | 'evictionPolicy'>>;
 
   constructor(config: SessionManagerConfig = {}) {
+    super();
     this.config = {
       sliceDurationMs: 5000,
       compressionLevel: 6,
@@ -112,49 +284,191 @@ export class SessionManager {
 
     // Create factory for key exchange processors
     const keyExchangeProcessor = config.processingConfig?.keyExchangeProcessor;
-    this.keyExchangeProcessorFactory = keyExchangeProcessor
+    this.keyExchangeProcessorFactory = config.keyExchangeProcessorFactory ?? (keyExchangeProcessor
       ? () => {
         // Create a new instance of the same type as the provided processor
         const ProcessorClass = keyExchangeProcessor.constructor as new () => KeyExchangeProcessor;
         return new ProcessorClass();
       }
-      : () => new EcdhP256KeyExchangeProcessor() as unknown as KeyExchangeProcessor;
+      : () => new EcdhP256KeyExchangeProcessor() as unknown as KeyExchangeProcessor);
+
+    this.store = config.sessionStore ?? new InMemorySessionStore();
+    this.pacer = config.pacing ? new SlicePacer(config.pacing) : null;
+    this.proofVerifier = config.sliceRequestProofs ? new SliceProofVerifier(config.sliceRequestProofs) : null;
+    this.memory = config.memoryBudget ? new MemoryBudget(config.memoryBudget) : null;
+    const limits = config.sessionLimits ?? {};
+    this.limits = {
+      ...limits,
+      idleTimeoutMs: limits.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS,
+      cleanupIntervalMs: limits.cleanupIntervalMs ?? DEFAULT_CLEANUP_INTERVAL_MS,
+      evictionPolicy: limits.evictionPolicy ?? 'reject',
+    };
 
-    // Clean up expired sessions every 5 minutes using cross-platform timer
+    // Clean up expired sessions periodically using cross-platform timer
     this.cleanupTimer = createInterval(() => {
       this.cleanupExpiredSessions();
-    }, 5 * 60 * 1000);
+    }, this.limits.cleanupIntervalMs);
+  }
+
+  addEventListener<K extends keyof SessionManagerEventMap>(
+    type: K,
+    listener: (event: SessionManagerEventMap[K]) => void,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  addEventListener(type: string, listener: EventListenerOrEventListenerObject | null, options?: boolean | AddEventListenerOptions): void;
+  addEventListener(type: string, listener: EventListenerOrEventListenerObject | null, options?: boolean | AddEventListenerOptions): void {
+    super.addEventListener(type, listener, options);
+  }
+
+  removeEventListener<K extends keyof SessionManagerEventMap>(
+    type: K,
+    listener: (event: SessionManagerEventMap[K]) => void,
+    options?: boolean | EventListenerOptions,
+  ): void;
+  removeEventListener(type: string, listener: EventListenerOrEventListenerObject | null, options?: boolean | EventListenerOptions): void;
+  removeEventListener(type: string, listener: EventListenerOrEventListenerObject | null, options?: boolean | EventListenerOptions): void {
+    super.removeEventListener(type, listener, options);
   }
 
   /**
    * Create session with single track (backward compatible)
+   * ReadableStream uploads return as soon as the audio header has arrived; the session
+   * grows while the rest is received (see SessionInfo.isComplete). AudioSourceProvider audio
+   * is read in place, slice by slice
    */
-  async createSession(audioData: ArrayBuffer | ReadableStream): Promise<string> {
+  async createSession(audioData: ArrayBuffer | ReadableStream | AudioSourceProvider, context?: RequestContext): Promise<string> {
+    await this.checkAccess(null, 'createSession', context);
+    const releaseSlot = this.reserveSession();
     const sessionId = this.generateSessionId();
 
-    // Initialize key exchange processor
-    const keyExchangeProcessor = this.keyExchangeProcessorFactory();
-    await keyExchangeProcessor.initialize();
+    try {
+      await this.admitAudio(sessionId, sessionId, audioData);
 
-    // Create audio processor with customizable processors
-    const processor = new AudioProcessor(this.config);
+      // Initialize key exchange processor
+      const keyExchangeProcessor = this.keyExchangeProcessorFactory();
+      await keyExchangeProcessor.initialize();
 
-    // Store session info temporarily (will be completed after key exchange)
-    const session: AudioSession = {
-      id: sessionId,
-      keyExchangeProcessor,
-      processor,
-      createdAt: new Date(),
-      lastAccessed: new Date(),
-      isMultiTrack: false,
-      tracks: new Map(),
-      trackOrder: [],
-      audioData: audioData as ArrayBuffer,
-    };
+      // Create audio processor with customizable processors
+      const processor = this.createAudioProcessor(sessionId);
+
+      // Store session info temporarily (will be completed after key exchange)
+      const session: AudioSession = {
+        id: sessionId,
+        keyExchangeProcessor,
+        processor,
+        createdAt: new Date(),
+        lastAccessed: new Date(),
+        isMultiTrack: false,
+        tracks: new Map(),
+        trackOrder: [],
+        audioRef: this.generateTrackId(sessionId, 0),
+        owner: this.getOwner(context),
+      };
+
+      await this.receiveAudio(session, session, audioData);
+      this.sessions.set(sessionId, session);
+      releaseSlot();
+      await this.persistSession(session);
+      this.watchIngest(session, session);
+      this.emit('sessioncreated', { sessionId, trackCount: 1, isLive: false, owner: session.owner });
+
+      return sessionId;
+    } catch(error) {
+      releaseSlot();
+      this.discardSession(sessionId);
+      this.memory?.releaseSession(sessionId);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a live session whose audio is appended continuously (radio, live sets)
+   * Listeners discover new slices by polling the session info; old slices expire from a
+   * sliding window. Live sessions are served by this instance only
+   * @param initialAudio - First chunk of the stream; must contain the complete WAV or MP3 header
+   * @param options - Live session options
+   * @param context - Caller of the operation
+   */
+  async createLiveSession(initialAudio: ArrayBuffer | Uint8Array, options: LiveSessionOptions = {}, context?: RequestContext): Promise<string> {
+    await this.checkAccess(null, 'createSession', context);
+    const releaseSlot = this.reserveSession();
+    const sessionId = this.generateSessionId();
+
+    try {
+      await this.admitAudio(sessionId, sessionId, initialAudio);
+
+      const ingest = new AudioIngest();
+      ingest.append(initialAudio instanceof Uint8Array ? initialAudio : new Uint8Array(initialAudio));
+      if (!ingest.isReady) {
+        throw new InvalidOperationError('The first live audio chunk must contain the complete audio header');
+      }
+
+      const processor = this.createAudioProcessor(sessionId);
+      let liveSlicer: LiveSlicer;
+      try {
+        liveSlicer = processor.createLiveSlicer(ingest, sessionId, options.windowSlices ?? DEFAULT_LIVE_WINDOW_SLICES);
+      } catch(error) {
+        throw new InvalidOperationError((error as Error).message);
+      }
+
+      const keyExchangeProcessor = this.keyExchangeProcessorFactory();
+      await keyExchangeProcessor.initialize();
+
+      const session: AudioSession = {
+        id: sessionId,
+        keyExchangeProcessor,
+        processor,
+        createdAt: new Date(),
+        lastAccessed: new Date(),
+        isMultiTrack: false,
+        tracks: new Map(),
+        trackOrder: [],
+        ingest,
+        liveSlicer,
+        owner: this.getOwner(context),
+      };
+
+      this.sessions.set(sessionId, session);
+      releaseSlot();
+      this.updateSourceMemory(session, session);
+      await this.persistSession(session);
+      this.emit('sessioncreated', { sessionId, trackCount: 1, isLive: true, owner: session.owner });
+
+      return sessionId;
+    } catch(error) {
+      releaseSlot();
+      this.discardSession(sessionId);
+      this.memory?.releaseSession(sessionId);
+      throw error;
+    }
+  }
+
+  /**
+   * Append audio to a live session
+   * @param sessionId - Live session identifier
+   * @param chunk - Next bytes of the stream (PCM frames or MP3 frames, split anywhere)
+   * @param context - Caller of the operation
+   */
+  async appendLiveAudio(sessionId: string, chunk: ArrayBuffer | Uint8Array, context?: RequestContext): Promise<void> {
+    const bytes = chunk instanceof Uint8Array ? chunk : new Uint8Array(chunk);
+    await this.runLiveOperation(sessionId, 'appendLiveAudio', context, (session, ingest) => {
+      if (ingest.isComplete) {
+        throw new InvalidOperationError(`Live session ${sessionId} has ended`);
+      }
 
-    this.sessions.set(sessionId, session);
+      ingest.append(bytes);
+      this.updateSourceMemory(session, session);
+    });
+  }
 
-    return sessionId;
+  /**
+   * End a live session: the remaining audio becomes the last slice and isComplete turns true
+   * Slices in the window stay available until the session is destroyed or expires
+   * @param sessionId - Live session identifier
+   * @param context - Caller of the operation
+   */
+  async endLiveSession(sessionId: string, context?: RequestContext): Promise<void> {
+    await this.runLiveOperation(sessionId, 'endLiveSession', context, (_session, ingest) => ingest.finish());
   }
 
   /**
@@ -162,50 +476,69 @@ export class SessionManager {
    * Processes tracks in parallel for better performance
    */
   async createMultiTrackSession(tracks: Array<{
-    audioData: ArrayBuffer | ReadableStream;
+    audioData: ArrayBuffer | ReadableStream | AudioSourceProvider;
     metadata?: { title?: string; artist?: string; album?: string };
-  }>): Promise<string> {
+  }>, context?: RequestContext): Promise<string> {
     if (tracks.length === 0) {
-      throw new Error('At least one track is required');
+      throw new InvalidOperationError('At least one track is required');
     }
+    this.checkTrackLimit(tracks.length);
+    await this.checkAccess(null, 'createSession', context);
+    const releaseSlot = this.reserveSession();
 
     const sessionId = this.generateSessionId();
 
-    // Create session with multi-track structure
-    const session: AudioSession = {
-      id: sessionId,
-      createdAt: new Date(),
-      lastAccessed: new Date(),
-      isMultiTrack: true,
-      tracks: new Map(),
-      trackOrder: [],
-    };
-
-    const trackDataArray: TrackData[] = [];
+    try {
+      // Create session with multi-track structure
+      const session: AudioSession = {
+        id: sessionId,
+        createdAt: new Date(),
+        lastAccessed: new Date(),
+        isMultiTrack: true,
+        tracks: new Map(),
+        trackOrder: [],
+        owner: this.getOwner(context),
+      };
 
-    for (let i = 0; i < tracks.length; i++) {
-      const trackId = this.generateTrackId(sessionId, i);
-      const processor = new AudioProcessor(this.config);
+      const trackDataArray: TrackData[] = [];
 
-      const trackData: TrackData = {
-        trackId,
-        trackIndex: i,
-        processor,
-        audioData: tracks[i].audioData as ArrayBuffer,
-        metadata: tracks[i].metadata,
-      };
+      for (let i = 0; i < tracks.length; i++) {
+        const trackId = this.generateTrackId(sessionId, i);
+        await this.admitAudio(trackId, sessionId, tracks[i].audioData);
+        const processor = this.createAudioProcessor(sessionId, trackId);
 
-      trackDataArray.push(trackData);
-      session.tracks.set(trackId, trackData);
-      session.trackOrder.push(trackId);
-    }
+        const trackData: TrackData = {
+          trackId,
+          trackIndex: i,
+          processor,
+          audioRef: trackId,
+          metadata: tracks[i].metadata,
+        };
+        await this.receiveAudio(session, trackData, tracks[i].audioData);
 
-    // Set first track as active
-    session.activeTrackId = session.trackOrder[0];
+        trackDataArray.push(trackData);
+        session.tracks.set(trackId, trackData);
+        session.trackOrder.push(trackId);
+      }
 
-    this.sessions.set(sessionId, session);
+      // Set first track as active
+      session.activeTrackId = session.trackOrder[0];
 
-    return sessionId;
+      this.sessions.set(sessionId, session);
+      releaseSlot();
+      await this.persistSession(session);
+      for (const trackData of trackDataArray) {
+        this.watchIngest(session, trackData);
+      }
+      this.emit('sessioncreated', { sessionId, trackCount: tracks.length, isLive: false, owner: session.owner });
+
+      return sessionId;
+    } catch(error) {
+      releaseSlot();
+      this.discardSession(sessionId);
+      this.memory?.releaseSession(sessionId);
+      throw error;
+    }
   }
 
   /**
@@ -213,15 +546,31 @@ export class SessionManager {
    * @param sessionId - Session identifier
    * @param request - Key exchange request
    * @param trackId - Optional track ID for multi-track sessions (lazy key exchange)
+   * @param context - Caller of the operation
    */
   async handleKeyExchange<TRequestData = unknown, TResponseData = unknown>(
     sessionId: string,
     request: KeyExchangeRequest<TRequestData>,
     trackId?: string,
+    context?: RequestContext,
   ): Promise<KeyExchangeResponse<TResponseData, SessionInfo>> {
-    const session = this.sessions.get(sessionId);
+    let session = await this.resolveSession(sessionId);
     if (!session) {
-      throw new Error(`Session ${sessionId} not found`);
+      throw new SessionNotFoundError(sessionId);
+    }
+    await this.checkAccess(session, 'keyExchange', context);
+
+    // Multi-track session without trackId - initialize first track by default
+    if (session.isMultiTrack && !trackId) {
+      trackId = session.trackOrder[0];
+      if (!trackId) {
+        throw new Error('No tracks in session');
+      }
+    }
+
+    // The track may have been added through another instance
+    if (session.isMultiTrack && trackId && !session.tracks.has(trackId)) {
+      session = (await this.resolveSession(sessionId, true)) ?? session;
     }
 
     session.lastAccessed = new Date();
@@ -230,7 +579,7 @@ export class SessionManager {
     if (session.isMultiTrack && trackId) {
       const track = session.tracks.get(trackId);
       if (!track) {
-        throw new Error(`Track ${trackId} not found in session ${sessionId}`);
+        throw new TrackNotFoundError(`Track ${trackId} not found in session ${sessionId}`);
       }
 
       // Initialize key exchange processor for this track
@@ -245,46 +594,41 @@ export class SessionManager {
 
       // Store the track-specific session key
       track.sessionKey = sessionKey;
+      track.wrappedKey = await this.wrapKey(sessionKey);
       track.keyExchangeComplete = true;
 
       // Process track audio immediately after key exchange to populate sliceIds
       // This is required for the player to know which slices to request
-      await this.processTrackAudio(track, sessionId);
+      await this.processTrackAudio(track, session);
+      await this.persistSession(session);
+      this.emit('keyexchange', { sessionId, trackId });
 
       // Build session info with all tracks
-      const sessionInfo = this.buildMultiTrackSessionInfo(session);
-      response.sessionInfo = sessionInfo;
+      response.sessionInfo = this.discloseSessionInfo(this.buildMultiTrackSessionInfo(session));
 
       return response as KeyExchangeResponse<TResponseData, SessionInfo>;
     }
 
     // Single-track session (backward compatible)
-    if (!session.isMultiTrack) {
-      // Process the key exchange request
-      const { response, sessionKey } = await session.keyExchangeProcessor!.processKeyExchangeRequest(request, sessionId);
+    // Process the key exchange request
+    const { response, sessionKey } = await session.keyExchangeProcessor!.processKeyExchangeRequest(request, sessionId);
 
-      // Store the session key
-      session.sessionKey = sessionKey;
+    // Store the session key
+    session.sessionKey = sessionKey;
+    session.wrappedKey = await this.wrapKey(sessionKey);
 
-      // Mark key exchange as complete and process audio immediately
-      session.keyExchangeComplete = true;
+    // Mark key exchange as complete and process audio immediately
+    session.keyExchangeComplete = true;
 
-      // Process audio immediately after key exchange
-      await this.processSessionAudio(session, sessionId);
-
-      // Update the response with the actual session info
-      response.sessionInfo = session.sessionInfo!;
-
-      return response as KeyExchangeResponse<TResponseData, SessionInfo>;
-    }
+    // Process audio immediately after key exchange
+    await this.processSessionAudio(session, sessionId);
+    await this.persistSession(session);
+    this.emit('keyexchange', { sessionId });
 
-    // Multi-track session without trackId - initialize first track by default
-    const firstTrackId = session.trackOrder[0];
-    if (!firstTrackId) {
-      throw new Error('No tracks in session');
-    }
+    // Update the response with the actual session info
+    response.sessionInfo = this.discloseSessionInfo(session.sessionInfo!);
 
-    return this.handleKeyExchange(sessionId, request, firstTrackId);
+    return response as KeyExchangeResponse<TResponseData, SessionInfo>;
   }
 
   /**
@@ -293,14 +637,31 @@ export class SessionManager {
    * @param sliceId - Slice identifier
    * @param trackId - Optional track ID for multi-track sessions
    * @param userAgent - Optional User-Agent header for browser-aware processing
+   * @param context - Caller of the operation
    */
-  async getSlice(sessionId: string, sliceId: string, trackId?: string, userAgent?: string): Promise<EncryptedSlice | null> {
-    const session = this.sessions.get(sessionId);
+  async getSlice(
+    sessionId: string,
+    sliceId: string,
+    trackId?: string,
+    userAgent?: string,
+    context?: RequestContext,
+  ): Promise<EncryptedSlice | null> {
+    const startedAt = Date.now();
+    let session = await this.resolveSession(sessionId);
     if (!session) {
       return null;
     }
+    await this.checkAccess(session, 'getSlice', context);
 
-    session.lastAccessed = new Date();
+    // Key exchange may have completed on another instance since this copy was loaded
+    if (!this.canServeSlices(session, trackId)) {
+      session = await this.resolveSession(sessionId, true);
+      if (!session) {
+        return null;
+      }
+    }
+
+    this.touchSession(session);
 
     // Multi-track session
     if (session.isMultiTrack) {
@@ -314,26 +675,32 @@ export class SessionManager {
         return null;
       }
 
+      await this.checkSliceProof(track, { sessionId, sliceId, trackId }, context);
+
       // Process audio lazily when first slice is requested
       if (!track.getSlice && track.keyExchangeComplete) {
-        await this.processTrackAudio(track, sessionId);
+        await this.processTrackAudio(track, session);
       }
 
       if (!track.getSlice) {
         return null;
       }
 
+      await this.paceSlice(session.id, track, sliceId, targetTrackId);
       const slice = await track.getSlice(sliceId, userAgent);
 
       // Add trackId to the slice for client identification
       if (slice) {
         slice.trackId = targetTrackId;
+        this.emitSliceServed(sessionId, slice, startedAt);
       }
 
       return slice;
     }
 
     // Single-track session (backward compatible)
+    await this.checkSliceProof(session, { sessionId, sliceId, trackId }, context);
+
     // Process audio lazily when first slice is requested
     if (!session.getSlice && session.keyExchangeComplete) {
       await this.processSessionAudio(session, sessionId);
@@ -343,7 +710,70 @@ export class SessionManager {
       return null;
     }
 
-    return await session.getSlice(sliceId, userAgent);
+    await this.paceSlice(session.id, session, sliceId);
+    const slice = await session.getSlice(sliceId, userAgent);
+    if (slice) {
+      this.emitSliceServed(sessionId, slice, startedAt);
+    }
+    return slice;
+  }
+
+  /**
+   * Resolve a slice position to slice IDs (requires config.sliceIdDisclosure)
+   * Clients use it to seek to slices whose IDs have not been disclosed yet; lookups are paced
+   * like seeks when config.pacing is set
+   * @param sessionId - Session identifier
+   * @param sliceIndex - Index of the first slice to resolve
+   * @param trackId - Optional track ID for multi-track sessions
+   * @param context - Caller of the operation
+   * @returns IDs of up to lookaheadSlices slices starting at sliceIndex, encrypted with the session key
+   */
+  async resolveSliceIds(sessionId: string, sliceIndex: number, trackId?: string, context?: RequestContext): Promise<EncryptedSliceIds> {
+    if (!this.config.sliceIdDisclosure) {
+      throw new InvalidOperationError('Rolling slice ID disclosure is not enabled');
+    }
+
+    let session = await this.resolveSession(sessionId);
+    if (!session) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    await this.checkAccess(session, 'resolveSliceIds', context);
+
+    // Key exchange may have completed on another instance since this copy was loaded
+    if (!this.canServeSlices(session, trackId)) {
+      session = (await this.resolveSession(sessionId, true)) ?? session;
+    }
+    this.touchSession(session);
+
+    const targetTrackId = session.isMultiTrack ? trackId || session.activeTrackId : undefined;
+    const track = targetTrackId ? session.tracks.get(targetTrackId) : undefined;
+    if (session.isMultiTrack && !track) {
+      throw new TrackNotFoundError(`Track ${targetTrackId} not found in session ${sessionId}`);
+    }
+
+    // Process audio lazily, as for the first slice request
+    if (track && !track.getSlice && track.keyExchangeComplete) {
+      await this.processTrackAudio(track, session);
+    } else if (!track && !session.getSlice && session.keyExchangeComplete) {
+      await this.processSessionAudio(session, sessionId);
+    }
+
+    const owner = track ?? session;
+    if (!owner.slicePlan || !owner.sessionKey || !owner.processor || session.liveSlicer) {
+      throw new InvalidOperationError(`Slice IDs of session ${sessionId} cannot be resolved before key exchange`);
+    }
+    if (!Number.isInteger(sliceIndex) || sliceIndex < 0 || sliceIndex >= owner.slicePlan.sliceIds.length) {
+      throw new InvalidOperationError(`Slice index ${sliceIndex} is out of range`);
+    }
+
+    await this.paceSlice(session.id, owner, owner.slicePlan.sliceIds[sliceIndex], targetTrackId, true);
+    return await owner.processor.encryptSliceIds(
+      owner.slicePlan.sliceIds,
+      sliceIndex,
+      owner.sessionKey,
+      getSliceSessionId(sessionId, track?.trackId),
+      targetTrackId,
+    );
   }
 
   /**
@@ -351,16 +781,24 @@ export class SessionManager {
    * @param sessionId - Session identifier
    * @param audioData - Audio data for the new track
    * @param metadata - Optional track metadata
+   * @param context - Caller of the operation
    */
   async addTrack(
     sessionId: string,
-    audioData: ArrayBuffer | ReadableStream,
+    audioData: ArrayBuffer | ReadableStream | AudioSourceProvider,
     metadata?: { title?: string; artist?: string; album?: string },
+    context?: RequestContext,
   ): Promise<TrackInfo> {
-    const session = this.sessions.get(sessionId);
+    const session = await this.resolveSession(sessionId);
     if (!session) {
-      throw new Error(`Session ${sessionId} not found`);
+      throw new SessionNotFoundError(sessionId);
+    }
+    await this.checkAccess(session, 'addTrack', context);
+
+    if (session.liveSlicer) {
+      throw new InvalidOperationError('Cannot add tracks to a live session');
     }
+    this.checkTrackLimit((session.isMultiTrack ? session.tracks.size : 1) + 1);
 
     // Convert session to multi-track if it's currently single-track
     if (!session.isMultiTrack) {
@@ -368,17 +806,27 @@ export class SessionManager {
       session.isMultiTrack = true;
 
       // Move existing single-track data to tracks map
-      if (session.processor && session.sessionInfo) {
+      if (session.processor) {
         const trackId = this.generateTrackId(sessionId, 0);
         const trackData: TrackData = {
           trackId,
           trackIndex: 0,
           processor: session.processor,
-          trackInfo: this.buildTrackInfoFromSessionInfo(session.sessionInfo, trackId, 0, undefined),
+          trackInfo: session.sessionInfo
+            ? this.buildTrackInfoFromSessionInfo(session.sessionInfo, trackId, 0, undefined)
+            : undefined,
           sessionKey: session.sessionKey,
           keyExchangeProcessor: session.keyExchangeProcessor,
           keyExchangeComplete: session.keyExchangeComplete,
           getSlice: session.getSlice,
+          audioData: session.audioData,
+          ingest: session.ingest,
+          source: session.source,
+          audioRef: session.audioRef,
+          sourceRef: session.sourceRef,
+          sessionInfo: session.sessionInfo,
+          slicePlan: session.slicePlan,
+          wrappedKey: session.wrappedKey,
         };
 
         session.tracks.set(trackId, trackData);
@@ -390,20 +838,29 @@ export class SessionManager {
     // Create new track
     const trackIndex = session.tracks.size;
     const trackId = this.generateTrackId(sessionId, trackIndex);
-    const processor = new AudioProcessor(this.config);
+    await this.admitAudio(trackId, sessionId, audioData);
+    const processor = this.createAudioProcessor(sessionId, trackId);
 
     const trackData: TrackData = {
       trackId,
       trackIndex,
       processor,
-      audioData: audioData as ArrayBuffer,
+      audioRef: trackId,
       metadata,
     };
+    try {
+      await this.receiveAudio(session, trackData, audioData);
+    } catch(error) {
+      this.memory?.release(trackId);
+      throw error;
+    }
 
     session.tracks.set(trackId, trackData);
     session.trackOrder.push(trackId);
 
     session.lastAccessed = new Date();
+    await this.persistSession(session);
+    this.watchIngest(session, trackData);
 
     // Return track info (will be populated after key exchange and processing)
     return {
@@ -423,17 +880,19 @@ export class SessionManager {
    * Remove a track from an existing session (memory cleanup)
    * @param sessionId - Session identifier
    * @param trackIdOrIndex - Track ID (string) or index (number) to remove
+   * @param context - Caller of the operation
    * @returns Updated session info with remaining tracks
    */
-  removeTrack(sessionId: string, trackIdOrIndex: string | number): SessionInfo {
-    const session = this.sessions.get(sessionId);
+  async removeTrack(sessionId: string, trackIdOrIndex: string | number, context?: RequestContext): Promise<SessionInfo> {
+    const session = await this.resolveSession(sessionId);
     if (!session) {
-      throw new Error(`Session ${sessionId} not found`);
+      throw new SessionNotFoundError(sessionId);
     }
+    await this.checkAccess(session, 'removeTrack', context);
 
     // Single-track sessions cannot remove their only track
     if (!session.isMultiTrack) {
-      throw new Error('Cannot remove track from single-track session. Use destroySession() instead.');
+      throw new InvalidOperationError('Cannot remove track from single-track session. Use destroySession() instead.');
     }
 
     // Find track to remove
@@ -445,12 +904,12 @@ export class SessionManager {
     }
 
     if (!trackId || !session.tracks.has(trackId)) {
-      throw new Error(`Track not found: ${trackIdOrIndex}`);
+      throw new TrackNotFoundError(`Track not found: ${trackIdOrIndex}`);
     }
 
     // Cannot remove the last remaining track
     if (session.tracks.size === 1) {
-      throw new Error('Cannot remove the last track. Use destroySession() instead.');
+      throw new InvalidOperationError('Cannot remove the last track. Use destroySession() instead.');
     }
 
     // Get track before removal
@@ -477,15 +936,37 @@ export class SessionManager {
 
     session.lastAccessed = new Date();
 
+    this.memory?.release(this.getMemoryHolder(session, track));
+
+    // Drop the audio only once no stored record points at it; a leftover blob is harmless
+    await this.persistSession(session);
+    if (track.audioRef) {
+      Promise.resolve(this.store.deleteAudio(track.audioRef)).catch(() => {});
+    }
+
     // Rebuild and return session info
-    return this.buildMultiTrackSessionInfo(session);
+    return this.discloseSessionInfo(this.buildMultiTrackSessionInfo(session));
   }
 
   private async processSessionAudio(session: AudioSession, sessionId: string): Promise<void> {
-    if (!session.audioData || !session.keyExchangeComplete) {
+    if (!session.keyExchangeComplete) {
+      return;
+    }
+
+    const startedAt = Date.now();
+    if (session.liveSlicer) {
+      const { sessionInfo, getSlice } = session.processor!.processLiveAudio(session.liveSlicer, session.sessionKey, sessionId);
+      session.sessionInfo = sessionInfo;
+      session.getSlice = getSlice;
+      this.emitTrackProcessed(sessionId, undefined, sessionInfo, startedAt);
       return;
     }
 
+    const audioData = session.audioData ?? session.source ?? session.ingest ?? await this.loadAudio(session);
+    if (!audioData) {
+      throw new SessionNotReadyError(sessionId);
+    }
+
     if (!session.processor) {
       throw new Error('Audio processor not available');
     }
@@ -495,42 +976,76 @@ export class SessionManager {
       throw new Error('Session key not available');
     }
 
-    const { sessionInfo, getSlice } = await session.processor.processAudio(
-      session.audioData,
-      sessionKey,
-      sessionId,
-    );
+    let processed: ProcessedAudio;
+    try {
+      processed = await session.processor.processAudio(audioData, sessionKey, sessionId, session.slicePlan);
+    } catch(error) {
+      this.emit('trackfailed', { sessionId, error });
+      throw error;
+    }
+    const { sessionInfo, slicePlan, completed, getSlice } = processed;
 
     // Update the session with complete information
     session.sessionInfo = sessionInfo;
+    session.slicePlan = slicePlan;
     session.getSlice = getSlice;
 
     // Clean up the temporary audio data
     session.audioData = undefined;
+    this.updateSourceMemory(session, session);
+    this.emitTrackProcessed(sessionId, undefined, sessionInfo, startedAt);
+
+    if (sessionInfo.isComplete === false) {
+      this.persistWhenComplete(session, session, completed);
+    }
   }
 
-  private async processTrackAudio(track: TrackData, sessionId: string): Promise<void> {
-    if (!track.audioData || !track.keyExchangeComplete) {
+  private async processTrackAudio(track: TrackData, session: AudioSession): Promise<void> {
+    if (!track.keyExchangeComplete) {
       return;
     }
 
+    const sessionId = session.id;
+    const startedAt = Date.now();
+    const audioData = track.audioData ?? track.source ?? track.ingest ?? await this.loadAudio(track);
+    if (!audioData) {
+      throw new SessionNotReadyError(sessionId);
+    }
+
     const sessionKey = track.sessionKey;
     if (!sessionKey) {
       throw new Error('Track session key not available');
     }
 
-    const { sessionInfo, getSlice } = await track.processor.processAudio(
-      track.audioData,
-      sessionKey,
-      `${sessionId}_${track.trackId}`,
-    );
+    let processed: ProcessedAudio;
+    try {
+      processed = await track.processor.processAudio(
+        audioData,
+        sessionKey,
+        getSliceSessionId(sessionId, track.trackId),
+        track.slicePlan,
+        track.trackId,
+      );
+    } catch(error) {
+      this.emit('trackfailed', { sessionId, trackId: track.trackId, error });
+      throw error;
+    }
+    const { sessionInfo, slicePlan, completed, getSlice } = processed;
 
     // Update the track with complete information
+    track.sessionInfo = sessionInfo;
+    track.slicePlan = slicePlan;
     track.trackInfo = this.buildTrackInfoFromSessionInfo(sessionInfo, track.trackId, track.trackIndex, track.metadata);
     track.getSlice = getSlice;
 
     // Clean up the temporary audio data
     track.audioData = undefined;
+    this.updateSourceMemory(session, track);
+    this.emitTrackProcessed(sessionId, track.trackId, sessionInfo, startedAt);
+
+    if (sessionInfo.isComplete === false) {
+      this.persistWhenComplete(session, track, completed);
+    }
   }
 
   private buildMultiTrackSessionInfo(session: AudioSession): SessionInfo {
@@ -543,8 +1058,10 @@ export class SessionManager {
     for (const trackId of session.trackOrder) {
       const track = session.tracks.get(trackId);
       if (track) {
-        // If track has been processed, use its trackInfo
-        if (track.trackInfo) {
+        // If track has been processed, use its trackInfo (rebuilt while the track is still growing)
+        if (track.sessionInfo?.isComplete === false) {
+          tracks.push(this.buildTrackInfoFromSessionInfo(track.sessionInfo, track.trackId, track.trackIndex, track.metadata));
+        } else if (track.trackInfo) {
           tracks.push(track.trackInfo);
         } else {
           // Otherwise, create a placeholder TrackInfo (will be filled when track is initialized)
@@ -584,6 +1101,8 @@ export class SessionManager {
       isFloat32: firstTrack.isFloat32,
       sliceIds: firstTrack.sliceIds,
       format: firstTrack.format,
+      isComplete: firstTrack.isComplete,
+      sliceTimings: firstTrack.sliceTimings,
     };
   }
 
@@ -599,6 +1118,8 @@ export class SessionManager {
       isFloat32: sessionInfo.isFloat32,
       sliceIds: sessionInfo.sliceIds,
       format: sessionInfo.format,
+      isComplete: sessionInfo.isComplete,
+      sliceTimings: sessionInfo.sliceTimings,
       duration: (sessionInfo.totalSlices * sessionInfo.sliceDuration) / 1000,
       title: metadata?.title,
       artist: metadata?.artist,
@@ -606,12 +1127,138 @@ export class SessionManager {
     };
   }
 
+  /**
+   * Issue a session token for a caller (requires config.sessionTokens)
+   * The token carries the caller's subject and the session's tenant; the authorize hook decides
+   * who may receive one (action 'issueToken')
+   * @param sessionId - Session identifier
+   * @param context - Caller the token is issued to
+   */
+  async issueSessionToken(sessionId: string, context: RequestContext = {}): Promise<string> {
+    const signer = this.config.sessionTokens;
+    if (!signer) {
+      throw new InvalidOperationError('Session tokens are not configured');
+    }
+
+    const session = await this.resolveSession(sessionId);
+    if (!session) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    await this.checkAccess(session, 'issueToken', context);
+
+    return await signer.issue({
+      sessionId,
+      subject: context.subject,
+      tenant: session.owner?.tenant ?? context.tenant,
+    });
+  }
+
+  /**
+   * Whether session tokens are configured (config.sessionTokens)
+   */
+  hasSessionTokens(): boolean {
+    return this.config.sessionTokens !== undefined;
+  }
+
+  /**
+   * Authorize an operation without performing it
+   * For integrations that check a caller before doing work of their own
+   * @param sessionId - Target session (null for createSession)
+   * @param action - Operation to authorize
+   * @param context - Caller of the operation
+   * @throws InvalidSessionTokenError or AuthorizationError if the caller may not proceed
+   */
+  async authorizeRequest(sessionId: string | null, action: SessionAction, context?: RequestContext): Promise<void> {
+    if (sessionId === null) {
+      await this.checkAccess(null, action, context);
+      return;
+    }
+
+    const session = await this.resolveSession(sessionId);
+    if (!session) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    await this.checkAccess(session, action, context);
+  }
+
   getSessionInfo(sessionId: string): SessionInfo | null {
     const session = this.sessions.get(sessionId);
     return session?.sessionInfo || null;
   }
 
-  destroySession(sessionId: string): void {
+  /**
+   * Get session info, loading the session from the session store if needed
+   * Unlike getSessionInfo, also returns the combined info of multi-track sessions
+   */
+  async resolveSessionInfo(sessionId: string, context?: RequestContext): Promise<SessionInfo | null> {
+    const session = await this.resolveSession(sessionId);
+    if (!session) {
+      return null;
+    }
+    await this.checkAccess(session, 'getSessionInfo', context);
+
+    if (session.isMultiTrack) {
+      return session.tracks.size > 0 ? this.discloseSessionInfo(this.buildMultiTrackSessionInfo(session)) : null;
+    }
+
+    return session.sessionInfo ? this.discloseSessionInfo(session.sessionInfo) : null;
+  }
+
+  /**
+   * Destroy a session and remove it from the session store
+   * Destroying a session that no longer exists is a no-op
+   * @param sessionId - Session identifier
+   * @param context - Caller of the operation
+   */
+  async destroySession(sessionId: string, context?: RequestContext): Promise<void> {
+    // Also loads the session in case it was created by another instance
+    const session = await this.resolveSession(sessionId);
+    if (!session) {
+      return;
+    }
+    await this.checkAccess(session, 'destroySession', context);
+    this.endSession(sessionId, 'destroyed');
+  }
+
+  /**
+   * Destroy a session and report why it ended
+   */
+  private endSession(sessionId: string, reason: SessionDestroyedEvent['reason']): void {
+    const session = this.sessions.get(sessionId);
+    const audioRefs = session ? this.collectAudioRefs(session) : undefined;
+
+    // Stop uploads and live sources that are still being received
+    session?.ingest?.fail(new Error(`Session ${sessionId} was destroyed`));
+    for (const track of session?.tracks.values() ?? []) {
+      track.ingest?.fail(new Error(`Session ${sessionId} was destroyed`));
+    }
+
+    this.releaseSession(sessionId);
+    this.pacer?.forget(sessionId);
+    this.proofVerifier?.forget(sessionId);
+    this.memory?.releaseSession(sessionId);
+
+    // Best effort removal from the store; unknown sessions are looked up first
+    this.deleteFromStore(sessionId, audioRefs).catch(() => {});
+    this.emit('sessiondestroyed', { sessionId, reason });
+  }
+
+  /**
+   * Drop a session whose creation failed after it was published (e.g. the store write failed)
+   */
+  private discardSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    session?.ingest?.fail(new Error(`Session ${sessionId} could not be created`));
+    for (const track of session?.tracks.values() ?? []) {
+      track.ingest?.fail(new Error(`Session ${sessionId} could not be created`));
+    }
+    this.releaseSession(sessionId);
+  }
+
+  /**
+   * Release local resources of a session without touching the session store
+   */
+  private releaseSession(sessionId: string): void {
     const session = this.sessions.get(sessionId);
     if (session) {
       // Destroy session-level key exchange processor (single-track sessions)
@@ -632,6 +1279,733 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Verify the caller's session token (if tokens are configured) and consult the authorize hook
+   * Verified claims are stored on the context for the hook
+   */
+  private async checkAccess(session: AudioSession | null, action: SessionAction, context: RequestContext = {}): Promise<void> {
+    const signer = this.config.sessionTokens;
+    if (signer && session && action !== 'issueToken') {
+      if (!context.token) {
+        throw new InvalidSessionTokenError('Session token required');
+      }
+
+      const claims = await signer.verify(context.token);
+      if (claims.sessionId !== session.id) {
+        throw new InvalidSessionTokenError('Session token was issued for another session');
+      }
+      if (session.owner?.tenant !== undefined && claims.tenant !== session.owner.tenant) {
+        throw new InvalidSessionTokenError('Session token was issued for another tenant');
+      }
+      context.claims = claims;
+    }
+
+    if (this.config.authorize) {
+      const target: AuthorizationTarget | null = session ? { sessionId: session.id, owner: session.owner } : null;
+      if (!(await this.config.authorize(context, action, target))) {
+        throw new AuthorizationError(`Not authorized to ${action}${session ? ` on session ${session.id}` : ''}`);
+      }
+    }
+  }
+
+  /**
+   * Client-facing copy of session info
+   * With rolling slice ID disclosure only the first slice IDs are listed (not for live sessions)
+   */
+  private discloseSessionInfo(info: SessionInfo): SessionInfo {
+    const disclosure = info.isLive ? undefined : this.config.sliceIdDisclosure;
+    if (!disclosure && !this.proofVerifier) {
+      return info;
+    }
+
+    const disclosed: SessionInfo = { ...info };
+    if (this.proofVerifier) {
+      disclosed.sliceRequestProofs = true;
+    }
+    if (!disclosure) {
+      return disclosed;
+    }
+
+    const initialSlices = disclosure.initialSlices ?? 3;
+    disclosed.sliceIds = info.sliceIds.slice(0, initialSlices);
+    disclosed.sliceIdDisclosure = 'rolling';
+    if (info.tracks) {
+      disclosed.tracks = info.tracks.map(track => ({
+        ...track,
+        sliceIds: track.sliceIds.slice(0, initialSlices),
+        sliceIdDisclosure: 'rolling',
+      }));
+    }
+    return disclosed;
+  }
+
+  /**
+   * Verify the proof of a slice request (no-op unless config.sliceRequestProofs is set)
+   * Slices of sessions without a key are not served, so they need no proof
+   * @throws InvalidRequestProofError if the proof is missing, stale, replayed or forged
+   */
+  private async checkSliceProof(
+    owner: { sessionKey?: unknown; keyExchangeProcessor?: KeyExchangeProcessor },
+    request: SliceRequest,
+    context?: RequestContext,
+  ): Promise<void> {
+    const { sessionKey, keyExchangeProcessor } = owner;
+    if (!this.proofVerifier || !sessionKey) {
+      return;
+    }
+
+    const deriveKey = async(): Promise<CryptoKey> => keyExchangeProcessor?.deriveRequestProofKey
+      ? await keyExchangeProcessor.deriveRequestProofKey(sessionKey as CryptoKey, request.sessionId)
+      : await deriveRequestProofKey(sessionKey, request.sessionId);
+    const result = await this.proofVerifier.verify(request, context?.sliceProof, sessionKey, deriveKey);
+    if (result !== 'valid') {
+      throw new InvalidRequestProofError(`Slice request proof is ${result} for slice ${request.sliceId}`);
+    }
+  }
+
+  /**
+   * Apply the pacing policy to a slice request or position lookup (no-op unless config.pacing is set)
+   * @throws PacingError if the request is throttled or the session is revoked
+   */
+  private async paceSlice(
+    sessionId: string,
+    owner: { sessionInfo?: SessionInfo; slicePlan?: SlicePlan },
+    sliceId: string,
+    trackId?: string,
+    positionLookup = false,
+  ): Promise<void> {
+    if (!this.pacer) {
+      return;
+    }
+
+    const slice = this.getPacedSlice(owner, sliceId, trackId);
+    if (!slice) {
+      return;
+    }
+
+    const decision = positionLookup ? this.pacer.evaluateLookup(sessionId, slice) : this.pacer.evaluate(sessionId, slice);
+    const emit = (type: PacingEvent['type'], delayMs?: number): void => {
+      this.emit('pacing', { type, sessionId, trackId, sliceId, aheadSeconds: decision.aheadSeconds, delayMs });
+    };
+
+    // The fetch after a lookup reports the seek
+    if (decision.seek && !positionLookup) {
+      emit('seek');
+    }
+
+    switch (decision.action) {
+      case 'delay':
+        emit('delay', decision.delayMs);
+        await sleep(decision.delayMs);
+        break;
+      case 'throttle':
+        emit('throttle', decision.delayMs);
+        throw new PacingError(`Session ${sessionId} is fetching slices too far ahead of playback`, decision.delayMs);
+      case 'revoke':
+        emit('revoke');
+        this.endSession(sessionId, 'revoked');
+        throw new PacingError(`Session ${sessionId} was revoked for fetching slices too far ahead of playback`);
+    }
+  }
+
+  /**
+   * Position and duration of a slice, from the slice plan when available
+   */
+  private getPacedSlice(
+    owner: { sessionInfo?: SessionInfo; slicePlan?: SlicePlan },
+    sliceId: string,
+    trackId?: string,
+  ): PacedSlice | null {
+    const info = owner.sessionInfo;
+    if (!info) {
+      return null;
+    }
+
+    const planIndex = owner.slicePlan?.sliceIds.indexOf(sliceId) ?? -1;
+    if (owner.slicePlan && planIndex >= 0) {
+      const offsets = owner.slicePlan.sliceOffsets;
+      return { trackId, index: planIndex, duration: (offsets[planIndex + 1] - offsets[planIndex]) / info.sampleRate };
+    }
+
+    const infoIndex = info.sliceIds.indexOf(sliceId);
+    if (infoIndex < 0) {
+      return null;
+    }
+    return { trackId, index: infoIndex + (info.firstSliceIndex ?? 0), duration: info.sliceDuration / 1000 };
+  }
+
+  private getOwner(context?: RequestContext): SessionOwner | undefined {
+    if (context?.subject === undefined && context?.tenant === undefined) {
+      return undefined;
+    }
+    return { subject: context.subject, tenant: context.tenant };
+  }
+
+  /**
+   * Get a session from local memory, falling back to the session store
+   * @param sessionId - Session identifier
+   * @param refresh - Reload from the store even if a local copy exists
+   */
+  private async resolveSession(sessionId: string, refresh = false): Promise<AudioSession | null> {
+    const local = this.sessions.get(sessionId);
+    if (local && this.isExpired(local)) {
+      this.endSession(sessionId, 'expired');
+      return null;
+    }
+    if (local && !refresh) {
+      return local;
+    }
+
+    // Coalesce concurrent loads of the same session
+    const pending = this.loading.get(sessionId);
+    if (pending) {
+      return await pending;
+    }
+
+    const promise = (async() => {
+      const record = await this.store.get(sessionId);
+      if (!record) {
+        return null;
+      }
+
+      // Audio that is held or still arriving here exists nowhere else, so keep this copy
+      if (local && this.holdsLocalAudio(local)) {
+        await this.mergeStoredState(local, record);
+        return local;
+      }
+
+      const session = await this.hydrateSession(record);
+      if (local) {
+        this.releaseSession(sessionId);
+      }
+      this.sessions.set(sessionId, session);
+      if (this.isExpired(session)) {
+        this.endSession(sessionId, 'expired');
+        return null;
+      }
+      return session;
+    })().finally(() => {
+      this.loading.delete(sessionId);
+    });
+    this.loading.set(sessionId, promise);
+
+    return await promise;
+  }
+
+  /**
+   * Rebuild runtime session state from a stored record
+   * Audio is reprocessed lazily with the stored slice plan, so slice IDs stay stable
+   */
+  private async hydrateSession(record: SessionRecord): Promise<AudioSession> {
+    const session: AudioSession = {
+      id: record.id,
+      createdAt: new Date(record.createdAt),
+      lastAccessed: new Date(record.lastAccessed),
+      isMultiTrack: record.isMultiTrack,
+      tracks: new Map(),
+      trackOrder: [...record.trackOrder],
+      activeTrackId: record.activeTrackId,
+      owner: record.owner,
+      persistedAccessAt: record.lastAccessed,
+    };
+
+    if (!record.isMultiTrack) {
+      const track = record.tracks[0];
+      session.keyExchangeProcessor = this.keyExchangeProcessorFactory();
+      await session.keyExchangeProcessor.initialize();
+      session.processor = this.createAudioProcessor(session.id);
+      session.audioRef = track?.audioRef;
+      session.sourceRef = track?.sourceRef;
+      session.sessionInfo = track?.sessionInfo;
+      session.slicePlan = this.toSlicePlan(track);
+
+      if (track?.wrappedKey) {
+        await this.restoreKey(session, track);
+      }
+
+      return session;
+    }
+
+    for (const track of record.tracks) {
+      session.tracks.set(track.trackId, await this.hydrateTrack(session, track));
+    }
+
+    return session;
+  }
+
+  private async hydrateTrack(session: AudioSession, track: TrackRecord): Promise<TrackData> {
+    const trackData: TrackData = {
+      trackId: track.trackId,
+      trackIndex: track.trackIndex,
+      processor: this.createAudioProcessor(session.id, track.trackId),
+      metadata: track.metadata,
+      audioRef: track.audioRef,
+      sourceRef: track.sourceRef,
+      sessionInfo: track.sessionInfo,
+      slicePlan: this.toSlicePlan(track),
+      trackInfo: track.sessionInfo
+        ? this.buildTrackInfoFromSessionInfo(track.sessionInfo, track.trackId, track.trackIndex, track.metadata)
+        : undefined,
+    };
+
+    if (track.wrappedKey) {
+      await this.restoreKey(trackData, track);
+    }
+    return trackData;
+  }
+
+  /**
+   * Adopt the key of a session or track that completed key exchange on another instance
+   */
+  private async restoreKey(owner: AudioSession | TrackData, track: TrackRecord): Promise<void> {
+    owner.sessionKey = await unwrapSessionKey(track.wrappedKey!, await this.getWrappingKey());
+    owner.wrappedKey = track.wrappedKey;
+    owner.keyExchangeComplete = true;
+  }
+
+  /**
+   * Whether a session holds audio that only this instance has: a live source, an upload
+   * still being received or an uploaded buffer
+   */
+  private holdsLocalAudio(session: AudioSession): boolean {
+    const owners: Array<AudioSession | TrackData> = [session, ...session.tracks.values()];
+    return Boolean(session.liveSlicer) || owners.some(owner => owner.ingest || owner.audioData);
+  }
+
+  /**
+   * Bring a local session up to date with its stored record without replacing it:
+   * adopts keys from key exchanges and tracks added on other instances
+   */
+  private async mergeStoredState(session: AudioSession, record: SessionRecord): Promise<void> {
+    if (!session.isMultiTrack) {
+      const track = record.tracks[0];
+      if (track?.wrappedKey && !session.keyExchangeComplete) {
+        await this.restoreKey(session, track);
+        session.sessionInfo = track.sessionInfo ?? session.sessionInfo;
+        session.slicePlan = this.toSlicePlan(track) ?? session.slicePlan;
+      }
+      return;
+    }
+
+    for (const track of record.tracks) {
+      const local = session.tracks.get(track.trackId);
+      if (!local) {
+        session.tracks.set(track.trackId, await this.hydrateTrack(session, track));
+        session.trackOrder.push(track.trackId);
+      } else if (track.wrappedKey && !local.keyExchangeComplete) {
+        await this.restoreKey(local, track);
+        local.sessionInfo = track.sessionInfo ?? local.sessionInfo;
+        local.slicePlan = this.toSlicePlan(track) ?? local.slicePlan;
+        if (track.sessionInfo) {
+          local.trackInfo = this.buildTrackInfoFromSessionInfo(track.sessionInfo, track.trackId, track.trackIndex, track.metadata);
+        }
+      }
+    }
+  }
+
+  private toSlicePlan(track?: TrackRecord): SlicePlan | undefined {
+    if (!track?.sessionInfo || !track.sliceOffsets) {
+      return undefined;
+    }
+    return { sliceIds: track.sessionInfo.sliceIds, sliceOffsets: track.sliceOffsets };
+  }
+
+  private buildSessionRecord(session: AudioSession): SessionRecord {
+    const tracks: TrackRecord[] = [];
+
+    if (session.isMultiTrack) {
+      for (const trackId of session.trackOrder) {
+        const track = session.tracks.get(trackId);
+        if (!track) {
+          continue;
+        }
+        tracks.push({
+          trackId: track.trackId,
+          trackIndex: track.trackIndex,
+          metadata: track.metadata,
+          audioRef: track.audioRef,
+          sourceRef: track.sourceRef,
+          wrappedKey: track.wrappedKey,
+          // Partial plans are kept local until the upload has been stored
+          sessionInfo: track.ingest ? undefined : track.sessionInfo,
+          sliceOffsets: track.ingest ? undefined : track.slicePlan?.sliceOffsets,
+        });
+      }
+    } else {
+      tracks.push({
+        trackId: this.generateTrackId(session.id, 0),
+        trackIndex: 0,
+        audioRef: session.audioRef,
+        sourceRef: session.sourceRef,
+        wrappedKey: session.wrappedKey,
+        sessionInfo: session.ingest ? undefined : session.sessionInfo,
+        sliceOffsets: session.ingest ? undefined : session.slicePlan?.sliceOffsets,
+      });
+    }
+
+    return {
+      id: session.id,
+      isMultiTrack: session.isMultiTrack,
+      trackOrder: [...session.trackOrder],
+      activeTrackId: session.activeTrackId,
+      tracks,
+      owner: session.owner,
+      createdAt: session.createdAt.getTime(),
+      lastAccessed: session.lastAccessed.getTime(),
+    };
+  }
+
+  private async persistSession(session: AudioSession): Promise<void> {
+    const record = this.buildSessionRecord(session);
+    await this.store.set(record);
+    session.persistedAccessAt = record.lastAccessed;
+  }
+
+  /**
+   * Update lastAccessed, writing it to the store at most once per STORE_TOUCH_INTERVAL_MS
+   */
+  private touchSession(session: AudioSession): void {
+    session.lastAccessed = new Date();
+    if (session.lastAccessed.getTime() - (session.persistedAccessAt ?? 0) >= STORE_TOUCH_INTERVAL_MS) {
+      this.persistSession(session).catch(() => {});
+    }
+  }
+
+  private canServeSlices(session: AudioSession, trackId?: string): boolean {
+    if (!session.isMultiTrack) {
+      return Boolean(session.getSlice || session.keyExchangeComplete);
+    }
+
+    const track = session.tracks.get(trackId || session.activeTrackId || '');
+    return Boolean(track && (track.getSlice || track.keyExchangeComplete));
+  }
+
+  private collectAudioRefs(session: AudioSession): string[] {
+    const refs = session.audioRef ? [session.audioRef] : [];
+    for (const track of session.tracks.values()) {
+      if (track.audioRef && !refs.includes(track.audioRef)) {
+        refs.push(track.audioRef);
+      }
+    }
+    return refs;
+  }
+
+  private async deleteFromStore(sessionId: string, audioRefs?: string[]): Promise<boolean> {
+    let refs = audioRefs;
+    if (!refs) {
+      const record = await this.store.get(sessionId);
+      if (!record) {
+        return false;
+      }
+      refs = record.tracks.flatMap(track => (track.audioRef ? [track.audioRef] : []));
+    }
+
+    await Promise.all(refs.map(ref => this.store.deleteAudio(ref)));
+    return await this.store.delete(sessionId);
+  }
+
+  /**
+   * Load the audio of a session or track from the session store, or reopen its provider
+   */
+  private async loadAudio(owner: AudioSession | TrackData): Promise<ArrayBuffer | AudioSourceProvider | null> {
+    if (owner.sourceRef) {
+      return (await this.config.resolveAudioSource?.(owner.sourceRef)) ?? null;
+    }
+    return owner.audioRef ? await this.store.getAudio(owner.audioRef) : null;
+  }
+
+  /**
+   * Accept audio for a session or track
+   * Buffers are stored immediately; streams are ingested in the background once their header
+   * has arrived (see watchIngest); providers are read in place and only referenced in the store
+   */
+  private async receiveAudio(
+    session: AudioSession,
+    owner: AudioSession | TrackData,
+    audioData: ArrayBuffer | ReadableStream | AudioSourceProvider,
+  ): Promise<void> {
+    if (audioData instanceof AudioSourceProvider) {
+      owner.source = audioData;
+      owner.sourceRef = audioData.ref;
+      owner.audioRef = undefined;
+      return;
+    }
+
+    if (audioData instanceof ReadableStream) {
+      const ingest = AudioIngest.fromStream(audioData);
+      try {
+        await ingest.ready();
+      } catch(error) {
+        throw new InvalidOperationError(`Could not read audio upload: ${(error as Error).message}`);
+      }
+      owner.ingest = ingest;
+      this.updateSourceMemory(session, owner);
+      return;
+    }
+
+    const data = this.toArrayBuffer(audioData);
+    await this.storeAudio(owner, data);
+    owner.audioData = data;
+    this.updateSourceMemory(session, owner);
+  }
+
+  /**
+   * Write the audio of a session or track to the session store
+   */
+  private async storeAudio(owner: AudioSession | TrackData, data: ArrayBuffer): Promise<void> {
+    await this.store.putAudio(owner.audioRef!, data);
+    owner.storedAudioBytes = this.store.holdsAudioInMemory() ? data.byteLength : undefined;
+  }
+
+  /**
+   * Store a streamed upload once it has been received completely
+   * A failed upload destroys the session, as a truncated track cannot be played to the end
+   */
+  private watchIngest(session: AudioSession, owner: AudioSession | TrackData): void {
+    const ingest = owner.ingest;
+    if (!ingest) {
+      return;
+    }
+
+    ingest.done()
+      .then(async() => {
+        if (this.sessions.get(session.id) !== session) {
+          return;
+        }
+
+        const data = ingest.toArrayBuffer();
+        await this.storeAudio(owner, data);
+        if (!owner.getSlice) {
+          owner.audioData = data;
+        }
+        owner.ingest = undefined;
+        this.updateSourceMemory(session, owner);
+        await this.persistSession(session);
+      })
+      .catch((error: unknown) => {
+        if (this.sessions.get(session.id) === session) {
+          this.emit('trackfailed', { sessionId: session.id, trackId: 'trackId' in owner ? owner.trackId : undefined, error });
+          this.endSession(session.id, 'failed');
+        }
+      });
+  }
+
+  /**
+   * Persist the final slice plan of a growing session or track
+   */
+  private persistWhenComplete(session: AudioSession, owner: AudioSession | TrackData, completed: Promise<SlicePlan>): void {
+    completed
+      .then(async(slicePlan) => {
+        owner.slicePlan = slicePlan;
+        // Completed tracks are listed from their trackInfo, so refresh it with the final values
+        if ('trackId' in owner && owner.sessionInfo) {
+          owner.trackInfo = this.buildTrackInfoFromSessionInfo(owner.sessionInfo, owner.trackId, owner.trackIndex, owner.metadata);
+        }
+        if (this.sessions.get(session.id) === session) {
+          await this.persistSession(session);
+        }
+      })
+      .catch(() => {});
+  }
+
+  /**
+   * Authorize and apply an operation on a live session
+   * Operations are applied in call order, even when their authorization completes out of order
+   */
+  private async runLiveOperation(
+    sessionId: string,
+    action: SessionAction,
+    context: RequestContext | undefined,
+    operation: (session: AudioSession, ingest: AudioIngest) => void,
+  ): Promise<void> {
+    this.getLiveIngest(sessionId);
+    const session = this.sessions.get(sessionId)!;
+    const authorized = this.checkAccess(session, action, context);
+    authorized.catch(() => {});
+
+    const previous = session.liveQueue;
+    const task = (async() => {
+      await previous;
+      await authorized;
+      // The session may have been destroyed in the meantime
+      operation(session, this.getLiveIngest(sessionId));
+    })();
+    session.liveQueue = task.catch(() => {});
+    await task;
+  }
+
+  private getLiveIngest(sessionId: string): AudioIngest {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new SessionNotFoundError(sessionId);
+    }
+    if (!session.liveSlicer || !session.ingest) {
+      throw new InvalidOperationError(`Session ${sessionId} is not a live session`);
+    }
+
+    // A live source keeps its session alive
+    session.lastAccessed = new Date();
+    return session.ingest;
+  }
+
+  private toArrayBuffer(audioData: ArrayBuffer): ArrayBuffer {
+    // Node.js Buffers and other views are accepted for convenience
+    if (ArrayBuffer.isView(audioData)) {
+      const view = audioData as ArrayBufferView;
+      return view.buffer.slice(view.byteOffset, view.byteOffset + view.byteLength) as ArrayBuffer;
+    }
+    return audioData;
+  }
+
+  private async wrapKey(sessionKey: unknown): Promise<WrappedSessionKey | undefined> {
+    return (await wrapSessionKey(sessionKey, await this.getWrappingKey())) ?? undefined;
+  }
+
+  private getWrappingKey(): Promise<CryptoKey> {
+    if (!this.wrappingKey) {
+      this.wrappingKey = createKeyWrappingKey(this.config.sessionKeyWrappingSecret);
+    }
+    return this.wrappingKey;
+  }
+
+  /**
+   * Whether a session has been idle for too long or has outlived config.sessionLimits.maxLifetimeMs
+   */
+  private isExpired(session: Pick<AudioSession, 'createdAt' | 'lastAccessed'>, now: number = Date.now()): boolean {
+    const { idleTimeoutMs, maxLifetimeMs } = this.limits;
+    return now - session.lastAccessed.getTime() > idleTimeoutMs
+      || (maxLifetimeMs !== undefined && now - session.createdAt.getTime() > maxLifetimeMs);
+  }
+
+  /**
+   * Make room for a new session under config.sessionLimits.maxSessions and hold a slot for it
+   * The slot is taken synchronously, so concurrent creations cannot overshoot the limit
+   * @returns Releases the slot; call it once the session is in this.sessions or its creation failed
+   * @throws SessionLimitError if the limit is reached and the eviction policy is 'reject'
+   */
+  private reserveSession(): () => void {
+    const { maxSessions, evictionPolicy } = this.limits;
+    if (maxSessions !== undefined && this.sessions.size + this.pendingSessions >= maxSessions) {
+      this.endExpiredSessions();
+      while (this.sessions.size + this.pendingSessions >= maxSessions) {
+        // Sessions that are still being created cannot be evicted
+        if (evictionPolicy === 'reject' || this.sessions.size === 0) {
+          throw new SessionLimitError(maxSessions);
+        }
+
+        let leastRecent: AudioSession | undefined;
+        for (const session of this.sessions.values()) {
+          if (!leastRecent || session.lastAccessed < leastRecent.lastAccessed) {
+            leastRecent = session;
+          }
+        }
+        this.endSession(leastRecent!.id, 'evicted');
+      }
+    }
+
+    this.pendingSessions++;
+    let held = true;
+    return () => {
+      if (held) {
+        held = false;
+        this.pendingSessions--;
+      }
+    };
+  }
+
+  /**
+   * @throws TrackLimitError if a session with trackCount tracks exceeds config.sessionLimits.maxTracksPerSession
+   */
+  private checkTrackLimit(trackCount: number): void {
+    const { maxTracksPerSession } = this.limits;
+    if (maxTracksPerSession !== undefined && trackCount > maxTracksPerSession) {
+      throw new TrackLimitError(maxTracksPerSession);
+    }
+  }
+
+  /**
+   * Create the audio processor of a session or track, reporting its slice cache lookups and
+   * memory usage (see getMemoryHolder)
+   */
+  private createAudioProcessor(sessionId: string, trackId?: string): AudioProcessor {
+    const memory = this.memory;
+    const holder = trackId ?? sessionId;
+    const processor = new AudioProcessor({
+      ...this.config,
+      onSliceCacheLookup: (sliceId, hit) => {
+        memory?.touch(holder);
+        this.emit(hit ? 'cachehit' : 'cachemiss', { sessionId, trackId, sliceId });
+      },
+      onMemoryUsage: memory
+        ? (usage) => {
+          // Requests in flight may complete after the session has ended
+          if (this.sessions.has(sessionId)) {
+            memory.set(holder, sessionId, 'decoded', usage.decodedBytes + usage.decodedPCMBytes);
+            memory.set(holder, sessionId, 'sliceCache', usage.sliceCacheBytes);
+          }
+        }
+        : undefined,
+    });
+    memory?.register(holder, sessionId, () => processor.clearCaches());
+    return processor;
+  }
+
+  /**
+   * Memory budget holder of a session or track: the ID of the track, or of the session for
+   * single-track sessions and the first track of converted sessions (which keeps the session's processor)
+   */
+  private getMemoryHolder(session: AudioSession, owner: AudioSession | TrackData): string {
+    return 'trackId' in owner && owner.processor !== session.processor ? owner.trackId : session.id;
+  }
+
+  /**
+   * Reserve memory for an upload (config.memoryBudget)
+   * Stream uploads are accounted as they are received
+   * @throws MemoryBudgetError if the budget is exhausted
+   */
+  private async admitAudio(
+    holder: string,
+    sessionId: string,
+    audioData: ArrayBuffer | ReadableStream | AudioSourceProvider | Uint8Array,
+  ): Promise<void> {
+    const bytes = audioData instanceof ReadableStream || audioData instanceof AudioSourceProvider ? 0 : audioData.byteLength;
+    await this.memory?.admit(holder, sessionId, bytes);
+  }
+
+  /**
+   * Report the uploaded audio a session or track still holds
+   * Audio kept in memory by the session store counts until the session or track is removed
+   */
+  private updateSourceMemory(session: AudioSession, owner: AudioSession | TrackData): void {
+    const bytes = owner.audioData?.byteLength ?? owner.ingest?.bufferedBytes ?? owner.storedAudioBytes ?? 0;
+    this.memory?.set(this.getMemoryHolder(session, owner), session.id, 'source', bytes);
+  }
+
+  /**
+   * Dispatch a session event (the timestamp is added here)
+   */
+  private emit<K extends keyof SessionManagerEventMap>(
+    type: K,
+    detail: Omit<SessionManagerEventMap[K]['detail'], 'timestamp'>,
+  ): void {
+    this.dispatchEvent(new CustomEvent(type, { detail: { ...detail, timestamp: Date.now() } }));
+  }
+
+  private emitSliceServed(sessionId: string, slice: EncryptedSlice, startedAt: number): void {
+    this.emit('sliceserved', {
+      sessionId,
+      trackId: slice.trackId,
+      sliceId: slice.id,
+      sequence: slice.sequence,
+      bytes: slice.encryptedData.byteLength,
+      latencyMs: Date.now() - startedAt,
+    });
+  }
+
+  private emitTrackProcessed(sessionId: string, trackId: string | undefined, sessionInfo: SessionInfo, startedAt: number): void {
+    this.emit('trackprocessed', { sessionId, trackId, totalSlices: sessionInfo.totalSlices, durationMs: Date.now() - startedAt });
+  }
+
   private generateSessionId(): string {
     return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -641,16 +2015,43 @@ export class SessionManager {
   }
 
   private cleanupExpiredSessions(): void {
-    const now = new Date();
-    const maxAge = 30 * 60 * 1000; // 30 minutes
+    const now = Date.now();
+    this.endExpiredSessions(now);
 
+    // Sessions created by other instances only live in the store
+    this.cleanupExpiredStoredSessions(now).catch(() => {});
+  }
+
+  private endExpiredSessions(now: number = Date.now()): void {
     for (const [sessionId, session] of this.sessions) {
-      if (now.getTime() - session.lastAccessed.getTime() > maxAge) {
-        this.destroySession(sessionId);
+      if (this.isExpired(session, now)) {
+        this.endSession(sessionId, 'expired');
       }
     }
   }
 
+  private async cleanupExpiredStoredSessions(now: number): Promise<void> {
+    for (const sessionId of await this.store.keys()) {
+      if (this.sessions.has(sessionId)) {
+        continue;
+      }
+
+      const record = await this.store.get(sessionId);
+      if (!record || !this.isExpired({ createdAt: new Date(record.createdAt), lastAccessed: new Date(record.lastAccessed) }, now)) {
+        continue;
+      }
+
+      // Every instance sweeps the shared store; only the one whose delete removed the record reports it
+      if (await this.deleteFromStore(sessionId)) {
+        this.emit('sessiondestroyed', { sessionId, reason: 'expired' });
+      }
+    }
+  }
+
+  /**
+   * Stop timers and release local session state
+   * Sessions remain in the session store so other instances can keep serving them
+   */
   destroy(): void {
     if (this.cleanupTimer) {
       this.cleanupTimer.clear();
@@ -659,10 +2060,17 @@ export class SessionManager {
 
     // Clean up all sessions
     for (const sessionId of this.sessions.keys()) {
-      this.destroySession(sessionId);
+      this.releaseSession(sessionId);
     }
   }
 
+  /**
+   * Memory held by the sessions of this instance (null unless config.memoryBudget is set)
+   */
+  getMemoryUsage(): MemoryUsage | null {
+    return this.memory?.getUsage() ?? null;
+  }
+
   // Get statistics about active sessions
   getStats(): { activeSessions: number; totalSessions: number } {
     return {
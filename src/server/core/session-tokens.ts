@@ -0,0 +1,188 @@
+import { arrayBufferToBase64, base64ToArrayBuffer } from '../../shared/utils/base64.js';
+import { InvalidSessionTokenError } from './errors.js';
+
+/**
+ * Signed, expiring session tokens
+ *
+ * Tokens are compact JWTs (HS256 or ES256) so they can also be verified by other services.
+ * Claims: sid (session ID), sub (user), tenant, iat and exp (seconds since the epoch).
+ */
+
+/**
+ * Verified token claims
+ */
+export interface SessionTokenClaims {
+  sessionId: string;
+  /** User the token was issued to */
+  subject?: string;
+  /** Tenant the session belongs to */
+  tenant?: string;
+  /** Epoch milliseconds */
+  issuedAt: number;
+  /** Epoch milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * Configuration options for SessionTokenSigner
+ */
+export interface SessionTokenSignerConfig {
+  /** Token lifetime in milliseconds. Default: 3_600_000 (1 hour) */
+  ttlMs?: number;
+  /** Accepted clock difference between instances in milliseconds. Default: 30_000 */
+  clockToleranceMs?: number;
+}
+
+type TokenAlgorithm = 'HS256' | 'ES256';
+
+interface JwtClaims {
+  sid: string;
+  sub?: string;
+  tenant?: string;
+  iat: number;
+  exp: number;
+}
+
+const HMAC_PARAMS: HmacImportParams = { name: 'HMAC', hash: 'SHA-256' };
+const ECDSA_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Issues and verifies session tokens
+ * Use fromSecret (HMAC, every instance shares the secret) or fromKeyPair (ECDSA P-256,
+ * instances that only verify need just the public key)
+ */
+export class SessionTokenSigner {
+  private readonly algorithm: TokenAlgorithm;
+  private readonly signingKey: CryptoKey | null;
+  private readonly verifyingKey: CryptoKey;
+  private readonly ttlMs: number;
+  private readonly clockToleranceMs: number;
+
+  private constructor(
+    algorithm: TokenAlgorithm,
+    signingKey: CryptoKey | null,
+    verifyingKey: CryptoKey,
+    config: SessionTokenSignerConfig,
+  ) {
+    this.algorithm = algorithm;
+    this.signingKey = signingKey;
+    this.verifyingKey = verifyingKey;
+    this.ttlMs = config.ttlMs ?? 3_600_000;
+    this.clockToleranceMs = config.clockToleranceMs ?? 30_000;
+  }
+
+  /**
+   * HS256 tokens from a shared secret (at least 32 bytes recommended)
+   */
+  static async fromSecret(secret: string | ArrayBuffer, config: SessionTokenSignerConfig = {}): Promise<SessionTokenSigner> {
+    const keyData = typeof secret === 'string' ? textEncoder.encode(secret).buffer as ArrayBuffer : secret;
+    const key = await crypto.subtle.importKey('raw', keyData, HMAC_PARAMS, false, ['sign', 'verify']);
+    return new SessionTokenSigner('HS256', key, key, config);
+  }
+
+  /**
+   * ES256 tokens from an ECDSA P-256 key pair
+   * Without a private key the signer can only verify tokens
+   */
+  static fromKeyPair(keyPair: { privateKey?: CryptoKey; publicKey: CryptoKey }, config: SessionTokenSignerConfig = {}): SessionTokenSigner {
+    return new SessionTokenSigner('ES256', keyPair.privateKey ?? null, keyPair.publicKey, config);
+  }
+
+  /**
+   * Issue a token for a session
+   * @param claims - Session ID and optional subject/tenant to bind
+   * @param ttlMs - Lifetime override in milliseconds
+   */
+  async issue(claims: Pick<SessionTokenClaims, 'sessionId' | 'subject' | 'tenant'>, ttlMs: number = this.ttlMs): Promise<string> {
+    if (!this.signingKey) {
+      throw new Error('Session token signer has no private key');
+    }
+
+    const now = Date.now();
+    const payload: JwtClaims = {
+      sid: claims.sessionId,
+      sub: claims.subject,
+      tenant: claims.tenant,
+      iat: Math.floor(now / 1000),
+      exp: Math.floor((now + ttlMs) / 1000),
+    };
+
+    const signingInput = `${encodeJson({ alg: this.algorithm, typ: 'JWT' })}.${encodeJson(payload)}`;
+    const signature = await crypto.subtle.sign(
+      this.algorithm === 'HS256' ? HMAC_PARAMS : ECDSA_PARAMS,
+      this.signingKey,
+      textEncoder.encode(signingInput).buffer as ArrayBuffer,
+    );
+    return `${signingInput}.${toBase64Url(signature)}`;
+  }
+
+  /**
+   * Verify a token's signature and expiry
+   * @throws InvalidSessionTokenError if the token is malformed, forged or expired
+   */
+  async verify(token: string): Promise<SessionTokenClaims> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new InvalidSessionTokenError('Malformed session token');
+    }
+
+    let header: { alg?: string };
+    let payload: Partial<JwtClaims>;
+    let signature: ArrayBuffer;
+    try {
+      header = decodeJson(parts[0]);
+      payload = decodeJson(parts[1]);
+      signature = fromBase64Url(parts[2]);
+    } catch {
+      throw new InvalidSessionTokenError('Malformed session token');
+    }
+
+    if (header.alg !== this.algorithm) {
+      throw new InvalidSessionTokenError(`Unexpected session token algorithm: ${String(header.alg)}`);
+    }
+
+    const valid = await crypto.subtle.verify(
+      this.algorithm === 'HS256' ? HMAC_PARAMS : ECDSA_PARAMS,
+      this.verifyingKey,
+      signature,
+      textEncoder.encode(`${parts[0]}.${parts[1]}`).buffer as ArrayBuffer,
+    );
+    if (!valid) {
+      throw new InvalidSessionTokenError('Invalid session token signature');
+    }
+
+    if (typeof payload.sid !== 'string' || typeof payload.iat !== 'number' || typeof payload.exp !== 'number') {
+      throw new InvalidSessionTokenError('Session token is missing required claims');
+    }
+    if (payload.exp * 1000 + this.clockToleranceMs < Date.now()) {
+      throw new InvalidSessionTokenError('Session token has expired');
+    }
+
+    return {
+      sessionId: payload.sid,
+      subject: payload.sub,
+      tenant: payload.tenant,
+      issuedAt: payload.iat * 1000,
+      expiresAt: payload.exp * 1000,
+    };
+  }
+}
+
+function toBase64Url(data: ArrayBuffer | Uint8Array): string {
+  return arrayBufferToBase64(data).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return base64ToArrayBuffer(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+}
+
+function encodeJson(value: unknown): string {
+  return toBase64Url(textEncoder.encode(JSON.stringify(value)));
+}
+
+function decodeJson<T>(value: string): T {
+  return JSON.parse(new TextDecoder().decode(fromBase64Url(value))) as T;
+}
@@ -0,0 +1,184 @@
+/**
+ * Real-time consumption pacing
+ *
+ * Compares the audio a session has fetched with the wall-clock time since its first slice.
+ * Listeners stay close to real time, while a scraper pulling every slice runs ahead and is
+ * delayed, throttled and finally revoked. Fetching a slice again (retries, replays) is free; a
+ * fetch that does not continue from the slices fetched before counts as a seek and earns extra
+ * allowance for buffering at the new position. Position lookups (rolling slice ID disclosure)
+ * are checked like a seek to the looked-up slice.
+ */
+
+/**
+ * Configuration options for slice pacing (SessionManagerConfig.pacing)
+ */
+export interface PacingConfig {
+  /** Audio in seconds a session may fetch ahead of real time. Default: 60 */
+  leadSeconds?: number;
+  /**
+   * Extra audio in seconds each seek may fetch (track switches count as seeks). Default: 15
+   * The total seek allowance is capped at leadSeconds
+   */
+  seekAllowanceSeconds?: number;
+  /** Longest delay in ms before a request that is ahead is throttled instead. Default: 5000, 0 throttles immediately */
+  maxDelayMs?: number;
+  /** Revoke (destroy) the session after this many throttled requests. Default: never */
+  revokeAfterThrottles?: number;
+}
+
+/**
+ * Pacing decision for a slice request
+ */
+export interface PacingDecision {
+  action: 'allow' | 'delay' | 'throttle' | 'revoke';
+  /** Whether the request was counted as a seek */
+  seek: boolean;
+  /** Audio in seconds the session has fetched ahead of its allowance (0 when within it) */
+  aheadSeconds: number;
+  /** Delay to apply ('delay') or retry after ('throttle'), in ms */
+  delayMs: number;
+}
+
+/**
+ * Detail of the 'pacing' events SessionManager dispatches
+ */
+export interface PacingEvent {
+  type: 'seek' | 'delay' | 'throttle' | 'revoke';
+  sessionId: string;
+  trackId?: string;
+  sliceId: string;
+  /** Audio in seconds fetched ahead of the allowance */
+  aheadSeconds: number;
+  /** Applied delay ('delay') or suggested retry delay ('throttle'), in ms */
+  delayMs?: number;
+  timestamp: number;
+}
+
+/**
+ * Slice a request targets
+ */
+export interface PacedSlice {
+  trackId?: string;
+  /** Slice index within its track */
+  index: number;
+  /** Slice duration in seconds */
+  duration: number;
+}
+
+interface PacingState {
+  startedAt: number;
+  consumedSeconds: number;
+  seekCredit: number;
+  throttles: number;
+  // Fetched slice indices per track
+  fetched: Map<string, Set<number>>;
+}
+
+// Fetches within this many slices after a fetched slice continue playback (parallel prefetch)
+const CONTINUATION_WINDOW = 3;
+
+/**
+ * Tracks per-session consumption and decides how to pace slice requests
+ * State is kept in memory, so each instance paces the requests it serves
+ */
+export class SlicePacer {
+  private readonly leadSeconds: number;
+  private readonly seekAllowanceSeconds: number;
+  private readonly maxDelayMs: number;
+  private readonly revokeAfterThrottles?: number;
+  private sessions = new Map<string, PacingState>();
+
+  constructor(config: PacingConfig = {}) {
+    this.leadSeconds = config.leadSeconds ?? 60;
+    this.seekAllowanceSeconds = config.seekAllowanceSeconds ?? 15;
+    this.maxDelayMs = config.maxDelayMs ?? 5000;
+    this.revokeAfterThrottles = config.revokeAfterThrottles;
+  }
+
+  /**
+   * Decide how to serve a slice request
+   * Allowed and delayed slices are counted as consumed; throttled ones are not
+   */
+  evaluate(sessionId: string, slice: PacedSlice, now: number = Date.now()): PacingDecision {
+    let state = this.sessions.get(sessionId);
+    if (!state) {
+      state = { startedAt: now, consumedSeconds: 0, seekCredit: 0, throttles: 0, fetched: new Map() };
+      this.sessions.set(sessionId, state);
+    }
+
+    const trackKey = slice.trackId ?? '';
+    let fetched = state.fetched.get(trackKey);
+    if (fetched?.has(slice.index)) {
+      return { action: 'allow', seek: false, aheadSeconds: 0, delayMs: 0 };
+    }
+
+    const seek = state.fetched.size > 0 && !this.continuesPlayback(fetched, slice.index);
+    const seekCredit = seek
+      ? Math.min(state.seekCredit + this.seekAllowanceSeconds, this.leadSeconds)
+      : state.seekCredit;
+
+    const elapsedSeconds = (now - state.startedAt) / 1000;
+    const allowance = elapsedSeconds + this.leadSeconds + seekCredit;
+    const aheadSeconds = Math.max(0, state.consumedSeconds + slice.duration - allowance);
+    const delayMs = Math.ceil(aheadSeconds * 1000);
+
+    if (aheadSeconds > 0 && delayMs > this.maxDelayMs) {
+      state.throttles++;
+      const revoke = this.revokeAfterThrottles !== undefined && state.throttles >= this.revokeAfterThrottles;
+      return { action: revoke ? 'revoke' : 'throttle', seek, aheadSeconds, delayMs };
+    }
+
+    if (!fetched) {
+      fetched = new Set();
+      state.fetched.set(trackKey, fetched);
+    }
+    fetched.add(slice.index);
+    state.consumedSeconds += slice.duration;
+    state.seekCredit = seekCredit;
+
+    return { action: aheadSeconds > 0 ? 'delay' : 'allow', seek, aheadSeconds, delayMs: aheadSeconds > 0 ? delayMs : 0 };
+  }
+
+  /**
+   * Decide whether a session may look up the slice IDs at a position
+   * Checked like a seek to the slice without counting it as consumed, so the fetch that follows
+   * is paced as usual. Never delays: the fetch is delayed instead
+   */
+  evaluateLookup(sessionId: string, slice: PacedSlice, now: number = Date.now()): PacingDecision {
+    const state = this.sessions.get(sessionId);
+    if (!state || state.fetched.get(slice.trackId ?? '')?.has(slice.index)) {
+      return { action: 'allow', seek: false, aheadSeconds: 0, delayMs: 0 };
+    }
+
+    const seekCredit = Math.min(state.seekCredit + this.seekAllowanceSeconds, this.leadSeconds);
+    const allowance = (now - state.startedAt) / 1000 + this.leadSeconds + seekCredit;
+    const aheadSeconds = Math.max(0, state.consumedSeconds + slice.duration - allowance);
+    const delayMs = Math.ceil(aheadSeconds * 1000);
+    if (delayMs <= this.maxDelayMs) {
+      return { action: 'allow', seek: true, aheadSeconds, delayMs: 0 };
+    }
+
+    state.throttles++;
+    const revoke = this.revokeAfterThrottles !== undefined && state.throttles >= this.revokeAfterThrottles;
+    return { action: revoke ? 'revoke' : 'throttle', seek: true, aheadSeconds, delayMs };
+  }
+
+  /**
+   * Drop the pacing state of a session
+   */
+  forget(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  private continuesPlayback(fetched: Set<number> | undefined, index: number): boolean {
+    if (!fetched) {
+      return false;
+    }
+    for (let previous = index - 1; previous >= index - CONTINUATION_WINDOW; previous--) {
+      if (fetched.has(previous)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
@@ -0,0 +1,171 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { SecureAudioAPI } from './api.js';
+
+/**
+ * Minimal Hono context shape used by honoHandler (avoids a runtime dependency on hono)
+ */
+export interface HonoLikeContext {
+  req: { raw: Request };
+}
+
+/**
+ * Minimal Express request shape used by expressHandler
+ */
+export interface ExpressLikeRequest extends IncomingMessage {
+  originalUrl?: string;
+  protocol?: string;
+  /** Present when a body parser already consumed the stream */
+  body?: unknown;
+}
+
+type NextFunction = (error?: unknown) => void;
+
+/**
+ * Fetch handler for runtimes with native Request/Response (Cloudflare Workers, Deno, Bun)
+ * @example export default { fetch: fetchHandler(api) }
+ */
+export function fetchHandler(api: SecureAudioAPI): (request: Request) => Promise<Response> {
+  return request => api.fetch(request);
+}
+
+/**
+ * Hono middleware; requests outside the API fall through to the next handler
+ * @example app.all('/api/*', honoHandler(api))
+ */
+export function honoHandler(api: SecureAudioAPI): (c: HonoLikeContext, next: () => Promise<void>) => Promise<Response | void> {
+  return async(c, next) => {
+    const response = await api.handle(c.req.raw);
+    if (response) {
+      return response;
+    }
+    await next();
+  };
+}
+
+/**
+ * Express middleware; mount it before body parsers so uploads can be streamed
+ * Uses req.originalUrl, so the API basePath must include the mount path
+ * @example app.use(expressHandler(api))
+ */
+export function expressHandler(api: SecureAudioAPI): (req: ExpressLikeRequest, res: ServerResponse, next: NextFunction) => void {
+  return (req, res, next) => {
+    dispatchNodeRequest(api, req, res, next).catch(next);
+  };
+}
+
+/**
+ * Request listener for node:http / node:https servers
+ * @example createServer(nodeHandler(api)).listen(3000)
+ */
+export function nodeHandler(api: SecureAudioAPI): (req: IncomingMessage, res: ServerResponse) => void {
+  return (req, res) => {
+    dispatchNodeRequest(api, req, res).catch(() => {
+      if (!res.headersSent) {
+        res.statusCode = 500;
+      }
+      res.end();
+    });
+  };
+}
+
+async function dispatchNodeRequest(
+  api: SecureAudioAPI,
+  req: ExpressLikeRequest,
+  res: ServerResponse,
+  next?: NextFunction,
+): Promise<void> {
+  const request = toFetchRequest(req);
+  const response = next ? await api.handle(request) : await api.fetch(request);
+
+  if (!response) {
+    next?.();
+    return;
+  }
+
+  await writeFetchResponse(response, res);
+}
+
+/**
+ * Convert a Node.js request into a Fetch API Request
+ */
+export function toFetchRequest(req: ExpressLikeRequest): Request {
+  const protocol = req.protocol ?? ((req.socket as { encrypted?: boolean } | undefined)?.encrypted ? 'https' : 'http');
+  const host = req.headers.host ?? 'localhost';
+  const url = new URL(req.originalUrl ?? req.url ?? '/', `${protocol}://${host}`);
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) {
+      value.forEach(item => headers.append(name, item));
+    } else if (value !== undefined) {
+      headers.set(name, value);
+    }
+  }
+
+  const method = req.method ?? 'GET';
+  if (method === 'GET' || method === 'HEAD') {
+    return new Request(url, { method, headers });
+  }
+
+  return new Request(url, {
+    method,
+    headers,
+    body: readNodeBody(req, headers),
+    // Required by Node.js when the body is a stream
+    duplex: 'half',
+  } as RequestInit);
+}
+
+function readNodeBody(req: ExpressLikeRequest, headers: Headers): BodyInit | null {
+  // A body parser already consumed the stream - reuse what it produced
+  if (req.body !== undefined && req.readableEnded) {
+    if (req.body instanceof Uint8Array || typeof req.body === 'string') {
+      return req.body as BodyInit;
+    }
+    headers.delete('content-length');
+    return JSON.stringify(req.body);
+  }
+
+  const iterator = req[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(typeof value === 'string' ? new TextEncoder().encode(value) : new Uint8Array(value));
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Write a Fetch API Response to a Node.js response
+ */
+export async function writeFetchResponse(response: Response, res: ServerResponse): Promise<void> {
+  res.statusCode = response.status;
+  response.headers.forEach((value, name) => {
+    res.setHeader(name, value);
+  });
+
+  if (!response.body) {
+    res.end();
+    return;
+  }
+
+  const reader = response.body.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done)
+        break;
+      res.write(value);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  res.end();
+}
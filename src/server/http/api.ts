@@ -0,0 +1,293 @@
+import type { ApiErrorBody } from '../../shared/protocol/http.js';
+import type { EncryptedSlice } from '../../shared/types/interfaces.js';
+import type { KeyExchangeRequest } from '../../shared/types/processors.js';
+import type { RequestContext } from '../core/authorization.js';
+import {
+  AUDIO_FORM_FIELD,
+  DEFAULT_API_BASE_PATH,
+  parseSliceRequestProof,
+  SLICE_CONTENT_TYPE,
+  SLICE_PROOF_HEADER,
+} from '../../shared/protocol/http.js';
+import { encodeSlice } from '../../shared/protocol/slice-envelope.js';
+import { PacingError, SecStreamError } from '../core/errors.js';
+import { SecureAudioServer } from '../core/server.js';
+import { SessionManager } from '../core/session-manager.js';
+
+/**
+ * Configuration options for SecureAudioAPI
+ */
+export interface SecureAudioAPIConfig {
+  /** Path prefix the API is mounted under. Default: '/api' */
+  basePath?: string;
+  /**
+   * Called for unexpected (non-SecStreamError) failures before a 500 response is sent
+   * Use it for logging; the error message is not exposed to clients
+   */
+  onError?: (error: unknown, request: Request) => void;
+  /**
+   * Identify the caller of a request (e.g. from your own auth cookie or header)
+   * The session token (Authorization: Bearer) and User-Agent are added automatically
+   */
+  getContext?: (request: Request) => RequestContext | Promise<RequestContext>;
+}
+
+interface TrackMetadata { title?: string; artist?: string; album?: string }
+
+/**
+ * Fetch-style HTTP API for secure audio streaming
+ * Maps the wire protocol documented in shared/protocol/http.ts onto SecureAudioServer
+ * Works anywhere the Fetch API is available (Node.js 18+, Cloudflare Workers, Deno, Bun)
+ */
+export class SecureAudioAPI {
+  private readonly server: SecureAudioServer;
+  private readonly basePath: string;
+  private readonly onError?: (error: unknown, request: Request) => void;
+  private readonly getContext?: (request: Request) => RequestContext | Promise<RequestContext>;
+
+  constructor(server: SecureAudioServer | SessionManager, config: SecureAudioAPIConfig = {}) {
+    this.server = server instanceof SessionManager ? new SecureAudioServer(server) : server;
+    this.basePath = (config.basePath ?? DEFAULT_API_BASE_PATH).replace(/\/+$/, '');
+    this.onError = config.onError;
+    this.getContext = config.getContext;
+  }
+
+  /**
+   * Handle a request, answering 404 for paths outside the API
+   */
+  async fetch(request: Request): Promise<Response> {
+    return (await this.handle(request)) ?? this.error(404, 'NOT_FOUND', 'Not found');
+  }
+
+  /**
+   * Handle a request if it targets the API
+   * @returns Response, or null if the path is not part of the API (lets frameworks fall through)
+   */
+  async handle(request: Request): Promise<Response | null> {
+    const url = new URL(request.url);
+    if (url.pathname !== this.basePath && !url.pathname.startsWith(`${this.basePath}/`)) {
+      return null;
+    }
+
+    try {
+      const segments = url.pathname
+        .slice(this.basePath.length)
+        .split('/')
+        .filter(Boolean)
+        .map(segment => decodeURIComponent(segment));
+
+      if (segments[0] !== 'sessions') {
+        return null;
+      }
+      return await this.route(request, url, segments.slice(1));
+    } catch(error) {
+      // Malformed percent-encoding in a path segment
+      if (error instanceof URIError) {
+        return this.error(400, 'INVALID_REQUEST', 'Malformed request path');
+      }
+      if (error instanceof PacingError && error.retryAfterMs !== undefined) {
+        const response = this.error(error.status, error.code, error.message);
+        response.headers.set('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+        return response;
+      }
+      if (error instanceof SecStreamError) {
+        return this.error(error.status, error.code, error.message);
+      }
+
+      this.onError?.(error, request);
+      return this.error(500, 'INTERNAL_ERROR', 'Internal server error');
+    }
+  }
+
+  private async route(request: Request, url: URL, segments: string[]): Promise<Response | null> {
+    const method = request.method.toUpperCase();
+    const [sessionId, resource, resourceId] = segments;
+    const trackId = url.searchParams.get('trackId') ?? undefined;
+    const context = await this.createContext(request);
+
+    // /sessions
+    if (segments.length === 0) {
+      return method === 'POST' ? await this.createSession(request, context) : this.methodNotAllowed();
+    }
+
+    // /sessions/:sessionId
+    if (segments.length === 1) {
+      if (method !== 'DELETE') {
+        return this.methodNotAllowed();
+      }
+      await this.server.destroySession(sessionId, context);
+      return new Response(null, { status: 204 });
+    }
+
+    if (segments.length === 2) {
+      switch (resource) {
+        case 'key-exchange': {
+          if (method !== 'POST') {
+            return this.methodNotAllowed();
+          }
+          const keyExchangeRequest = await this.readJson<KeyExchangeRequest>(request);
+          return this.json(await this.server.handleKeyExchange(sessionId, keyExchangeRequest, trackId, context));
+        }
+        case 'info': {
+          if (method !== 'GET') {
+            return this.methodNotAllowed();
+          }
+          const sessionInfo = await this.server.getSessionInfo(sessionId, context);
+          return sessionInfo
+            ? this.json(sessionInfo)
+            : this.error(404, 'SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+        }
+        case 'slice-ids': {
+          if (method !== 'GET') {
+            return this.methodNotAllowed();
+          }
+          const index = url.searchParams.get('index');
+          if (index === null || !/^\d+$/.test(index)) {
+            return this.error(400, 'INVALID_REQUEST', 'Missing or invalid slice index');
+          }
+          return this.json(await this.server.resolveSliceIds(sessionId, Number(index), trackId, context));
+        }
+        case 'tracks':
+          return method === 'POST' ? await this.addTrack(request, url, sessionId, context) : this.methodNotAllowed();
+        default:
+          return null;
+      }
+    }
+
+    if (segments.length === 3) {
+      if (resource === 'slices') {
+        if (method !== 'GET') {
+          return this.methodNotAllowed();
+        }
+        const slice = await this.server.getSlice(sessionId, resourceId, trackId, context.userAgent, context);
+        return slice ? this.sliceResponse(slice) : this.error(404, 'SLICE_NOT_FOUND', `Slice ${resourceId} not found`);
+      }
+
+      if (resource === 'tracks') {
+        if (method !== 'DELETE') {
+          return this.methodNotAllowed();
+        }
+        // Track IDs are never purely numeric, so digits address a track by index
+        const trackIdOrIndex = /^\d+$/.test(resourceId) ? Number(resourceId) : resourceId;
+        return this.json(await this.server.removeTrack(sessionId, trackIdOrIndex, context));
+      }
+    }
+
+    return null;
+  }
+
+  private async createSession(request: Request, context: RequestContext): Promise<Response> {
+    if (this.isMultipart(request)) {
+      const formData = await request.formData();
+      const files = formData.getAll(AUDIO_FORM_FIELD).filter((entry): entry is File => typeof entry !== 'string');
+
+      if (files.length === 0) {
+        return this.error(400, 'INVALID_REQUEST', `Missing "${AUDIO_FORM_FIELD}" file`);
+      }
+
+      if (files.length === 1) {
+        return this.json(await this.server.createSession(await files[0].arrayBuffer(), context), 201);
+      }
+
+      const tracks = await Promise.all(files.map(async file => ({
+        audioData: await file.arrayBuffer(),
+        metadata: file.name ? { title: file.name } : undefined,
+      })));
+      return this.json(await this.server.createMultiTrackSession(tracks, context), 201);
+    }
+
+    if (!request.body) {
+      return this.error(400, 'INVALID_REQUEST', 'Missing audio data');
+    }
+
+    return this.json(await this.server.createSession(request.body, context), 201);
+  }
+
+  private async addTrack(request: Request, url: URL, sessionId: string, context: RequestContext): Promise<Response> {
+    let audioData: ArrayBuffer | ReadableStream;
+    let metadata: TrackMetadata;
+
+    if (this.isMultipart(request)) {
+      const formData = await request.formData();
+      const file = formData.get(AUDIO_FORM_FIELD);
+      if (!file || typeof file === 'string') {
+        return this.error(400, 'INVALID_REQUEST', `Missing "${AUDIO_FORM_FIELD}" file`);
+      }
+      audioData = await file.arrayBuffer();
+      metadata = this.readMetadata(name => formData.get(name));
+    } else {
+      if (!request.body) {
+        return this.error(400, 'INVALID_REQUEST', 'Missing audio data');
+      }
+      audioData = request.body;
+      metadata = this.readMetadata(name => url.searchParams.get(name));
+    }
+
+    return this.json(await this.server.addTrack(sessionId, audioData, metadata, context), 201);
+  }
+
+  private async createContext(request: Request): Promise<RequestContext> {
+    const context: RequestContext = { ...(await this.getContext?.(request)) };
+
+    const authorization = request.headers.get('Authorization');
+    const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+    if (match) {
+      context.token = match[1];
+    }
+    const proof = request.headers.get(SLICE_PROOF_HEADER);
+    if (proof) {
+      context.sliceProof = parseSliceRequestProof(proof) ?? undefined;
+    }
+    context.userAgent ??= request.headers.get('User-Agent') ?? undefined;
+    return context;
+  }
+
+  private readMetadata(get: (name: string) => FormDataEntryValue | null): TrackMetadata {
+    const metadata: TrackMetadata = {};
+    for (const name of ['title', 'artist', 'album'] as const) {
+      const value = get(name);
+      if (typeof value === 'string' && value) {
+        metadata[name] = value;
+      }
+    }
+    return metadata;
+  }
+
+  private sliceResponse(slice: EncryptedSlice): Response {
+    return new Response(encodeSlice(slice), {
+      status: 200,
+      headers: {
+        'Content-Type': SLICE_CONTENT_TYPE,
+        'Cache-Control': 'no-store',
+      },
+    });
+  }
+
+  private async readJson<T>(request: Request): Promise<T> {
+    try {
+      return await request.json() as T;
+    } catch {
+      throw new SecStreamError('Request body must be valid JSON', 'INVALID_REQUEST', 400);
+    }
+  }
+
+  private isMultipart(request: Request): boolean {
+    return (request.headers.get('Content-Type') ?? '').toLowerCase().startsWith('multipart/form-data');
+  }
+
+  private methodNotAllowed(): Response {
+    return this.error(405, 'METHOD_NOT_ALLOWED', 'Method not allowed');
+  }
+
+  private json(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  private error(status: number, code: string, message: string): Response {
+    const body: ApiErrorBody = { error: message, code };
+    return this.json(body, status);
+  }
+}
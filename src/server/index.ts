@@ -6,12 +6,68 @@ export {
 export {
   EcdhP256KeyExchangeProcessor,
 } from '../shared/crypto/key-exchange/ecdh-p256-processor.js';
-
+export { EcdhP384KeyExchangeProcessor } from '../shared/crypto/key-exchange/ecdh-p384-processor.js';
+export { EcdhKeyExchangeProcessor } from '../shared/crypto/key-exchange/ecdh-processor.js';
+export type { ECDHKeyExchangeMetadata } from '../shared/crypto/key-exchange/ecdh-processor.js';
+export { NegotiatedKeyExchangeProcessor } from '../shared/crypto/key-exchange/negotiated-processor.js';
+export type { NegotiatedKeyExchangeRequestMetadata } from '../shared/crypto/key-exchange/negotiated-processor.js';
+export { SignedEcdhP256KeyExchangeProcessor } from '../shared/crypto/key-exchange/signed-ecdh-p256-processor.js';
+export { X25519KeyExchangeProcessor } from '../shared/crypto/key-exchange/x25519-processor.js';
+export { isCurveSupported, KEY_EXCHANGE_CURVES } from '../shared/crypto/key-management.js';
+export type { KeyExchangeCurve } from '../shared/crypto/key-management.js';
+// Key rotation
+export { deriveEpochKey, EpochKeyCache, getKeyEpoch } from '../shared/crypto/key-rotation.js';
 // Encryption processors
 export {
   AesGcmEncryptionProcessor,
+  HkdfAesGcmEncryptionProcessor,
   XorStreamCipherProcessor,
 } from '../shared/crypto/processors/index.js';
+// Slice request proofs
+export { createSliceRequestProof, deriveRequestProofKey, verifySliceRequestProof } from '../shared/crypto/request-proof.js';
+export type { SliceRequestProof } from '../shared/crypto/request-proof.js';
+// Server identity (authenticated key exchange)
+export {
+  exportServerIdentityPublicKey,
+  generateServerIdentityKeyPair,
+  importServerIdentityPublicKey,
+  signKeyExchange,
+  verifyKeyExchange,
+} from '../shared/crypto/server-identity.js';
+
+export type { KeyExchangeTranscript } from '../shared/crypto/server-identity.js';
+// Wire protocol shared with client transports
+export {
+  apiRoutes,
+  AUDIO_FORM_FIELD,
+  DEFAULT_API_BASE_PATH,
+  formatSliceRequestProof,
+  parseSliceRequestProof,
+  SLICE_CONTENT_TYPE,
+  SLICE_PROOF_HEADER,
+} from '../shared/protocol/http.js';
+export type { ApiErrorBody } from '../shared/protocol/http.js';
+export {
+  assertSliceIdentity,
+  assertSliceProcessors,
+  decodeSlice,
+  encodeSlice,
+  getSliceEncryptionOptions,
+  getSliceSessionId,
+  SLICE_ENVELOPE_MAGIC,
+  SLICE_ENVELOPE_VERSION,
+  SliceEnvelopeError,
+} from '../shared/protocol/slice-envelope.js';
+export type {
+  DecodeSliceOptions,
+  EncodeSliceOptions,
+  SliceEnvelopeErrorCode,
+} from '../shared/protocol/slice-envelope.js';
+export { decryptSliceIds, encryptSliceIds } from '../shared/protocol/slice-ids.js';
+export type { EncryptedSliceIds } from '../shared/protocol/slice-ids.js';
+export { decryptSliceTimings, encryptSliceTimings, SliceTimingTable } from '../shared/protocol/slice-timings.js';
+export type { EncryptedSliceTimings } from '../shared/protocol/slice-timings.js';
+export { decodeSliceTrim, encodeSliceTrim, SLICE_TRIM_MAGIC } from '../shared/protocol/slice-trim.js';
 // Slice ID generators
 export {
   HashSliceIdGenerator,
@@ -25,7 +81,7 @@ export { AudioDecodeCache } from '../shared/types/cache.js';
 
 export type { CachedAudioSource, CacheStats } from '../shared/types/cache.js';
 // Re-export shared types that server developers need
-export type { SessionInfo, TrackInfo } from '../shared/types/interfaces.js';
+export type { SessionInfo, SliceProcessorIds, SliceRequest, TrackInfo } from '../shared/types/interfaces.js';
 
 export type { CompressionLevel } from '../shared/types/interfaces.js';
 
@@ -40,6 +96,7 @@ export type {
   AudioSlice,
   DEFAULT_CONFIG,
   EncryptedSlice,
+  SliceTrim,
 } from '../shared/types/interfaces.js';
 export type {
   CompressionOptions,
@@ -50,6 +107,7 @@ export type {
   CryptoMetadata,
   EncryptionOptions,
   EncryptionProcessor,
+  SliceEncryptionOptions,
 } from '../shared/types/processors.js';
 
 export type {
@@ -60,6 +118,16 @@ export type {
   KeyExchangeResponse as ProcessorKeyExchangeResponse,
 } from '../shared/types/processors.js';
 
+// FLAC parsing utilities (frame-aligned slices that start with STREAMINFO)
+export {
+  assembleFlacSlice,
+  buildFlacFrameMap,
+  findFlacSliceRange,
+  parseFlacFrameHeader,
+  parseFlacStreamInfo,
+} from './audio/flac-parser.js';
+export type { FlacFrameHeader, FlacFrameMap, FlacSliceRange, FlacStreamInfo } from './audio/flac-parser.js';
+
 // Audio format parsing utilities
 export {
   detectAudioFormat,
@@ -67,32 +135,147 @@ export {
   extractAudioData,
   parseAudioMetadata,
 } from './audio/format-parser.js';
+
 export type { AudioMetadata } from './audio/format-parser.js';
 
-// MP3 frame parsing utilities (for Safari/Firefox compatibility)
+// MP3 frame parsing utilities (frame-aware slicing for Safari/Firefox, gapless slices with trims)
 export {
   buildMP3FrameMap,
   findFrameBoundary,
+  findMP3GaplessSliceRange,
+  findMP3SliceRange,
+  getMP3SampleCount,
+  MP3_DECODER_DELAY,
   parseMP3FrameHeader,
+  parseMP3GaplessInfo,
   sliceMP3AtFrameBoundaries,
 } from './audio/mp3-frame-parser.js';
 
-export type { MP3FrameInfo } from './audio/mp3-frame-parser.js';
+export type { MP3FrameInfo, MP3GaplessInfo, MP3GaplessSliceRange } from './audio/mp3-frame-parser.js';
+
+// MP4 parsing utilities (AAC and ALAC; slices become standalone M4A files cut at access units)
+export {
+  assembleMP4Slice,
+  findMP4SliceRange,
+  parseMP4BoxHeader,
+  parseMP4SampleTable,
+} from './audio/mp4-parser.js';
+
+export type { MP4BoxHeader, MP4SampleTable, MP4SliceRange } from './audio/mp4-parser.js';
+
+// Ogg page parsing utilities (page-aligned slices that carry the codec headers)
+export {
+  assembleOggSlice,
+  buildOggPageMap,
+  findOggSliceRange,
+  parseOggPageHeader,
+  parseOggStreamInfo,
+} from './audio/ogg-parser.js';
+
+export type { OggPageInfo, OggPageMap, OggStreamInfo } from './audio/ogg-parser.js';
+
+// Opus parsing utilities (Ogg and WebM; slices become standalone, sample-accurate Ogg Opus streams)
+export {
+  assembleOpusSlice,
+  buildOpusPacketMap,
+  extractOpusPackets,
+  findOpusSliceRange,
+  getOpusPacketSamples,
+  parseOpusHead,
+  parseOpusStreamHeader,
+} from './audio/opus-parser.js';
 
-// Audio decoder interface (for FLAC/OGG/AAC support on Safari/Firefox)
+export type { OpusHeadInfo, OpusPacketMap, OpusSliceRange, OpusStreamHeader } from './audio/opus-parser.js';
+
+// Audio decoder interface (for FLAC/OGG/Opus support on Safari/Firefox)
 export type { AudioDecoder, PCMAudioData } from './audio/types.js';
 export { WASMAudioDecoder } from './audio/wasm-audio-decoder.js';
+
+export { parseWebMHeader } from './audio/webm-parser.js';
+export type { WebMAudioTrack } from './audio/webm-parser.js';
 export { InMemoryAudioCache } from './cache/in-memory-cache.js';
 
 // Server-side exports
+export type {
+  AuthorizationTarget,
+  AuthorizeHook,
+  RequestContext,
+  SessionAction,
+  SessionOwner,
+} from './core/authorization.js';
+export {
+  AuthorizationError,
+  InvalidOperationError,
+  InvalidRequestProofError,
+  InvalidSessionTokenError,
+  MemoryBudgetError,
+  PacingError,
+  SecStreamError,
+  SessionLimitError,
+  SessionNotFoundError,
+  SessionNotReadyError,
+  TrackLimitError,
+  TrackNotFoundError,
+} from './core/errors.js';
+export { MemoryBudget } from './core/memory-budget.js';
+export type { MemoryBudgetConfig, MemoryCategory, MemoryUsage } from './core/memory-budget.js';
+export { SliceProofVerifier } from './core/request-proofs.js';
+export type { SliceProofResult, SliceRequestProofConfig } from './core/request-proofs.js';
 export { SecureAudioServer } from './core/server.js';
+export type {
+  KeyExchangeEvent,
+  SessionCreatedEvent,
+  SessionDestroyedEvent,
+  SessionEventDetail,
+  SessionManagerEventMap,
+  SliceCacheEvent,
+  SliceServedEvent,
+  TrackFailedEvent,
+  TrackProcessedEvent,
+} from './core/session-events.js';
 
 export { SessionManager } from './core/session-manager.js';
 
-export type { SessionManagerConfig } from './core/session-manager.js';
+export type { LiveSessionOptions, SessionLimitsConfig, SessionManagerConfig } from './core/session-manager.js';
+export { SessionTokenSigner } from './core/session-tokens.js';
+export type { SessionTokenClaims, SessionTokenSignerConfig } from './core/session-tokens.js';
+export { SlicePacer } from './core/slice-pacer.js';
+export type { PacedSlice, PacingConfig, PacingDecision, PacingEvent } from './core/slice-pacer.js';
+
+// HTTP API and framework adapters
+export {
+  expressHandler,
+  fetchHandler,
+  honoHandler,
+  nodeHandler,
+  toFetchRequest,
+  writeFetchResponse,
+} from './http/adapters.js';
+export type { ExpressLikeRequest, HonoLikeContext } from './http/adapters.js';
+export { SecureAudioAPI } from './http/api.js';
+export type { SecureAudioAPIConfig } from './http/api.js';
 
+export { AudioIngest } from './processing/audio-ingest.js';
 export { AudioProcessor } from './processing/audio-processor.js';
-export type { AudioProcessorConfig, AudioSource } from './processing/audio-processor.js';
+export type { AudioProcessorConfig, AudioSource, ProcessedAudio, ProcessorMemoryUsage, SlicePlan } from './processing/audio-processor.js';
+export { LiveSlicer } from './processing/live-slicer.js';
+export type { LiveSlicerConfig } from './processing/live-slicer.js';
+export { SlicePlanner } from './processing/slice-planner.js';
+export type { SlicePlannerConfig } from './processing/slice-planner.js';
+
+// Random-access audio sources
+export { AudioSourceProvider, readAudioMetadata, readFlacFrameMap, readMP3FrameMap, readMP4SampleTable, readOggPageMap, readOpusPacketMap } from './sources/audio-source-provider.js';
+export { FileAudioSourceProvider } from './sources/file-source.js';
+export { InMemoryAudioSourceProvider } from './sources/in-memory-source.js';
+export { ObjectStorageAudioSourceProvider } from './sources/object-storage-source.js';
+export type { ObjectStorageClient } from './sources/object-storage-source.js';
+
+// Session persistence
+export { FileSessionStore } from './store/file-store.js';
+export { InMemorySessionStore } from './store/in-memory-store.js';
+export { createKeyWrappingKey, unwrapSessionKey, wrapSessionKey } from './store/key-wrapping.js';
+export { SessionStore } from './store/session-store.js';
+export type { SessionRecord, TrackRecord, WrappedSessionKey } from './store/session-store.js';
 
 // Browser detection utilities
 export {
@@ -0,0 +1,552 @@
+import type { FlacFrameMap } from '../audio/flac-parser.js';
+import type { AudioMetadata } from '../audio/format-parser.js';
+import type { MP4SampleTable } from '../audio/mp4-parser.js';
+import type { OggPageMap } from '../audio/ogg-parser.js';
+import type { OpusPacketMap } from '../audio/opus-parser.js';
+import type { AudioSource } from './audio-processor.js';
+import { createFlacFrameMap, parseFlacStreamInfo, scanFlacFrames } from '../audio/flac-parser.js';
+import { detectAudioFormat, estimateSampleCount, parseAudioMetadata } from '../audio/format-parser.js';
+import { getMP3SampleCount, parseMP3FrameHeader, parseMP3GaplessInfo } from '../audio/mp3-frame-parser.js';
+import { findMP4MovieBox, parseMP4SampleTable } from '../audio/mp4-parser.js';
+import { createOggPageMap, detectOggCodec, finishOggPageMap, parseOggStreamInfo, scanOggPages } from '../audio/ogg-parser.js';
+import { createOpusPacketMap, parseOpusStreamHeader, scanOpusPackets } from '../audio/opus-parser.js';
+import { parseWebMHeader } from '../audio/webm-parser.js';
+
+// WAV writers that stream their output leave the data chunk size at 0 or 0xFFFFFFFF
+const WAV_UNBOUNDED_SIZES = new Set([0, 0xFFFFFFFF]);
+
+/**
+ * Incrementally buffers an audio upload so slices can be served before it has finished
+ *
+ * The container header is parsed as soon as enough bytes have arrived. After that, the
+ * audio payload grows in place and snapshot() describes the part that can already be
+ * sliced: complete PCM frames for WAV, complete frames for MP3 and FLAC, complete pages for Ogg
+ * Vorbis, complete packets for Opus, complete access units for MP4 and a byte-length
+ * estimate for other formats.
+ */
+export class AudioIngest {
+  private header: Uint8Array = new Uint8Array(0);
+  private headerLength = 0;
+  private payload: Uint8Array = new Uint8Array(0);
+  private payloadLength = 0;
+  private discardedBytes = 0;
+  private metadata: AudioMetadata | null = null;
+  // End of the declared WAV data chunk in payload bytes (null = unbounded or not WAV)
+  private wavDataEnd: number | null = null;
+
+  // MP3 frame scan state (offsets relative to the payload)
+  private readonly mp3FrameBoundaries: number[] = [];
+  private mp3ScanOffset = 0;
+  private mp3SamplesPerFrame = 0;
+  private mp3FirstFrame = true;
+
+  // FLAC frame scan state (offsets relative to the payload, which starts with the metadata blocks)
+  private flacFrames: FlacFrameMap | null = null;
+  private flacScanOffset = 0;
+
+  // Ogg page scan state (offsets relative to the payload, which starts with the codec headers)
+  private oggPages: OggPageMap | null = null;
+  private oggScanOffset = 0;
+
+  // Opus packet scan state (offsets relative to the payload, which starts with the container header)
+  private opusPackets: OpusPacketMap | null = null;
+  private opusScanOffset = 0;
+
+  // MP4 sample table (file offsets; the payload is the whole file) and received access units
+  private mp4Samples: MP4SampleTable | null = null;
+  private mp4ReadySamples = 0;
+
+  private complete = false;
+  private failure: Error | null = null;
+  private waiters: Array<() => void> = [];
+
+  /**
+   * Create an ingest that pumps a stream in the background
+   * Stream errors fail the ingest; they are surfaced through ready() and done()
+   */
+  static fromStream(stream: ReadableStream): AudioIngest {
+    const ingest = new AudioIngest();
+    const reader = stream.getReader();
+
+    const pump = async(): Promise<void> => {
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done)
+            break;
+          ingest.append(value);
+        }
+        ingest.finish();
+      } catch(error) {
+        ingest.fail(error);
+      } finally {
+        reader.releaseLock();
+      }
+    };
+    pump().catch(() => {});
+
+    return ingest;
+  }
+
+  /** Whether the header has been parsed, so snapshot() is available */
+  get isReady(): boolean {
+    return this.metadata !== null;
+  }
+
+  /** Whether all audio has been received */
+  get isComplete(): boolean {
+    return this.complete;
+  }
+
+  /** Total bytes received so far, including discarded ones */
+  get receivedBytes(): number {
+    return this.headerLength + this.discardedBytes + this.payloadLength;
+  }
+
+  /** Bytes allocated for buffered audio (the payload buffer grows ahead of the data) */
+  get bufferedBytes(): number {
+    return this.header.byteLength + this.payload.byteLength;
+  }
+
+  /**
+   * Append the next chunk of the upload
+   */
+  append(chunk: Uint8Array): void {
+    if (this.complete || this.failure) {
+      throw new Error('Cannot append to a finished audio ingest');
+    }
+    if (chunk.length === 0) {
+      return;
+    }
+
+    if (this.metadata) {
+      this.appendPayload(chunk);
+    } else {
+      this.header = appendBytes(this.header, this.headerLength, chunk);
+      this.headerLength += chunk.length;
+      this.tryParseHeader(false);
+    }
+
+    this.scanMP3Frames();
+    this.scanFlacFrames();
+    this.scanOggPages();
+    this.scanOpusPackets();
+    this.scanMP4Samples();
+    this.notify();
+  }
+
+  /**
+   * Mark the upload as complete
+   */
+  finish(): void {
+    if (this.complete || this.failure) {
+      return;
+    }
+
+    if (!this.metadata) {
+      this.tryParseHeader(true);
+      if (!this.metadata) {
+        this.fail(new Error('Audio upload ended before its header was complete'));
+        return;
+      }
+    }
+
+    this.complete = true;
+    this.scanMP3Frames();
+    this.scanFlacFrames();
+    this.scanOggPages();
+    this.scanOpusPackets();
+    this.scanMP4Samples();
+    if (this.oggPages) {
+      finishOggPageMap(this.oggPages);
+    }
+    this.notify();
+  }
+
+  /**
+   * Abort the upload; pending and future waits reject with the error
+   */
+  fail(error: unknown): void {
+    if (this.complete || this.failure) {
+      return;
+    }
+    this.failure = error instanceof Error ? error : new Error(String(error));
+    this.notify();
+  }
+
+  /**
+   * Resolve with the audio metadata once the header has been parsed
+   */
+  async ready(): Promise<AudioMetadata> {
+    while (!this.metadata) {
+      this.throwIfFailed();
+      await this.waitForChange();
+    }
+    return this.metadata;
+  }
+
+  /**
+   * Resolve once the upload is complete
+   */
+  async done(): Promise<void> {
+    while (!this.complete) {
+      this.throwIfFailed();
+      await this.waitForChange();
+    }
+  }
+
+  /**
+   * Resolve once more than knownBytes have been received, or the upload completed or failed
+   */
+  async waitForData(knownBytes: number): Promise<void> {
+    while (!this.complete && this.receivedBytes <= knownBytes) {
+      this.throwIfFailed();
+      await this.waitForChange();
+    }
+  }
+
+  /**
+   * Describe the audio received so far
+   * The returned source shares the payload buffer; only its first byteLength bytes are valid
+   */
+  snapshot(): AudioSource {
+    const metadata = this.metadata;
+    if (!metadata) {
+      throw new Error('Audio header has not been received yet');
+    }
+
+    const byteLength = this.validPayloadLength();
+    let length: number;
+    if (metadata.format === 'wav') {
+      length = Math.floor(byteLength / (metadata.channels * ((metadata.bitDepth || 16) / 8)));
+    } else if (metadata.format === 'mp3') {
+      length = getMP3SampleCount(
+        this.mp3FrameBoundaries.length,
+        this.mp3SamplesPerFrame,
+        metadata.encoderDelay ?? 0,
+        metadata.encoderPadding ?? 0,
+        this.complete,
+      );
+    } else if (this.flacFrames) {
+      length = this.flacFrames.totalSamples;
+    } else if (this.oggPages) {
+      length = this.oggPages.totalSamples;
+    } else if (this.opusPackets) {
+      length = this.opusPackets.totalSamples;
+    } else if (this.mp4Samples) {
+      length = this.completeMP4Samples(this.mp4Samples);
+    } else {
+      length = estimateSampleCount({ ...metadata, dataLength: byteLength });
+    }
+
+    return {
+      data: this.payload.buffer as ArrayBuffer,
+      byteLength,
+      sampleRate: metadata.sampleRate,
+      channels: metadata.channels,
+      length,
+      format: metadata.format,
+      metadata: { ...metadata, dataLength: byteLength, totalSamples: undefined, duration: length / metadata.sampleRate },
+      mp3FrameBoundaries: metadata.format === 'mp3' ? this.mp3FrameBoundaries : undefined,
+      mp3SamplesPerFrame: metadata.format === 'mp3' ? this.mp3SamplesPerFrame : undefined,
+      flacFrames: this.flacFrames ?? undefined,
+      oggPages: this.oggPages ?? undefined,
+      opusPackets: this.opusPackets ?? undefined,
+      mp4Samples: this.mp4Samples ?? undefined,
+    };
+  }
+
+  /**
+   * Reassemble the complete upload (header and payload) for the session store
+   */
+  toArrayBuffer(): ArrayBuffer {
+    if (this.discardedBytes > 0) {
+      throw new Error('Audio ingest has discarded data and cannot be reassembled');
+    }
+
+    const bytes = new Uint8Array(this.receivedBytes);
+    bytes.set(this.header.subarray(0, this.headerLength));
+    bytes.set(this.payload.subarray(0, this.payloadLength), this.headerLength);
+    return bytes.buffer;
+  }
+
+  /**
+   * Drop payload bytes that have been consumed, keeping memory bounded for live sources
+   * Invalidates earlier snapshots; toArrayBuffer() is no longer available afterwards
+   */
+  discard(byteCount: number): void {
+    const count = Math.max(0, Math.min(byteCount, this.payloadLength));
+    if (count === 0) {
+      return;
+    }
+
+    this.payload.copyWithin(0, count, this.payloadLength);
+    this.payloadLength -= count;
+    this.discardedBytes += count;
+
+    if (this.metadata!.format === 'mp3') {
+      let dropped = 0;
+      while (dropped < this.mp3FrameBoundaries.length && this.mp3FrameBoundaries[dropped] < count) {
+        dropped++;
+      }
+      this.mp3FrameBoundaries.splice(0, dropped);
+      for (let i = 0; i < this.mp3FrameBoundaries.length; i++) {
+        this.mp3FrameBoundaries[i] -= count;
+      }
+      this.mp3ScanOffset = Math.max(0, this.mp3ScanOffset - count);
+    }
+  }
+
+  private tryParseHeader(final: boolean): void {
+    const prefix = this.header.slice(0, this.headerLength).buffer as ArrayBuffer;
+    if (!final && !this.isHeaderComplete(prefix)) {
+      return;
+    }
+
+    let metadata: AudioMetadata;
+    try {
+      metadata = parseAudioMetadata(prefix);
+    } catch {
+      return;
+    }
+
+    // Keep the container header; everything after it becomes the growing payload
+    const dataOffset = Math.min(metadata.dataOffset, this.headerLength);
+    const rest = this.header.slice(dataOffset, this.headerLength);
+    this.header = this.header.slice(0, dataOffset);
+    this.headerLength = dataOffset;
+    this.metadata = metadata;
+    if (metadata.format === 'wav' && !WAV_UNBOUNDED_SIZES.has(metadata.dataLength)) {
+      this.wavDataEnd = metadata.dataLength;
+    }
+    if (metadata.format === 'flac') {
+      const info = parseFlacStreamInfo(prefix);
+      if (info) {
+        this.flacFrames = createFlacFrameMap(info);
+        this.flacScanOffset = info.headerLength;
+      }
+    }
+    if (metadata.format === 'ogg') {
+      const info = parseOggStreamInfo(prefix);
+      if (info) {
+        this.oggPages = createOggPageMap(info);
+        this.oggScanOffset = info.headerLength;
+      }
+    }
+    if (metadata.format === 'opus') {
+      const header = parseOpusStreamHeader(prefix);
+      if (header) {
+        this.opusPackets = createOpusPacketMap(header);
+        this.opusScanOffset = header.dataOffset;
+      }
+    }
+    if (metadata.container === 'mp4') {
+      this.mp4Samples = parseMP4SampleTable(prefix);
+    }
+    this.appendPayload(rest);
+  }
+
+  private isHeaderComplete(prefix: ArrayBuffer): boolean {
+    if (prefix.byteLength < 12) {
+      return false;
+    }
+
+    const view = new DataView(prefix);
+    switch (detectAudioFormat(prefix)) {
+      case 'wav':
+        return findWavDataOffset(view) !== null;
+      case 'mp3': {
+        let offset = 0;
+        if (view.getUint8(0) === 0x49 && view.getUint8(1) === 0x44 && view.getUint8(2) === 0x33) {
+          offset = 10 + ((view.getUint8(6) << 21) | (view.getUint8(7) << 14) | (view.getUint8(8) << 7) | view.getUint8(9));
+        }
+        // Wait for the ID3 tag and the first frame, which carries sample rate and channels (and
+        // the Xing/Info header of gapless files)
+        for (; offset + 4 <= prefix.byteLength; offset++) {
+          const frame = parseMP3FrameHeader(prefix, offset);
+          if (frame) {
+            return offset + frame.length <= prefix.byteLength;
+          }
+        }
+        return false;
+      }
+      case 'flac':
+        // Wait for all metadata blocks, which end where the first frame starts
+        return parseFlacStreamInfo(prefix) !== null;
+      case 'ogg':
+      case 'opus': {
+        // Wait for all codec header pages; streams of other codecs only need their first page
+        const codec = detectOggCodec(prefix);
+        return codec === 'unknown' || (codec !== null && parseOggStreamInfo(prefix) !== null);
+      }
+      case 'webm':
+        // Wait for the track headers, up to the first cluster
+        return parseWebMHeader(prefix) !== null;
+      case 'mp4':
+        // Wait for the movie box; files that store it after the media data wait for all of it
+        return findMP4MovieBox(prefix) !== null;
+      default:
+        return true;
+    }
+  }
+
+  private appendPayload(chunk: Uint8Array): void {
+    this.payload = appendBytes(this.payload, this.payloadLength, chunk);
+    this.payloadLength += chunk.length;
+  }
+
+  private validPayloadLength(): number {
+    if (this.wavDataEnd !== null) {
+      // Ignore trailing chunks after the declared data chunk
+      return Math.max(0, Math.min(this.payloadLength, this.wavDataEnd - this.discardedBytes));
+    }
+    if (this.metadata!.format === 'mp3' && !this.complete) {
+      // Only complete frames are usable while the upload is still growing
+      return this.mp3ScanOffset;
+    }
+    if (this.flacFrames && !this.complete) {
+      return this.flacScanOffset;
+    }
+    if (this.oggPages && !this.complete) {
+      return this.oggScanOffset;
+    }
+    if (this.opusPackets && !this.complete) {
+      return this.opusScanOffset;
+    }
+    return this.payloadLength;
+  }
+
+  /**
+   * Extend the MP3 frame map over newly received bytes
+   * Matches buildMP3FrameMap once the upload is complete
+   */
+  private scanMP3Frames(): void {
+    if (this.metadata?.format !== 'mp3') {
+      return;
+    }
+
+    const buffer = this.payload.buffer as ArrayBuffer;
+    while (this.mp3ScanOffset < this.payloadLength - 4) {
+      const frame = parseMP3FrameHeader(buffer, this.mp3ScanOffset);
+      if (!frame) {
+        this.mp3ScanOffset++;
+        continue;
+      }
+      if (!this.complete && this.mp3ScanOffset + frame.length > this.payloadLength) {
+        break;
+      }
+
+      if (!this.mp3FirstFrame || !parseMP3GaplessInfo(buffer, this.mp3ScanOffset)) {
+        this.mp3FrameBoundaries.push(this.mp3ScanOffset);
+      }
+      this.mp3FirstFrame = false;
+      this.mp3SamplesPerFrame ||= frame.samples;
+      this.mp3ScanOffset += frame.length;
+    }
+  }
+
+  /**
+   * Extend the FLAC frame map over newly received frames
+   * A frame is complete once the next one starts, or the upload is; matches a scanned
+   * buildFlacFrameMap once the upload is complete
+   */
+  private scanFlacFrames(): void {
+    if (!this.flacFrames) {
+      return;
+    }
+    this.flacScanOffset = scanFlacFrames(this.flacFrames, this.payload.buffer as ArrayBuffer, this.flacScanOffset, this.payloadLength, this.complete);
+  }
+
+  /**
+   * Extend the Ogg page map over newly received pages
+   * Matches buildOggPageMap once the upload is complete
+   */
+  private scanOggPages(): void {
+    if (!this.oggPages) {
+      return;
+    }
+    this.oggScanOffset = scanOggPages(this.oggPages, this.payload.buffer as ArrayBuffer, this.oggScanOffset, this.payloadLength);
+  }
+
+  /**
+   * Extend the Opus packet map over newly received pages or blocks
+   * Matches buildOpusPacketMap once the upload is complete
+   */
+  private scanOpusPackets(): void {
+    if (!this.opusPackets) {
+      return;
+    }
+    this.opusScanOffset = scanOpusPackets(this.opusPackets, this.payload.buffer as ArrayBuffer, this.opusScanOffset, this.payloadLength);
+  }
+
+  /**
+   * Count the access units whose bytes have all been received
+   */
+  private scanMP4Samples(): void {
+    const table = this.mp4Samples;
+    if (!table) {
+      return;
+    }
+    const count = table.sampleOffsets.length;
+    while (this.mp4ReadySamples < count && table.sampleOffsets[this.mp4ReadySamples] + table.sampleSizes[this.mp4ReadySamples] <= this.payloadLength) {
+      this.mp4ReadySamples++;
+    }
+  }
+
+  /**
+   * Playable samples of the received access units
+   */
+  private completeMP4Samples(table: MP4SampleTable): number {
+    if (this.mp4ReadySamples === table.sampleOffsets.length) {
+      return table.totalSamples;
+    }
+    const decoded = this.mp4ReadySamples > 0 ? table.sampleEnds[this.mp4ReadySamples - 1] : 0;
+    return Math.max(0, Math.min(table.totalSamples, decoded - table.encoderDelay));
+  }
+
+  private throwIfFailed(): void {
+    if (this.failure) {
+      throw this.failure;
+    }
+  }
+
+  private async waitForChange(): Promise<void> {
+    await new Promise<void>(resolve => this.waiters.push(resolve));
+  }
+
+  private notify(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+}
+
+/**
+ * Append a chunk to a capacity-doubling buffer, returning the (possibly reallocated) buffer
+ */
+function appendBytes(buffer: Uint8Array, length: number, chunk: Uint8Array): Uint8Array {
+  let target = buffer;
+  if (length + chunk.length > buffer.length) {
+    target = new Uint8Array(Math.max(length + chunk.length, buffer.length * 2, 64 * 1024));
+    target.set(buffer.subarray(0, length));
+  }
+  target.set(chunk, length);
+  return target;
+}
+
+/**
+ * Find the payload offset of a WAV data chunk, or null if its header has not arrived yet
+ */
+function findWavDataOffset(view: DataView): number | null {
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const chunkId = view.getUint32(offset, false);
+    if (chunkId === 0x64617461) { // "data"
+      return offset + 8;
+    }
+    offset += 8 + view.getUint32(offset + 4, true);
+  }
+  return null;
+}
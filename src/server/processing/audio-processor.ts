@@ -1,3 +1,5 @@
+import type { EncryptedSliceIds } from '../../shared/protocol/slice-ids.js';
+import type { EncryptedSliceTimings } from '../../shared/protocol/slice-timings.js';
 import type { AudioDecodeCache } from '../../shared/types/cache.js';
 import type { AudioConfig, EncryptedSlice, SessionInfo, SliceIdGenerator } from '../../shared/types/interfaces.js';
 import type {
@@ -6,24 +8,85 @@ import type {
   CryptoMetadata,
   EncryptionProcessor,
   ProcessingConfig,
+  SliceEncryptionOptions,
 } from '../../shared/types/processors.js';
+import type { FlacFrameMap } from '../audio/flac-parser.js';
 import type { AudioMetadata } from '../audio/format-parser.js';
-import type { AudioDecoder } from '../audio/types.js';
+import type { MP3GaplessSliceRange } from '../audio/mp3-frame-parser.js';
+import type { MP4SampleTable } from '../audio/mp4-parser.js';
+import type { OggPageMap } from '../audio/ogg-parser.js';
+import type { OpusPacketMap } from '../audio/opus-parser.js';
+import type { AudioDecoder, PCMAudioData } from '../audio/types.js';
 import { DeflateCompressionProcessor } from '../../shared/compression/processors/deflate-processor.js';
+import { EpochKeyCache, getKeyEpoch } from '../../shared/crypto/key-rotation.js';
 import { AesGcmEncryptionProcessor } from '../../shared/crypto/processors/aes-gcm-processor.js';
+import { encryptSliceIds } from '../../shared/protocol/slice-ids.js';
+import { encryptSliceTimings } from '../../shared/protocol/slice-timings.js';
+import { encodeSliceTrim } from '../../shared/protocol/slice-trim.js';
 import { NanoidSliceIdGenerator } from '../../shared/slice-id/generators.js';
+import { assembleFlacSlice, buildFlacFrameMap, findFlacSliceRange } from '../audio/flac-parser.js';
 import { estimateSampleCount, extractAudioData, parseAudioMetadata } from '../audio/format-parser.js';
-import { buildMP3FrameMap, sliceMP3AtFrameBoundaries } from '../audio/mp3-frame-parser.js';
+import { buildMP3FrameMap, findMP3GaplessSliceRange, getMP3SampleCount, parseMP3FrameHeader } from '../audio/mp3-frame-parser.js';
+import { assembleMP4Slice, findMP4SliceRange, parseMP4SampleTable } from '../audio/mp4-parser.js';
+import { assembleOggSlice, buildOggPageMap, findOggSliceRange } from '../audio/ogg-parser.js';
+import { assembleOpusSlice, buildOpusPacketMap, extractOpusPackets, findOpusSliceRange } from '../audio/opus-parser.js';
+import { AudioSourceProvider, readAudioMetadata, readFlacFrameMap, readMP3FrameMap, readMP4SampleTable, readOggPageMap, readOpusPacketMap } from '../sources/audio-source-provider.js';
 import { requiresStrictAudioHandling } from '../utils/browser-detection.js';
+import { readStreamToArrayBuffer } from '../utils/stream.js';
+import { AudioIngest } from './audio-ingest.js';
+import { LiveSlicer } from './live-slicer.js';
+import { SlicePlanner } from './slice-planner.js';
 
 export interface AudioSource {
   data: ArrayBuffer;
+  /** Payload bytes when data does not hold all of them (growing ingest buffer, provider). Default: data.byteLength */
+  byteLength?: number;
+  /** Random-access source of the payload, which starts at metadata.dataOffset (data is empty) */
+  provider?: AudioSourceProvider;
   sampleRate: number;
   channels: number;
   length: number; // number of samples
   format: string;
   metadata: AudioMetadata;
   mp3FrameBoundaries?: number[]; // Cached MP3 frame boundaries for frame-aligned slicing
+  mp3SamplesPerFrame?: number; // Samples per MP3 frame
+  flacFrames?: FlacFrameMap; // Cached FLAC frame map for frame-aligned slicing
+  oggPages?: OggPageMap; // Cached Ogg page map for page-aligned slicing (Vorbis)
+  opusPackets?: OpusPacketMap; // Cached Opus packet map for sample-accurate slicing (Ogg and WebM)
+  mp4Samples?: MP4SampleTable; // Cached MP4 sample table for access-unit slicing (AAC and ALAC)
+}
+
+/**
+ * Slice boundaries and IDs for one processed audio source
+ * Serializable so it can be persisted and reused by other server instances
+ */
+export interface SlicePlan {
+  sliceIds: string[];
+  /** Cumulative sample offsets (length = sliceIds.length + 1) */
+  sliceOffsets: number[];
+}
+
+/**
+ * Rolling slice ID disclosure (see SessionInfo.sliceIdDisclosure)
+ */
+export interface SliceIdDisclosureConfig {
+  /** Slice IDs listed in SessionInfo.sliceIds. Default: 3 */
+  initialSlices?: number;
+  /** IDs of following slices carried by each slice, and returned per position lookup. Default: 5 */
+  lookaheadSlices?: number;
+}
+
+/**
+ * Result of AudioProcessor.processAudio
+ */
+export interface ProcessedAudio {
+  /** Live session info; for streaming input, totalSlices and sliceIds grow until isComplete */
+  sessionInfo: SessionInfo;
+  /** Slice plan so far (shares its arrays with sessionInfo while streaming) */
+  slicePlan: SlicePlan;
+  /** Resolves with the final slice plan once all audio has been received */
+  completed: Promise<SlicePlan>;
+  getSlice: (sliceId: string, userAgent?: string) => Promise<EncryptedSlice | null>;
 }
 
 export interface AudioProcessorConfig<
@@ -33,7 +96,7 @@ export interface AudioProcessorConfig<
   processingConfig?: ProcessingConfig<TCompressionProcessor, TEncryptionProcessor>;
   sliceIdGenerator?: SliceIdGenerator; // Allow custom slice ID generation
   /**
-   * Audio decoder for FLAC/OGG/AAC formats (required for Safari/Firefox support)
+   * Audio decoder for FLAC/OGG/Opus formats (required for Safari/Firefox support)
    * Optional - if not provided, these formats will only work on Chromium browsers
    */
   audioDecoder?: AudioDecoder;
@@ -59,6 +122,30 @@ export interface AudioProcessorConfig<
    * Optional - if not provided, no decode caching is performed
    */
   audioDecodeCache?: AudioDecodeCache;
+  /** Attach the IDs of the following slices to every slice (rolling slice ID disclosure). Default: disabled */
+  sliceIdDisclosure?: SliceIdDisclosureConfig;
+  /** Called for every slice request that reaches the slice cache (coalesced in-flight requests count as hits) */
+  onSliceCacheLookup?: (sliceId: string, hit: boolean) => void;
+  /** Called when the memory held by the processor changes (see getMemoryUsage) */
+  onMemoryUsage?: (usage: ProcessorMemoryUsage) => void;
+}
+
+/**
+ * Bytes held by an AudioProcessor for the audio it currently serves
+ */
+export interface ProcessorMemoryUsage {
+  /** Audio prepared for slicing: decoded PCM, the extracted payload or a completed streaming upload */
+  decodedBytes: number;
+  /** Encrypted slices in the slice cache */
+  sliceCacheBytes: number;
+  /** PCM decoded for strict browsers (Safari, Firefox), shared by all of their slice requests */
+  decodedPCMBytes: number;
+}
+
+interface DecodedPCMEntry {
+  data: ArrayBuffer;
+  byteLength: number;
+  pcm: Promise<PCMAudioData>;
 }
 
 /**
@@ -81,6 +168,12 @@ export class AudioProcessor<
   private readonly sliceIdGenerator: SliceIdGenerator;
   private readonly audioDecoder?: AudioDecoder;
   private readonly audioDecodeCache?: AudioDecodeCache;
+  private readonly epochKeys = new EpochKeyCache();
+  // Cache of the current slice getter; each process call replaces the previous getter
+  private sliceCache: Map<string, EncryptedSlice> | null = null;
+  // Decoded PCM of the current audio, so strict browsers do not decode the whole file per slice
+  private decodedPCM: DecodedPCMEntry | null = null;
+  private memoryUsage: ProcessorMemoryUsage = { decodedBytes: 0, sliceCacheBytes: 0, decodedPCMBytes: 0 };
 
   constructor(config: AudioProcessorConfig<TCompressionProcessor, TEncryptionProcessor> = {}) {
     this.config = {
@@ -112,73 +205,40 @@ export class AudioProcessor<
     this.audioDecodeCache = config.audioDecodeCache;
   }
 
+  /**
+   * Prepare audio for on-demand slice delivery
+   * Streams and AudioIngest inputs are processed while they are still arriving: slices are
+   * published as soon as their audio is available and sessionInfo.isComplete flips to true
+   * once the upload has finished. A persisted slice plan always waits for the complete audio.
+   * AudioSourceProvider inputs are read in place: only the header, the MP3 frame index and
+   * the byte ranges of requested slices are read.
+   * trackId is stamped on every slice (and passed to the encryption processor) for multi-track sessions.
+   */
   async processAudio(
-    audioData: ArrayBuffer | ReadableStream,
+    audioData: ArrayBuffer | ReadableStream | AudioIngest | AudioSourceProvider,
     sessionKey: TKey,
     sessionId: string,
-  ): Promise<{ sessionInfo: SessionInfo; getSlice: (sliceId: string) => Promise<EncryptedSlice | null> }> {
+    slicePlan?: SlicePlan,
+    trackId?: string,
+  ): Promise<ProcessedAudio> {
+    if (!(audioData instanceof ArrayBuffer || audioData instanceof AudioSourceProvider) && !slicePlan) {
+      const ingest = audioData instanceof AudioIngest ? audioData : AudioIngest.fromStream(audioData);
+      return await this.processStreamingAudio(ingest, sessionKey, sessionId, trackId);
+    }
+
     // Convert input to AudioBuffer-like data
     const audioSource = await this.decodeAudio(audioData);
+    this.clearDecodedPCM();
+    this.updateMemoryUsage({ decodedBytes: audioSource.data.byteLength });
 
-    // Calculate slice information with optional randomization
-    let totalSlices: number;
-    let sliceOffsets: number[]; // Cumulative sample offsets for each slice
-
-    if (this.config.randomizeSliceLength) {
-      // Randomized slice length mode: generate variable-length slices
-      const variance = Math.max(0, Math.min(1, this.config.sliceLengthVariance ?? 0.4));
-      const avgSamplesPerSlice = Math.floor((audioSource.sampleRate * this.config.sliceDurationMs) / 1000);
-
-      // Use session-specific random seed for consistent patterns per session
-      const sessionSeed = this.generateSeedFromSessionId(sessionId);
-      const rng = this.createSeededRandom(sessionSeed);
-
-      const sliceLengths: number[] = [];
-      let totalSamplesAllocated = 0;
-
-      while (totalSamplesAllocated < audioSource.length) {
-        // Generate random factor within variance range: [1-variance, 1+variance]
-        const randomFactor = 1 + (rng() * 2 - 1) * variance;
-        const samplesThisSlice = Math.floor(avgSamplesPerSlice * randomFactor);
-        const remaining = audioSource.length - totalSamplesAllocated;
-
-        // Don't create tiny final slices - merge with previous if too small
-        if (remaining < avgSamplesPerSlice * 0.3 && sliceLengths.length > 0) {
-          sliceLengths[sliceLengths.length - 1] += remaining;
-          break;
-        }
-
-        sliceLengths.push(Math.min(samplesThisSlice, remaining));
-        totalSamplesAllocated += sliceLengths[sliceLengths.length - 1];
-      }
-
-      totalSlices = sliceLengths.length;
-
-      // Calculate cumulative offsets for easy slice extraction
-      sliceOffsets = [0];
-      for (let i = 0; i < sliceLengths.length; i++) {
-        sliceOffsets.push(sliceOffsets[i] + sliceLengths[i]);
-      }
-    } else {
-      // Fixed slice length mode (default behavior)
-      const samplesPerSlice = Math.floor((audioSource.sampleRate * this.config.sliceDurationMs) / 1000);
-      totalSlices = Math.ceil(audioSource.length / samplesPerSlice);
-
-      // Generate offsets for fixed-length slices
-      sliceOffsets = [];
-      for (let i = 0; i <= totalSlices; i++) {
-        sliceOffsets.push(Math.min(i * samplesPerSlice, audioSource.length));
-      }
-    }
+    // Reuse a persisted plan so every instance serves identical slice IDs and boundaries
+    const plan = slicePlan ?? await this.createSlicePlan(audioSource, sessionId);
+    const { sliceIds, sliceOffsets } = plan;
+    const totalSlices = sliceIds.length;
 
-    // Generate unique slice IDs using the configured generator
-    const sliceIds: string[] = [];
     const sliceIdToIndexMap = new Map<string, number>();
-
     for (let i = 0; i < totalSlices; i++) {
-      const sliceId = await this.sliceIdGenerator.generateSliceId(i, sessionId, totalSlices);
-      sliceIds.push(sliceId);
-      sliceIdToIndexMap.set(sliceId, i);
+      sliceIdToIndexMap.set(sliceIds[i], i);
     }
 
     const sessionInfo: SessionInfo = {
@@ -191,10 +251,14 @@ export class AudioProcessor<
       sliceIds, // Include the sorted list of slice IDs
       format: audioSource.format, // Include format so client knows how to decode
     };
+    sessionInfo.sliceTimings = await this.encryptSliceTimings(sliceOffsets, sessionKey, sessionId, trackId);
 
-    // On-demand slice cache and in-flight de-duplication to handle concurrency
-    const sliceCache = new Map<string, EncryptedSlice>();
-    const inFlight = new Map<string, Promise<EncryptedSlice>>();
+    const getSlice = this.createSliceGetter((sliceId, userAgent) => {
+      const sliceIndex = sliceIdToIndexMap.get(sliceId);
+      return sliceIndex === undefined
+        ? null
+        : this.prepareSlice(audioSource, sliceIndex, sessionKey, sessionId, plan, sliceId, userAgent, trackId);
+    });
 
     // Optional prewarm of first N slices to reduce initial latency
     const prewarmCount = Math.max(0, Math.min(this.config.prewarmSlices || 0, totalSlices));
@@ -204,17 +268,7 @@ export class AudioProcessor<
         const sliceId = sliceIds[i];
         tasks.push(async() => {
           try {
-            if (sliceCache.has(sliceId))
-              return;
-            const encryptedSlice = await this.prepareSlice(
-              audioSource,
-              i,
-              sessionKey,
-              sessionId,
-              sliceOffsets,
-              sliceId,
-            );
-            this.manageSliceCache(sliceCache, sliceId, encryptedSlice);
+            await getSlice(sliceId);
           } catch {
             // Prewarm failures are non-fatal; continue
           }
@@ -239,77 +293,363 @@ export class AudioProcessor<
       Promise.all(runners).catch(() => {});
     }
 
-    // Return getSlice function that prepares slices on-demand
     return {
       sessionInfo,
-      getSlice: async(sliceId: string, userAgent?: string) => {
-        // Check cache first
-        if (sliceCache.has(sliceId)) {
-          return sliceCache.get(sliceId)!;
-        }
+      slicePlan: plan,
+      completed: Promise.resolve(plan),
+      getSlice,
+    };
+  }
 
-        // Coalesce concurrent requests for the same slice
-        const existing = inFlight.get(sliceId);
-        if (existing) {
-          return await existing;
-        }
+  /**
+   * Serve slices from an upload that is still arriving
+   * The plan is extended in the background whenever new audio is received
+   */
+  private async processStreamingAudio(ingest: AudioIngest, sessionKey: TKey, sessionId: string, trackId?: string): Promise<ProcessedAudio> {
+    await ingest.ready();
+    // The ingest buffer is accounted to the upload until it has been received completely
+    this.updateMemoryUsage({ decodedBytes: 0 });
+    this.clearDecodedPCM();
+
+    const initialSource = ingest.snapshot();
+    const planner = this.createSlicePlanner(initialSource.sampleRate, sessionId);
+    const sliceOffsets = planner.sliceOffsets;
+    const sliceIdToIndexMap = new Map<string, number>();
+
+    const sessionInfo: SessionInfo = {
+      sessionId,
+      totalSlices: 0,
+      sliceDuration: this.config.sliceDurationMs,
+      sampleRate: initialSource.sampleRate,
+      channels: initialSource.channels,
+      bitDepth: initialSource.metadata.bitDepth || 16,
+      sliceIds: planner.sliceIds, // Grows in place as slices are planned
+      format: initialSource.format,
+      isComplete: false,
+    };
+
+    // Plan slices for the audio received so far; returns the bytes that were considered
+    const extendPlan = async(): Promise<number> => {
+      const final = ingest.isComplete;
+      const receivedBytes = ingest.receivedBytes;
+      await planner.extend(ingest.snapshot().length, final);
+
+      for (let i = sliceIdToIndexMap.size; i < planner.sliceIds.length; i++) {
+        sliceIdToIndexMap.set(planner.sliceIds[i], i);
+      }
+      // Publish the timing table together with isComplete so clients never see one without the other
+      if (final) {
+        sessionInfo.sliceTimings = await this.encryptSliceTimings(sliceOffsets, sessionKey, sessionId, trackId);
+      }
+      sessionInfo.totalSlices = planner.sliceIds.length;
+      sessionInfo.isComplete = final;
+      return receivedBytes;
+    };
+
+    let knownBytes = await extendPlan();
+    const completed = (async() => {
+      while (!planner.isComplete) {
+        await ingest.waitForData(knownBytes);
+        knownBytes = await extendPlan();
+      }
+      // The getter keeps serving from the ingest buffer once the session has let go of the upload
+      this.updateMemoryUsage({ decodedBytes: ingest.bufferedBytes });
+      return { sliceIds: planner.sliceIds, sliceOffsets };
+    })();
+
+    const plan: SlicePlan = { sliceIds: planner.sliceIds, sliceOffsets };
+    const getSlice = this.createSliceGetter((sliceId, userAgent) => {
+      const sliceIndex = sliceIdToIndexMap.get(sliceId);
+      return sliceIndex === undefined
+        ? null
+        : this.prepareSlice(ingest.snapshot(), sliceIndex, sessionKey, sessionId, plan, sliceId, userAgent, trackId);
+    });
+
+    return {
+      sessionInfo,
+      slicePlan: plan,
+      completed,
+      getSlice,
+    };
+  }
+
+  /**
+   * Start slicing an endless source into a sliding window of slices
+   * The ingest must have received the audio header; only WAV (PCM) and MP3 are supported
+   */
+  createLiveSlicer(ingest: AudioIngest, sessionId: string, windowSlices: number): LiveSlicer {
+    return new LiveSlicer(ingest, {
+      sliceDurationMs: this.config.sliceDurationMs,
+      randomizeSliceLength: this.config.randomizeSliceLength,
+      sliceLengthVariance: this.config.sliceLengthVariance,
+      sessionId,
+      sliceIdGenerator: this.sliceIdGenerator,
+      windowSlices,
+    });
+  }
 
-        // Get slice index from sliceId mapping
-        const sliceIndex = sliceIdToIndexMap.get(sliceId);
-        if (sliceIndex === undefined || sliceIndex < 0 || sliceIndex >= totalSlices) {
-          return null;
+  /**
+   * Serve the slice window of a live source with a session key
+   * Several keys (e.g. repeated key exchanges) can share one LiveSlicer
+   */
+  processLiveAudio(slicer: LiveSlicer, sessionKey: TKey, sessionId: string): ProcessedAudio {
+    const getSlice = this.createSliceGetter((sliceId) => {
+      const slice = slicer.getSlice(sliceId);
+      return slice
+        ? this.encryptSlice(slice.data, slicer.sessionInfo.format!, slice.index, sessionKey, sessionId, sliceId)
+        : null;
+    }, sliceId => slicer.getSlice(sliceId) !== null);
+
+    return {
+      sessionInfo: slicer.sessionInfo,
+      slicePlan: slicer.slicePlan,
+      completed: slicer.done.then(() => slicer.slicePlan),
+      getSlice,
+    };
+  }
+
+  /**
+   * Build the on-demand slice getter with its cache and in-flight de-duplication
+   * prepare returns null for unknown slice IDs; isAvailable hides cached slices that have expired
+   */
+  private createSliceGetter(
+    prepare: (sliceId: string, userAgent?: string) => Promise<EncryptedSlice> | null,
+    isAvailable: (sliceId: string) => boolean = () => true,
+  ): ProcessedAudio['getSlice'] {
+    // On-demand slice cache and in-flight de-duplication to handle concurrency
+    const sliceCache = new Map<string, EncryptedSlice>();
+    const inFlight = new Map<string, Promise<EncryptedSlice>>();
+    this.sliceCache = sliceCache;
+    this.updateSliceCacheBytes(sliceCache);
+
+    return async(sliceId: string, userAgent?: string) => {
+      if (!isAvailable(sliceId)) {
+        if (sliceCache.delete(sliceId)) {
+          this.updateSliceCacheBytes(sliceCache);
         }
+        return null;
+      }
 
-        // Prepare slice on-demand for fast response (browser-aware)
-        const promise = this.prepareSlice(audioSource, sliceIndex, sessionKey, sessionId, sliceOffsets, sliceId, userAgent)
-          .then((encryptedSlice) => {
-            this.manageSliceCache(sliceCache, sliceId, encryptedSlice);
-            return encryptedSlice;
-          })
-          .finally(() => {
-            inFlight.delete(sliceId);
-          });
-        inFlight.set(sliceId, promise);
-
-        return await promise;
-      },
+      // Check cache first
+      if (sliceCache.has(sliceId)) {
+        this.config.onSliceCacheLookup?.(sliceId, true);
+        return sliceCache.get(sliceId)!;
+      }
+
+      // Coalesce concurrent requests for the same slice
+      const existing = inFlight.get(sliceId);
+      if (existing) {
+        this.config.onSliceCacheLookup?.(sliceId, true);
+        return await existing;
+      }
+
+      // Prepare slice on-demand for fast response (browser-aware)
+      const prepared = prepare(sliceId, userAgent);
+      if (!prepared) {
+        return null;
+      }
+      this.config.onSliceCacheLookup?.(sliceId, false);
+
+      const promise = prepared
+        .then((encryptedSlice) => {
+          this.manageSliceCache(sliceCache, sliceId, encryptedSlice);
+          this.updateSliceCacheBytes(sliceCache);
+          return encryptedSlice;
+        })
+        .finally(() => {
+          inFlight.delete(sliceId);
+        });
+      inFlight.set(sliceId, promise);
+
+      return await promise;
     };
   }
 
+  /**
+   * Bytes held for the audio this processor currently serves
+   */
+  getMemoryUsage(): ProcessorMemoryUsage {
+    return { ...this.memoryUsage };
+  }
+
+  /**
+   * Drop all cached encrypted slices (they are prepared again on the next request)
+   */
+  clearSliceCache(): void {
+    if (this.sliceCache) {
+      this.sliceCache.clear();
+      this.updateSliceCacheBytes(this.sliceCache);
+    }
+  }
+
+  /**
+   * Drop cached encrypted slices and decoded PCM (both are prepared again on the next request)
+   */
+  clearCaches(): void {
+    this.clearSliceCache();
+    this.clearDecodedPCM();
+  }
+
+  private clearDecodedPCM(): void {
+    this.decodedPCM = null;
+    this.updateMemoryUsage({ decodedPCMBytes: 0 });
+  }
+
+  private updateSliceCacheBytes(sliceCache: Map<string, EncryptedSlice>): void {
+    // Caches of replaced getters are no longer accounted for
+    if (sliceCache !== this.sliceCache) {
+      return;
+    }
+
+    let sliceCacheBytes = 0;
+    for (const slice of sliceCache.values()) {
+      sliceCacheBytes += slice.encryptedData.byteLength + slice.iv.byteLength;
+    }
+    this.updateMemoryUsage({ sliceCacheBytes });
+  }
+
+  private updateMemoryUsage(update: Partial<ProcessorMemoryUsage>): void {
+    const usage = { ...this.memoryUsage, ...update };
+    if (
+      usage.decodedBytes === this.memoryUsage.decodedBytes
+      && usage.sliceCacheBytes === this.memoryUsage.sliceCacheBytes
+      && usage.decodedPCMBytes === this.memoryUsage.decodedPCMBytes
+    ) {
+      return;
+    }
+
+    this.memoryUsage = usage;
+    this.config.onMemoryUsage?.({ ...usage });
+  }
+
+  /**
+   * Calculate slice boundaries (optionally randomized) and generate slice IDs
+   */
+  private async createSlicePlan(audioSource: AudioSource, sessionId: string): Promise<SlicePlan> {
+    const planner = this.createSlicePlanner(audioSource.sampleRate, sessionId);
+    await planner.extend(audioSource.length, true);
+    return { sliceIds: planner.sliceIds, sliceOffsets: planner.sliceOffsets };
+  }
+
+  private createSlicePlanner(sampleRate: number, sessionId: string): SlicePlanner {
+    return new SlicePlanner({
+      sampleRate,
+      sliceDurationMs: this.config.sliceDurationMs,
+      randomizeSliceLength: this.config.randomizeSliceLength,
+      sliceLengthVariance: this.config.sliceLengthVariance,
+      sessionId,
+      sliceIdGenerator: this.sliceIdGenerator,
+    });
+  }
+
+  /**
+   * Encrypt the exact slice boundaries for SessionInfo.sliceTimings
+   */
+  private async encryptSliceTimings(sliceOffsets: number[], sessionKey: TKey, sessionId: string, trackId?: string): Promise<EncryptedSliceTimings> {
+    return await encryptSliceTimings(
+      this.encryptionProcessor,
+      sessionKey as Parameters<TEncryptionProcessor['encrypt']>[1],
+      sliceOffsets,
+      sessionId,
+      trackId,
+    );
+  }
+
+  /**
+   * Encrypt the IDs of up to lookaheadSlices slices starting at firstIndex
+   * Used for EncryptedSlice.nextSliceIds and position lookups (rolling slice ID disclosure)
+   */
+  async encryptSliceIds(
+    sliceIds: string[],
+    firstIndex: number,
+    sessionKey: TKey,
+    sessionId: string,
+    trackId?: string,
+  ): Promise<EncryptedSliceIds> {
+    const lookahead = this.config.sliceIdDisclosure?.lookaheadSlices ?? 5;
+    return await encryptSliceIds(
+      this.encryptionProcessor,
+      sessionKey as Parameters<TEncryptionProcessor['encrypt']>[1],
+      sliceIds.slice(firstIndex, firstIndex + lookahead),
+      firstIndex,
+      sessionId,
+      trackId,
+    );
+  }
+
   private async prepareSlice(
     audioSource: AudioSource,
     sliceIndex: number,
     sessionKey: TKey,
     sessionId: string,
-    sliceOffsets: number[],
+    plan: SlicePlan,
     sliceId: string, // Use the provided sliceId instead of generating it
     userAgent?: string,
+    trackId?: string,
   ): Promise<EncryptedSlice> {
-    const startSample = sliceOffsets[sliceIndex];
-    const endSample = sliceOffsets[sliceIndex + 1];
+    const startSample = plan.sliceOffsets[sliceIndex];
+    const endSample = plan.sliceOffsets[sliceIndex + 1];
 
     // Extract slice data efficiently (browser-aware)
-    const sliceData = await this.extractAudioSlice(audioSource, startSample, endSample, userAgent);
+    let sliceData = await this.extractAudioSlice(audioSource, startSample, endSample, userAgent);
 
+    // Compressed MP3 slices tell the client which decoded samples belong to neighbouring slices;
+    // the trim is encrypted along with the audio
+    if (audioSource.format === 'mp3' && !(userAgent && requiresStrictAudioHandling(userAgent))) {
+      const { trim } = this.findMP3SliceRange(audioSource, startSample, endSample, audioSource.byteLength ?? audioSource.data.byteLength);
+      sliceData = encodeSliceTrim(trim, sliceData);
+    }
+
+    const slice = await this.encryptSlice(sliceData, audioSource.format, sliceIndex, sessionKey, sessionId, sliceId, trackId);
+    if (this.config.sliceIdDisclosure && sliceIndex + 1 < plan.sliceIds.length) {
+      slice.nextSliceIds = await this.encryptSliceIds(plan.sliceIds, sliceIndex + 1, sessionKey, sessionId, trackId);
+    }
+    return slice;
+  }
+
+  private async encryptSlice(
+    sliceData: ArrayBuffer,
+    format: string,
+    sliceIndex: number,
+    sessionKey: TKey,
+    sessionId: string,
+    sliceId: string,
+    trackId?: string,
+  ): Promise<EncryptedSlice> {
     // Compress the slice using configurable processor (adaptive for compressed formats)
-    const compressionOptions: CompressionOptions = { level: this.getCompressionLevelForFormat(audioSource.format) };
+    const compressionOptions: CompressionOptions = { level: this.getCompressionLevelForFormat(format) };
     const compressedData = await this.compressionProcessor.compress(sliceData, compressionOptions);
 
-    // Encrypt the compressed slice using configurable processor
+    // Encrypt the compressed slice using configurable processor (with the epoch key when rotating keys)
+    const keyEpoch = getKeyEpoch(sliceIndex, this.config.keyRotationSlices);
+    const sliceKey = keyEpoch === undefined ? sessionKey : await this.epochKeys.get(sessionKey, sessionId, keyEpoch);
+    const encryptionOptions: SliceEncryptionOptions = { sessionId, trackId, sequence: sliceIndex, sliceId };
     const { encrypted, metadata } = await this.encryptionProcessor.encrypt(
       compressedData,
-      sessionKey as Parameters<TEncryptionProcessor['encrypt']>[1],
+      sliceKey as Parameters<TEncryptionProcessor['encrypt']>[1],
+      encryptionOptions,
     );
 
     // Return pure binary data - no base64, no hashes
     // Developer handles transport encoding and validation as needed
-    return {
+    const encryptedSlice: EncryptedSlice = {
       id: sliceId, // Use the provided nanoid instead of generated slice_${index}
       encryptedData: encrypted, // Pure ArrayBuffer
       iv: this.extractIV(metadata), // Extract IV from metadata for backward compatibility
       sequence: sliceIndex,
       sessionId,
+      processors: {
+        compression: this.compressionProcessor.getName(),
+        encryption: this.encryptionProcessor.getName(),
+      },
     };
+    if (trackId !== undefined) {
+      encryptedSlice.trackId = trackId;
+    }
+    if (keyEpoch !== undefined) {
+      encryptedSlice.keyEpoch = keyEpoch;
+    }
+    return encryptedSlice;
   }
 
   private extractIV(metadata: CryptoMetadata): ArrayBuffer {
@@ -356,36 +696,19 @@ export class AudioProcessor<
     (encryptedSlice as any).cachedAt = now;
   }
 
-  private async decodeAudio(input: ArrayBuffer | ReadableStream): Promise<AudioSource> {
-    let arrayBuffer: ArrayBuffer;
+  private async decodeAudio(input: ArrayBuffer | ReadableStream | AudioIngest | AudioSourceProvider): Promise<AudioSource> {
+    if (input instanceof AudioSourceProvider) {
+      return await this.openAudioSource(input);
+    }
 
+    let arrayBuffer: ArrayBuffer;
     if (input instanceof ArrayBuffer) {
       arrayBuffer = input;
     } else if (input instanceof ReadableStream) {
-      // Handle ReadableStream
-      const reader = input.getReader();
-      const chunks: Uint8Array[] = [];
-      let totalLength = 0;
-
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done)
-            break;
-          chunks.push(value);
-          totalLength += value.length;
-        }
-      } finally {
-        reader.releaseLock();
-      }
-
-      const combined = new Uint8Array(totalLength);
-      let offset = 0;
-      for (const chunk of chunks) {
-        combined.set(chunk, offset);
-        offset += chunk.length;
-      }
-      arrayBuffer = combined.buffer;
+      arrayBuffer = await readStreamToArrayBuffer(input);
+    } else if (input instanceof AudioIngest) {
+      await input.done();
+      arrayBuffer = input.toArrayBuffer();
     } else {
       throw new TypeError('Unsupported audio input type');
     }
@@ -405,6 +728,11 @@ export class AudioProcessor<
           format: cached.format,
           metadata: cached.metadata,
           mp3FrameBoundaries: cached.mp3FrameBoundaries,
+          mp3SamplesPerFrame: cached.mp3SamplesPerFrame,
+          flacFrames: cached.flacFrames,
+          oggPages: cached.oggPages,
+          opusPackets: cached.opusPackets,
+          mp4Samples: cached.mp4Samples,
         };
       }
     }
@@ -413,12 +741,43 @@ export class AudioProcessor<
     const metadata = parseAudioMetadata(arrayBuffer);
     // Extract audio data (keeps MP3 compressed, extracts PCM for WAV)
     const audioData = extractAudioData(arrayBuffer, metadata);
-    const sampleCount = estimateSampleCount(metadata);
+    let sampleCount = estimateSampleCount(metadata);
 
     // Build MP3 frame boundaries for frame-aligned slicing
     let mp3FrameBoundaries: number[] | undefined;
+    let mp3SamplesPerFrame: number | undefined;
     if (metadata.format === 'mp3') {
       mp3FrameBoundaries = buildMP3FrameMap(audioData);
+      mp3SamplesPerFrame = mp3FrameBoundaries.length > 0 ? parseMP3FrameHeader(audioData, mp3FrameBoundaries[0])!.samples : 0;
+      sampleCount = getMP3SampleCount(mp3FrameBoundaries.length, mp3SamplesPerFrame, metadata.encoderDelay ?? 0, metadata.encoderPadding ?? 0);
+    }
+
+    // Build the FLAC frame map for frame-aligned slicing
+    let flacFrames: FlacFrameMap | undefined;
+    if (metadata.format === 'flac') {
+      flacFrames = buildFlacFrameMap(audioData) ?? undefined;
+      sampleCount = flacFrames?.totalSamples ?? sampleCount;
+    }
+
+    // Build the Ogg page map for page-aligned slicing
+    let oggPages: OggPageMap | undefined;
+    if (metadata.format === 'ogg') {
+      oggPages = buildOggPageMap(audioData) ?? undefined;
+      sampleCount = oggPages?.totalSamples ?? sampleCount;
+    }
+
+    // Build the Opus packet map for sample-accurate slicing
+    let opusPackets: OpusPacketMap | undefined;
+    if (metadata.format === 'opus') {
+      opusPackets = buildOpusPacketMap(audioData) ?? undefined;
+      sampleCount = opusPackets?.totalSamples ?? sampleCount;
+    }
+
+    // Parse the MP4 sample table for access-unit slicing
+    let mp4Samples: MP4SampleTable | undefined;
+    if (metadata.container === 'mp4') {
+      mp4Samples = parseMP4SampleTable(audioData) ?? undefined;
+      sampleCount = mp4Samples?.totalSamples ?? sampleCount;
     }
 
     const audioSource: AudioSource = {
@@ -429,6 +788,11 @@ export class AudioProcessor<
       format: metadata.format,
       metadata,
       mp3FrameBoundaries,
+      mp3SamplesPerFrame,
+      flacFrames,
+      oggPages,
+      opusPackets,
+      mp4Samples,
     };
 
     // Store in cache if available
@@ -442,6 +806,11 @@ export class AudioProcessor<
         format: audioSource.format,
         metadata: audioSource.metadata,
         mp3FrameBoundaries: audioSource.mp3FrameBoundaries,
+        mp3SamplesPerFrame: audioSource.mp3SamplesPerFrame,
+        flacFrames: audioSource.flacFrames,
+        oggPages: audioSource.oggPages,
+        opusPackets: audioSource.opusPackets,
+        mp4Samples: audioSource.mp4Samples,
         cachedAt: Date.now(),
       });
     }
@@ -449,12 +818,83 @@ export class AudioProcessor<
     return audioSource;
   }
 
+  /**
+   * Describe the audio of a provider from its header (and MP3 frame, FLAC frame, Ogg page, Opus packet or MP4 sample index); the payload stays in place
+   */
+  private async openAudioSource(provider: AudioSourceProvider): Promise<AudioSource> {
+    const metadata = await readAudioMetadata(provider);
+    let length = estimateSampleCount(metadata);
+
+    let mp3FrameBoundaries: number[] | undefined;
+    let mp3SamplesPerFrame: number | undefined;
+    if (metadata.format === 'mp3') {
+      const frameMap = await readMP3FrameMap(provider, metadata);
+      mp3FrameBoundaries = frameMap.frameBoundaries;
+      mp3SamplesPerFrame = frameMap.samplesPerFrame;
+      length = getMP3SampleCount(mp3FrameBoundaries.length, mp3SamplesPerFrame, metadata.encoderDelay ?? 0, metadata.encoderPadding ?? 0);
+    }
+
+    let flacFrames: FlacFrameMap | undefined;
+    if (metadata.format === 'flac') {
+      flacFrames = await readFlacFrameMap(provider, metadata) ?? undefined;
+      length = flacFrames?.totalSamples ?? length;
+    }
+
+    let oggPages: OggPageMap | undefined;
+    if (metadata.format === 'ogg') {
+      oggPages = await readOggPageMap(provider, metadata) ?? undefined;
+      length = oggPages?.totalSamples ?? length;
+    }
+
+    let opusPackets: OpusPacketMap | undefined;
+    if (metadata.format === 'opus') {
+      opusPackets = await readOpusPacketMap(provider, metadata) ?? undefined;
+      length = opusPackets?.totalSamples ?? length;
+    }
+
+    let mp4Samples: MP4SampleTable | undefined;
+    if (metadata.container === 'mp4') {
+      mp4Samples = await readMP4SampleTable(provider, metadata) ?? undefined;
+      length = mp4Samples?.totalSamples ?? length;
+    }
+
+    return {
+      data: new ArrayBuffer(0),
+      byteLength: metadata.dataLength,
+      provider,
+      sampleRate: metadata.sampleRate,
+      channels: metadata.channels,
+      length,
+      format: metadata.format,
+      metadata: { ...metadata, totalSamples: length, duration: length / metadata.sampleRate },
+      mp3FrameBoundaries,
+      mp3SamplesPerFrame,
+      flacFrames,
+      oggPages,
+      opusPackets,
+      mp4Samples,
+    };
+  }
+
+  /**
+   * Read payload bytes [start, end) from memory or from the provider
+   */
+  private async readPayload(audioSource: AudioSource, start: number, end: number): Promise<ArrayBuffer> {
+    if (audioSource.provider) {
+      return await audioSource.provider.read(audioSource.metadata.dataOffset + start, Math.max(0, end - start));
+    }
+    return audioSource.data.slice(start, end);
+  }
+
   private async extractAudioSlice(
     audioSource: AudioSource,
     startSample: number,
     endSample: number,
     userAgent?: string,
   ): Promise<ArrayBuffer> {
+    // Growing ingest buffers are only valid up to byteLength
+    const totalBytes = audioSource.byteLength ?? audioSource.data.byteLength;
+
     // For raw PCM (WAV only), we can slice directly by samples
     if (audioSource.format === 'wav') {
       const bytesPerSample = (audioSource.metadata.bitDepth || 16) / 8;
@@ -462,45 +902,66 @@ export class AudioProcessor<
       const startByte = startSample * frameSize;
       const endByte = endSample * frameSize;
 
-      return audioSource.data.slice(startByte, endByte);
+      return await this.readPayload(audioSource, startByte, endByte);
+    }
+
+    // MP4 (AAC, ALAC): Standalone M4A of whole access units, trimmed by its edit list
+    // Browsers decode these on their own, so strict browsers get the same slices
+    if (audioSource.mp4Samples) {
+      const range = findMP4SliceRange(audioSource.mp4Samples, startSample, endSample);
+      return assembleMP4Slice(audioSource.mp4Samples, await this.readPayload(audioSource, range.start, range.end), range);
     }
 
     // Determine if browser requires strict audio handling
     const needsStrictHandling = userAgent ? requiresStrictAudioHandling(userAgent) : false;
 
-    // For Chromium browsers: use frame-aligned slicing for MP3, byte estimation for others
+    // For Chromium browsers: use frame-aligned slicing for MP3 and FLAC, page-aligned slicing for Ogg, byte estimation for others
     if (!needsStrictHandling) {
-      // MP3: Slice at frame boundaries to avoid cutting inside frames
+      // MP3: Whole frames plus one that primes the decoder; the slice trim drops the samples outside the slice
       if (audioSource.format === 'mp3') {
-        if (!audioSource.mp3FrameBoundaries) {
-          throw new Error('MP3 frame boundaries not built - call decodeAudio first');
-        }
+        const range = this.findMP3SliceRange(audioSource, startSample, endSample, totalBytes);
+        return await this.readPayload(audioSource, range.start, range.end);
+      }
 
-        const totalBytes = audioSource.data.byteLength;
-        const totalSamples = audioSource.length;
-        const startByte = Math.floor((startSample / totalSamples) * totalBytes);
-        const endByte = Math.floor((endSample / totalSamples) * totalBytes);
+      // FLAC: Whole frames behind STREAMINFO, so each slice decodes on its own (bit-exact)
+      if (audioSource.flacFrames) {
+        const range = findFlacSliceRange(audioSource.flacFrames, startSample, endSample, totalBytes);
+        const frames = await this.readPayload(audioSource, range.start, range.end);
+        return assembleFlacSlice(audioSource.flacFrames, frames, range, startSample, endSample);
+      }
 
-        return sliceMP3AtFrameBoundaries(
-          audioSource.data,
-          audioSource.mp3FrameBoundaries,
-          startByte,
-          endByte,
-        );
+      // Ogg: Whole pages behind the codec headers, so each slice decodes on its own
+      if (audioSource.oggPages) {
+        const range = findOggSliceRange(audioSource.oggPages, startSample, endSample, totalBytes);
+        const [header, pages] = await Promise.all([
+          this.readPayload(audioSource, 0, audioSource.oggPages.headerLength),
+          this.readPayload(audioSource, range.start, range.end),
+        ]);
+        return assembleOggSlice(header, pages);
+      }
+
+      // Opus: Standalone Ogg Opus stream trimmed to the exact samples of the slice
+      if (audioSource.opusPackets) {
+        const map = audioSource.opusPackets;
+        const range = findOpusSliceRange(map, startSample, endSample);
+        const [head, data] = await Promise.all([
+          this.readPayload(audioSource, map.headOffset, map.headOffset + map.headLength),
+          this.readPayload(audioSource, range.start, range.end),
+        ]);
+        return assembleOpusSlice(head, extractOpusPackets(map, data, range.start, range.first, range.last), range);
       }
 
       // Other formats: Use fast byte-position estimation
-      const totalBytes = audioSource.data.byteLength;
       const totalSamples = audioSource.length;
       const startByte = Math.floor((startSample / totalSamples) * totalBytes);
       const endByte = Math.floor((endSample / totalSamples) * totalBytes);
 
-      return audioSource.data.slice(startByte, endByte);
+      return await this.readPayload(audioSource, startByte, endByte);
     }
 
     // For non-Chromium browsers (Safari, Firefox): use strict format handling
-    // For Safari/Firefox: Decode MP3/FLAC/OGG to PCM
-    if (audioSource.format === 'mp3' || audioSource.format === 'flac' || audioSource.format === 'ogg') {
+    // For Safari/Firefox: Decode MP3/FLAC/OGG/Opus to PCM
+    if (audioSource.format === 'mp3' || audioSource.format === 'flac' || audioSource.format === 'ogg' || audioSource.format === 'opus') {
       if (!this.audioDecoder) {
         throw new Error(
           'Safari/Firefox detected but no audioDecoder configured. '
@@ -510,8 +971,8 @@ export class AudioProcessor<
         );
       }
 
-      // Decode the entire audio to PCM
-      const pcmData = await this.audioDecoder.decode(audioSource.data, audioSource.metadata);
+      // Decode the entire audio to PCM once and slice every request from it
+      const pcmData = await this.getDecodedPCM(this.audioDecoder, audioSource, totalBytes);
 
       // Slice the decoded PCM data
       const bytesPerSample = pcmData.bitDepth / 8;
@@ -522,56 +983,111 @@ export class AudioProcessor<
       return pcmData.pcmData.slice(startByte, endByte);
     }
 
-    // For AAC: Fall back to byte estimation (no decoder available for Cloudflare Workers)
+    // Other formats: Fall back to byte estimation (no decoder available for Cloudflare Workers)
     // Let the client's Web Audio API attempt to decode it
     // Note: This may not work perfectly on Safari/Firefox, but it's the best we can do without a large decoder
-    const totalBytes = audioSource.data.byteLength;
     const totalSamples = audioSource.length;
     const startByte = Math.floor((startSample / totalSamples) * totalBytes);
     const endByte = Math.floor((endSample / totalSamples) * totalBytes);
 
-    return audioSource.data.slice(startByte, endByte);
+    return await this.readPayload(audioSource, startByte, endByte);
   }
 
-  private getCompressionLevelForFormat(format: string): number {
-    if (!this.config.adaptiveCompression)
-      return this.config.compressionLevel;
-    // For already compressed formats, reduce level to minimize CPU with minimal size gain
-    if (format === 'mp3' || format === 'flac' || format === 'ogg' || format === 'aac')
-      return 0; // effectively store or lowest effort
-    return this.config.compressionLevel;
+  /**
+   * Frames of a gapless MP3 slice (see findMP3GaplessSliceRange)
+   */
+  private findMP3SliceRange(audioSource: AudioSource, startSample: number, endSample: number, totalBytes: number): MP3GaplessSliceRange {
+    if (!audioSource.mp3FrameBoundaries || audioSource.mp3SamplesPerFrame === undefined) {
+      throw new Error('MP3 frame boundaries not built - call decodeAudio first');
+    }
+    return findMP3GaplessSliceRange(
+      audioSource.mp3FrameBoundaries,
+      audioSource.mp3SamplesPerFrame,
+      audioSource.metadata.encoderDelay ?? 0,
+      startSample,
+      endSample,
+      totalBytes,
+    );
   }
 
   /**
-   * Generate a numeric seed from session ID for deterministic randomization
-   * Different sessions will produce different random patterns
+   * Decoded PCM of the first totalBytes of an audio source
+   * Concurrent requests share one decode; a growing ingest buffer is decoded again once it has grown
    */
-  private generateSeedFromSessionId(sessionId: string): number {
-    let hash = 0;
-    for (let i = 0; i < sessionId.length; i++) {
-      const char = sessionId.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+  private async getDecodedPCM(decoder: AudioDecoder, audioSource: AudioSource, totalBytes: number): Promise<PCMAudioData> {
+    const current = this.decodedPCM;
+    if (current && current.data === audioSource.data && current.byteLength === totalBytes) {
+      return await current.pcm;
+    }
+
+    const entry: DecodedPCMEntry = {
+      data: audioSource.data,
+      byteLength: totalBytes,
+      pcm: this.decodePCM(decoder, audioSource, totalBytes),
+    };
+    this.decodedPCM = entry;
+    this.updateMemoryUsage({ decodedPCMBytes: 0 });
+
+    try {
+      const pcm = await entry.pcm;
+      if (this.decodedPCM === entry) {
+        this.updateMemoryUsage({ decodedPCMBytes: pcm.pcmData.byteLength });
+      }
+      return pcm;
+    } catch(error) {
+      if (this.decodedPCM === entry) {
+        this.decodedPCM = null;
+      }
+      throw error;
     }
-    return Math.abs(hash);
   }
 
   /**
-   * Create a seeded random number generator (Linear Congruential Generator)
-   * Returns a function that generates random numbers in [0, 1) range
-   * Same seed will always produce the same sequence
+   * Decode audio to PCM, through the audio decode cache for complete audio
    */
-  private createSeededRandom(seed: number): () => number {
-    let state = seed;
-    // LCG parameters (same as glibc)
-    const a = 1103515245;
-    const c = 12345;
-    const m = 2 ** 31;
-
-    return () => {
-      state = (a * state + c) % m;
-      return state / m;
-    };
+  private async decodePCM(decoder: AudioDecoder, audioSource: AudioSource, totalBytes: number): Promise<PCMAudioData> {
+    const isComplete = audioSource.provider !== undefined || totalBytes === audioSource.data.byteLength;
+    const encodedData = isComplete && !audioSource.provider ? audioSource.data : await this.readPayload(audioSource, 0, totalBytes);
+    const cacheKey = this.audioDecodeCache && isComplete ? `pcm:${await this.generateCacheKey(encodedData)}` : null;
+
+    if (this.audioDecodeCache && cacheKey) {
+      const cached = await this.audioDecodeCache.get(cacheKey);
+      if (cached) {
+        return {
+          pcmData: cached.data,
+          sampleRate: cached.sampleRate,
+          channels: cached.channels,
+          bitDepth: cached.metadata.bitDepth || 16,
+          isFloat32: cached.isFloat32 ?? false,
+        };
+      }
+    }
+
+    const pcm = await decoder.decode(encodedData, audioSource.metadata);
+
+    if (this.audioDecodeCache && cacheKey) {
+      const frameSize = pcm.channels * (pcm.bitDepth / 8);
+      await this.audioDecodeCache.set(cacheKey, {
+        data: pcm.pcmData,
+        sampleRate: pcm.sampleRate,
+        channels: pcm.channels,
+        length: Math.floor(pcm.pcmData.byteLength / frameSize),
+        format: 'pcm',
+        metadata: { ...audioSource.metadata, bitDepth: pcm.bitDepth },
+        isFloat32: pcm.isFloat32,
+        cachedAt: Date.now(),
+      });
+    }
+    return pcm;
+  }
+
+  private getCompressionLevelForFormat(format: string): number {
+    if (!this.config.adaptiveCompression)
+      return this.config.compressionLevel;
+    // For already compressed formats, reduce level to minimize CPU with minimal size gain
+    if (format === 'mp3' || format === 'flac' || format === 'ogg' || format === 'opus' || format === 'aac' || format === 'alac')
+      return 0; // effectively store or lowest effort
+    return this.config.compressionLevel;
   }
 
   /**
@@ -0,0 +1,149 @@
+import type { SessionInfo } from '../../shared/types/interfaces.js';
+import type { AudioIngest } from './audio-ingest.js';
+import type { AudioSource, SlicePlan } from './audio-processor.js';
+import type { SlicePlannerConfig } from './slice-planner.js';
+import { SlicePlanner } from './slice-planner.js';
+
+export interface LiveSlicerConfig extends Omit<SlicePlannerConfig, 'sampleRate'> {
+  /** Number of most recent slices that stay available */
+  windowSlices: number;
+}
+
+interface LiveSlice {
+  index: number;
+  data: ArrayBuffer;
+}
+
+/**
+ * Cuts an endless audio source (live PCM or MP3) into slices and keeps a sliding window of them
+ *
+ * Slice audio is copied out of the ingest as soon as all of its samples have arrived and the
+ * consumed bytes are discarded, so memory is bounded by the window size rather than by the
+ * duration of the stream. sessionInfo is updated in place: sliceIds only lists the window,
+ * starting at firstSliceIndex, while totalSlices counts every slice published so far.
+ */
+export class LiveSlicer {
+  readonly sessionInfo: SessionInfo;
+  /** Resolves when the source has ended and its last slice was published */
+  readonly done: Promise<void>;
+
+  private readonly ingest: AudioIngest;
+  private readonly planner: SlicePlanner;
+  private readonly windowSlices: number;
+  private readonly slices = new Map<string, LiveSlice>();
+  private consumedSamples = 0;
+
+  constructor(ingest: AudioIngest, config: LiveSlicerConfig) {
+    const source = ingest.snapshot();
+    if (source.format !== 'wav' && source.format !== 'mp3') {
+      throw new Error(`Live sessions support WAV (PCM) and MP3 audio, got ${source.format}`);
+    }
+
+    this.ingest = ingest;
+    this.windowSlices = Math.max(1, config.windowSlices);
+    this.planner = new SlicePlanner({ ...config, sampleRate: source.sampleRate });
+    this.sessionInfo = {
+      sessionId: config.sessionId,
+      totalSlices: 0,
+      sliceDuration: config.sliceDurationMs,
+      sampleRate: source.sampleRate,
+      channels: source.channels,
+      bitDepth: source.metadata.bitDepth || 16,
+      sliceIds: this.planner.sliceIds, // Shared with the planner: always the current window
+      format: source.format,
+      isComplete: false,
+      isLive: true,
+      firstSliceIndex: 0,
+    };
+
+    this.done = this.run();
+    this.done.catch(() => {});
+  }
+
+  /** Current window as a slice plan */
+  get slicePlan(): SlicePlan {
+    return { sliceIds: this.planner.sliceIds, sliceOffsets: this.planner.sliceOffsets };
+  }
+
+  /**
+   * Audio of a slice in the window, or null if it is unknown or has expired
+   */
+  getSlice(sliceId: string): LiveSlice | null {
+    return this.slices.get(sliceId) ?? null;
+  }
+
+  private async run(): Promise<void> {
+    let knownBytes = -1;
+
+    while (!this.planner.isComplete) {
+      await this.ingest.waitForData(knownBytes);
+      knownBytes = this.ingest.receivedBytes;
+
+      const final = this.ingest.isComplete;
+      const source = this.ingest.snapshot();
+      const firstNewSlice = this.planner.totalSlices;
+      await this.planner.extend(this.consumedSamples + source.length, final);
+
+      // Copy new slices out of the ingest before their bytes are discarded
+      const { sliceIds, sliceOffsets } = this.planner;
+      for (let index = firstNewSlice; index < this.planner.totalSlices; index++) {
+        const position = index - this.planner.firstSliceIndex;
+        this.slices.set(sliceIds[position], {
+          index,
+          data: this.extract(source, sliceOffsets[position], sliceOffsets[position + 1]),
+        });
+      }
+      this.consume(source, this.planner.plannedSamples);
+
+      // Slide the window
+      const expired = this.planner.discard(sliceIds.length - this.windowSlices);
+      for (const sliceId of expired) {
+        this.slices.delete(sliceId);
+      }
+
+      this.sessionInfo.totalSlices = this.planner.totalSlices;
+      this.sessionInfo.firstSliceIndex = this.planner.firstSliceIndex;
+      this.sessionInfo.isComplete = final;
+    }
+  }
+
+  private extract(source: AudioSource, startSample: number, endSample: number): ArrayBuffer {
+    return source.data.slice(
+      this.byteOffset(source, startSample - this.consumedSamples),
+      this.byteOffset(source, endSample - this.consumedSamples),
+    );
+  }
+
+  /**
+   * Discard the bytes of every planned sample
+   * MP3 data is only discarded up to the last complete frame
+   */
+  private consume(source: AudioSource, plannedSamples: number): void {
+    let samples = plannedSamples - this.consumedSamples;
+    if (source.format === 'mp3') {
+      const samplesPerFrame = this.mp3SamplesPerFrame(source);
+      samples = samplesPerFrame > 0 ? Math.floor(samples / samplesPerFrame) * samplesPerFrame : 0;
+    }
+
+    this.ingest.discard(this.byteOffset(source, samples));
+    this.consumedSamples += samples;
+  }
+
+  /**
+   * Byte offset of a sample relative to the start of the ingest payload
+   */
+  private byteOffset(source: AudioSource, sample: number): number {
+    if (source.format === 'wav') {
+      return sample * source.channels * ((source.metadata.bitDepth || 16) / 8);
+    }
+
+    const frameBoundaries = source.mp3FrameBoundaries ?? [];
+    const samplesPerFrame = this.mp3SamplesPerFrame(source);
+    const frame = samplesPerFrame > 0 ? Math.floor(sample / samplesPerFrame) : 0;
+    return frame < frameBoundaries.length ? frameBoundaries[frame] : (source.byteLength ?? source.data.byteLength);
+  }
+
+  private mp3SamplesPerFrame(source: AudioSource): number {
+    return source.mp3SamplesPerFrame ?? 0;
+  }
+}
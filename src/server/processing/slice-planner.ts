@@ -0,0 +1,172 @@
+import type { SliceIdGenerator } from '../../shared/types/interfaces.js';
+
+export interface SlicePlannerConfig {
+  sampleRate: number;
+  sliceDurationMs: number;
+  randomizeSliceLength?: boolean;
+  sliceLengthVariance?: number;
+  sessionId: string;
+  sliceIdGenerator: SliceIdGenerator;
+}
+
+/**
+ * Computes slice boundaries (optionally randomized) and slice IDs
+ * Can be extended progressively while audio is still arriving: slices are only
+ * appended once enough samples exist, and published slices never change
+ */
+export class SlicePlanner {
+  /** Slice IDs in playback order - grows in place as the plan is extended */
+  readonly sliceIds: string[] = [];
+  /** Cumulative sample offsets (length = sliceIds.length + 1) */
+  readonly sliceOffsets: number[] = [0];
+  /** Index of sliceIds[0] - non-zero once slices have been discarded (live sessions) */
+  firstSliceIndex = 0;
+
+  private readonly config: SlicePlannerConfig;
+  private readonly avgSamplesPerSlice: number;
+  private readonly variance: number;
+  private readonly rng: (() => number) | null;
+  private nextSliceLength: number;
+  private finished = false;
+
+  constructor(config: SlicePlannerConfig) {
+    this.config = config;
+    this.avgSamplesPerSlice = Math.floor((config.sampleRate * config.sliceDurationMs) / 1000);
+    this.variance = Math.max(0, Math.min(1, config.sliceLengthVariance ?? 0.4));
+    // Session-specific seed gives consistent patterns per session
+    this.rng = config.randomizeSliceLength ? createSeededRandom(generateSeedFromSessionId(config.sessionId)) : null;
+    this.nextSliceLength = this.drawSliceLength();
+  }
+
+  /** Whether the final slice has been planned */
+  get isComplete(): boolean {
+    return this.finished;
+  }
+
+  /** Samples covered by planned slices */
+  get plannedSamples(): number {
+    return this.sliceOffsets[this.sliceOffsets.length - 1];
+  }
+
+  /** Number of slices planned so far, including discarded ones */
+  get totalSlices(): number {
+    return this.firstSliceIndex + this.sliceIds.length;
+  }
+
+  /**
+   * Plan slices for newly available samples
+   * @param availableSamples - Total samples available so far
+   * @param final - No more samples will arrive; plans the remainder as the last slice
+   * @returns Number of slices added
+   */
+  async extend(availableSamples: number, final: boolean): Promise<number> {
+    if (this.finished) {
+      return 0;
+    }
+
+    const firstNewSlice = this.totalSlices;
+    const lengths: number[] = [];
+    let allocated = this.plannedSamples;
+
+    if (!this.rng) {
+      // Fixed slice length mode (default behavior)
+      while (availableSamples - allocated >= this.avgSamplesPerSlice && this.avgSamplesPerSlice > 0) {
+        lengths.push(this.avgSamplesPerSlice);
+        allocated += this.avgSamplesPerSlice;
+      }
+      if (final && availableSamples > allocated) {
+        lengths.push(availableSamples - allocated);
+      }
+    } else if (!final) {
+      // Randomized, still growing: only emit slices whose full length is available
+      while (availableSamples - allocated >= this.nextSliceLength && this.nextSliceLength > 0) {
+        lengths.push(this.nextSliceLength);
+        allocated += this.nextSliceLength;
+        this.nextSliceLength = this.drawSliceLength();
+      }
+    } else {
+      // Randomized, final: allocate the remainder
+      while (allocated < availableSamples) {
+        const remaining = availableSamples - allocated;
+
+        // Don't create tiny final slices - merge with previous if it is not published yet
+        if (remaining < this.avgSamplesPerSlice * 0.3 && lengths.length > 0) {
+          lengths[lengths.length - 1] += remaining;
+          break;
+        }
+
+        const length = Math.min(this.nextSliceLength, remaining);
+        lengths.push(length);
+        allocated += length;
+        this.nextSliceLength = this.drawSliceLength();
+      }
+    }
+
+    this.finished = final;
+
+    for (const length of lengths) {
+      this.sliceOffsets.push(this.plannedSamples + length);
+    }
+
+    // Final count when known; otherwise the count planned so far
+    const totalSlices = this.totalSlices + lengths.length;
+    for (let i = firstNewSlice; i < totalSlices; i++) {
+      this.sliceIds.push(await this.config.sliceIdGenerator.generateSliceId(i, this.config.sessionId, totalSlices));
+    }
+
+    return lengths.length;
+  }
+
+  /**
+   * Forget the oldest slices, keeping the arrays bounded for endless (live) sources
+   * @param count - Number of slices to drop from the start of the plan
+   * @returns IDs of the dropped slices
+   */
+  discard(count: number): string[] {
+    const dropped = this.sliceIds.splice(0, Math.min(count, this.sliceIds.length));
+    this.sliceOffsets.splice(0, dropped.length);
+    this.firstSliceIndex += dropped.length;
+    return dropped;
+  }
+
+  private drawSliceLength(): number {
+    if (!this.rng) {
+      return this.avgSamplesPerSlice;
+    }
+    // Random factor within variance range: [1-variance, 1+variance]
+    const randomFactor = 1 + (this.rng() * 2 - 1) * this.variance;
+    return Math.floor(this.avgSamplesPerSlice * randomFactor);
+  }
+}
+
+/**
+ * Generate a numeric seed from session ID for deterministic randomization
+ * Different sessions will produce different random patterns
+ */
+function generateSeedFromSessionId(sessionId: string): number {
+  let hash = 0;
+  for (let i = 0; i < sessionId.length; i++) {
+    const char = sessionId.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return Math.abs(hash);
+}
+
+/**
+ * Create a seeded random number generator (Linear Congruential Generator)
+ * Returns a function that generates random numbers in [0, 1) range
+ * Same seed will always produce the same sequence
+ */
+function createSeededRandom(seed: number): () => number {
+  let state = seed;
+  // LCG parameters (same as glibc)
+  const a = 1103515245;
+  const c = 12345;
+  const m = 2 ** 31;
+
+  return () => {
+    state = (a * state + c) % m;
+    return state / m;
+  };
+}
@@ -0,0 +1,275 @@
+/**
+ * Random-access audio sources
+ * Lets sessions read audio in place (filesystem, object storage, ...) instead of holding
+ * the whole file in memory: only the header, the frame index and the byte ranges of
+ * requested slices are read
+ */
+
+import type { FlacFrameMap } from '../audio/flac-parser.js';
+import type { AudioMetadata } from '../audio/format-parser.js';
+import type { MP4SampleTable } from '../audio/mp4-parser.js';
+import type { OggPageMap } from '../audio/ogg-parser.js';
+import type { OpusPacketMap } from '../audio/opus-parser.js';
+import { createFlacFrameMap, createFlacSeekTableMap, parseFlacStreamInfo, scanFlacFrames } from '../audio/flac-parser.js';
+import { detectAudioFormat, estimateSampleCount, parseAudioMetadata } from '../audio/format-parser.js';
+import { parseMP3FrameHeader, parseMP3GaplessInfo } from '../audio/mp3-frame-parser.js';
+import { parseMP4BoxHeader, parseMP4SampleTable } from '../audio/mp4-parser.js';
+import { createOggPageMap, findLastOggGranule, finishOggPageMap, parseOggStreamInfo, scanOggPages } from '../audio/ogg-parser.js';
+import { createOpusPacketMap, parseOpusStreamHeader, scanOpusPackets } from '../audio/opus-parser.js';
+import { AudioIngest } from '../processing/audio-ingest.js';
+
+// Bytes requested per read while looking for the container header
+const HEADER_CHUNK_BYTES = 64 * 1024;
+
+// Bytes requested per read while building the MP3 frame, FLAC frame, Ogg page or Opus packet index
+const SCAN_CHUNK_BYTES = 1024 * 1024;
+
+/**
+ * Abstract base class for random-access audio sources
+ * Users can extend this to read audio from any storage that supports ranged reads
+ */
+export abstract class AudioSourceProvider {
+  /**
+   * Stable reference to this source for other SessionManager instances
+   * Persisted instead of the audio and resolved through SessionManagerConfig.resolveAudioSource.
+   * Sources without a ref are only served by the instance that created the session
+   */
+  readonly ref?: string;
+
+  /**
+   * Get the total size of the audio file
+   * @returns Size in bytes
+   */
+  abstract getSize(): Promise<number> | number;
+
+  /**
+   * Read a byte range of the audio file
+   * @param offset - Byte offset from the start of the file
+   * @param length - Number of bytes to read
+   * @returns The requested bytes; shorter only at the end of the file
+   */
+  abstract read(offset: number, length: number): Promise<ArrayBuffer> | ArrayBuffer;
+
+  /**
+   * Get the name/identifier of this provider implementation for logging/debugging
+   * @returns string - Name of the provider implementation
+   */
+  abstract getName(): string;
+}
+
+/**
+ * Parse the container header of a source without reading its audio data
+ * dataLength, duration and totalSamples describe the complete file; MP3 durations are
+ * estimated from the bitrate (see readMP3FrameMap for exact sample counts), FLAC sample
+ * counts come from STREAMINFO, Ogg ones from the last page, WebM ones from the declared
+ * duration and MP4 ones from the sample table
+ * @throws Error if the file ends before its header is complete
+ */
+export async function readAudioMetadata(provider: AudioSourceProvider): Promise<AudioMetadata> {
+  const size = await provider.getSize();
+
+  // The MP4 movie box often follows the media data, so it is looked up box by box
+  if (detectAudioFormat(await provider.read(0, Math.min(12, size))) === 'mp4') {
+    return { ...parseAudioMetadata(await readMP4Header(provider, size)), dataLength: size };
+  }
+
+  // The ingest knows when enough of each container has arrived to parse it
+  const ingest = new AudioIngest();
+  let offset = 0;
+  while (!ingest.isReady && offset < size) {
+    const chunk = await provider.read(offset, Math.min(HEADER_CHUNK_BYTES, size - offset));
+    if (chunk.byteLength === 0) {
+      break;
+    }
+    ingest.append(new Uint8Array(chunk));
+    offset += chunk.byteLength;
+  }
+  if (!ingest.isReady) {
+    ingest.finish();
+  }
+  const header = await ingest.ready();
+
+  const payloadBytes = Math.max(0, size - header.dataOffset);
+  // WAV files may carry chunks after the data chunk; streamed WAV files declare no size
+  const dataLength = header.format === 'wav' && header.dataLength > 0 ? Math.min(header.dataLength, payloadBytes) : payloadBytes;
+  const metadata: AudioMetadata = { ...header, dataLength, duration: undefined, totalSamples: undefined };
+
+  if (metadata.format === 'mp3' && metadata.bitrate) {
+    metadata.duration = (dataLength * 8) / (metadata.bitrate * 1000);
+    metadata.totalSamples = Math.floor(metadata.duration * metadata.sampleRate);
+  } else if (metadata.container === 'ogg') {
+    // The last pages are within one maximum page size of the end
+    const tailOffset = Math.max(0, size - HEADER_CHUNK_BYTES * 2);
+    const lastGranule = findLastOggGranule(await provider.read(tailOffset, size - tailOffset));
+    if (lastGranule !== null) {
+      metadata.totalSamples = Math.max(0, lastGranule - (metadata.preSkip ?? 0));
+      metadata.duration = metadata.totalSamples / metadata.sampleRate;
+    }
+  } else if (header.totalSamples !== undefined && (metadata.container === 'webm' || metadata.format === 'flac')) {
+    // Declared by the segment header or STREAMINFO
+    metadata.totalSamples = header.totalSamples;
+    metadata.duration = header.duration;
+  } else {
+    metadata.duration = estimateSampleCount(metadata) / metadata.sampleRate;
+  }
+  return metadata;
+}
+
+/**
+ * Build the MP3 frame index of a source (see buildMP3FrameMap), reading it in chunks
+ * Offsets are relative to metadata.dataOffset; a leading Xing/Info frame is left out
+ */
+export async function readMP3FrameMap(
+  provider: AudioSourceProvider,
+  metadata: AudioMetadata,
+): Promise<{ frameBoundaries: number[]; samplesPerFrame: number }> {
+  const frameBoundaries: number[] = [];
+  let samplesPerFrame = 0;
+  const end = metadata.dataLength;
+  let offset = 0;
+
+  while (offset < end - 4) {
+    const chunk = await provider.read(metadata.dataOffset + offset, Math.min(SCAN_CHUNK_BYTES, end - offset));
+    if (chunk.byteLength < 4) {
+      break;
+    }
+
+    // Frames may extend past the chunk; only their headers have to be inside it
+    let position = 0;
+    while (position + 4 <= chunk.byteLength && offset + position < end - 4) {
+      const frame = parseMP3FrameHeader(chunk, position);
+      if (frame) {
+        if (samplesPerFrame > 0 || !parseMP3GaplessInfo(chunk, position)) {
+          frameBoundaries.push(offset + position);
+        }
+        samplesPerFrame ||= frame.samples;
+        position += frame.length;
+      } else {
+        position++;
+      }
+    }
+    offset += position;
+  }
+
+  return { frameBoundaries, samplesPerFrame };
+}
+
+/**
+ * Build the FLAC frame index of a source (see buildFlacFrameMap), reading it in chunks
+ * unless a SEEKTABLE names the frames
+ * @returns null if the metadata blocks are invalid
+ */
+export async function readFlacFrameMap(provider: AudioSourceProvider, metadata: AudioMetadata): Promise<FlacFrameMap | null> {
+  // Metadata blocks (cover pictures in particular) may not fit in one chunk
+  let first = new ArrayBuffer(0);
+  let info = null;
+  for (let length = SCAN_CHUNK_BYTES; !info && first.byteLength < metadata.dataLength; length *= 2) {
+    first = await provider.read(metadata.dataOffset, Math.min(length, metadata.dataLength));
+    info = parseFlacStreamInfo(first);
+  }
+  if (!info) {
+    return null;
+  }
+
+  const seekTableMap = createFlacSeekTableMap(info);
+  if (seekTableMap) {
+    return seekTableMap;
+  }
+  const map = createFlacFrameMap(info);
+  await scanInChunks(provider, metadata, first, info.headerLength, (chunk, start, base) =>
+    scanFlacFrames(map, chunk, start, chunk.byteLength, base + chunk.byteLength >= metadata.dataLength, base));
+  return map;
+}
+
+/**
+ * Build the Ogg page index of a source (see buildOggPageMap), reading it in chunks
+ * @returns null if the stream is not Vorbis or Opus
+ */
+export async function readOggPageMap(provider: AudioSourceProvider, metadata: AudioMetadata): Promise<OggPageMap | null> {
+  const first = await provider.read(metadata.dataOffset, Math.min(SCAN_CHUNK_BYTES, metadata.dataLength));
+  const info = parseOggStreamInfo(first);
+  if (!info) {
+    return null;
+  }
+
+  const map = createOggPageMap(info);
+  await scanInChunks(provider, metadata, first, info.headerLength, (chunk, start, base) => scanOggPages(map, chunk, start, chunk.byteLength, base));
+  finishOggPageMap(map);
+  return map;
+}
+
+/**
+ * Build the Opus packet index of a source (see buildOpusPacketMap), reading it in chunks
+ * @returns null if the stream is not Opus
+ */
+export async function readOpusPacketMap(provider: AudioSourceProvider, metadata: AudioMetadata): Promise<OpusPacketMap | null> {
+  const first = await provider.read(metadata.dataOffset, Math.min(SCAN_CHUNK_BYTES, metadata.dataLength));
+  const header = parseOpusStreamHeader(first);
+  if (!header) {
+    return null;
+  }
+
+  const map = createOpusPacketMap(header);
+  await scanInChunks(provider, metadata, first, header.dataOffset, (chunk, start, base) => scanOpusPackets(map, chunk, start, chunk.byteLength, base));
+  return map;
+}
+
+/**
+ * Read the sample table of an MP4 source (see parseMP4SampleTable)
+ * @returns null if the file has no AAC or ALAC track
+ */
+export async function readMP4SampleTable(provider: AudioSourceProvider, metadata: AudioMetadata): Promise<MP4SampleTable | null> {
+  return parseMP4SampleTable(await readMP4Header(provider, metadata.dataOffset + metadata.dataLength));
+}
+
+/**
+ * Read the file type and movie boxes of an MP4 file, skipping over the media data
+ * @throws Error if the file has no complete movie box
+ */
+async function readMP4Header(provider: AudioSourceProvider, size: number): Promise<ArrayBuffer> {
+  const boxes: Uint8Array[] = [];
+  let offset = 0;
+  while (offset + 8 <= size) {
+    const header = parseMP4BoxHeader(await provider.read(offset, Math.min(16, size - offset)), 0);
+    if (!header || header.size < header.headerSize || offset + header.size > size) {
+      break;
+    }
+    if (header.type === 'ftyp' || header.type === 'moov') {
+      boxes.push(new Uint8Array(await provider.read(offset, header.size)));
+    }
+    if (header.type === 'moov') {
+      const bytes = new Uint8Array(boxes.reduce((sum, box) => sum + box.length, 0));
+      let position = 0;
+      for (const box of boxes) {
+        bytes.set(box, position);
+        position += box.length;
+      }
+      return bytes.buffer;
+    }
+    offset += header.size;
+  }
+  throw new Error('MP4 file has no movie box');
+}
+
+/**
+ * Feed the payload to a scanner chunk by chunk, starting at start within the first chunk
+ * The scanner returns where it stopped; the next chunk starts there, so frames, pages and
+ * elements only have to fit in one chunk
+ */
+async function scanInChunks(
+  provider: AudioSourceProvider,
+  metadata: AudioMetadata,
+  first: ArrayBuffer,
+  start: number,
+  scan: (chunk: ArrayBuffer, start: number, base: number) => number,
+): Promise<void> {
+  const end = metadata.dataLength;
+  let chunk = first;
+  let offset = 0;
+  let position = scan(chunk, start, offset);
+  while (position > 0 && offset + position < end) {
+    offset += position;
+    chunk = await provider.read(metadata.dataOffset + offset, Math.min(SCAN_CHUNK_BYTES, end - offset));
+    position = scan(chunk, 0, offset);
+  }
+}
@@ -0,0 +1,62 @@
+import { AudioSourceProvider } from './audio-source-provider.js';
+
+type FsPromises = typeof import('node:fs/promises');
+
+/**
+ * Audio source reading a file from the local filesystem (Node.js)
+ * Every read opens the file, so it may be replaced between sessions
+ */
+export class FileAudioSourceProvider extends AudioSourceProvider {
+  readonly ref?: string;
+  private readonly path: string;
+  private fsPromise: Promise<FsPromises> | null = null;
+
+  /**
+   * Create a new file audio source
+   * @param path - Path of the audio file
+   * @param ref - Optional reference for other instances (see AudioSourceProvider.ref)
+   */
+  constructor(path: string, ref?: string) {
+    super();
+    this.path = path;
+    this.ref = ref;
+  }
+
+  async getSize(): Promise<number> {
+    const fs = await this.fs();
+    return (await fs.stat(this.path)).size;
+  }
+
+  async read(offset: number, length: number): Promise<ArrayBuffer> {
+    const fs = await this.fs();
+    const handle = await fs.open(this.path, 'r');
+    try {
+      const bytes = new Uint8Array(length);
+      let bytesRead = 0;
+      while (bytesRead < length) {
+        const result = await handle.read(bytes, bytesRead, length - bytesRead, offset + bytesRead);
+        if (result.bytesRead === 0) {
+          break;
+        }
+        bytesRead += result.bytesRead;
+      }
+      return bytes.buffer.slice(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  getName(): string {
+    return 'FileAudioSourceProvider';
+  }
+
+  /**
+   * Load node:fs lazily so the server bundle stays importable on runtimes without it
+   */
+  private async fs(): Promise<FsPromises> {
+    if (!this.fsPromise) {
+      this.fsPromise = import('node:fs/promises');
+    }
+    return await this.fsPromise;
+  }
+}
@@ -0,0 +1,33 @@
+import { AudioSourceProvider } from './audio-source-provider.js';
+
+/**
+ * Audio source backed by a buffer in memory
+ * Useful for tests and for audio that is already loaded
+ */
+export class InMemoryAudioSourceProvider extends AudioSourceProvider {
+  readonly ref?: string;
+  private readonly data: ArrayBuffer;
+
+  /**
+   * Create a new in-memory audio source
+   * @param data - Complete audio file
+   * @param ref - Optional reference for other instances (see AudioSourceProvider.ref)
+   */
+  constructor(data: ArrayBuffer, ref?: string) {
+    super();
+    this.data = data;
+    this.ref = ref;
+  }
+
+  getSize(): number {
+    return this.data.byteLength;
+  }
+
+  read(offset: number, length: number): ArrayBuffer {
+    return this.data.slice(offset, offset + length);
+  }
+
+  getName(): string {
+    return 'InMemoryAudioSourceProvider';
+  }
+}
@@ -0,0 +1,79 @@
+import { AudioSourceProvider } from './audio-source-provider.js';
+
+/**
+ * Minimal client for object storage with ranged reads (R2, S3, GCS, ...)
+ * Adapt your SDK to this interface, e.g. for an R2 bucket binding:
+ *
+ * ```typescript
+ * const client: ObjectStorageClient = {
+ *   size: async key => (await bucket.head(key))?.size ?? null,
+ *   getRange: async (key, offset, length) => {
+ *     const object = await bucket.get(key, { range: { offset, length } })
+ *     return await object!.arrayBuffer()
+ *   },
+ * }
+ * ```
+ */
+export interface ObjectStorageClient {
+  /**
+   * Get the size of an object
+   * @returns Size in bytes or null if the object does not exist
+   */
+  size: (key: string) => Promise<number | null>;
+
+  /**
+   * Read a byte range of an object (always within the object)
+   */
+  getRange: (key: string, offset: number, length: number) => Promise<ArrayBuffer>;
+}
+
+/**
+ * Audio source reading an object through an ObjectStorageClient
+ */
+export class ObjectStorageAudioSourceProvider extends AudioSourceProvider {
+  readonly ref?: string;
+  private readonly client: ObjectStorageClient;
+  private readonly key: string;
+  private size: Promise<number> | null = null;
+
+  /**
+   * Create a new object storage audio source
+   * @param client - Storage client
+   * @param key - Object key of the audio file
+   * @param ref - Optional reference for other instances (see AudioSourceProvider.ref)
+   */
+  constructor(client: ObjectStorageClient, key: string, ref?: string) {
+    super();
+    this.client = client;
+    this.key = key;
+    this.ref = ref;
+  }
+
+  async getSize(): Promise<number> {
+    // Objects are immutable for the lifetime of a session, so one lookup is enough
+    if (!this.size) {
+      this.size = this.client.size(this.key).then((size) => {
+        if (size === null) {
+          throw new Error(`Audio object ${this.key} does not exist`);
+        }
+        return size;
+      });
+      this.size.catch(() => {
+        this.size = null;
+      });
+    }
+    return await this.size;
+  }
+
+  async read(offset: number, length: number): Promise<ArrayBuffer> {
+    const available = Math.min(length, (await this.getSize()) - offset);
+    if (available <= 0) {
+      return new ArrayBuffer(0);
+    }
+    return await this.client.getRange(this.key, offset, available);
+  }
+
+  getName(): string {
+    return 'ObjectStorageAudioSourceProvider';
+  }
+}
@@ -0,0 +1,129 @@
+import type { SessionRecord } from './session-store.js';
+import { SessionStore } from './session-store.js';
+
+type FsPromises = typeof import('node:fs/promises');
+
+/**
+ * Reference filesystem-backed session store for Node.js
+ * Layout: <directory>/sessions/<sessionId>.json and <directory>/audio/<ref>.bin
+ * Suitable for several processes on one host or a shared volume;
+ * use it as a template for Redis/KV/SQL-backed stores
+ */
+export class FileSessionStore extends SessionStore {
+  private readonly directory: string;
+  private fsPromise: Promise<FsPromises> | null = null;
+  private ready: Promise<void> | null = null;
+
+  /**
+   * Create a new file session store
+   * @param directory - Root directory for session records and audio (created if missing)
+   */
+  constructor(directory: string) {
+    super();
+    this.directory = directory.replace(/[\\/]+$/, '');
+  }
+
+  async get(sessionId: string): Promise<SessionRecord | null> {
+    const fs = await this.fs();
+    try {
+      const json = await fs.readFile(this.recordPath(sessionId), 'utf8');
+      return JSON.parse(json) as SessionRecord;
+    } catch(error) {
+      if (this.isNotFound(error))
+        return null;
+      throw error;
+    }
+  }
+
+  async set(record: SessionRecord): Promise<void> {
+    await this.writeAtomic(this.recordPath(record.id), JSON.stringify(record));
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return await this.remove(this.recordPath(sessionId));
+  }
+
+  async keys(): Promise<string[]> {
+    const fs = await this.fs();
+    const entries = await fs.readdir(`${this.directory}/sessions`);
+    return entries
+      .filter(name => name.endsWith('.json'))
+      .map(name => decodeURIComponent(name.slice(0, -'.json'.length)));
+  }
+
+  async putAudio(ref: string, data: ArrayBuffer): Promise<void> {
+    await this.writeAtomic(this.audioPath(ref), new Uint8Array(data));
+  }
+
+  async getAudio(ref: string): Promise<ArrayBuffer | null> {
+    const fs = await this.fs();
+    try {
+      const file = await fs.readFile(this.audioPath(ref));
+      return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer;
+    } catch(error) {
+      if (this.isNotFound(error))
+        return null;
+      throw error;
+    }
+  }
+
+  async deleteAudio(ref: string): Promise<void> {
+    await this.remove(this.audioPath(ref));
+  }
+
+  getName(): string {
+    return 'FileSessionStore';
+  }
+
+  private recordPath(sessionId: string): string {
+    return `${this.directory}/sessions/${encodeURIComponent(sessionId)}.json`;
+  }
+
+  private audioPath(ref: string): string {
+    return `${this.directory}/audio/${encodeURIComponent(ref)}.bin`;
+  }
+
+  /**
+   * Load node:fs lazily so the server bundle stays importable on runtimes without it
+   */
+  private async fs(): Promise<FsPromises> {
+    if (!this.fsPromise) {
+      this.fsPromise = import('node:fs/promises');
+    }
+    const fs = await this.fsPromise;
+
+    if (!this.ready) {
+      this.ready = Promise.all([
+        fs.mkdir(`${this.directory}/sessions`, { recursive: true }),
+        fs.mkdir(`${this.directory}/audio`, { recursive: true }),
+      ]).then(() => {});
+    }
+    await this.ready;
+
+    return fs;
+  }
+
+  // Write to a temporary file first so readers never observe partial records
+  private async writeAtomic(path: string, data: string | Uint8Array): Promise<void> {
+    const fs = await this.fs();
+    const tempPath = `${path}.${Date.now()}_${Math.random().toString(36).slice(2, 8)}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, path);
+  }
+
+  private async remove(path: string): Promise<boolean> {
+    const fs = await this.fs();
+    try {
+      await fs.unlink(path);
+      return true;
+    } catch(error) {
+      if (!this.isNotFound(error))
+        throw error;
+      return false;
+    }
+  }
+
+  private isNotFound(error: unknown): boolean {
+    return (error as { code?: string } | null)?.code === 'ENOENT';
+  }
+}
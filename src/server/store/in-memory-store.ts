@@ -0,0 +1,50 @@
+import type { SessionRecord } from './session-store.js';
+import { SessionStore } from './session-store.js';
+
+/**
+ * Default in-memory session store
+ * Keeps records in the current process only - share one instance between
+ * SessionManagers in the same process, or use a persistent store across processes
+ */
+export class InMemorySessionStore extends SessionStore {
+  private records = new Map<string, SessionRecord>();
+  private audio = new Map<string, ArrayBuffer>();
+
+  get(sessionId: string): SessionRecord | null {
+    const record = this.records.get(sessionId);
+    // Return a copy so callers never mutate stored state by accident
+    return record ? structuredClone(record) : null;
+  }
+
+  set(record: SessionRecord): void {
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  delete(sessionId: string): boolean {
+    return this.records.delete(sessionId);
+  }
+
+  keys(): string[] {
+    return Array.from(this.records.keys());
+  }
+
+  putAudio(ref: string, data: ArrayBuffer): void {
+    this.audio.set(ref, data);
+  }
+
+  getAudio(ref: string): ArrayBuffer | null {
+    return this.audio.get(ref) ?? null;
+  }
+
+  deleteAudio(ref: string): void {
+    this.audio.delete(ref);
+  }
+
+  holdsAudioInMemory(): boolean {
+    return true;
+  }
+
+  getName(): string {
+    return 'InMemorySessionStore';
+  }
+}
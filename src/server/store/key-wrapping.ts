@@ -0,0 +1,74 @@
+import type { WrappedSessionKey } from './session-store.js';
+import { arrayBufferToBase64, base64ToArrayBuffer } from '../../shared/utils/base64.js';
+
+/**
+ * Create the AES-GCM key used to wrap session keys before they are persisted
+ * @param secret - Shared secret configured on every instance; a random per-process key is used when omitted
+ */
+export async function createKeyWrappingKey(secret?: string | ArrayBuffer): Promise<CryptoKey> {
+  if (secret === undefined) {
+    return await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+  }
+
+  // Hash the secret so any length/encoding yields a valid 256-bit key
+  const secretBytes = typeof secret === 'string' ? new TextEncoder().encode(secret).buffer as ArrayBuffer : secret;
+  const keyMaterial = await crypto.subtle.digest('SHA-256', secretBytes);
+  return await crypto.subtle.importKey('raw', keyMaterial, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Wrap a session key produced by a key exchange processor
+ * @returns Wrapped key, or null if the key cannot be exported (non-extractable CryptoKey or unknown type)
+ */
+export async function wrapSessionKey(sessionKey: unknown, wrappingKey: CryptoKey): Promise<WrappedSessionKey | null> {
+  let type: WrappedSessionKey['type'];
+  let raw: ArrayBuffer;
+
+  if (sessionKey instanceof CryptoKey) {
+    if (!sessionKey.extractable) {
+      return null;
+    }
+    type = 'CryptoKey';
+    raw = await crypto.subtle.exportKey('raw', sessionKey);
+  } else if (sessionKey instanceof ArrayBuffer) {
+    type = 'ArrayBuffer';
+    raw = sessionKey;
+  } else if (typeof sessionKey === 'string') {
+    type = 'string';
+    raw = new TextEncoder().encode(sessionKey).buffer as ArrayBuffer;
+  } else {
+    return null;
+  }
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, wrappingKey, raw);
+
+  return {
+    type,
+    data: arrayBufferToBase64(encrypted),
+    iv: arrayBufferToBase64(iv),
+  };
+}
+
+/**
+ * Restore a session key wrapped with wrapSessionKey
+ * CryptoKeys are restored as extractable AES-GCM keys so they can be re-wrapped
+ */
+export async function unwrapSessionKey(wrapped: WrappedSessionKey, wrappingKey: CryptoKey): Promise<unknown> {
+  const raw = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: new Uint8Array(base64ToArrayBuffer(wrapped.iv)) },
+    wrappingKey,
+    base64ToArrayBuffer(wrapped.data),
+  );
+
+  switch (wrapped.type) {
+    case 'CryptoKey':
+      return await crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, true, ['encrypt', 'decrypt']);
+    case 'ArrayBuffer':
+      return raw;
+    case 'string':
+      return new TextDecoder().decode(raw);
+    default:
+      throw new Error(`Unsupported wrapped key type: ${String((wrapped as { type: unknown }).type)}`);
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Session store interfaces
+ * Allows session state to live outside a single SessionManager instance
+ * so that any instance behind a load balancer can serve key exchange and slices
+ */
+
+import type { SessionInfo } from '../../shared/types/interfaces.js';
+import type { SessionOwner } from '../core/authorization.js';
+
+/**
+ * Session key encrypted with the server's key wrapping key
+ * Raw key material never reaches the store
+ */
+export interface WrappedSessionKey {
+  /** Original key representation, restored on unwrap */
+  type: 'CryptoKey' | 'ArrayBuffer' | 'string';
+  /** Base64 AES-GCM ciphertext of the raw key bytes */
+  data: string;
+  /** Base64 IV used for wrapping */
+  iv: string;
+}
+
+/**
+ * Persisted state of a single track (single-track sessions store exactly one)
+ */
+export interface TrackRecord {
+  trackId: string;
+  trackIndex: number;
+  metadata?: { title?: string; artist?: string; album?: string };
+  /** Key of the source audio in the store's audio storage */
+  audioRef?: string;
+  /** Reference of an AudioSourceProvider the audio is read from instead (see AudioSourceProvider.ref) */
+  sourceRef?: string;
+  /** Present once key exchange for this track has completed */
+  wrappedKey?: WrappedSessionKey;
+  /** Processed session info including slice IDs */
+  sessionInfo?: SessionInfo;
+  /** Cumulative sample offsets for each slice (length = totalSlices + 1) */
+  sliceOffsets?: number[];
+}
+
+/**
+ * Serializable session state shared between SessionManager instances
+ */
+export interface SessionRecord {
+  id: string;
+  isMultiTrack: boolean;
+  trackOrder: string[];
+  activeTrackId?: string;
+  tracks: TrackRecord[];
+  /** Creator of the session, used for tenant checks and authorization */
+  owner?: SessionOwner;
+  /** Epoch milliseconds */
+  createdAt: number;
+  /** Epoch milliseconds, updated at most once per touch interval */
+  lastAccessed: number;
+}
+
+/**
+ * Abstract base class for session persistence
+ * Users can extend this to store sessions in Redis, KV, SQL, etc.
+ */
+export abstract class SessionStore {
+  /**
+   * Load a session record
+   * @param sessionId - Session identifier
+   * @returns Stored record or null if not found
+   */
+  abstract get(sessionId: string): Promise<SessionRecord | null> | SessionRecord | null;
+
+  /**
+   * Create or replace a session record
+   * @param record - Complete session record
+   */
+  abstract set(record: SessionRecord): Promise<void> | void;
+
+  /**
+   * Remove a session record
+   * @param sessionId - Session identifier
+   * @returns Whether this call removed the record (false if it did not exist)
+   */
+  abstract delete(sessionId: string): Promise<boolean> | boolean;
+
+  /**
+   * List all stored session IDs (used for expiry cleanup)
+   */
+  abstract keys(): Promise<string[]> | string[];
+
+  /**
+   * Store source audio for a track
+   * @param ref - Audio reference from TrackRecord.audioRef
+   * @param data - Original uploaded audio bytes
+   */
+  abstract putAudio(ref: string, data: ArrayBuffer): Promise<void> | void;
+
+  /**
+   * Load source audio for a track
+   * @param ref - Audio reference from TrackRecord.audioRef
+   * @returns Audio bytes or null if not found
+   */
+  abstract getAudio(ref: string): Promise<ArrayBuffer | null> | ArrayBuffer | null;
+
+  /**
+   * Remove source audio for a track
+   * @param ref - Audio reference from TrackRecord.audioRef
+   */
+  abstract deleteAudio(ref: string): Promise<void> | void;
+
+  /**
+   * Whether stored audio stays in the memory of this process
+   * Such audio is counted as source memory in the memory budget of the storing SessionManager
+   * @returns boolean - false unless overridden
+   */
+  holdsAudioInMemory(): boolean {
+    return false;
+  }
+
+  /**
+   * Get the name/identifier of this store implementation for logging/debugging
+   * @returns string - Name of the store implementation
+   */
+  abstract getName(): string;
+}
@@ -3,4 +3,7 @@ export * from './key-exchange/index.js';
  * Crypto-related functionality
  */
 export * from './key-management.js';
+export * from './key-rotation.js';
 export * from './processors/index.js';
+export * from './request-proof.js';
+export * from './server-identity.js';
@@ -0,0 +1,15 @@
+import { EcdhKeyExchangeProcessor } from './ecdh-processor.js';
+
+/**
+ * ECDH P-384 key exchange processor with AES-GCM key derivation
+ * Higher security margin than P-256 (~192-bit) at a small CPU cost per exchange
+ */
+export class EcdhP384KeyExchangeProcessor extends EcdhKeyExchangeProcessor {
+  constructor() {
+    super('P-384');
+  }
+
+  getName(): string {
+    return 'EcdhP384KeyExchangeProcessor';
+  }
+}
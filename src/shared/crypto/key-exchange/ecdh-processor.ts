@@ -0,0 +1,125 @@
+import type { SessionInfo } from '../../types/interfaces.js';
+import type {
+  KeyExchangeProcessor,
+  KeyExchangeRequest,
+  KeyExchangeResponse,
+} from '../../types/processors.js';
+import type { KeyExchangeCurve } from '../key-management.js';
+import {
+  deriveSharedKey,
+  exportPublicKey,
+  generateKeyPair,
+  importPublicKey,
+} from '../key-management.js';
+
+/**
+ * ECDH key exchange metadata
+ */
+export interface ECDHKeyExchangeMetadata extends Record<string, unknown> {
+  algorithm: 'ECDH';
+  curve: KeyExchangeCurve;
+  keyType: 'CryptoKey';
+}
+
+/**
+ * ECDH key exchange processor with AES-GCM key derivation on a fixed curve
+ * Both sides must use the same curve; see EcdhP256KeyExchangeProcessor,
+ * EcdhP384KeyExchangeProcessor, X25519KeyExchangeProcessor and
+ * NegotiatedKeyExchangeProcessor (picks the curve per exchange)
+ */
+export class EcdhKeyExchangeProcessor implements KeyExchangeProcessor<
+  CryptoKey,
+  SessionInfo,
+  never, // No custom request data
+  never
+> {
+  protected readonly curve: KeyExchangeCurve;
+  private keyPair: CryptoKeyPair | null = null;
+
+  constructor(curve: KeyExchangeCurve) {
+    this.curve = curve;
+  }
+
+  async initialize(): Promise<void> {
+    this.keyPair = await generateKeyPair(this.curve);
+  }
+
+  async createKeyExchangeRequest(): Promise<KeyExchangeRequest<never>> {
+    if (!this.keyPair) {
+      throw new Error('Key exchange processor not initialized');
+    }
+
+    const publicKeyBase64 = await exportPublicKey(this.keyPair.publicKey);
+
+    return {
+      publicKey: publicKeyBase64,
+      metadata: {
+        algorithm: 'ECDH',
+        curve: this.curve,
+        keyType: 'CryptoKey',
+      } as ECDHKeyExchangeMetadata,
+    };
+  }
+
+  async processKeyExchangeRequest(
+    request: KeyExchangeRequest<never>,
+    sessionId: string,
+  ): Promise<{
+    response: KeyExchangeResponse<never, SessionInfo>;
+    sessionKey: CryptoKey;
+  }> {
+    if (!request.publicKey) {
+      throw new Error('No public key in request');
+    }
+
+    // Generate server key pair
+    const serverKeyPair = await generateKeyPair(this.curve);
+    const serverPublicKeyBase64 = await exportPublicKey(serverKeyPair.publicKey);
+
+    // Import client's public key
+    const clientPublicKey = await importPublicKey(request.publicKey, this.curve);
+
+    // Derive shared session key
+    const sessionKey = await deriveSharedKey(serverKeyPair.privateKey, clientPublicKey);
+
+    const response: KeyExchangeResponse<never, SessionInfo> = {
+      publicKey: serverPublicKeyBase64,
+      sessionInfo: { sessionId } as SessionInfo, // This will be expanded by the caller
+      metadata: {
+        algorithm: 'ECDH',
+        curve: this.curve,
+        keyType: 'CryptoKey',
+      } as ECDHKeyExchangeMetadata,
+    };
+
+    return { response, sessionKey };
+  }
+
+  async processKeyExchangeResponse(
+    response: KeyExchangeResponse<never, SessionInfo>,
+  ): Promise<CryptoKey> {
+    if (!this.keyPair) {
+      throw new Error('Key exchange processor not initialized');
+    }
+
+    if (!response.publicKey) {
+      throw new Error('No public key in response');
+    }
+
+    // Import server's public key
+    const serverPublicKey = await importPublicKey(response.publicKey, this.curve);
+
+    // Derive shared session key
+    const sessionKey = await deriveSharedKey(this.keyPair.privateKey, serverPublicKey);
+
+    return sessionKey;
+  }
+
+  getName(): string {
+    return `EcdhKeyExchangeProcessor(${this.curve})`;
+  }
+
+  destroy(): void {
+    this.keyPair = null;
+  }
+}
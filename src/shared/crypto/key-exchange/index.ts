@@ -2,3 +2,8 @@
  * Key exchange processors
  */
 export * from './ecdh-p256-processor.js';
+export * from './ecdh-p384-processor.js';
+export * from './ecdh-processor.js';
+export * from './negotiated-processor.js';
+export * from './signed-ecdh-p256-processor.js';
+export * from './x25519-processor.js';
@@ -0,0 +1,173 @@
+import type { SessionInfo } from '../../types/interfaces.js';
+import type {
+  KeyExchangeProcessor,
+  KeyExchangeRequest,
+  KeyExchangeResponse,
+} from '../../types/processors.js';
+import type { KeyExchangeCurve } from '../key-management.js';
+import type { ECDHKeyExchangeMetadata } from './ecdh-processor.js';
+import {
+  deriveSharedKey,
+  exportPublicKey,
+  generateKeyPair,
+  importPublicKey,
+  isCurveSupported,
+  KEY_EXCHANGE_CURVES,
+} from '../key-management.js';
+
+/**
+ * Negotiation request metadata
+ * publicKey/curve carry the P-256 offer so servers without negotiation still complete the exchange
+ */
+export interface NegotiatedKeyExchangeRequestMetadata extends ECDHKeyExchangeMetadata {
+  /** Curves the client supports, in its order of preference */
+  supportedCurves: KeyExchangeCurve[];
+  /** Client ephemeral public key (base64 SPKI) for each supported curve */
+  publicKeys: Partial<Record<KeyExchangeCurve, string>>;
+}
+
+/**
+ * ECDH key exchange that negotiates the curve per exchange
+ * The client offers an ephemeral public key for every curve it supports; the server answers on
+ * the strongest curve both sides support and names it in the response metadata. Clients
+ * using a fixed-curve processor (e.g. EcdhP256KeyExchangeProcessor) are answered on their curve.
+ *
+ * Curves the runtime's WebCrypto lacks (typically X25519 in older browsers) are skipped.
+ */
+export class NegotiatedKeyExchangeProcessor implements KeyExchangeProcessor<
+  CryptoKey,
+  SessionInfo,
+  never, // No custom request data
+  never
+> {
+  private readonly curves: readonly KeyExchangeCurve[];
+  private supportedCurves: KeyExchangeCurve[] = [];
+  private keyPairs = new Map<KeyExchangeCurve, CryptoKeyPair>();
+
+  /**
+   * @param curves - Curves to allow, strongest first (default: P-384, X25519, P-256)
+   */
+  constructor(curves: readonly KeyExchangeCurve[] = KEY_EXCHANGE_CURVES) {
+    if (curves.length === 0) {
+      throw new Error('At least one key exchange curve is required');
+    }
+    this.curves = curves;
+  }
+
+  async initialize(): Promise<void> {
+    const support = await Promise.all(this.curves.map(isCurveSupported));
+    this.supportedCurves = this.curves.filter((_, index) => support[index]);
+    if (this.supportedCurves.length === 0) {
+      throw new Error(`None of the key exchange curves are supported: ${this.curves.join(', ')}`);
+    }
+  }
+
+  async createKeyExchangeRequest(): Promise<KeyExchangeRequest<never>> {
+    if (this.supportedCurves.length === 0) {
+      throw new Error('Key exchange processor not initialized');
+    }
+
+    const publicKeys: Partial<Record<KeyExchangeCurve, string>> = {};
+    for (const curve of this.supportedCurves) {
+      const keyPair = await generateKeyPair(curve);
+      this.keyPairs.set(curve, keyPair);
+      publicKeys[curve] = await exportPublicKey(keyPair.publicKey);
+    }
+
+    const fallbackCurve = publicKeys['P-256'] ? 'P-256' : this.supportedCurves[0];
+
+    return {
+      publicKey: publicKeys[fallbackCurve],
+      metadata: {
+        algorithm: 'ECDH',
+        curve: fallbackCurve,
+        keyType: 'CryptoKey',
+        supportedCurves: [...this.supportedCurves],
+        publicKeys,
+      } as NegotiatedKeyExchangeRequestMetadata,
+    };
+  }
+
+  async processKeyExchangeRequest(
+    request: KeyExchangeRequest<never>,
+    sessionId: string,
+  ): Promise<{
+    response: KeyExchangeResponse<never, SessionInfo>;
+    sessionKey: CryptoKey;
+  }> {
+    const offers = this.getOfferedKeys(request);
+    const curve = this.supportedCurves.find(candidate => offers[candidate]);
+    if (!curve) {
+      throw new Error(`No common key exchange curve (offered: ${Object.keys(offers).join(', ') || 'none'})`);
+    }
+
+    // Generate server key pair on the negotiated curve
+    const serverKeyPair = await generateKeyPair(curve);
+    const serverPublicKeyBase64 = await exportPublicKey(serverKeyPair.publicKey);
+
+    // Import client's public key
+    const clientPublicKey = await importPublicKey(offers[curve]!, curve);
+
+    // Derive shared session key
+    const sessionKey = await deriveSharedKey(serverKeyPair.privateKey, clientPublicKey);
+
+    const response: KeyExchangeResponse<never, SessionInfo> = {
+      publicKey: serverPublicKeyBase64,
+      sessionInfo: { sessionId } as SessionInfo, // This will be expanded by the caller
+      metadata: {
+        algorithm: 'ECDH',
+        curve,
+        keyType: 'CryptoKey',
+      } as ECDHKeyExchangeMetadata,
+    };
+
+    return { response, sessionKey };
+  }
+
+  async processKeyExchangeResponse(
+    response: KeyExchangeResponse<never, SessionInfo>,
+  ): Promise<CryptoKey> {
+    if (this.keyPairs.size === 0) {
+      throw new Error('Key exchange processor not initialized');
+    }
+
+    if (!response.publicKey) {
+      throw new Error('No public key in response');
+    }
+
+    // Servers without negotiation answer on the fallback P-256 offer
+    const curve = (response.metadata?.curve ?? 'P-256') as KeyExchangeCurve;
+    const keyPair = this.keyPairs.get(curve);
+    if (!keyPair) {
+      throw new Error(`Server selected a curve that was not offered: ${String(curve)}`);
+    }
+
+    // Import server's public key
+    const serverPublicKey = await importPublicKey(response.publicKey, curve);
+
+    // Derive shared session key
+    return await deriveSharedKey(keyPair.privateKey, serverPublicKey);
+  }
+
+  getName(): string {
+    return 'NegotiatedKeyExchangeProcessor';
+  }
+
+  destroy(): void {
+    this.keyPairs.clear();
+  }
+
+  private getOfferedKeys(request: KeyExchangeRequest<never>): Partial<Record<KeyExchangeCurve, string>> {
+    const metadata = request.metadata as Partial<NegotiatedKeyExchangeRequestMetadata> | undefined;
+    if (metadata?.publicKeys) {
+      return metadata.publicKeys;
+    }
+
+    // Fixed-curve client: a single key on the curve named in its metadata
+    if (!request.publicKey) {
+      throw new Error('No public key in request');
+    }
+    const curve = (metadata?.curve ?? 'P-256') as KeyExchangeCurve;
+    return { [curve]: request.publicKey };
+  }
+}
@@ -0,0 +1,68 @@
+import type { SessionInfo } from '../../types/interfaces.js';
+import type { KeyExchangeRequest, KeyExchangeResponse } from '../../types/processors.js';
+import { SERVER_SIGNATURE_ALGORITHM, signKeyExchange } from '../server-identity.js';
+import { EcdhP256KeyExchangeProcessor } from './ecdh-p256-processor.js';
+
+/**
+ * Signed key exchange metadata
+ */
+export interface SignedECDHKeyExchangeMetadata extends Record<string, unknown> {
+  algorithm: 'ECDH';
+  curve: 'P-256';
+  keyType: 'CryptoKey';
+  /** Base64 signature over the key exchange transcript */
+  signature: string;
+  signatureAlgorithm: typeof SERVER_SIGNATURE_ALGORITHM;
+}
+
+/**
+ * ECDH P-256 key exchange where the server signs its ephemeral public key
+ * The signature covers the session ID and both ephemeral public keys, made with the server's
+ * long-term ECDSA identity key. Clients pin the identity public key (ClientConfig.serverIdentityKey)
+ * so a proxy in the transport cannot substitute its own key.
+ *
+ * Server side requires the identity private key; on the client it behaves like
+ * EcdhP256KeyExchangeProcessor (verification is done by SecureAudioClient).
+ */
+export class SignedEcdhP256KeyExchangeProcessor extends EcdhP256KeyExchangeProcessor {
+  private readonly signingKey: CryptoKey | null;
+
+  /**
+   * @param signingKey - Server identity private key (ECDSA P-256); not needed on the client
+   */
+  constructor(signingKey?: CryptoKey) {
+    super();
+    this.signingKey = signingKey ?? null;
+  }
+
+  async processKeyExchangeRequest(
+    request: KeyExchangeRequest<never>,
+    sessionId: string,
+  ): Promise<{
+    response: KeyExchangeResponse<never, SessionInfo>;
+    sessionKey: CryptoKey;
+  }> {
+    if (!this.signingKey) {
+      throw new Error('Server identity signing key not configured');
+    }
+
+    const { response, sessionKey } = await super.processKeyExchangeRequest(request, sessionId);
+
+    const signature = await signKeyExchange(this.signingKey, {
+      sessionId,
+      clientPublicKey: request.publicKey!,
+      serverPublicKey: response.publicKey!,
+    });
+    response.metadata = {
+      ...response.metadata,
+      signature,
+      signatureAlgorithm: SERVER_SIGNATURE_ALGORITHM,
+    } as SignedECDHKeyExchangeMetadata;
+
+    return { response, sessionKey };
+  }
+
+  getName(): string {
+    return 'SignedEcdhP256KeyExchangeProcessor';
+  }
+}
@@ -0,0 +1,17 @@
+import { EcdhKeyExchangeProcessor } from './ecdh-processor.js';
+
+/**
+ * X25519 key exchange processor with AES-GCM key derivation
+ * Requires WebCrypto X25519 support (Node.js 20+, Chrome 133+, Firefox 130+, Safari 17+);
+ * initialize() rejects where it is missing. Use NegotiatedKeyExchangeProcessor to fall back
+ * to a NIST curve automatically.
+ */
+export class X25519KeyExchangeProcessor extends EcdhKeyExchangeProcessor {
+  constructor() {
+    super('X25519');
+  }
+
+  getName(): string {
+    return 'X25519KeyExchangeProcessor';
+  }
+}
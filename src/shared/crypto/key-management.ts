@@ -1,15 +1,42 @@
 // Cryptographic key management utilities for secure audio streaming
 // Provides ECDH key exchange and AES-GCM key generation/management functions
 
-export async function generateKeyPair(): Promise<CryptoKeyPair> {
+/**
+ * Curves available for key exchange
+ * X25519 depends on the runtime's WebCrypto support; use isCurveSupported() to check
+ */
+export type KeyExchangeCurve = 'P-256' | 'P-384' | 'X25519';
+
+/**
+ * Curves ordered strongest first (P-384 ~192-bit security, X25519 and P-256 ~128-bit)
+ * X25519 is preferred over P-256 at the same level for its constant-time design
+ */
+export const KEY_EXCHANGE_CURVES: readonly KeyExchangeCurve[] = ['P-384', 'X25519', 'P-256'];
+
+const curveSupport = new Map<KeyExchangeCurve, Promise<boolean>>();
+
+function getKeyAlgorithm(curve: KeyExchangeCurve): EcKeyImportParams | Algorithm {
+  return curve === 'X25519' ? { name: 'X25519' } : { name: 'ECDH', namedCurve: curve };
+}
+
+export async function generateKeyPair(curve: KeyExchangeCurve = 'P-256'): Promise<CryptoKeyPair> {
   return await crypto.subtle.generateKey(
-    {
-      name: 'ECDH',
-      namedCurve: 'P-256',
-    },
+    getKeyAlgorithm(curve),
     true,
     ['deriveKey'],
-  );
+  ) as CryptoKeyPair;
+}
+
+/**
+ * Check whether this runtime's WebCrypto can generate keys on a curve (cached per curve)
+ */
+export async function isCurveSupported(curve: KeyExchangeCurve): Promise<boolean> {
+  let supported = curveSupport.get(curve);
+  if (!supported) {
+    supported = generateKeyPair(curve).then(() => true, () => false);
+    curveSupport.set(curve, supported);
+  }
+  return await supported;
 }
 
 export async function exportPublicKey(publicKey: CryptoKey): Promise<string> {
@@ -17,15 +44,12 @@ export async function exportPublicKey(publicKey: CryptoKey): Promise<string> {
   return btoa(String.fromCharCode(...new Uint8Array(exported)));
 }
 
-export async function importPublicKey(publicKeyBase64: string): Promise<CryptoKey> {
+export async function importPublicKey(publicKeyBase64: string, curve: KeyExchangeCurve = 'P-256'): Promise<CryptoKey> {
   const keyBuffer = Uint8Array.from(atob(publicKeyBase64), c => c.charCodeAt(0));
   return await crypto.subtle.importKey(
     'spki',
     keyBuffer,
-    {
-      name: 'ECDH',
-      namedCurve: 'P-256',
-    },
+    getKeyAlgorithm(curve),
     false,
     [],
   );
@@ -34,9 +58,10 @@ export async function importPublicKey(publicKeyBase64: string): Promise<CryptoKe
 export async function deriveSharedKey(privateKey: CryptoKey, publicKey: CryptoKey): Promise<CryptoKey> {
   return await crypto.subtle.deriveKey(
     {
-      name: 'ECDH',
+      // 'ECDH' for NIST curves, 'X25519' for Curve25519
+      name: publicKey.algorithm.name,
       public: publicKey,
-    },
+    } as EcdhKeyDeriveParams,
     privateKey,
     {
       name: 'AES-GCM',
@@ -0,0 +1,81 @@
+// Per-epoch slice keys for long sessions
+// Every keyRotationSlices slices use a fresh AES-GCM key derived with HKDF from the exchanged
+// session key, so a leaked slice key only exposes its own epoch
+
+const textEncoder = new TextEncoder();
+
+// Epoch keys kept per session key; older epochs are re-derived on demand
+const MAX_CACHED_EPOCHS = 16;
+
+/**
+ * Key epoch of a slice, or undefined when key rotation is disabled
+ */
+export function getKeyEpoch(sliceIndex: number, keyRotationSlices: number | undefined): number | undefined {
+  if (!keyRotationSlices || keyRotationSlices <= 0) {
+    return undefined;
+  }
+  return Math.floor(sliceIndex / keyRotationSlices);
+}
+
+/**
+ * Derive the AES-256-GCM key of an epoch (HKDF-SHA-256, salted with the session ID)
+ * The session key must be raw key bytes or an extractable CryptoKey
+ */
+export async function deriveEpochKey(sessionKey: CryptoKey | ArrayBuffer, sessionId: string, epoch: number): Promise<CryptoKey> {
+  const keyMaterial = sessionKey instanceof ArrayBuffer ? sessionKey : await crypto.subtle.exportKey('raw', sessionKey);
+  const hkdfKey = await crypto.subtle.importKey('raw', keyMaterial, 'HKDF', false, ['deriveKey']);
+
+  return await crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: textEncoder.encode(sessionId).buffer as ArrayBuffer,
+      info: textEncoder.encode(`secstream-key-epoch:${epoch}`).buffer as ArrayBuffer,
+    },
+    hkdfKey,
+    {
+      name: 'AES-GCM',
+      length: 256,
+    },
+    true, // Extractable so per-slice processors (HkdfAesGcmEncryptionProcessor) can derive from it
+    ['encrypt', 'decrypt'],
+  );
+}
+
+/**
+ * Caches derived epoch keys per session key
+ * Entries disappear with their session key, so replaced or destroyed keys need no cleanup
+ */
+export class EpochKeyCache {
+  private readonly keys = new WeakMap<object, Map<string, Promise<CryptoKey>>>();
+
+  /**
+   * Get (or derive) the key of an epoch
+   * @param sessionKey - Exchanged session key: raw bytes or an extractable CryptoKey
+   * @param sessionId - Session the key belongs to
+   * @param epoch - Key epoch of the slice
+   */
+  async get(sessionKey: unknown, sessionId: string, epoch: number): Promise<CryptoKey> {
+    if (!(sessionKey instanceof ArrayBuffer) && !(sessionKey instanceof CryptoKey)) {
+      throw new TypeError('Key rotation requires a CryptoKey or ArrayBuffer session key');
+    }
+
+    const epochs = this.keys.get(sessionKey) ?? new Map<string, Promise<CryptoKey>>();
+    this.keys.set(sessionKey, epochs);
+
+    const cacheKey = `${sessionId}:${epoch}`;
+    let key = epochs.get(cacheKey);
+    if (!key) {
+      key = deriveEpochKey(sessionKey, sessionId, epoch);
+      epochs.set(cacheKey, key);
+      key.catch(() => epochs.delete(cacheKey));
+
+      // Drop the least recently derived epoch
+      if (epochs.size > MAX_CACHED_EPOCHS) {
+        epochs.delete(epochs.keys().next().value!);
+      }
+    }
+
+    return await key;
+  }
+}
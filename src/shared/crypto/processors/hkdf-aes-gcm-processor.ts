@@ -0,0 +1,128 @@
+import type { CryptoMetadata, EncryptionOptions, EncryptionProcessor, SliceEncryptionOptions } from '../../types/processors.js';
+
+/**
+ * Supported key types for per-slice key derivation
+ * CryptoKeys must be extractable (the built-in ECDH key exchange derives extractable keys)
+ */
+export type HKDFAESGCMKeyType = CryptoKey | ArrayBuffer;
+
+const textEncoder = new TextEncoder();
+
+/**
+ * AES-256-GCM encryption with a unique key per slice
+ * Each slice key is derived from the session key with HKDF-SHA-256 (salt: session ID,
+ * info: track ID, sequence and slice ID), and sessionId, trackId and sequence are bound as
+ * additional authenticated data. A slice that is reordered, swapped between tracks or
+ * replayed into another session fails authentication instead of playing.
+ *
+ * Requires the slice options (SliceEncryptionOptions) that AudioProcessor and
+ * SecureAudioClient pass for every slice.
+ */
+export class HkdfAesGcmEncryptionProcessor implements EncryptionProcessor<HKDFAESGCMKeyType> {
+  // HKDF base keys imported once per session key
+  private readonly baseKeys = new WeakMap<object, Promise<CryptoKey>>();
+
+  constructor() {}
+
+  async encrypt(
+    data: ArrayBuffer,
+    key: HKDFAESGCMKeyType,
+    options?: EncryptionOptions,
+  ): Promise<{ encrypted: ArrayBuffer; metadata: CryptoMetadata }> {
+    const slice = this.getSliceOptions(options);
+    const sliceKey = await this.deriveSliceKey(key, slice);
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+
+    const encrypted = await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv,
+        additionalData: this.getAdditionalData(slice),
+      },
+      sliceKey,
+      data,
+    );
+
+    return {
+      encrypted,
+      metadata: {
+        iv: iv.buffer as ArrayBuffer,
+        algorithm: 'AES-GCM',
+      },
+    };
+  }
+
+  async decrypt(
+    encryptedData: ArrayBuffer,
+    key: HKDFAESGCMKeyType,
+    metadata: CryptoMetadata,
+    options?: EncryptionOptions,
+  ): Promise<ArrayBuffer> {
+    const slice = this.getSliceOptions(options);
+    const sliceKey = await this.deriveSliceKey(key, slice);
+    if (!metadata.iv || !(metadata.iv instanceof ArrayBuffer)) {
+      throw new Error('Invalid or missing IV in metadata');
+    }
+
+    return await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: metadata.iv,
+        additionalData: this.getAdditionalData(slice),
+      },
+      sliceKey,
+      encryptedData,
+    );
+  }
+
+  getName(): string {
+    return 'HkdfAesGcmEncryptionProcessor';
+  }
+
+  private getSliceOptions(options: EncryptionOptions | undefined): SliceEncryptionOptions {
+    const slice = options as Partial<SliceEncryptionOptions> | undefined;
+    if (typeof slice?.sessionId !== 'string' || typeof slice.sequence !== 'number' || typeof slice.sliceId !== 'string') {
+      throw new TypeError('HkdfAesGcmEncryptionProcessor requires slice options (sessionId, sequence, sliceId)');
+    }
+    return slice as SliceEncryptionOptions;
+  }
+
+  private async deriveSliceKey(key: HKDFAESGCMKeyType, slice: SliceEncryptionOptions): Promise<CryptoKey> {
+    return await crypto.subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: textEncoder.encode(slice.sessionId).buffer as ArrayBuffer,
+        info: textEncoder.encode(`secstream-slice:${JSON.stringify([slice.trackId ?? null, slice.sequence, slice.sliceId])}`).buffer as ArrayBuffer,
+      },
+      await this.getBaseKey(key),
+      {
+        name: 'AES-GCM',
+        length: 256,
+      },
+      false,
+      ['encrypt', 'decrypt'],
+    );
+  }
+
+  private async getBaseKey(key: HKDFAESGCMKeyType): Promise<CryptoKey> {
+    if (!(key instanceof ArrayBuffer) && !(key instanceof CryptoKey)) {
+      throw new TypeError(`Unsupported key type: ${typeof key}`);
+    }
+
+    let baseKey = this.baseKeys.get(key);
+    if (!baseKey) {
+      baseKey = (async() => {
+        const keyMaterial = key instanceof ArrayBuffer ? key : await crypto.subtle.exportKey('raw', key);
+        return await crypto.subtle.importKey('raw', keyMaterial, 'HKDF', false, ['deriveKey']);
+      })();
+      this.baseKeys.set(key, baseKey);
+    }
+    return await baseKey;
+  }
+
+  private getAdditionalData(slice: SliceEncryptionOptions): ArrayBuffer {
+    // JSON keeps the fields unambiguous (no delimiter collisions between IDs)
+    return textEncoder.encode(JSON.stringify([slice.sessionId, slice.trackId ?? null, slice.sequence])).buffer as ArrayBuffer;
+  }
+}
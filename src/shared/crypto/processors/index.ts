@@ -2,4 +2,5 @@
  * Encryption processors
  */
 export * from './aes-gcm-processor.js';
+export * from './hkdf-aes-gcm-processor.js';
 export * from './xor-cipher-processor.js';
@@ -0,0 +1,89 @@
+// Proof-of-key slice requests
+// With SessionManagerConfig.sliceRequestProofs, every slice request carries an HMAC-SHA-256 over
+// the session ID, track ID, slice ID, a timestamp and a nonce, keyed with a key derived from the
+// exchanged session key. A leaked session ID or a replayed request URL does not let anyone else
+// pull slices
+
+import type { SliceRequest } from '../types/interfaces.js';
+import { arrayBufferToBase64, base64ToArrayBuffer } from '../utils/base64.js';
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Proof that a slice request was made by a holder of the session key
+ */
+export interface SliceRequestProof {
+  /** Client time of the request (epoch ms) */
+  timestamp: number;
+  /** Random base64 value, unique per request */
+  nonce: string;
+  /** Base64 HMAC-SHA-256 of the request, timestamp and nonce */
+  mac: string;
+}
+
+/**
+ * Derive the HMAC-SHA-256 request proof key from a session key (HKDF-SHA-256, salted with the session ID)
+ * The session key must be raw key bytes or an extractable CryptoKey; key exchange processors with
+ * other key types provide KeyExchangeProcessor.deriveRequestProofKey
+ */
+export async function deriveRequestProofKey(sessionKey: unknown, sessionId: string): Promise<CryptoKey> {
+  if (!(sessionKey instanceof ArrayBuffer) && !(sessionKey instanceof CryptoKey)) {
+    throw new TypeError('Request proofs require a CryptoKey or ArrayBuffer session key');
+  }
+
+  const keyMaterial = sessionKey instanceof ArrayBuffer ? sessionKey : await crypto.subtle.exportKey('raw', sessionKey);
+  const hkdfKey = await crypto.subtle.importKey('raw', keyMaterial, 'HKDF', false, ['deriveKey']);
+
+  return await crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: textEncoder.encode(sessionId).buffer as ArrayBuffer,
+      info: textEncoder.encode('secstream-slice-request-proof').buffer as ArrayBuffer,
+    },
+    hkdfKey,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign', 'verify'],
+  );
+}
+
+function getProofMessage(request: SliceRequest, timestamp: number, nonce: string): ArrayBuffer {
+  const fields = [request.sessionId, request.trackId ?? '', request.sliceId, String(timestamp), nonce];
+  return textEncoder.encode(JSON.stringify(fields)).buffer as ArrayBuffer;
+}
+
+/**
+ * Sign a slice request (client side)
+ */
+export async function createSliceRequestProof(
+  key: CryptoKey,
+  request: SliceRequest,
+  timestamp: number = Date.now(),
+): Promise<SliceRequestProof> {
+  const nonce = arrayBufferToBase64(crypto.getRandomValues(new Uint8Array(16)).buffer as ArrayBuffer);
+  const mac = await crypto.subtle.sign('HMAC', key, getProofMessage(request, timestamp, nonce));
+  return { timestamp, nonce, mac: arrayBufferToBase64(mac) };
+}
+
+/**
+ * Check the MAC of a slice request proof (server side)
+ * Freshness and nonce reuse are checked by the caller
+ */
+export async function verifySliceRequestProof(
+  key: CryptoKey,
+  request: SliceRequest,
+  proof: SliceRequestProof,
+): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify(
+      'HMAC',
+      key,
+      base64ToArrayBuffer(proof.mac),
+      getProofMessage(request, proof.timestamp, proof.nonce),
+    );
+  } catch {
+    // Malformed base64
+    return false;
+  }
+}
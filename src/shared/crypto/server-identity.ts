@@ -0,0 +1,73 @@
+// Long-term server identity for authenticated key exchange
+// The server signs each key exchange transcript with an ECDSA P-256 key; clients pin the
+// matching public key and reject exchanges that were not signed by it
+
+import { exportPublicKey } from './key-management.js';
+
+/** Signature algorithm identifier carried in key exchange metadata */
+export const SERVER_SIGNATURE_ALGORITHM = 'ECDSA-P256-SHA256';
+
+/**
+ * Values bound by the server signature
+ * The client's ephemeral public key makes every signature specific to one exchange
+ */
+export interface KeyExchangeTranscript {
+  sessionId: string;
+  clientPublicKey: string;
+  serverPublicKey: string;
+}
+
+const ECDSA_PARAMS: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+/**
+ * Generate a long-term server identity key pair
+ * Keep the private key secret and distribute the exported public key to clients
+ */
+export async function generateServerIdentityKeyPair(): Promise<CryptoKeyPair> {
+  return await crypto.subtle.generateKey(ECDSA_PARAMS, true, ['sign', 'verify']);
+}
+
+/**
+ * Export an identity public key as base64 SPKI (the format clients pin)
+ */
+export async function exportServerIdentityPublicKey(publicKey: CryptoKey): Promise<string> {
+  return await exportPublicKey(publicKey);
+}
+
+/**
+ * Import a pinned identity public key from base64 SPKI
+ */
+export async function importServerIdentityPublicKey(publicKeyBase64: string): Promise<CryptoKey> {
+  const keyBuffer = Uint8Array.from(atob(publicKeyBase64), c => c.charCodeAt(0));
+  return await crypto.subtle.importKey('spki', keyBuffer, ECDSA_PARAMS, false, ['verify']);
+}
+
+/**
+ * Sign a key exchange transcript with the server's identity private key
+ * @returns Base64 signature
+ */
+export async function signKeyExchange(signingKey: CryptoKey, transcript: KeyExchangeTranscript): Promise<string> {
+  const signature = await crypto.subtle.sign(SIGN_PARAMS, signingKey, encodeTranscript(transcript));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+}
+
+/**
+ * Verify a key exchange signature against the pinned identity public key
+ * @returns false if the signature is malformed or was not made by the pinned key
+ */
+export async function verifyKeyExchange(publicKey: CryptoKey, transcript: KeyExchangeTranscript, signatureBase64: string): Promise<boolean> {
+  let signature: ArrayBuffer;
+  try {
+    signature = Uint8Array.from(atob(signatureBase64), c => c.charCodeAt(0)).buffer as ArrayBuffer;
+  } catch {
+    return false;
+  }
+  return await crypto.subtle.verify(SIGN_PARAMS, publicKey, signature, encodeTranscript(transcript));
+}
+
+function encodeTranscript(transcript: KeyExchangeTranscript): ArrayBuffer {
+  // JSON keeps the fields unambiguous (no delimiter collisions)
+  const fields = ['secstream-key-exchange', transcript.sessionId, transcript.clientPublicKey, transcript.serverPublicKey];
+  return new TextEncoder().encode(JSON.stringify(fields)).buffer as ArrayBuffer;
+}
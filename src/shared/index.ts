@@ -9,6 +9,9 @@ export * from './compression/index.js';
 // Cryptographic functionality
 export * from './crypto/index.js';
 
+// Wire protocol functionality
+export * from './protocol/index.js';
+
 // Slice ID generation functionality
 export * from './slice-id/index.js';
 
@@ -0,0 +1,85 @@
+import type { SliceRequestProof } from '../crypto/request-proof.js';
+
+/**
+ * HTTP wire protocol shared by the server API handler and client transports
+ *
+ * Routes (relative to a configurable base path, default "/api"):
+ * - POST   /sessions                            Create session. Body: multipart/form-data with one or
+ *                                                more "audio" files (several files create a multi-track
+ *                                                session), or the raw audio bytes. Response 201: { sessionId, token? }
+ * - POST   /sessions/:sessionId/key-exchange    Body: KeyExchangeRequest JSON. Query: trackId (optional).
+ *                                                Response 200: KeyExchangeResponse JSON
+ * - GET    /sessions/:sessionId/info            Response 200: SessionInfo JSON
+ * - GET    /sessions/:sessionId/slices/:sliceId Query: trackId (optional). Response 200: binary slice
+ *                                                envelope (see slice-envelope.ts)
+ * - GET    /sessions/:sessionId/slice-ids       Query: index, trackId (optional). Rolling slice ID disclosure
+ *                                                only. Response 200: EncryptedSliceIds JSON (see slice-ids.ts)
+ * - POST   /sessions/:sessionId/tracks          Body: multipart "audio" file plus optional "title", "artist",
+ *                                                "album" fields, or raw audio bytes. Response 201: TrackInfo JSON
+ * - DELETE /sessions/:sessionId/tracks/:track   Track ID or numeric index. Response 200: SessionInfo JSON
+ * - DELETE /sessions/:sessionId                 Response 204
+ *
+ * When the server issues session tokens, requests for a session carry "Authorization: Bearer <token>".
+ * Missing, expired or foreign tokens are rejected with 401, denied operations with 403.
+ * When the server requires slice request proofs, slice requests carry an X-SecStream-Proof header
+ * (see request-proof.ts); missing, stale, replayed or forged proofs are rejected with 401.
+ * Slice requests far ahead of real-time playback are rejected with 429 and a Retry-After header.
+ *
+ * Errors are JSON: { error: string, code: string } with a matching HTTP status
+ */
+
+/** Default mount path of the API */
+export const DEFAULT_API_BASE_PATH = '/api';
+
+/** Multipart field carrying audio files */
+export const AUDIO_FORM_FIELD = 'audio';
+
+/** Content type of slice responses (binary slice envelope) */
+export const SLICE_CONTENT_TYPE = 'application/vnd.secstream.slice';
+
+/** Header carrying the proof of a slice request: "<timestamp>.<nonce>.<mac>" */
+export const SLICE_PROOF_HEADER = 'X-SecStream-Proof';
+
+/**
+ * JSON error body returned by the API
+ */
+export interface ApiErrorBody {
+  error: string;
+  code: string;
+}
+
+/**
+ * Build API route paths (without base URL)
+ */
+export const apiRoutes = {
+  sessions: (): string => '/sessions',
+  session: (sessionId: string): string => `/sessions/${encodeURIComponent(sessionId)}`,
+  keyExchange: (sessionId: string): string => `/sessions/${encodeURIComponent(sessionId)}/key-exchange`,
+  info: (sessionId: string): string => `/sessions/${encodeURIComponent(sessionId)}/info`,
+  slice: (sessionId: string, sliceId: string): string =>
+    `/sessions/${encodeURIComponent(sessionId)}/slices/${encodeURIComponent(sliceId)}`,
+  sliceIds: (sessionId: string, sliceIndex: number): string =>
+    `/sessions/${encodeURIComponent(sessionId)}/slice-ids?index=${sliceIndex}`,
+  tracks: (sessionId: string): string => `/sessions/${encodeURIComponent(sessionId)}/tracks`,
+  track: (sessionId: string, trackIdOrIndex: string | number): string =>
+    `/sessions/${encodeURIComponent(sessionId)}/tracks/${encodeURIComponent(String(trackIdOrIndex))}`,
+};
+
+/**
+ * Encode a slice request proof as an X-SecStream-Proof header value
+ */
+export function formatSliceRequestProof(proof: SliceRequestProof): string {
+  return `${proof.timestamp}.${proof.nonce}.${proof.mac}`;
+}
+
+/**
+ * Parse an X-SecStream-Proof header value
+ * @returns The proof, or null if the value is malformed
+ */
+export function parseSliceRequestProof(value: string): SliceRequestProof | null {
+  const match = value.trim().match(/^(\d+)\.([\w+/]+={0,2})\.([\w+/]+={0,2})$/);
+  if (!match) {
+    return null;
+  }
+  return { timestamp: Number(match[1]), nonce: match[2], mac: match[3] };
+}
@@ -0,0 +1,8 @@
+/**
+ * Wire protocol definitions
+ */
+export * from './http.js';
+export * from './slice-envelope.js';
+export * from './slice-ids.js';
+export * from './slice-timings.js';
+export * from './slice-trim.js';
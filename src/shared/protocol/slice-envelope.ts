@@ -0,0 +1,329 @@
+import type { EncryptedSlice, SliceProcessorIds } from '../types/interfaces.js';
+import type { SliceEncryptionOptions } from '../types/processors.js';
+import { arrayBufferToBase64, base64ToArrayBuffer } from '../utils/base64.js';
+import { crc32 } from '../utils/crc32.js';
+
+/**
+ * Binary slice envelope
+ *
+ * One self-describing buffer per EncryptedSlice, shared by server handlers, transports,
+ * caches and the decryption worker. All integers are big-endian, strings are UTF-8
+ * prefixed with a u16 byte length.
+ *
+ *   magic            u32   "SSLC"
+ *   version          u8    SLICE_ENVELOPE_VERSION
+ *   flags            u8    bit 0: trackId present, bit 1: integrity tag present, bit 2: key epoch present,
+ *                         bit 3: next slice IDs present
+ *   compression      str   compression processor name ('' if unknown)
+ *   encryption       str   encryption processor name ('' if unknown)
+ *   sequence         u32
+ *   sliceId          str
+ *   sessionId        str
+ *   trackId          str   only if flag bit 0
+ *   keyEpoch         u32   only if flag bit 2
+ *   iv               u8 length + bytes
+ *   payload          u32 length + bytes
+ *   next slice IDs   only if flag bit 3: u32 first index, u8 IV length + IV, u32 length + ciphertext
+ *                         (bound to sessionId, see slice-ids.ts)
+ *   integrity tag    u32   only if flag bit 1: CRC-32 of every preceding byte
+ *
+ * Decoders reject unknown versions and flag bits with UNSUPPORTED_VERSION, so any new field
+ * comes with a version bump.
+ *
+ * The tag detects truncation and corruption in transit or in caches; authenticity is still
+ * provided by the encryption processor.
+ */
+
+/** "SSLC" */
+export const SLICE_ENVELOPE_MAGIC = 0x53534C43;
+
+/**
+ * Current envelope version
+ * Bumped whenever the layout or the payload changes; version 2 added the key epoch and next
+ * slice IDs, version 3 moved the MP3 trim into the encrypted payload (see slice-trim.ts)
+ */
+export const SLICE_ENVELOPE_VERSION = 3;
+
+const FLAG_TRACK_ID = 0x01;
+const FLAG_INTEGRITY = 0x02;
+const FLAG_KEY_EPOCH = 0x04;
+const FLAG_NEXT_SLICE_IDS = 0x08;
+const KNOWN_FLAGS = FLAG_TRACK_ID | FLAG_INTEGRITY | FLAG_KEY_EPOCH | FLAG_NEXT_SLICE_IDS;
+
+export type SliceEnvelopeErrorCode
+  = | 'INVALID_MAGIC'
+    | 'UNSUPPORTED_VERSION'
+    | 'TRUNCATED'
+    | 'INTEGRITY_MISMATCH'
+    | 'PROCESSOR_MISMATCH'
+    | 'IDENTITY_MISMATCH';
+
+/**
+ * Thrown when an envelope cannot be decoded or was produced by other processors
+ */
+export class SliceEnvelopeError extends Error {
+  public readonly code: SliceEnvelopeErrorCode;
+
+  constructor(message: string, code: SliceEnvelopeErrorCode) {
+    super(message);
+    this.name = 'SliceEnvelopeError';
+    this.code = code;
+  }
+}
+
+export interface EncodeSliceOptions {
+  /** Append a CRC-32 integrity tag. Default: true */
+  integrity?: boolean;
+}
+
+export interface DecodeSliceOptions {
+  /** Processors the receiver will use; a mismatch throws PROCESSOR_MISMATCH before any decryption */
+  expectedProcessors?: Partial<SliceProcessorIds>;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Serialize an EncryptedSlice into a binary envelope
+ */
+export function encodeSlice(slice: EncryptedSlice, options: EncodeSliceOptions = {}): ArrayBuffer {
+  const integrity = options.integrity ?? true;
+  const strings = {
+    compression: textEncoder.encode(slice.processors?.compression ?? ''),
+    encryption: textEncoder.encode(slice.processors?.encryption ?? ''),
+    sliceId: textEncoder.encode(slice.id),
+    sessionId: textEncoder.encode(slice.sessionId),
+    trackId: slice.trackId !== undefined ? textEncoder.encode(slice.trackId) : null,
+  };
+  const iv = new Uint8Array(slice.iv);
+  const payload = new Uint8Array(slice.encryptedData);
+
+  const nextSliceIds = slice.nextSliceIds
+    ? { iv: new Uint8Array(base64ToArrayBuffer(slice.nextSliceIds.iv)), data: new Uint8Array(base64ToArrayBuffer(slice.nextSliceIds.data)) }
+    : null;
+
+  if (iv.length > 0xFF || (nextSliceIds && nextSliceIds.iv.length > 0xFF)) {
+    throw new RangeError(`IV too long for slice envelope: ${Math.max(iv.length, nextSliceIds?.iv.length ?? 0)} bytes`);
+  }
+
+  const stringBytes = [strings.compression, strings.encryption, strings.sliceId, strings.sessionId, strings.trackId]
+    .reduce((total, value) => total + (value ? 2 + value.length : 0), 0);
+  const hasKeyEpoch = slice.keyEpoch !== undefined;
+  const nextSliceIdsBytes = nextSliceIds ? 4 + 1 + nextSliceIds.iv.length + 4 + nextSliceIds.data.length : 0;
+  const size = 4 + 1 + 1 + 4 + stringBytes + (hasKeyEpoch ? 4 : 0) + 1 + iv.length + 4 + payload.length + nextSliceIdsBytes + (integrity ? 4 : 0);
+
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  const writeString = (value: Uint8Array): void => {
+    if (value.length > 0xFFFF) {
+      throw new RangeError(`String too long for slice envelope: ${value.length} bytes`);
+    }
+    view.setUint16(offset, value.length);
+    bytes.set(value, offset + 2);
+    offset += 2 + value.length;
+  };
+
+  view.setUint32(offset, SLICE_ENVELOPE_MAGIC);
+  offset += 4;
+  view.setUint8(offset++, SLICE_ENVELOPE_VERSION);
+  view.setUint8(
+    offset++,
+    (strings.trackId ? FLAG_TRACK_ID : 0)
+    | (integrity ? FLAG_INTEGRITY : 0)
+    | (hasKeyEpoch ? FLAG_KEY_EPOCH : 0)
+    | (nextSliceIds ? FLAG_NEXT_SLICE_IDS : 0),
+  );
+  writeString(strings.compression);
+  writeString(strings.encryption);
+  view.setUint32(offset, slice.sequence);
+  offset += 4;
+  writeString(strings.sliceId);
+  writeString(strings.sessionId);
+  if (strings.trackId) {
+    writeString(strings.trackId);
+  }
+  if (hasKeyEpoch) {
+    view.setUint32(offset, slice.keyEpoch!);
+    offset += 4;
+  }
+  view.setUint8(offset++, iv.length);
+  bytes.set(iv, offset);
+  offset += iv.length;
+  view.setUint32(offset, payload.length);
+  bytes.set(payload, offset + 4);
+  offset += 4 + payload.length;
+  if (nextSliceIds) {
+    view.setUint32(offset, slice.nextSliceIds!.firstIndex);
+    view.setUint8(offset + 4, nextSliceIds.iv.length);
+    bytes.set(nextSliceIds.iv, offset + 5);
+    offset += 5 + nextSliceIds.iv.length;
+    view.setUint32(offset, nextSliceIds.data.length);
+    bytes.set(nextSliceIds.data, offset + 4);
+    offset += 4 + nextSliceIds.data.length;
+  }
+
+  if (integrity) {
+    view.setUint32(offset, crc32(bytes.subarray(0, offset)));
+  }
+
+  return bytes.buffer;
+}
+
+/**
+ * Parse a binary envelope back into an EncryptedSlice
+ * IV and payload are copied into standalone ArrayBuffers so they can be transferred
+ */
+export function decodeSlice(data: ArrayBuffer | Uint8Array, options: DecodeSliceOptions = {}): EncryptedSlice {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const ensure = (length: number): void => {
+    if (offset + length > bytes.length) {
+      throw new SliceEnvelopeError(`Slice envelope truncated at byte ${offset}`, 'TRUNCATED');
+    }
+  };
+  const readString = (): string => {
+    ensure(2);
+    const length = view.getUint16(offset);
+    ensure(2 + length);
+    const value = textDecoder.decode(bytes.subarray(offset + 2, offset + 2 + length));
+    offset += 2 + length;
+    return value;
+  };
+  const readBytes = (length: number): ArrayBuffer => {
+    ensure(length);
+    const value = bytes.slice(offset, offset + length).buffer;
+    offset += length;
+    return value;
+  };
+
+  ensure(6);
+  if (view.getUint32(0) !== SLICE_ENVELOPE_MAGIC) {
+    throw new SliceEnvelopeError('Not a slice envelope', 'INVALID_MAGIC');
+  }
+  const version = view.getUint8(4);
+  if (version !== SLICE_ENVELOPE_VERSION) {
+    throw new SliceEnvelopeError(`Unsupported slice envelope version ${version}`, 'UNSUPPORTED_VERSION');
+  }
+  const flags = view.getUint8(5);
+  // Unknown fields would shift every following offset
+  if (flags & ~KNOWN_FLAGS) {
+    throw new SliceEnvelopeError(`Unsupported slice envelope flags 0x${flags.toString(16)}`, 'UNSUPPORTED_VERSION');
+  }
+  offset = 6;
+
+  const processors: SliceProcessorIds = {
+    compression: readString(),
+    encryption: readString(),
+  };
+  assertSliceProcessors(processors, options.expectedProcessors);
+
+  ensure(4);
+  const sequence = view.getUint32(offset);
+  offset += 4;
+  const id = readString();
+  const sessionId = readString();
+  const trackId = flags & FLAG_TRACK_ID ? readString() : undefined;
+  let keyEpoch: number | undefined;
+  if (flags & FLAG_KEY_EPOCH) {
+    ensure(4);
+    keyEpoch = view.getUint32(offset);
+    offset += 4;
+  }
+
+  ensure(1);
+  const iv = readBytes(view.getUint8(offset++));
+  ensure(4);
+  const payloadLength = view.getUint32(offset);
+  offset += 4;
+  const encryptedData = readBytes(payloadLength);
+
+  let nextSliceIds: EncryptedSlice['nextSliceIds'];
+  if (flags & FLAG_NEXT_SLICE_IDS) {
+    ensure(5);
+    const firstIndex = view.getUint32(offset);
+    offset += 4;
+    const nextIv = readBytes(view.getUint8(offset++));
+    ensure(4);
+    const nextLength = view.getUint32(offset);
+    offset += 4;
+    nextSliceIds = { sessionId, firstIndex, iv: arrayBufferToBase64(nextIv), data: arrayBufferToBase64(readBytes(nextLength)) };
+  }
+
+  if (flags & FLAG_INTEGRITY) {
+    ensure(4);
+    if (view.getUint32(offset) !== crc32(bytes.subarray(0, offset))) {
+      throw new SliceEnvelopeError(`Integrity check failed for slice ${id}`, 'INTEGRITY_MISMATCH');
+    }
+  }
+
+  const slice: EncryptedSlice = { id, encryptedData, iv, sequence, sessionId };
+  if (trackId !== undefined) {
+    slice.trackId = trackId;
+  }
+  if (keyEpoch !== undefined) {
+    slice.keyEpoch = keyEpoch;
+  }
+  if (nextSliceIds) {
+    slice.nextSliceIds = nextSliceIds;
+  }
+  if (processors.compression || processors.encryption) {
+    slice.processors = processors;
+  }
+  return slice;
+}
+
+/**
+ * Throw PROCESSOR_MISMATCH if a slice was produced with processors other than the expected ones
+ * Unknown (empty) names on either side are not checked
+ */
+export function assertSliceProcessors(actual: Partial<SliceProcessorIds> | undefined, expected: Partial<SliceProcessorIds> | undefined): void {
+  if (!actual || !expected) {
+    return;
+  }
+
+  for (const kind of ['compression', 'encryption'] as const) {
+    if (actual[kind] && expected[kind] && actual[kind] !== expected[kind]) {
+      throw new SliceEnvelopeError(
+        `Slice uses ${kind} processor ${actual[kind]}, but ${expected[kind]} is configured`,
+        'PROCESSOR_MISMATCH',
+      );
+    }
+  }
+}
+
+/**
+ * Encryption options a slice claims in its envelope
+ * The envelope is not authenticated: receivers decrypt with the options of the slice they
+ * requested and check the envelope against them (see assertSliceIdentity)
+ */
+export function getSliceEncryptionOptions(slice: EncryptedSlice): SliceEncryptionOptions {
+  return { sessionId: slice.sessionId, trackId: slice.trackId, sequence: slice.sequence, sliceId: slice.id };
+}
+
+/**
+ * Session ID the slices of a track are encrypted with (the session ID itself for single-track sessions)
+ */
+export function getSliceSessionId(sessionId: string, trackId?: string): string {
+  return trackId === undefined ? sessionId : `${sessionId}_${trackId}`;
+}
+
+/**
+ * Throw IDENTITY_MISMATCH if a received slice is not the one that was requested
+ * Catches slices swapped or reordered by proxies and caches before they are played
+ */
+export function assertSliceIdentity(slice: EncryptedSlice, expected: SliceEncryptionOptions): void {
+  const actual = getSliceEncryptionOptions(slice);
+  for (const field of ['sliceId', 'sequence', 'sessionId', 'trackId'] as const) {
+    if (actual[field] !== expected[field]) {
+      throw new SliceEnvelopeError(
+        `Received slice ${actual.sliceId} (${field} ${actual[field]}) instead of ${expected.sliceId} (${field} ${expected[field]})`,
+        'IDENTITY_MISMATCH',
+      );
+    }
+  }
+}
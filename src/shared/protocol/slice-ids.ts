@@ -0,0 +1,89 @@
+import type { CryptoMetadata, EncryptionProcessor, SliceEncryptionOptions } from '../types/processors.js';
+import { arrayBufferToBase64, base64ToArrayBuffer } from '../utils/base64.js';
+
+/**
+ * Rolling slice ID disclosure
+ *
+ * With SessionManagerConfig.sliceIdDisclosure, SessionInfo.sliceIds only lists the first slices.
+ * Every slice carries the IDs of the slices after it (EncryptedSlice.nextSliceIds), and seeks
+ * resolve a position to its IDs with a dedicated request, so the complete list is never handed
+ * out at once.
+ *
+ * ID lists are encrypted with the session key under reserved slice options (sequence -2, bound
+ * to the index of their first entry), so they can never be mistaken for an audio slice.
+ */
+
+/**
+ * Encrypted run of consecutive slice IDs
+ */
+export interface EncryptedSliceIds {
+  /** Session ID the list is bound to (the ID slices carry, which differs per track) */
+  sessionId: string;
+  /** Slice index of the first ID */
+  firstIndex: number;
+  /** Base64 ciphertext of the JSON slice IDs */
+  data: string;
+  /** Base64 IV */
+  iv: string;
+}
+
+const SLICE_IDS_SEQUENCE = -2;
+
+function getSliceIdsEncryptionOptions(sessionId: string, firstIndex: number, trackId?: string): SliceEncryptionOptions {
+  return { sessionId, trackId, sequence: SLICE_IDS_SEQUENCE, sliceId: `slice-ids:${firstIndex}` };
+}
+
+/**
+ * Encrypt consecutive slice IDs starting at firstIndex with the session key
+ */
+export async function encryptSliceIds<TKey>(
+  encryptionProcessor: EncryptionProcessor<TKey>,
+  key: TKey,
+  sliceIds: string[],
+  firstIndex: number,
+  sessionId: string,
+  trackId?: string,
+): Promise<EncryptedSliceIds> {
+  const plaintext = new TextEncoder().encode(JSON.stringify(sliceIds)).buffer as ArrayBuffer;
+  const { encrypted, metadata } = await encryptionProcessor.encrypt(
+    plaintext,
+    key,
+    getSliceIdsEncryptionOptions(sessionId, firstIndex, trackId),
+  );
+  if (!metadata.iv || !(metadata.iv instanceof ArrayBuffer)) {
+    throw new Error('Invalid or missing IV in metadata');
+  }
+
+  return {
+    sessionId,
+    firstIndex,
+    data: arrayBufferToBase64(encrypted),
+    iv: arrayBufferToBase64(metadata.iv),
+  };
+}
+
+/**
+ * Decrypt a run of slice IDs published by the server
+ * @returns IDs of the slices firstIndex, firstIndex + 1, ...
+ * @throws If the list cannot be decrypted with this key or is malformed
+ */
+export async function decryptSliceIds<TKey>(
+  encryptionProcessor: EncryptionProcessor<TKey>,
+  key: TKey,
+  sliceIds: EncryptedSliceIds,
+  trackId?: string,
+): Promise<string[]> {
+  const metadata: CryptoMetadata = { iv: base64ToArrayBuffer(sliceIds.iv) };
+  const plaintext = await encryptionProcessor.decrypt(
+    base64ToArrayBuffer(sliceIds.data),
+    key,
+    metadata,
+    getSliceIdsEncryptionOptions(sliceIds.sessionId, sliceIds.firstIndex, trackId),
+  );
+
+  const ids = JSON.parse(new TextDecoder().decode(plaintext)) as unknown;
+  if (!Array.isArray(ids) || !ids.every(id => typeof id === 'string')) {
+    throw new TypeError('Invalid slice ID list');
+  }
+  return ids;
+}
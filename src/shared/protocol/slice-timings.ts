@@ -0,0 +1,159 @@
+import type { CryptoMetadata, EncryptionProcessor, SliceEncryptionOptions } from '../types/processors.js';
+import { arrayBufferToBase64, base64ToArrayBuffer } from '../utils/base64.js';
+
+/**
+ * Slice timing table
+ *
+ * Exact slice boundaries for sessions whose slices are not all sliceDuration long
+ * (randomized slice lengths, a shorter final slice). The server publishes the cumulative
+ * sample offsets encrypted with the session key, so the boundaries are only visible to the
+ * client that completed the key exchange.
+ *
+ * The table is encrypted with the session's encryption processor under reserved slice options
+ * (sequence -1), so it can never be mistaken for an audio slice.
+ */
+
+/**
+ * Encrypted slice timing table carried in SessionInfo / TrackInfo
+ */
+export interface EncryptedSliceTimings {
+  /** Session ID the table is bound to (the ID slices carry, which differs per track) */
+  sessionId: string;
+  /** Base64 ciphertext of the JSON sample offsets (length = totalSlices + 1) */
+  data: string;
+  /** Base64 IV */
+  iv: string;
+}
+
+const SLICE_TIMINGS_SEQUENCE = -1;
+const SLICE_TIMINGS_ID = 'slice-timings';
+
+function getSliceTimingsEncryptionOptions(sessionId: string, trackId?: string): SliceEncryptionOptions {
+  return { sessionId, trackId, sequence: SLICE_TIMINGS_SEQUENCE, sliceId: SLICE_TIMINGS_ID };
+}
+
+/**
+ * Encrypt cumulative slice sample offsets with the session key
+ */
+export async function encryptSliceTimings<TKey>(
+  encryptionProcessor: EncryptionProcessor<TKey>,
+  key: TKey,
+  sliceOffsets: number[],
+  sessionId: string,
+  trackId?: string,
+): Promise<EncryptedSliceTimings> {
+  const plaintext = new TextEncoder().encode(JSON.stringify(sliceOffsets)).buffer as ArrayBuffer;
+  const { encrypted, metadata } = await encryptionProcessor.encrypt(
+    plaintext,
+    key,
+    getSliceTimingsEncryptionOptions(sessionId, trackId),
+  );
+  if (!metadata.iv || !(metadata.iv instanceof ArrayBuffer)) {
+    throw new Error('Invalid or missing IV in metadata');
+  }
+
+  return {
+    sessionId,
+    data: arrayBufferToBase64(encrypted),
+    iv: arrayBufferToBase64(metadata.iv),
+  };
+}
+
+/**
+ * Decrypt a slice timing table published by the server
+ * @throws If the table cannot be decrypted with this key or is malformed
+ */
+export async function decryptSliceTimings<TKey>(
+  encryptionProcessor: EncryptionProcessor<TKey>,
+  key: TKey,
+  timings: EncryptedSliceTimings,
+  sampleRate: number,
+  trackId?: string,
+): Promise<SliceTimingTable> {
+  const metadata: CryptoMetadata = { iv: base64ToArrayBuffer(timings.iv) };
+  const plaintext = await encryptionProcessor.decrypt(
+    base64ToArrayBuffer(timings.data),
+    key,
+    metadata,
+    getSliceTimingsEncryptionOptions(timings.sessionId, trackId),
+  );
+
+  return new SliceTimingTable(JSON.parse(new TextDecoder().decode(plaintext)) as number[], sampleRate);
+}
+
+/**
+ * Exact start time and duration of every slice, in seconds
+ */
+export class SliceTimingTable {
+  private readonly sliceOffsets: number[];
+  private readonly sampleRate: number;
+
+  /**
+   * @param sliceOffsets - Cumulative sample offsets (length = totalSlices + 1, starting at 0)
+   * @param sampleRate - Sample rate the offsets are expressed in
+   */
+  constructor(sliceOffsets: number[], sampleRate: number) {
+    if (!Array.isArray(sliceOffsets) || sliceOffsets.length < 1 || sampleRate <= 0) {
+      throw new TypeError('Invalid slice timing table');
+    }
+    for (let i = 0; i < sliceOffsets.length; i++) {
+      if (!Number.isFinite(sliceOffsets[i]) || (i > 0 && sliceOffsets[i] < sliceOffsets[i - 1])) {
+        throw new TypeError('Invalid slice timing table');
+      }
+    }
+
+    this.sliceOffsets = sliceOffsets;
+    this.sampleRate = sampleRate;
+  }
+
+  get totalSlices(): number {
+    return this.sliceOffsets.length - 1;
+  }
+
+  /** Total duration in seconds */
+  get duration(): number {
+    return this.toSeconds(this.sliceOffsets[this.sliceOffsets.length - 1]);
+  }
+
+  /**
+   * Start time of a slice in seconds (sliceIndex = totalSlices gives the end of the audio)
+   */
+  getStartTime(sliceIndex: number): number {
+    const index = Math.max(0, Math.min(sliceIndex, this.totalSlices));
+    return this.toSeconds(this.sliceOffsets[index]);
+  }
+
+  /**
+   * Duration of a slice in seconds (0 for indices outside the table)
+   */
+  getSliceDuration(sliceIndex: number): number {
+    if (sliceIndex < 0 || sliceIndex >= this.totalSlices) {
+      return 0;
+    }
+    return this.toSeconds(this.sliceOffsets[sliceIndex + 1] - this.sliceOffsets[sliceIndex]);
+  }
+
+  /**
+   * Index of the slice playing at a time in seconds (clamped to the first/last slice)
+   */
+  getSliceIndex(timeSeconds: number): number {
+    const sample = timeSeconds * this.sampleRate;
+
+    // Last slice whose start offset is <= sample
+    let low = 0;
+    let high = this.totalSlices - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.sliceOffsets[mid] <= sample) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return Math.max(0, low);
+  }
+
+  private toSeconds(samples: number): number {
+    return samples / this.sampleRate;
+  }
+}
@@ -0,0 +1,54 @@
+import type { SliceTrim } from '../types/interfaces.js';
+
+/**
+ * Slice trim header
+ *
+ * Gapless MP3 slices tell the client which decoded samples belong to neighbouring slices.
+ * The trim is prepended to the slice audio before compression and encryption, so it is as
+ * confidential and tamper-proof as the audio itself (the slice envelope is not authenticated).
+ * All integers are big-endian.
+ *
+ *   magic   u32   "TRIM"
+ *   start   u32   decoded samples to drop from the start
+ *   end     u32   decoded samples to drop from the end
+ *   audio   remaining bytes
+ *
+ * No container format the server slices starts with the magic, so payloads without a trim
+ * header are passed through unchanged.
+ */
+
+/** "TRIM" */
+export const SLICE_TRIM_MAGIC = 0x5452494D;
+
+const SLICE_TRIM_HEADER_SIZE = 12;
+
+/**
+ * Prepend a trim header to slice audio
+ */
+export function encodeSliceTrim(trim: SliceTrim, audio: ArrayBuffer): ArrayBuffer {
+  const payload = new Uint8Array(SLICE_TRIM_HEADER_SIZE + audio.byteLength);
+  const view = new DataView(payload.buffer);
+  view.setUint32(0, SLICE_TRIM_MAGIC);
+  view.setUint32(4, trim.start);
+  view.setUint32(8, trim.end);
+  payload.set(new Uint8Array(audio), SLICE_TRIM_HEADER_SIZE);
+  return payload.buffer;
+}
+
+/**
+ * Split a decrypted slice payload into its trim (if any) and audio
+ */
+export function decodeSliceTrim(payload: ArrayBuffer): { trim?: SliceTrim; audio: ArrayBuffer } {
+  if (payload.byteLength < SLICE_TRIM_HEADER_SIZE) {
+    return { audio: payload };
+  }
+
+  const view = new DataView(payload);
+  if (view.getUint32(0) !== SLICE_TRIM_MAGIC) {
+    return { audio: payload };
+  }
+  return {
+    trim: { start: view.getUint32(4), end: view.getUint32(8) },
+    audio: payload.slice(SLICE_TRIM_HEADER_SIZE),
+  };
+}
@@ -71,7 +71,7 @@ export interface CachedAudioSource {
   format: string;
   /** Audio metadata - complete metadata from format parser */
   metadata: {
-    format: 'wav' | 'mp3' | 'flac' | 'ogg' | 'aac' | 'unknown';
+    format: 'wav' | 'mp3' | 'flac' | 'ogg' | 'opus' | 'webm' | 'aac' | 'alac' | 'mp4' | 'unknown';
     sampleRate: number;
     channels: number;
     bitDepth?: number;
@@ -80,9 +80,61 @@ export interface CachedAudioSource {
     dataOffset: number;
     dataLength: number;
     totalSamples?: number;
+    codec?: 'vorbis' | 'opus' | 'aac' | 'alac';
+    container?: 'ogg' | 'webm' | 'mp4';
+    preSkip?: number;
+    encoderDelay?: number;
+    encoderPadding?: number;
   };
   /** Cached MP3 frame boundaries (if MP3 format) */
   mp3FrameBoundaries?: number[];
+  /** Samples per MP3 frame (if MP3 format) */
+  mp3SamplesPerFrame?: number;
+  /** Cached FLAC frame map (if FLAC format) */
+  flacFrames?: {
+    headerLength: number;
+    streamInfo: Uint8Array;
+    frameOffsets: number[];
+    frameSamples: number[];
+    seekTable: boolean;
+    totalSamples: number;
+  };
+  /** Cached Ogg page map (if Ogg Vorbis/Opus format) */
+  oggPages?: {
+    headerLength: number;
+    preSkip: number;
+    pageOffsets: number[];
+    pageEnds: number[];
+    totalSamples: number;
+  };
+  /** Cached Opus packet map (if Opus format) */
+  opusPackets?: {
+    container: 'ogg' | 'webm';
+    trackNumber: number;
+    headOffset: number;
+    headLength: number;
+    preSkip: number;
+    packetOffsets: number[];
+    packetEnds: number[];
+    pageSkips: number[];
+    sampleEnds: number[];
+    totalSamples: number;
+  };
+  /** Cached MP4 sample table (if AAC/ALAC format) */
+  mp4Samples?: {
+    codec: 'aac' | 'alac';
+    sampleRate: number;
+    channels: number;
+    bitDepth: number;
+    sampleDescription: Uint8Array;
+    sampleOffsets: number[];
+    sampleSizes: number[];
+    sampleEnds: number[];
+    encoderDelay: number;
+    totalSamples: number;
+  };
+  /** Whether data holds 32-bit float samples (decoded PCM, format 'pcm') */
+  isFloat32?: boolean;
   /** Timestamp when cached */
   cachedAt: number;
 }
@@ -3,6 +3,9 @@
  * Shared across client, server, and core modules
  */
 
+import type { EncryptedSliceIds } from '../protocol/slice-ids.js';
+import type { EncryptedSliceTimings } from '../protocol/slice-timings.js';
+
 export interface AudioSlice {
   id: string;
   data: ArrayBuffer;
@@ -54,8 +57,16 @@ export interface TrackInfo {
   isFloat32?: boolean;
   /** Sorted list of slice IDs for this track */
   sliceIds: string[];
-  /** Audio format: 'wav' = raw PCM, 'mp3'/'flac'/'ogg' = compressed */
+  /** Audio format: 'wav' = raw PCM, 'mp3'/'flac'/'ogg'/'opus'/'aac'/'alac' = compressed */
   format?: string;
+  /** False while the track is still being uploaded; totalSlices and sliceIds grow until it is true */
+  isComplete?: boolean;
+  /** Index of sliceIds[0] when only a window of slices is listed (live sessions). Default: 0 */
+  firstSliceIndex?: number;
+  /** 'rolling': sliceIds only lists the first slices (see SessionInfo.sliceIdDisclosure) */
+  sliceIdDisclosure?: 'rolling';
+  /** Exact slice boundaries, encrypted with the track key (complete tracks only) */
+  sliceTimings?: EncryptedSliceTimings;
   /** Total duration in seconds */
   duration: number;
   /** Optional metadata */
@@ -82,8 +93,35 @@ export interface SessionInfo {
   /** Whether raw PCM is 32-bit float (true) or integer (false/undefined) */
   isFloat32?: boolean;
   sliceIds: string[]; // Sorted list of slice IDs for the session
-  /** Audio format: 'wav' = raw PCM, 'mp3'/'flac'/'ogg' = compressed (client must decode) */
+  /** Audio format: 'wav' = raw PCM, 'mp3'/'flac'/'ogg'/'opus'/'aac'/'alac' = compressed (client must decode) */
   format?: string;
+  /**
+   * False while audio is still being uploaded: totalSlices and sliceIds only cover the audio
+   * received so far. Refresh the session info to discover new slices. Undefined means complete
+   */
+  isComplete?: boolean;
+  /** Live session: audio is appended continuously and old slices expire from a sliding window */
+  isLive?: boolean;
+  /**
+   * Index of sliceIds[0]. Live sessions only list the current window, so the slice with index i
+   * is sliceIds[i - firstSliceIndex] and totalSlices counts every slice published so far. Default: 0
+   */
+  firstSliceIndex?: number;
+  /**
+   * 'rolling': sliceIds only lists the first slices. The IDs of later slices arrive with each slice
+   * (EncryptedSlice.nextSliceIds) or are resolved by position for seeks. Undefined means sliceIds is complete
+   */
+  sliceIdDisclosure?: 'rolling';
+  /**
+   * Exact slice boundaries, encrypted with the session key. Present once the audio is complete
+   * (not for live sessions); without it every slice is assumed to last sliceDuration
+   */
+  sliceTimings?: EncryptedSliceTimings;
+  /**
+   * True when slice requests must carry a proof signed with a key derived from the session key
+   * (see request-proof.ts). Undefined means slices are served by session ID alone
+   */
+  sliceRequestProofs?: boolean;
 }
 
 
@@ -105,6 +143,24 @@ export interface SliceRequest {
   trackId?: string; // Optional: for multi-track sessions
 }
 
+/**
+ * Names (getName()) of the processors a slice was produced with
+ */
+export interface SliceProcessorIds {
+  compression: string;
+  encryption: string;
+}
+
+/**
+ * Decoded samples to drop from the start and end of a slice
+ * Gapless MP3 slices carry the encoder and decoder delays and a frame that primes the decoder
+ * Sent inside the encrypted slice payload (see shared/protocol/slice-trim.ts)
+ */
+export interface SliceTrim {
+  start: number;
+  end: number;
+}
+
 export interface EncryptedSlice {
   id: string;
   trackId?: string; // Optional: which track this slice belongs to (for multi-track sessions)
@@ -112,6 +168,9 @@ export interface EncryptedSlice {
   iv: ArrayBuffer; // Binary IV
   sequence: number;
   sessionId: string;
+  processors?: SliceProcessorIds; // Optional: lets receivers detect processor mismatches before decrypting
+  keyEpoch?: number; // Optional: slice is encrypted with the epoch key (see AudioConfig.keyRotationSlices)
+  nextSliceIds?: EncryptedSliceIds; // Optional: IDs of the following slices (rolling slice ID disclosure)
   // Removed hash - developers can compute their own if needed
 }
 
@@ -148,6 +207,13 @@ export interface AudioConfig {
    * @default 0.4
    */
   sliceLengthVariance?: number;
+  /**
+   * Rotate the slice encryption key every N slices
+   * Each epoch key is derived with HKDF from the exchanged session key, so a leaked key only
+   * exposes its own epoch. Requires a CryptoKey (extractable) or ArrayBuffer session key
+   * @default undefined (one key per session/track)
+   */
+  keyRotationSlices?: number;
   // Removed hash validation - developers handle their own validation
 }
 
@@ -22,6 +22,17 @@ export interface EncryptionOptions {
   [key: string]: unknown;
 }
 
+/**
+ * Encryption options passed for every audio slice (on both server and client)
+ * Processors can use them to derive per-slice keys or bind the slice position as authenticated data
+ */
+export interface SliceEncryptionOptions extends EncryptionOptions {
+  sessionId: string;
+  trackId?: string;
+  sequence: number;
+  sliceId: string;
+}
+
 /**
  * Customizable compression processor interface
  * Allows developers to implement their own compression algorithms
@@ -149,6 +160,15 @@ export interface KeyExchangeProcessor<
     response: KeyExchangeResponse<TResponseData, TSessionInfo>
   ) => Promise<TKey>;
 
+  /**
+   * Derive the HMAC key that signs slice requests from a session key (optional, both sides)
+   * Used when the server requires slice request proofs. Default: deriveRequestProofKey, which
+   * supports raw and extractable CryptoKey session keys
+   * @param sessionKey - Exchanged session key
+   * @param sessionId - Session identifier
+   */
+  deriveRequestProofKey?: (sessionKey: TKey, sessionId: string) => Promise<CryptoKey>;
+
   /**
    * Get processor name/identifier
    */
@@ -1,4 +1,6 @@
 /**
  * Utilities
  */
+export * from './base64.js';
+export * from './crc32.js';
 export * from './timers.js';
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FetchTransport } from '../../src/client/network/fetch-transport.js';
+import { HttpError, RequestAbortedError, TimeoutError } from '../../src/client/network/transport.js';
+import { SessionManager } from '../../src/server/core/session-manager.js';
+import { SecureAudioAPI } from '../../src/server/http/api.js';
+import { EcdhP256KeyExchangeProcessor } from '../../src/shared/crypto/key-exchange/ecdh-p256-processor.js';
+import { createWavData } from '../helpers/wav.js';
+
+// fetch that never answers but honours its AbortSignal
+const hangingFetch: typeof fetch = async(_input, init) => await new Promise<Response>((_resolve, reject) => {
+  init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+});
+
+// fetch that answers with headers right away, then never finishes the body
+const stalledBodyFetch: typeof fetch = async() => new Response(new ReadableStream({
+  start(controller) {
+    controller.enqueue(new Uint8Array([0x7B]));
+  },
+}));
+
+describe('FetchTransport', () => {
+  let sessionManager: SessionManager;
+  let client: EcdhP256KeyExchangeProcessor;
+  let requests: Request[];
+  let transport: FetchTransport;
+
+  beforeEach(async () => {
+    sessionManager = new SessionManager({ sliceDurationMs: 1000 });
+    const api = new SecureAudioAPI(sessionManager);
+    requests = [];
+    transport = new FetchTransport({
+      baseUrl: 'http://localhost/',
+      headers: async () => ({ Authorization: 'Bearer test-token' }),
+      fetch: async(input, init) => {
+        const request = new Request(input, init);
+        requests.push(request.clone());
+        return await api.fetch(request);
+      },
+    });
+    client = new EcdhP256KeyExchangeProcessor();
+    await client.initialize();
+  });
+
+  afterEach(() => {
+    sessionManager.destroy();
+    client.destroy();
+  });
+
+  it('round-trips a session through SecureAudioAPI', async () => {
+    const sessionId = await transport.createSession(new File([createWavData(2)], 'track.wav'));
+    const response = await transport.performKeyExchange(sessionId, await client.createKeyExchangeRequest());
+    const sessionKey = await client.processKeyExchangeResponse(response, sessionId);
+
+    const sliceIds = (response.sessionInfo as { sliceIds: string[] }).sliceIds;
+    const slice = await transport.fetchSlice(sessionId, sliceIds[1]);
+    expect(slice.sequence).toBe(1);
+    expect(slice.sessionId).toBe(sessionId);
+    expect(slice.iv.byteLength).toBe(12);
+
+    const decrypted = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: new Uint8Array(slice.iv) }, sessionKey, slice.encryptedData);
+    expect(decrypted.byteLength).toBeGreaterThan(0);
+
+    expect((await transport.getSessionInfo(sessionId)).sliceIds).toEqual(sliceIds);
+    expect(requests.every(request => request.headers.get('Authorization') === 'Bearer test-token')).toBe(true);
+    expect(requests[0].url).toBe('http://localhost/api/sessions');
+  });
+
+  it('maps error responses to HttpError', async () => {
+    const error = await transport.getSessionInfo('missing').catch(error => error);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({ status: 404, code: 'SESSION_NOT_FOUND' });
+  });
+
+  it('reports timeouts and aborts as distinct network errors', async () => {
+    const slow = new FetchTransport({ timeoutMs: 10, fetch: hangingFetch });
+    await expect(slow.getSessionInfo('session')).rejects.toBeInstanceOf(TimeoutError);
+
+    const controller = new AbortController();
+    const pending = new FetchTransport({ timeoutMs: 0, fetch: hangingFetch }).fetchSlice('session', 'slice', undefined, controller.signal);
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+
+  it('times out and aborts stalled response bodies', async () => {
+    const slow = new FetchTransport({ timeoutMs: 10, fetch: stalledBodyFetch });
+    await expect(slow.getSessionInfo('session')).rejects.toBeInstanceOf(TimeoutError);
+    await expect(slow.fetchSlice('session', 'slice')).rejects.toBeInstanceOf(TimeoutError);
+
+    const controller = new AbortController();
+    const pending = new FetchTransport({ timeoutMs: 0, fetch: stalledBodyFetch }).fetchSlice('session', 'slice', undefined, controller.signal);
+    setTimeout(() => controller.abort(), 10);
+    await expect(pending).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+});
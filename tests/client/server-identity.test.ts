@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SecureAudioClient } from '../../src/client/core/client.js';
+import { FetchTransport } from '../../src/client/network/fetch-transport.js';
+import { KeyExchangeAuthenticationError } from '../../src/client/network/transport.js';
+import { SessionManager } from '../../src/server/core/session-manager.js';
+import { SecureAudioAPI } from '../../src/server/http/api.js';
+import { SignedEcdhP256KeyExchangeProcessor } from '../../src/shared/crypto/key-exchange/signed-ecdh-p256-processor.js';
+import { exportServerIdentityPublicKey, generateServerIdentityKeyPair } from '../../src/shared/crypto/server-identity.js';
+import type { KeyExchangeProcessor } from '../../src/shared/types/processors.js';
+import { createWavData } from '../helpers/wav.js';
+
+// Just enough AudioContext for key exchange in Node
+class FakeAudioContext {
+  sampleRate = 44100;
+  state = 'running';
+  async close(): Promise<void> {}
+}
+
+function createTransport(sessionManager: SessionManager): FetchTransport {
+  const api = new SecureAudioAPI(sessionManager);
+  return new FetchTransport({
+    baseUrl: 'http://localhost/',
+    fetch: async (input, init) => await api.fetch(new Request(input, init)),
+  });
+}
+
+describe('authenticated key exchange', () => {
+  let identity: CryptoKeyPair;
+  let pinnedKey: string;
+  let sessionManager: SessionManager;
+
+  beforeEach(async () => {
+    vi.stubGlobal('window', { AudioContext: FakeAudioContext });
+    identity = await generateServerIdentityKeyPair();
+    pinnedKey = await exportServerIdentityPublicKey(identity.publicKey);
+  });
+
+  afterEach(() => {
+    sessionManager.destroy();
+    vi.unstubAllGlobals();
+  });
+
+  function createSessionManager(signingKey?: CryptoKey): SessionManager {
+    sessionManager = new SessionManager({
+      sliceDurationMs: 1000,
+      keyExchangeProcessorFactory: signingKey
+        ? () => new SignedEcdhP256KeyExchangeProcessor(signingKey) as unknown as KeyExchangeProcessor
+        : undefined,
+    });
+    return sessionManager;
+  }
+
+  it('accepts a key exchange signed by the pinned identity', async () => {
+    const transport = createTransport(createSessionManager(identity.privateKey));
+    const sessionId = await transport.createSession(createWavData());
+
+    const client = new SecureAudioClient(transport, { serverIdentityKey: pinnedKey });
+    const sessionInfo = await client.initializeSession(sessionId);
+    expect(sessionInfo.totalSlices).toBe(1);
+  });
+
+  it('rejects a server signing with another identity', async () => {
+    const impostor = await generateServerIdentityKeyPair();
+    const transport = createTransport(createSessionManager(impostor.privateKey));
+    const sessionId = await transport.createSession(createWavData());
+
+    const client = new SecureAudioClient(transport, { serverIdentityKey: pinnedKey });
+    await expect(client.initializeSession(sessionId)).rejects.toThrow(KeyExchangeAuthenticationError);
+  });
+
+  it('rejects an unsigned or substituted server key', async () => {
+    // Unsigned exchange (default processor)
+    const unsignedTransport = createTransport(createSessionManager());
+    const unsignedSessionId = await unsignedTransport.createSession(createWavData());
+    const client = new SecureAudioClient(unsignedTransport, { serverIdentityKey: identity.publicKey });
+    await expect(client.initializeSession(unsignedSessionId)).rejects.toThrow(KeyExchangeAuthenticationError);
+    sessionManager.destroy();
+
+    // A proxy swapping the server's ephemeral key keeps the signature but breaks it
+    const transport = createTransport(createSessionManager(identity.privateKey));
+    const sessionId = await transport.createSession(createWavData());
+    const proxy = new SignedEcdhP256KeyExchangeProcessor();
+    await proxy.initialize();
+    const proxyKey = await proxy.createKeyExchangeRequest();
+    const performKeyExchange = transport.performKeyExchange.bind(transport);
+    transport.performKeyExchange = (async (...args: Parameters<FetchTransport['performKeyExchange']>) => {
+      const response = await performKeyExchange(...args);
+      return { ...response, publicKey: proxyKey.publicKey };
+    }) as FetchTransport['performKeyExchange'];
+
+    const proxiedClient = new SecureAudioClient(transport, { serverIdentityKey: pinnedKey });
+    await expect(proxiedClient.initializeSession(sessionId)).rejects.toThrow(KeyExchangeAuthenticationError);
+  });
+});
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SecureAudioClient } from '../../src/client/core/client.js';
+import { FetchTransport } from '../../src/client/network/fetch-transport.js';
+import { HttpError } from '../../src/client/network/transport.js';
+import { InvalidOperationError } from '../../src/server/core/errors.js';
+import { SessionManager } from '../../src/server/core/session-manager.js';
+import type { SessionManagerConfig } from '../../src/server/core/session-manager.js';
+import { SecureAudioAPI } from '../../src/server/http/api.js';
+import { EcdhP256KeyExchangeProcessor } from '../../src/shared/crypto/key-exchange/ecdh-p256-processor.js';
+import type { SessionInfo } from '../../src/shared/types/interfaces.js';
+import { FakeAudioContext } from '../helpers/audio-context.js';
+import { createWavData } from '../helpers/wav.js';
+
+describe('rolling slice ID disclosure', () => {
+  let sessionManager: SessionManager;
+
+  beforeEach(() => {
+    vi.stubGlobal('window', { AudioContext: FakeAudioContext });
+  });
+
+  afterEach(() => {
+    sessionManager.destroy();
+    vi.unstubAllGlobals();
+  });
+
+  function createTransport(config: SessionManagerConfig = {}): FetchTransport {
+    sessionManager = new SessionManager({
+      sliceDurationMs: 1000,
+      sliceIdDisclosure: { initialSlices: 2, lookaheadSlices: 3 },
+      ...config,
+    });
+    const api = new SecureAudioAPI(sessionManager);
+    return new FetchTransport({
+      baseUrl: 'http://localhost/',
+      fetch: async (input, init) => await api.fetch(new Request(input, init)),
+    });
+  }
+
+  it('lists only the first slice IDs after key exchange', async () => {
+    const transport = createTransport();
+    const sessionId = await transport.createSession(createWavData(10));
+
+    const keyExchange = new EcdhP256KeyExchangeProcessor();
+    await keyExchange.initialize();
+    const response = await transport.performKeyExchange(sessionId, await keyExchange.createKeyExchangeRequest());
+    const sessionInfo = response.sessionInfo as SessionInfo;
+    expect(sessionInfo.totalSlices).toBe(10);
+    expect(sessionInfo.sliceIds).toHaveLength(2);
+    expect(sessionInfo.sliceIdDisclosure).toBe('rolling');
+    expect((await transport.getSessionInfo(sessionId)).sliceIds).toHaveLength(2);
+
+    const slice = await transport.fetchSlice(sessionId, sessionInfo.sliceIds[0]);
+    expect(slice.nextSliceIds).toMatchObject({ sessionId, firstIndex: 1 });
+    keyExchange.destroy();
+  });
+
+  it('learns the following IDs from loaded slices and resolves seeks', async () => {
+    const transport = createTransport();
+    const sessionId = await transport.createSession(createWavData(10));
+    const client = new SecureAudioClient(transport, { workerConfig: { enabled: false } });
+    await client.initializeSession(sessionId);
+
+    expect(client.getSliceId(2)).toBeNull();
+    await client.loadSlice(client.getSliceId(0)!);
+    expect(client.getSliceId(1)).not.toBeNull();
+    expect(client.getSliceId(3)).not.toBeNull();
+    expect(client.getSliceId(4)).toBeNull();
+
+    const sliceId = await client.resolveSliceId(7);
+    expect(sliceId).not.toBeNull();
+    expect(client.getSliceId(7)).toBe(sliceId);
+    expect(client.getSliceId(9)).not.toBeNull();
+    expect((await client.loadSlice(sliceId!)).sequence).toBe(7);
+
+    expect(await client.resolveSliceId(10)).toBeNull();
+    client.destroy();
+  });
+
+  it('paces position lookups like seeks', async () => {
+    const transport = createTransport({ pacing: { leadSeconds: 1, seekAllowanceSeconds: 1, maxDelayMs: 0 } });
+    const sessionId = await transport.createSession(createWavData(10));
+    const client = new SecureAudioClient(transport, { workerConfig: { enabled: false }, retryConfig: { maxRetries: 0 } });
+    await client.initializeSession(sessionId);
+
+    await client.loadSlice(client.getSliceId(0)!);
+    await client.loadSlice((await client.resolveSliceId(5))!);
+
+    // Seek allowance is used up
+    const error = await transport.resolveSliceIds(sessionId, 8).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).status).toBe(429);
+    client.destroy();
+  });
+
+  it('rejects lookups when disclosure is disabled', async () => {
+    sessionManager = new SessionManager();
+    const sessionId = await sessionManager.createSession(createWavData(1));
+    await expect(sessionManager.resolveSliceIds(sessionId, 0)).rejects.toBeInstanceOf(InvalidOperationError);
+  });
+});
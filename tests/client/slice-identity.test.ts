@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SecureAudioClient } from '../../src/client/core/client.js';
+import { FetchTransport } from '../../src/client/network/fetch-transport.js';
+import { DecryptionError } from '../../src/client/network/transport.js';
+import { SessionManager } from '../../src/server/core/session-manager.js';
+import { SecureAudioAPI } from '../../src/server/http/api.js';
+import { FakeAudioContext } from '../helpers/audio-context.js';
+import { createWavData } from '../helpers/wav.js';
+
+describe('slice identity', () => {
+  let sessionManager: SessionManager;
+  // Slice ID served in place of another, as a broken cache or a hostile proxy would
+  let swaps: Map<string, string>;
+
+  beforeEach(() => {
+    vi.stubGlobal('window', { AudioContext: FakeAudioContext });
+    swaps = new Map();
+  });
+
+  afterEach(() => {
+    sessionManager.destroy();
+    vi.unstubAllGlobals();
+  });
+
+  function createTransport(): FetchTransport {
+    sessionManager = new SessionManager({ sliceDurationMs: 1000 });
+    const api = new SecureAudioAPI(sessionManager);
+    return new FetchTransport({
+      baseUrl: 'http://localhost/',
+      fetch: async (input, init) => {
+        let url = String(input);
+        for (const [requested, served] of swaps) {
+          url = url.replace(`/${requested}`, `/${served}`);
+        }
+        return await api.fetch(new Request(url, init));
+      },
+    });
+  }
+
+  it('rejects a slice swapped for another slice of the same session', async () => {
+    const transport = createTransport();
+    const sessionId = await transport.createSession(createWavData(3));
+    const client = new SecureAudioClient(transport, { workerConfig: { enabled: false }, retryConfig: { maxRetries: 0 } });
+    const sessionInfo = await client.initializeSession(sessionId);
+
+    expect((await client.loadSlice(sessionInfo.sliceIds[0])).sequence).toBe(0);
+
+    swaps.set(sessionInfo.sliceIds[1], sessionInfo.sliceIds[2]);
+    const error = await client.loadSlice(sessionInfo.sliceIds[1]).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(DecryptionError);
+    expect(client.isSliceAvailable(1)).toBe(false);
+    client.destroy();
+  });
+
+  it('decrypts track slices with their own identity and rejects slices of other tracks', async () => {
+    const transport = createTransport();
+    const sessionId = await transport.createSession(createWavData(2));
+    await transport.addTrack(sessionId, createWavData(2));
+    const client = new SecureAudioClient(transport, { workerConfig: { enabled: false }, retryConfig: { maxRetries: 0 } });
+    await client.initializeSession(sessionId);
+
+    const [first] = client.getTracks();
+    await client.initializeTrack(1);
+    const second = client.getTrackInfo(1)!;
+    expect((await client.loadSlice(second.sliceIds[1], undefined, second.trackId)).sequence).toBe(1);
+
+    // Same position, other track: the envelope's session and track IDs differ
+    swaps.set(`${second.sliceIds[0]}?trackId=${second.trackId}`, `${first.sliceIds[0]}?trackId=${first.trackId}`);
+    const error = await client.loadSlice(second.sliceIds[0], undefined, second.trackId).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(DecryptionError);
+    client.destroy();
+  });
+});
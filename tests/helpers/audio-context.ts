@@ -0,0 +1,11 @@
+// Just enough AudioContext for key exchange and PCM slices in Node
+export class FakeAudioContext {
+  sampleRate = 44100;
+  state = 'running';
+  createBuffer(channels: number, length: number, sampleRate: number): object {
+    const data = Array.from({ length: channels }, () => new Float32Array(length));
+    return { numberOfChannels: channels, length, sampleRate, duration: length / sampleRate, getChannelData: (channel: number) => data[channel] };
+  }
+
+  async close(): Promise<void> {}
+}
@@ -0,0 +1,33 @@
+export interface WavDataOptions {
+  tone?: boolean; // Fill the samples with a sine tone, so slices differ (silence otherwise)
+}
+
+// 16-bit stereo PCM WAV at 44.1 kHz
+export function createWavData(durationSeconds: number = 1, options: WavDataOptions = {}): ArrayBuffer {
+  const sampleRate = 44100;
+  const dataSize = sampleRate * durationSeconds * 4;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  view.setUint32(0, 0x52494646, false); // "RIFF"
+  view.setUint32(4, 36 + dataSize, true);
+  view.setUint32(8, 0x57415645, false); // "WAVE"
+  view.setUint32(12, 0x666D7420, false); // "fmt "
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 2, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 4, true);
+  view.setUint16(32, 4, true);
+  view.setUint16(34, 16, true);
+  view.setUint32(36, 0x64617461, false); // "data"
+  view.setUint32(40, dataSize, true);
+
+  if (options.tone) {
+    for (let i = 0; i < dataSize / 2; i++) {
+      view.setInt16(44 + i * 2, Math.sin(i / 20) * 0x3FFF, true);
+    }
+  }
+
+  return buffer;
+}
@@ -0,0 +1,167 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { buildMP3FrameMap } from '../../src/server/audio/mp3-frame-parser.js';
+import { SessionManager } from '../../src/server/core/session-manager.js';
+import { AudioProcessor } from '../../src/server/processing/audio-processor.js';
+import { AudioSourceProvider, readAudioMetadata, readMP3FrameMap } from '../../src/server/sources/audio-source-provider.js';
+import { FileAudioSourceProvider } from '../../src/server/sources/file-source.js';
+import { InMemoryAudioSourceProvider } from '../../src/server/sources/in-memory-source.js';
+import { ObjectStorageAudioSourceProvider } from '../../src/server/sources/object-storage-source.js';
+import { InMemorySessionStore } from '../../src/server/store/in-memory-store.js';
+import { EcdhP256KeyExchangeProcessor } from '../../src/shared/crypto/key-exchange/ecdh-p256-processor.js';
+import { createWavData } from '../helpers/wav.js';
+
+// Silent MP3 (MPEG-1 Layer III, 128 kbps, 44.1 kHz): 417-byte frames behind a small ID3 tag
+function createMp3Data(frameCount: number): ArrayBuffer {
+  const tagSize = 100;
+  const buffer = new ArrayBuffer(10 + tagSize + frameCount * 417);
+  const bytes = new Uint8Array(buffer);
+  bytes.set([0x49, 0x44, 0x33, 4, 0, 0, 0, 0, 0, tagSize]); // "ID3"
+  const view = new DataView(buffer);
+  for (let i = 0; i < frameCount; i++) {
+    view.setUint32(10 + tagSize + i * 417, 0xFFFB9000, false);
+  }
+  return buffer;
+}
+
+// Records every ranged read
+class RecordingProvider extends AudioSourceProvider {
+  reads: Array<{ offset: number; length: number }> = [];
+
+  constructor(private readonly data: ArrayBuffer, readonly ref?: string) {
+    super();
+  }
+
+  getSize(): number {
+    return this.data.byteLength;
+  }
+
+  read(offset: number, length: number): ArrayBuffer {
+    this.reads.push({ offset, length });
+    return this.data.slice(offset, offset + length);
+  }
+
+  getName(): string {
+    return 'RecordingProvider';
+  }
+
+  get bytesRead(): number {
+    return this.reads.reduce((sum, read) => sum + read.length, 0);
+  }
+}
+
+async function generateSessionKey(): Promise<CryptoKey> {
+  return await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+async function decryptSlice(key: CryptoKey, encryptedData: ArrayBuffer, iv: ArrayBuffer): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: new Uint8Array(iv) }, key, encryptedData));
+}
+
+describe('audio source providers', () => {
+  let directory = '';
+
+  afterEach(async() => {
+    if (directory) {
+      await rm(directory, { recursive: true, force: true });
+      directory = '';
+    }
+  });
+
+  it('serves the same slices as buffered audio while reading only their ranges', async() => {
+    const wavData = createWavData(5, { tone: true });
+    const sessionKey = await generateSessionKey();
+    const buffered = await new AudioProcessor({ sliceDurationMs: 1000 }).processAudio(wavData, sessionKey, 'session-1');
+
+    const provider = new RecordingProvider(wavData);
+    const ranged = await new AudioProcessor({ sliceDurationMs: 1000 }).processAudio(provider, sessionKey, 'session-1', buffered.slicePlan);
+    const headerBytes = provider.bytesRead;
+    expect(headerBytes).toBeLessThan(wavData.byteLength);
+
+    const sliceId = buffered.slicePlan.sliceIds[2];
+    const expected = (await buffered.getSlice(sliceId))!;
+    const actual = (await ranged.getSlice(sliceId))!;
+    expect(await decryptSlice(sessionKey, actual.encryptedData, actual.iv))
+      .toEqual(await decryptSlice(sessionKey, expected.encryptedData, expected.iv));
+
+    const { sliceOffsets } = buffered.slicePlan;
+    expect(provider.reads.at(-1)).toEqual({ offset: 44 + sliceOffsets[2] * 4, length: (sliceOffsets[3] - sliceOffsets[2]) * 4 });
+    expect(provider.bytesRead - headerBytes).toBe((sliceOffsets[3] - sliceOffsets[2]) * 4);
+  });
+
+  it('reads MP3 metadata and frame index in chunks', async() => {
+    // Larger than one scan chunk
+    const mp3Data = createMp3Data(3000);
+    const provider = new InMemoryAudioSourceProvider(mp3Data);
+
+    const metadata = await readAudioMetadata(provider);
+    expect(metadata).toMatchObject({ format: 'mp3', sampleRate: 44100, dataOffset: 110, dataLength: 3000 * 417 });
+    // Estimated from the bitrate
+    expect(metadata.duration).toBeCloseTo((3000 * 1152) / 44100, 0);
+
+    const { frameBoundaries, samplesPerFrame } = await readMP3FrameMap(provider, metadata);
+    expect(frameBoundaries).toEqual(buildMP3FrameMap(mp3Data.slice(110)));
+    expect(samplesPerFrame).toBe(1152);
+  });
+
+  it('reads ranges from files and object storage', async() => {
+    const wavData = createWavData(1, { tone: true });
+    directory = await mkdtemp(join(tmpdir(), 'secstream-source-'));
+    const path = join(directory, 'audio.wav');
+    await writeFile(path, new Uint8Array(wavData));
+
+    const file = new FileAudioSourceProvider(path);
+    expect(await file.getSize()).toBe(wavData.byteLength);
+    expect(new Uint8Array(await file.read(40, 8))).toEqual(new Uint8Array(wavData.slice(40, 48)));
+    expect((await file.read(wavData.byteLength - 4, 100)).byteLength).toBe(4);
+
+    let sizeLookups = 0;
+    const storage = new ObjectStorageAudioSourceProvider({
+      size: async(key) => {
+        sizeLookups++;
+        return key === 'audio.wav' ? wavData.byteLength : null;
+      },
+      getRange: async(_key, offset, length) => wavData.slice(offset, offset + length),
+    }, 'audio.wav');
+    expect(new Uint8Array(await storage.read(40, 8))).toEqual(new Uint8Array(wavData.slice(40, 48)));
+    expect((await storage.read(wavData.byteLength - 4, 100)).byteLength).toBe(4);
+    expect(sizeLookups).toBe(1);
+
+    const missing = new ObjectStorageAudioSourceProvider({ size: async() => null, getRange: async() => new ArrayBuffer(0) }, 'missing.wav');
+    await expect(missing.getSize()).rejects.toThrow('does not exist');
+  });
+
+  it('persists the source reference instead of the audio', async() => {
+    const wavData = createWavData(3, { tone: true });
+    const store = new InMemorySessionStore();
+    const resolved: string[] = [];
+    const createManager = (): SessionManager => new SessionManager({
+      sliceDurationMs: 1000,
+      sessionStore: store,
+      sessionKeyWrappingSecret: 'shared-test-secret',
+      resolveAudioSource: (ref) => {
+        resolved.push(ref);
+        return new InMemoryAudioSourceProvider(wavData, ref);
+      },
+    });
+    const creator = createManager();
+    const server = createManager();
+    const client = new EcdhP256KeyExchangeProcessor();
+    await client.initialize();
+
+    const sessionId = await creator.createSession(new InMemoryAudioSourceProvider(wavData, 'audio/song.wav'));
+    const record = (await store.get(sessionId))!;
+    expect(record.tracks[0]).toMatchObject({ sourceRef: 'audio/song.wav', audioRef: undefined });
+
+    const response = await creator.handleKeyExchange(sessionId, await client.createKeyExchangeRequest());
+    const slice = await server.getSlice(sessionId, response.sessionInfo.sliceIds[1]);
+    expect(slice!.sequence).toBe(1);
+    expect(resolved).toEqual(['audio/song.wav']);
+
+    creator.destroy();
+    server.destroy();
+    client.destroy();
+  });
+});
@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FetchTransport } from '../../src/client/network/fetch-transport.js';
+import { HttpError } from '../../src/client/network/transport.js';
+import type { AuthorizeHook, RequestContext } from '../../src/server/core/authorization.js';
+import { AuthorizationError, InvalidSessionTokenError } from '../../src/server/core/errors.js';
+import { SessionManager } from '../../src/server/core/session-manager.js';
+import { SessionTokenSigner } from '../../src/server/core/session-tokens.js';
+import { SecureAudioAPI } from '../../src/server/http/api.js';
+import { EcdhP256KeyExchangeProcessor } from '../../src/shared/crypto/key-exchange/ecdh-p256-processor.js';
+import { createWavData } from '../helpers/wav.js';
+
+const SECRET = 'test-secret-that-is-at-least-32-bytes-long';
+
+describe('session tokens', () => {
+  it('issues and verifies HS256 tokens', async () => {
+    const signer = await SessionTokenSigner.fromSecret(SECRET);
+    const token = await signer.issue({ sessionId: 'session-1', subject: 'alice', tenant: 'acme' });
+
+    const claims = await signer.verify(token);
+    expect(claims.sessionId).toBe('session-1');
+    expect(claims.subject).toBe('alice');
+    expect(claims.tenant).toBe('acme');
+    expect(claims.expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  it('issues and verifies ES256 tokens', async () => {
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+    const token = await SessionTokenSigner.fromKeyPair(keyPair).issue({ sessionId: 'session-1' });
+
+    const verifier = SessionTokenSigner.fromKeyPair({ publicKey: keyPair.publicKey });
+    expect((await verifier.verify(token)).sessionId).toBe('session-1');
+    await expect(verifier.issue({ sessionId: 'session-1' })).rejects.toThrow();
+  });
+
+  it('rejects expired, forged and malformed tokens', async () => {
+    const signer = await SessionTokenSigner.fromSecret(SECRET, { clockToleranceMs: 0 });
+    const other = await SessionTokenSigner.fromSecret('another-secret-that-is-32-bytes-long!!');
+
+    const expired = await signer.issue({ sessionId: 'session-1' }, -5000);
+    await expect(signer.verify(expired)).rejects.toBeInstanceOf(InvalidSessionTokenError);
+
+    const forged = await other.issue({ sessionId: 'session-1' });
+    await expect(signer.verify(forged)).rejects.toBeInstanceOf(InvalidSessionTokenError);
+
+    await expect(signer.verify('not-a-token')).rejects.toBeInstanceOf(InvalidSessionTokenError);
+  });
+});
+
+describe('session authorization', () => {
+  let sessionManager: SessionManager;
+
+  afterEach(() => {
+    sessionManager.destroy();
+  });
+
+  it('requires a token issued for the session', async () => {
+    sessionManager = new SessionManager({ sessionTokens: await SessionTokenSigner.fromSecret(SECRET) });
+    const sessionA = await sessionManager.createSession(createWavData());
+    const sessionB = await sessionManager.createSession(createWavData());
+    const tokenA = await sessionManager.issueSessionToken(sessionA, { subject: 'alice' });
+
+    await expect(sessionManager.authorizeRequest(sessionA, 'getSessionInfo')).rejects.toBeInstanceOf(InvalidSessionTokenError);
+    await expect(sessionManager.authorizeRequest(sessionB, 'getSessionInfo', { token: tokenA })).rejects.toThrow('another session');
+
+    const context: RequestContext = { token: tokenA };
+    await sessionManager.authorizeRequest(sessionA, 'getSessionInfo', context);
+    expect(context.claims?.subject).toBe('alice');
+  });
+
+  it('binds sessions and tokens to the creating tenant', async () => {
+    sessionManager = new SessionManager({ sessionTokens: await SessionTokenSigner.fromSecret(SECRET) });
+    const sessionId = await sessionManager.createSession(createWavData(), { subject: 'alice', tenant: 'acme' });
+
+    // Tokens always carry the session's tenant
+    const token = await sessionManager.issueSessionToken(sessionId, { subject: 'bob', tenant: 'other' });
+    await sessionManager.authorizeRequest(sessionId, 'getSlice', { token });
+
+    const signer = await SessionTokenSigner.fromSecret(SECRET);
+    const foreign = await signer.issue({ sessionId, tenant: 'other' });
+    await expect(sessionManager.authorizeRequest(sessionId, 'getSlice', { token: foreign })).rejects.toThrow('another tenant');
+  });
+
+  it('calls the authorize hook for every operation', async () => {
+    const calls: string[] = [];
+    const authorize: AuthorizeHook = (context, action, session) => {
+      calls.push(action);
+      return action === 'createSession' || context.subject === session?.owner?.subject;
+    };
+    sessionManager = new SessionManager({ authorize });
+    const client = new EcdhP256KeyExchangeProcessor();
+    await client.initialize();
+
+    const sessionId = await sessionManager.createSession(createWavData(), { subject: 'alice' });
+    const request = await client.createKeyExchangeRequest();
+    await expect(sessionManager.handleKeyExchange(sessionId, request, undefined, { subject: 'mallory' }))
+      .rejects
+      .toBeInstanceOf(AuthorizationError);
+    await sessionManager.handleKeyExchange(sessionId, request, undefined, { subject: 'alice' });
+
+    await expect(sessionManager.resolveSessionInfo(sessionId, { subject: 'mallory' }))
+      .rejects
+      .toBeInstanceOf(AuthorizationError);
+    expect(await sessionManager.resolveSessionInfo(sessionId, { subject: 'alice' })).not.toBeNull();
+    expect(calls).toEqual(['createSession', 'keyExchange', 'keyExchange', 'getSessionInfo', 'getSessionInfo']);
+    client.destroy();
+  });
+
+  it('authorizes track removal and session destruction', async () => {
+    const authorize: AuthorizeHook = (context, action, session) => action === 'createSession' || context.subject === session?.owner?.subject;
+    sessionManager = new SessionManager({ authorize });
+    const sessionId = await sessionManager.createMultiTrackSession([
+      { audioData: createWavData() },
+      { audioData: createWavData() },
+    ], { subject: 'alice' });
+
+    await expect(sessionManager.removeTrack(sessionId, 1, { subject: 'mallory' })).rejects.toBeInstanceOf(AuthorizationError);
+    await expect(sessionManager.destroySession(sessionId, { subject: 'mallory' })).rejects.toBeInstanceOf(AuthorizationError);
+    expect(sessionManager.getStats().activeSessions).toBe(1);
+
+    expect((await sessionManager.removeTrack(sessionId, 1, { subject: 'alice' })).tracks).toHaveLength(1);
+    await sessionManager.destroySession(sessionId, { subject: 'alice' });
+    expect(sessionManager.getStats().activeSessions).toBe(0);
+  });
+});
+
+describe('session tokens over HTTP', () => {
+  let sessionManager: SessionManager;
+  let client: EcdhP256KeyExchangeProcessor;
+
+  beforeEach(async () => {
+    sessionManager = new SessionManager({ sessionTokens: await SessionTokenSigner.fromSecret(SECRET) });
+    client = new EcdhP256KeyExchangeProcessor();
+    await client.initialize();
+  });
+
+  afterEach(() => {
+    sessionManager.destroy();
+    client.destroy();
+  });
+
+  function createTransport(): FetchTransport {
+    const api = new SecureAudioAPI(sessionManager);
+    return new FetchTransport({
+      baseUrl: 'http://localhost/',
+      fetch: async (input, init) => await api.fetch(new Request(input, init)),
+    });
+  }
+
+  it('sends the token returned by createSession', async () => {
+    const transport = createTransport();
+    const sessionId = await transport.createSession(createWavData());
+
+    await transport.performKeyExchange(sessionId, await client.createKeyExchangeRequest());
+    const info = await transport.getSessionInfo(sessionId);
+    expect(info.sessionId).toBe(sessionId);
+  });
+
+  it('rejects requests without a valid token with 401', async () => {
+    const sessionId = await createTransport().createSession(createWavData());
+    const transport = createTransport();
+
+    const error = await transport.performKeyExchange(sessionId, await client.createKeyExchangeRequest()).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).status).toBe(401);
+    expect((error as HttpError).code).toBe('INVALID_SESSION_TOKEN');
+
+    transport.setSessionToken(sessionId, await sessionManager.issueSessionToken(sessionId));
+    const response = await transport.performKeyExchange(sessionId, await client.createKeyExchangeRequest());
+    expect(response.sessionInfo?.sessionId).toBe(sessionId);
+  });
+});
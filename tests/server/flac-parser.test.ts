@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'vitest';
+import { buildFlacFrameMap, parseFlacStreamInfo } from '../../src/server/audio/flac-parser.js';
+import { parseAudioMetadata } from '../../src/server/audio/format-parser.js';
+import { WASMAudioDecoder } from '../../src/server/audio/wasm-audio-decoder.js';
+import { AudioIngest } from '../../src/server/processing/audio-ingest.js';
+import { AudioProcessor } from '../../src/server/processing/audio-processor.js';
+import { readAudioMetadata, readFlacFrameMap } from '../../src/server/sources/audio-source-provider.js';
+import { InMemoryAudioSourceProvider } from '../../src/server/sources/in-memory-source.js';
+import { DeflateCompressionProcessor } from '../../src/shared/compression/processors/deflate-processor.js';
+
+const SAFARI_UA = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15';
+const SAMPLE_RATE = 44100;
+const BLOCK_SIZE = 4096;
+const FRAMES = 20;
+const LAST_BLOCK_SIZE = 1000;
+const TOTAL_SAMPLES = FRAMES * BLOCK_SIZE + LAST_BLOCK_SIZE;
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+function crc(bytes: Uint8Array, polynomial: number, width: number): number {
+  const mask = (1 << width) - 1;
+  let value = 0;
+  for (const byte of bytes) {
+    value ^= byte << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & (1 << (width - 1)) ? ((value << 1) ^ polynomial) & mask : (value << 1) & mask;
+    }
+  }
+  return value;
+}
+
+// Stereo 16-bit samples; every 64th left sample is -8, which encodes as a frame sync code
+function createSamples(): Int16Array[] {
+  const left = new Int16Array(TOTAL_SAMPLES);
+  const right = new Int16Array(TOTAL_SAMPLES);
+  for (let i = 0; i < TOTAL_SAMPLES; i++) {
+    left[i] = i % 64 === 0 ? -8 : Math.round(Math.sin(i / 20) * 12000);
+    right[i] = (i * 37) % 20000 - 10000;
+  }
+  return [left, right];
+}
+
+// Frame with VERBATIM subframes; the frame number is coded like UTF-8
+function createFrame(samples: Int16Array[], frameNumber: number, start: number, blockSize: number): Uint8Array {
+  const number = frameNumber < 0x80 ? [frameNumber] : [0xC0 | (frameNumber >> 6), 0x80 | (frameNumber & 0x3F)];
+  const blockSizeCode = blockSize === BLOCK_SIZE ? 12 : 7;
+  const extra = blockSizeCode === 7 ? [(blockSize - 1) >> 8, (blockSize - 1) & 0xFF] : [];
+  const header = new Uint8Array([0xFF, 0xF8, (blockSizeCode << 4) | 9, (1 << 4) | (4 << 1), ...number, ...extra]);
+
+  const subframes = samples.map((channel) => {
+    const subframe = new Uint8Array(1 + blockSize * 2);
+    subframe[0] = 0x02;
+    const view = new DataView(subframe.buffer);
+    for (let i = 0; i < blockSize; i++) {
+      view.setInt16(1 + i * 2, channel[start + i], false);
+    }
+    return subframe;
+  });
+
+  const frame = concat([header, new Uint8Array([crc(header, 0x07, 8)]), ...subframes]);
+  const footer = crc(frame, 0x8005, 16);
+  return concat([frame, new Uint8Array([footer >> 8, footer & 0xFF])]);
+}
+
+// 44.1 kHz stereo FLAC, optionally with a SEEKTABLE naming every fifth frame
+function createFlacData(samples: Int16Array[], seekTable = false): ArrayBuffer {
+  const frames: Uint8Array[] = [];
+  for (let i = 0; i <= FRAMES; i++) {
+    frames.push(createFrame(samples, i, i * BLOCK_SIZE, i < FRAMES ? BLOCK_SIZE : LAST_BLOCK_SIZE));
+  }
+
+  const streamInfo = new Uint8Array(34);
+  const view = new DataView(streamInfo.buffer);
+  view.setUint16(0, BLOCK_SIZE, false);
+  view.setUint16(2, BLOCK_SIZE, false);
+  // Sample rate, 2 channels, 16 bits, total samples
+  view.setUint32(10, (SAMPLE_RATE << 12) | (1 << 9) | (15 << 4), false);
+  view.setUint32(14, TOTAL_SAMPLES, false);
+
+  const blocks = [concat([new Uint8Array([seekTable ? 0x00 : 0x80, 0, 0, 34]), streamInfo])];
+  if (seekTable) {
+    const points = new Uint8Array(18 * 5);
+    const pointView = new DataView(points.buffer);
+    let offset = 0;
+    for (let i = 0; i < FRAMES; i++) {
+      if (i % 5 === 0) {
+        pointView.setUint32((i / 5) * 18 + 4, i * BLOCK_SIZE, false);
+        pointView.setUint32((i / 5) * 18 + 12, offset, false);
+        pointView.setUint16((i / 5) * 18 + 16, BLOCK_SIZE, false);
+      }
+      offset += frames[i].length;
+    }
+    // Placeholder point
+    points.fill(0xFF, 4 * 18, 4 * 18 + 8);
+    blocks.push(concat([new Uint8Array([0x83, 0, 0, points.length]), points]));
+  }
+
+  return concat([Uint8Array.from('fLaC', char => char.charCodeAt(0)), ...blocks, ...frames]).buffer as ArrayBuffer;
+}
+
+async function generateSessionKey(): Promise<CryptoKey> {
+  return await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+async function decryptSlice(key: CryptoKey, slice: { encryptedData: ArrayBuffer; iv: ArrayBuffer }): Promise<ArrayBuffer> {
+  const compressed = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: new Uint8Array(slice.iv) }, key, slice.encryptedData);
+  return await new DeflateCompressionProcessor().decompress(compressed);
+}
+
+describe('flac parsing', () => {
+  it('reads exact sample counts and locates frames', () => {
+    const data = createFlacData(createSamples());
+    expect(parseAudioMetadata(data)).toMatchObject({
+      format: 'flac',
+      sampleRate: SAMPLE_RATE,
+      channels: 2,
+      bitDepth: 16,
+      dataOffset: 0,
+      dataLength: data.byteLength,
+      totalSamples: TOTAL_SAMPLES,
+    });
+
+    // Sync codes inside the samples are not taken for frames
+    const map = buildFlacFrameMap(data)!;
+    expect(map.seekTable).toBe(false);
+    expect(map.frameSamples).toEqual(Array.from({ length: FRAMES + 1 }, (_, i) => i * BLOCK_SIZE));
+    expect(map.totalSamples).toBe(TOTAL_SAMPLES);
+
+    const seekTableData = createFlacData(createSamples(), true);
+    const seekTableMap = buildFlacFrameMap(seekTableData)!;
+    expect(seekTableMap.seekTable).toBe(true);
+    expect(seekTableMap.frameSamples).toEqual([0, 5, 10, 15].map(i => i * BLOCK_SIZE));
+    expect(seekTableMap.frameOffsets).toEqual([0, 5, 10, 15].map(i => map.frameOffsets[i] + parseFlacStreamInfo(seekTableData)!.headerLength - map.headerLength));
+  });
+
+  it('serves standalone frame-aligned slices that decode bit-exact', async() => {
+    const samples = createSamples();
+    const decoder = new WASMAudioDecoder();
+    const sessionKey = await generateSessionKey();
+
+    for (const seekTable of [false, true]) {
+      const processed = await new AudioProcessor({ sliceDurationMs: 500 }).processAudio(createFlacData(samples, seekTable), sessionKey, 'session-1');
+      const { sliceIds, sliceOffsets } = processed.slicePlan;
+      expect(sliceOffsets.at(-1)).toBe(TOTAL_SAMPLES);
+
+      let position = 0;
+      for (let i = 0; i < sliceIds.length; i++) {
+        const slice = await decryptSlice(sessionKey, (await processed.getSlice(sliceIds[i]))!);
+        const metadata = parseAudioMetadata(slice);
+        // Slices hold the frames starting within them
+        const firstFrame = Math.ceil(sliceOffsets[i] / BLOCK_SIZE);
+        expect(position).toBe(Math.min(firstFrame * BLOCK_SIZE, TOTAL_SAMPLES));
+
+        // The decoder scales 16-bit samples by 1 / 32767
+        const pcm = new Float32Array((await decoder.decode(slice, metadata)).pcmData);
+        const decoded = Int16Array.from(pcm, value => Math.round(value * 32767));
+        const expected = new Int16Array(metadata.totalSamples! * 2);
+        for (let j = 0; j < expected.length; j += 2) {
+          expected[j] = samples[0][position];
+          expected[j + 1] = samples[1][position];
+          position++;
+        }
+        expect(decoded).toEqual(expected);
+      }
+      expect(position).toBe(TOTAL_SAMPLES);
+    }
+
+    // Strict browsers get 16-bit PCM decoded from the complete stream
+    const processor = new AudioProcessor({ sliceDurationMs: 500, audioDecoder: decoder });
+    const processed = await processor.processAudio(createFlacData(samples), sessionKey, 'session-2');
+    const { sliceIds, sliceOffsets } = processed.slicePlan;
+    const pcm = await decryptSlice(sessionKey, (await processed.getSlice(sliceIds[1], SAFARI_UA))!);
+    expect(pcm.byteLength).toBe((sliceOffsets[2] - sliceOffsets[1]) * 2 * 2);
+  });
+
+  it('indexes frames while streaming and from ranged reads', async() => {
+    const data = createFlacData(createSamples());
+    const expected = buildFlacFrameMap(data)!;
+
+    const ingest = new AudioIngest();
+    const bytes = new Uint8Array(data);
+    ingest.append(bytes.subarray(0, 60000));
+    const partial = ingest.snapshot();
+    expect(partial.format).toBe('flac');
+    expect(partial.length).toBeGreaterThan(0);
+    expect(partial.length % BLOCK_SIZE).toBe(0);
+    expect(partial.byteLength).toBe(expected.frameOffsets[partial.length / BLOCK_SIZE]);
+
+    ingest.append(bytes.subarray(60000));
+    ingest.finish();
+    expect(ingest.snapshot().flacFrames).toEqual(expected);
+
+    const provider = new InMemoryAudioSourceProvider(data);
+    const metadata = await readAudioMetadata(provider);
+    expect(metadata.totalSamples).toBe(TOTAL_SAMPLES);
+    expect(await readFlacFrameMap(provider, metadata)).toEqual(expected);
+
+    const seekTableData = createFlacData(createSamples(), true);
+    const seekTableProvider = new InMemoryAudioSourceProvider(seekTableData);
+    expect(await readFlacFrameMap(seekTableProvider, await readAudioMetadata(seekTableProvider))).toEqual(buildFlacFrameMap(seekTableData));
+  });
+});
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SessionManager } from '../../src/server/core/session-manager.js';
+import { SecureAudioAPI } from '../../src/server/http/api.js';
+import { EcdhP256KeyExchangeProcessor } from '../../src/shared/crypto/key-exchange/ecdh-p256-processor.js';
+import { SLICE_CONTENT_TYPE } from '../../src/shared/protocol/http.js';
+import { decodeSlice } from '../../src/shared/protocol/slice-envelope.js';
+import type { SessionInfo, TrackInfo } from '../../src/shared/types/interfaces.js';
+import { createWavData } from '../helpers/wav.js';
+
+const BASE = 'http://localhost/api';
+
+describe('SecureAudioAPI', () => {
+  let sessionManager: SessionManager;
+  let api: SecureAudioAPI;
+  let client: EcdhP256KeyExchangeProcessor;
+
+  beforeEach(async () => {
+    sessionManager = new SessionManager({ sliceDurationMs: 1000 });
+    api = new SecureAudioAPI(sessionManager);
+    client = new EcdhP256KeyExchangeProcessor();
+    await client.initialize();
+  });
+
+  afterEach(() => {
+    sessionManager.destroy();
+    client.destroy();
+  });
+
+  async function createSession(): Promise<string> {
+    const response = await api.fetch(new Request(`${BASE}/sessions`, { method: 'POST', body: createWavData(2) }));
+    expect(response.status).toBe(201);
+    return (await response.json() as { sessionId: string }).sessionId;
+  }
+
+  it('serves the full session lifecycle over the wire protocol', async () => {
+    const sessionId = await createSession();
+
+    const keyExchange = await api.fetch(new Request(`${BASE}/sessions/${sessionId}/key-exchange`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(await client.createKeyExchangeRequest()),
+    }));
+    expect(keyExchange.status).toBe(200);
+    const keyExchangeResponse = await keyExchange.json();
+    const sessionKey = await client.processKeyExchangeResponse(keyExchangeResponse);
+    const sessionInfo = keyExchangeResponse.sessionInfo as SessionInfo;
+
+    const info = await api.fetch(new Request(`${BASE}/sessions/${sessionId}/info`));
+    expect((await info.json() as SessionInfo).sliceIds).toEqual(sessionInfo.sliceIds);
+
+    const sliceResponse = await api.fetch(new Request(`${BASE}/sessions/${sessionId}/slices/${sessionInfo.sliceIds[1]}`));
+    expect(sliceResponse.status).toBe(200);
+    expect(sliceResponse.headers.get('Content-Type')).toBe(SLICE_CONTENT_TYPE);
+
+    const slice = decodeSlice(await sliceResponse.arrayBuffer());
+    expect(slice.sequence).toBe(1);
+    expect(slice.id).toBe(sessionInfo.sliceIds[1]);
+
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: new Uint8Array(slice.iv) },
+      sessionKey,
+      slice.encryptedData,
+    );
+    expect(decrypted.byteLength).toBeGreaterThan(0);
+
+    const deleted = await api.fetch(new Request(`${BASE}/sessions/${sessionId}`, { method: 'DELETE' }));
+    expect(deleted.status).toBe(204);
+
+    const missing = await api.fetch(new Request(`${BASE}/sessions/${sessionId}/info`));
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toMatchObject({ code: 'SESSION_NOT_FOUND' });
+  });
+
+  it('creates multi-track sessions and manages tracks with multipart uploads', async () => {
+    const form = new FormData();
+    form.append('audio', new File([createWavData(1)], 'one.wav'));
+    form.append('audio', new File([createWavData(1)], 'two.wav'));
+    const created = await api.fetch(new Request(`${BASE}/sessions`, { method: 'POST', body: form }));
+    const { sessionId } = await created.json() as { sessionId: string };
+
+    const trackForm = new FormData();
+    trackForm.append('audio', new File([createWavData(1)], 'three.wav'));
+    trackForm.append('title', 'Third');
+    const added = await api.fetch(new Request(`${BASE}/sessions/${sessionId}/tracks`, { method: 'POST', body: trackForm }));
+    expect(added.status).toBe(201);
+    expect((await added.json() as TrackInfo).title).toBe('Third');
+
+    const removed = await api.fetch(new Request(`${BASE}/sessions/${sessionId}/tracks/0`, { method: 'DELETE' }));
+    const remaining = await removed.json() as SessionInfo;
+    expect(remaining.tracks!.map(track => track.title)).toEqual(['two.wav', 'Third']);
+  });
+
+  it('maps errors to status codes and ignores foreign paths', async () => {
+    const badJson = await api.fetch(new Request(`${BASE}/sessions/unknown/key-exchange`, { method: 'POST', body: 'not json' }));
+    expect(badJson.status).toBe(400);
+
+    const unknownSession = await api.fetch(new Request(`${BASE}/sessions/unknown/key-exchange`, {
+      method: 'POST',
+      body: JSON.stringify(await client.createKeyExchangeRequest()),
+    }));
+    expect(unknownSession.status).toBe(404);
+
+    const wrongMethod = await api.fetch(new Request(`${BASE}/sessions/unknown/info`, { method: 'POST' }));
+    expect(wrongMethod.status).toBe(405);
+
+    const malformedPath = await api.fetch(new Request(`${BASE}/sessions/%E0%A4/info`));
+    expect(malformedPath.status).toBe(400);
+    expect(await malformedPath.json()).toMatchObject({ code: 'INVALID_REQUEST' });
+
+    expect(await api.handle(new Request('http://localhost/health'))).toBeNull();
+  });
+});
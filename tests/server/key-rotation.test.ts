@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { AudioProcessor } from '../../src/server/processing/audio-processor.js';
+import { deriveEpochKey, EpochKeyCache } from '../../src/shared/crypto/key-rotation.js';
+import { decodeSlice, encodeSlice } from '../../src/shared/protocol/slice-envelope.js';
+import { createWavData } from '../helpers/wav.js';
+
+async function decrypt(key: CryptoKey, encryptedData: ArrayBuffer, iv: ArrayBuffer): Promise<ArrayBuffer> {
+  return await crypto.subtle.decrypt({ name: 'AES-GCM', iv: new Uint8Array(iv) }, key, encryptedData);
+}
+
+describe('key rotation', () => {
+  it('encrypts each epoch with its own derived key', async () => {
+    const sessionKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const processor = new AudioProcessor({ sliceDurationMs: 1000, keyRotationSlices: 2 });
+    const { sessionInfo, getSlice } = await processor.processAudio(createWavData(3), sessionKey, 'session-1');
+
+    const slices = await Promise.all(sessionInfo.sliceIds.map(async sliceId => (await getSlice(sliceId))!));
+    expect(slices.map(slice => slice.keyEpoch)).toEqual([0, 0, 1]);
+
+    // The epoch survives the envelope
+    const lastSlice = decodeSlice(encodeSlice(slices[2]));
+    expect(lastSlice.keyEpoch).toBe(1);
+
+    const epochKeys = new EpochKeyCache();
+    for (const slice of slices) {
+      const epochKey = await epochKeys.get(sessionKey, 'session-1', slice.keyEpoch!);
+      await expect(decrypt(epochKey, slice.encryptedData, slice.iv)).resolves.toBeInstanceOf(ArrayBuffer);
+    }
+
+    // Neither the session key nor another epoch's key decrypts a slice
+    await expect(decrypt(sessionKey, lastSlice.encryptedData, lastSlice.iv)).rejects.toThrow();
+    const otherEpochKey = await deriveEpochKey(sessionKey, 'session-1', 0);
+    await expect(decrypt(otherEpochKey, lastSlice.encryptedData, lastSlice.iv)).rejects.toThrow();
+  });
+
+  it('derives the same epoch key from raw key bytes', async () => {
+    const sessionKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const rawKey = await crypto.subtle.exportKey('raw', sessionKey);
+    const processor = new AudioProcessor({ sliceDurationMs: 1000, keyRotationSlices: 1 });
+    const { sessionInfo, getSlice } = await processor.processAudio(createWavData(2), sessionKey, 'session-1');
+
+    const slice = (await getSlice(sessionInfo.sliceIds[1]))!;
+    const epochKey = await deriveEpochKey(rawKey, 'session-1', slice.keyEpoch!);
+    await expect(decrypt(epochKey, slice.encryptedData, slice.iv)).resolves.toBeInstanceOf(ArrayBuffer);
+  });
+
+  it('leaves slices without an epoch when rotation is disabled', async () => {
+    const sessionKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const processor = new AudioProcessor({ sliceDurationMs: 1000 });
+    const { sessionInfo, getSlice } = await processor.processAudio(createWavData(1), sessionKey, 'session-1');
+
+    const slice = (await getSlice(sessionInfo.sliceIds[0]))!;
+    expect(slice.keyEpoch).toBeUndefined();
+    await expect(decrypt(sessionKey, slice.encryptedData, slice.iv)).resolves.toBeInstanceOf(ArrayBuffer);
+  });
+});
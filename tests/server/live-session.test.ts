@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { AuthorizeHook } from '../../src/server/core/authorization.js';
+import { AuthorizationError, InvalidOperationError } from '../../src/server/core/errors.js';
+import { SecureAudioServer } from '../../src/server/core/server.js';
+import { SessionManager } from '../../src/server/core/session-manager.js';
+import { EcdhP256KeyExchangeProcessor } from '../../src/shared/crypto/key-exchange/ecdh-p256-processor.js';
+
+const SAMPLE_RATE = 44100;
+const FRAME_SIZE = 4; // 16-bit stereo
+
+// WAV header as written by live encoders: the data chunk size is unknown
+function createLiveWavHeader(): Uint8Array {
+  const buffer = new ArrayBuffer(44);
+  const view = new DataView(buffer);
+
+  view.setUint32(0, 0x52494646, false); // "RIFF"
+  view.setUint32(4, 0xFFFFFFFF, true);
+  view.setUint32(8, 0x57415645, false); // "WAVE"
+  view.setUint32(12, 0x666D7420, false); // "fmt "
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 2, true);
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * FRAME_SIZE, true);
+  view.setUint16(32, FRAME_SIZE, true);
+  view.setUint16(34, 16, true);
+  view.setUint32(36, 0x64617461, false); // "data"
+  view.setUint32(40, 0xFFFFFFFF, true);
+
+  return new Uint8Array(buffer);
+}
+
+// Push PCM in chunks that do not line up with frames or slices
+async function appendSeconds(sessionManager: SessionManager, sessionId: string, seconds: number): Promise<void> {
+  const bytes = Math.round(SAMPLE_RATE * seconds) * FRAME_SIZE;
+  for (let offset = 0; offset < bytes; offset += 10007) {
+    await sessionManager.appendLiveAudio(sessionId, new Uint8Array(Math.min(10007, bytes - offset)));
+  }
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  expect(condition()).toBe(true);
+}
+
+describe('live sessions', () => {
+  let sessionManager: SessionManager;
+  let client: EcdhP256KeyExchangeProcessor;
+
+  beforeEach(async () => {
+    sessionManager = new SessionManager({ sliceDurationMs: 1000 });
+    client = new EcdhP256KeyExchangeProcessor();
+    await client.initialize();
+  });
+
+  afterEach(() => {
+    sessionManager.destroy();
+    client.destroy();
+  });
+
+  it('publishes new slices and expires old ones from the window', async () => {
+    const sessionId = await sessionManager.createLiveSession(createLiveWavHeader(), { windowSlices: 3 });
+    await appendSeconds(sessionManager, sessionId, 2);
+
+    const response = await sessionManager.handleKeyExchange(sessionId, await client.createKeyExchangeRequest());
+    await waitFor(() => sessionManager.getSessionInfo(sessionId)?.totalSlices === 2);
+    expect(response.sessionInfo).toMatchObject({ isLive: true, isComplete: false, firstSliceIndex: 0 });
+
+    const firstSliceId = sessionManager.getSessionInfo(sessionId)!.sliceIds[0];
+    expect((await sessionManager.getSlice(sessionId, firstSliceId))?.sequence).toBe(0);
+
+    await appendSeconds(sessionManager, sessionId, 3);
+    await waitFor(() => sessionManager.getSessionInfo(sessionId)?.totalSlices === 5);
+
+    const sessionInfo = sessionManager.getSessionInfo(sessionId)!;
+    expect(sessionInfo.firstSliceIndex).toBe(2);
+    expect(sessionInfo.sliceIds).toHaveLength(3);
+    expect(await sessionManager.getSlice(sessionId, firstSliceId)).toBeNull();
+    expect((await sessionManager.getSlice(sessionId, sessionInfo.sliceIds[2]))?.sequence).toBe(4);
+  });
+
+  it('publishes the remainder when the live session ends', async () => {
+    const sessionId = await sessionManager.createLiveSession(createLiveWavHeader());
+    await sessionManager.handleKeyExchange(sessionId, await client.createKeyExchangeRequest());
+
+    await appendSeconds(sessionManager, sessionId, 1.5);
+    await sessionManager.endLiveSession(sessionId);
+    await waitFor(() => sessionManager.getSessionInfo(sessionId)?.isComplete === true);
+
+    const sessionInfo = sessionManager.getSessionInfo(sessionId)!;
+    expect(sessionInfo.totalSlices).toBe(2);
+    expect((await sessionManager.getSlice(sessionId, sessionInfo.sliceIds[1]))?.sequence).toBe(1);
+    await expect(sessionManager.appendLiveAudio(sessionId, new Uint8Array(4))).rejects.toThrow(InvalidOperationError);
+  });
+
+  it('keeps serving the live source after slice requests before key exchange', async () => {
+    const sessionId = await sessionManager.createLiveSession(createLiveWavHeader());
+    // Looks for the key in the session store, which must not replace the live session
+    expect(await sessionManager.getSlice(sessionId, 'unknown-slice')).toBeNull();
+
+    await appendSeconds(sessionManager, sessionId, 1.5);
+    await sessionManager.handleKeyExchange(sessionId, await client.createKeyExchangeRequest());
+    await waitFor(() => sessionManager.getSessionInfo(sessionId)?.totalSlices === 1);
+    const sessionInfo = sessionManager.getSessionInfo(sessionId)!;
+    expect((await sessionManager.getSlice(sessionId, sessionInfo.sliceIds[0]))?.sequence).toBe(0);
+  });
+
+  it('authorizes live operations and applies them in call order', async () => {
+    // Appends take longer to authorize than ending the stream
+    const authorize: AuthorizeHook = async (context, action, session) => {
+      if (action === 'appendLiveAudio') {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      return action === 'createSession' || context.subject === session?.owner?.subject;
+    };
+    sessionManager.destroy();
+    sessionManager = new SessionManager({ sliceDurationMs: 1000, authorize });
+    const server = new SecureAudioServer(sessionManager);
+    const alice = { subject: 'alice' };
+    const { sessionId } = await server.createLiveSession(createLiveWavHeader(), {}, alice);
+    await server.handleKeyExchange(sessionId, await client.createKeyExchangeRequest(), undefined, alice);
+
+    const chunk = new Uint8Array(SAMPLE_RATE * FRAME_SIZE);
+    await expect(server.appendLiveAudio(sessionId, chunk, { subject: 'mallory' })).rejects.toBeInstanceOf(AuthorizationError);
+    await expect(server.endLiveSession(sessionId, { subject: 'mallory' })).rejects.toBeInstanceOf(AuthorizationError);
+
+    await Promise.all([
+      server.appendLiveAudio(sessionId, chunk, alice),
+      server.appendLiveAudio(sessionId, chunk, alice),
+      server.endLiveSession(sessionId, alice),
+    ]);
+    await waitFor(() => sessionManager.getSessionInfo(sessionId)?.isComplete === true);
+    expect(sessionManager.getSessionInfo(sessionId)!.totalSlices).toBe(2);
+  });
+
+  it('rejects chunks without a complete header', async () => {
+    await expect(sessionManager.createLiveSession(createLiveWavHeader().slice(0, 20))).rejects.toThrow(InvalidOperationError);
+  });
+});
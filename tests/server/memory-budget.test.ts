@@ -0,0 +1,112 @@
+import type { SessionInfo } from '../../src/shared/types/interfaces.js';
+import { afterEach, describe, expect, it } from 'vitest';
+import { MemoryBudgetError } from '../../src/server/core/errors.js';
+import { MemoryBudget } from '../../src/server/core/memory-budget.js';
+import { SessionManager } from '../../src/server/core/session-manager.js';
+import { EcdhP256KeyExchangeProcessor } from '../../src/shared/crypto/key-exchange/ecdh-p256-processor.js';
+import { createWavData } from '../helpers/wav.js';
+
+describe('memoryBudget', () => {
+  it('refuses admissions that do not fit', async() => {
+    const budget = new MemoryBudget({ maxBytes: 1000 });
+    await budget.admit('a', 'session-a', 600);
+
+    const error = await budget.admit('b', 'session-b', 600).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(MemoryBudgetError);
+    expect((error as MemoryBudgetError).status).toBe(503);
+    expect((error as MemoryBudgetError).code).toBe('MEMORY_BUDGET_EXCEEDED');
+
+    budget.releaseSession('session-a');
+    await budget.admit('b', 'session-b', 600);
+    expect(budget.getUsage()).toMatchObject({ totalBytes: 600, source: 600 });
+  });
+
+  it('clears slice caches under pressure, least recently used first', async() => {
+    const budget = new MemoryBudget({ maxBytes: 1000 });
+    const cleared: string[] = [];
+    for (const holder of ['a', 'b']) {
+      budget.register(holder, holder, () => {
+        cleared.push(holder);
+        budget.set(holder, holder, 'sliceCache', 0);
+      });
+      budget.set(holder, holder, 'sliceCache', 300);
+    }
+    budget.touch('a');
+
+    await budget.admit('c', 'c', 500);
+    expect(cleared).toEqual(['b']);
+    expect(budget.getUsage()).toMatchObject({ totalBytes: 800, sliceCache: 300 });
+
+    budget.set('c', 'c', 'decoded', 400);
+    expect(cleared).toEqual(['b', 'a']);
+  });
+
+  it('queues admissions until memory is released', async() => {
+    const budget = new MemoryBudget({ maxBytes: 1000, admission: 'queue', queueTimeoutMs: 50 });
+    await budget.admit('a', 'session-a', 800);
+
+    const queued = budget.admit('b', 'session-b', 500);
+    expect(budget.getUsage().queued).toBe(1);
+    budget.set('a', 'session-a', 'source', 400);
+    await queued;
+    expect(budget.getUsage()).toMatchObject({ totalBytes: 900, queued: 0 });
+
+    await expect(budget.admit('c', 'session-c', 500)).rejects.toBeInstanceOf(MemoryBudgetError);
+    expect(budget.getUsage().queued).toBe(0);
+  });
+});
+
+describe('sessionManager memory budget', () => {
+  let sessionManager: SessionManager;
+
+  afterEach(() => {
+    sessionManager.destroy();
+  });
+
+  it('accounts for sessions and refuses new ones once the budget is exhausted', async() => {
+    const wavBytes = createWavData(1).byteLength;
+    sessionManager = new SessionManager({ sliceDurationMs: 250, memoryBudget: { maxBytes: wavBytes * 3.5 } });
+
+    const first = await sessionManager.createSession(createWavData(1));
+    await sessionManager.createSession(createWavData(1));
+    expect(sessionManager.getMemoryUsage()).toMatchObject({ source: wavBytes * 2 });
+
+    // Key exchange prepares the audio for slicing, and served slices are cached
+    const client = new EcdhP256KeyExchangeProcessor();
+    await client.initialize();
+    const response = await sessionManager.handleKeyExchange(first, await client.createKeyExchangeRequest());
+    await sessionManager.getSlice(first, (response.sessionInfo as SessionInfo).sliceIds[0]);
+    const usage = sessionManager.getMemoryUsage()!;
+    // The in-memory session store still holds both uploads
+    expect(usage.source).toBe(wavBytes * 2);
+    expect(usage.decoded).toBeGreaterThan(0);
+    expect(usage.sliceCache).toBeGreaterThan(0);
+    expect(usage.totalBytes).toBeLessThanOrEqual(usage.maxBytes);
+
+    await expect(sessionManager.createSession(createWavData(1))).rejects.toBeInstanceOf(MemoryBudgetError);
+    expect(sessionManager.getMemoryUsage()!.totalBytes).toBeLessThanOrEqual(usage.maxBytes);
+
+    await sessionManager.destroySession(first);
+    expect(sessionManager.getMemoryUsage()).toMatchObject({ totalBytes: wavBytes });
+    await sessionManager.createSession(createWavData(1));
+    client.destroy();
+  });
+
+  it('queues new sessions until memory is released', async() => {
+    const wavBytes = createWavData(1).byteLength;
+    sessionManager = new SessionManager({ memoryBudget: { maxBytes: wavBytes * 1.5, admission: 'queue' } });
+
+    const first = await sessionManager.createSession(createWavData(1));
+    let created = false;
+    const second = sessionManager.createSession(createWavData(1)).then((sessionId) => {
+      created = true;
+      return sessionId;
+    });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(created).toBe(false);
+
+    await sessionManager.destroySession(first);
+    expect(await second).toMatch(/^session_/);
+    expect(sessionManager.getMemoryUsage()).toMatchObject({ source: wavBytes, queued: 0 });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { parseAudioMetadata } from '../../src/server/audio/format-parser.js';
+import { buildMP3FrameMap, MP3_DECODER_DELAY, parseMP3GaplessInfo } from '../../src/server/audio/mp3-frame-parser.js';
+import { WASMAudioDecoder } from '../../src/server/audio/wasm-audio-decoder.js';
+import { AudioIngest } from '../../src/server/processing/audio-ingest.js';
+import { AudioProcessor } from '../../src/server/processing/audio-processor.js';
+import { readAudioMetadata, readMP3FrameMap } from '../../src/server/sources/audio-source-provider.js';
+import { InMemoryAudioSourceProvider } from '../../src/server/sources/in-memory-source.js';
+import { DeflateCompressionProcessor } from '../../src/shared/compression/processors/deflate-processor.js';
+import { decodeSliceTrim } from '../../src/shared/protocol/slice-trim.js';
+
+const SAFARI_UA = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15';
+const FRAME_BYTES = 417; // MPEG-1 Layer III, 128 kbps, 44.1 kHz, stereo, no padding
+const FRAME_SAMPLES = 1152;
+const FRAMES = 200;
+const ENCODER_DELAY = 576;
+const ENCODER_PADDING = 1404;
+const TOTAL_SAMPLES = FRAMES * FRAME_SAMPLES - ENCODER_DELAY - ENCODER_PADDING;
+
+// Silent MP3 led by an Info frame with a LAME extension; audio frames are numbered through their last byte
+function createMp3Data(lameTag = true): ArrayBuffer {
+  const buffer = new ArrayBuffer((FRAMES + (lameTag ? 1 : 0)) * FRAME_BYTES);
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  let offset = 0;
+  if (lameTag) {
+    view.setUint32(0, 0xFFFB9000, false);
+    // The tag follows 32 bytes of side information
+    bytes.set(Uint8Array.from('Info', char => char.charCodeAt(0)), 36);
+    view.setUint32(40, 0x1, false);
+    view.setUint32(44, FRAMES, false);
+    bytes.set(Uint8Array.from('LAME3.100', char => char.charCodeAt(0)), 48);
+    view.setUint32(48 + 20, (ENCODER_DELAY << 12) | ENCODER_PADDING, false);
+    offset = FRAME_BYTES;
+  }
+  for (let i = 0; i < FRAMES; i++) {
+    view.setUint32(offset + i * FRAME_BYTES, 0xFFFB9000, false);
+    bytes[offset + (i + 1) * FRAME_BYTES - 1] = i;
+  }
+  return buffer;
+}
+
+async function generateSessionKey(): Promise<CryptoKey> {
+  return await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+async function decryptSlice(key: CryptoKey, slice: { encryptedData: ArrayBuffer; iv: ArrayBuffer }): Promise<ArrayBuffer> {
+  const compressed = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: new Uint8Array(slice.iv) }, key, slice.encryptedData);
+  return await new DeflateCompressionProcessor().decompress(compressed);
+}
+
+describe('gapless mp3', () => {
+  it('reads encoder delay and padding from the LAME tag', () => {
+    const data = createMp3Data();
+    expect(parseMP3GaplessInfo(data, 0)).toEqual({ encoderDelay: ENCODER_DELAY, encoderPadding: ENCODER_PADDING, frameCount: FRAMES });
+    expect(parseMP3GaplessInfo(data, FRAME_BYTES)).toBeNull();
+
+    const metadata = parseAudioMetadata(data);
+    expect(metadata).toMatchObject({ format: 'mp3', encoderDelay: ENCODER_DELAY, encoderPadding: ENCODER_PADDING, totalSamples: TOTAL_SAMPLES });
+    expect(metadata.duration).toBe(TOTAL_SAMPLES / 44100);
+
+    // The Info frame carries no audio
+    const frameBoundaries = buildMP3FrameMap(data);
+    expect(frameBoundaries).toHaveLength(FRAMES);
+    expect(frameBoundaries[0]).toBe(FRAME_BYTES);
+  });
+
+  it('serves slices with a pre-roll frame and trims', async() => {
+    const sessionKey = await generateSessionKey();
+
+    for (const lameTag of [true, false]) {
+      const delay = (lameTag ? ENCODER_DELAY : 0) + MP3_DECODER_DELAY;
+      const totalSamples = lameTag ? TOTAL_SAMPLES : FRAMES * FRAME_SAMPLES - MP3_DECODER_DELAY;
+      const data = createMp3Data(lameTag);
+      const processed = await new AudioProcessor({ sliceDurationMs: 500 }).processAudio(data, sessionKey, 'session-1');
+      const { sliceIds, sliceOffsets } = processed.slicePlan;
+      expect(sliceOffsets.at(-1)).toBe(totalSamples);
+
+      for (let i = 0; i < sliceIds.length; i++) {
+        const encrypted = (await processed.getSlice(sliceIds[i]))!;
+        // The trim is encrypted along with the frames, not sent in the clear
+        expect(encrypted).not.toHaveProperty('trim');
+        const { trim, audio } = decodeSliceTrim(await decryptSlice(sessionKey, encrypted));
+        const slice = new Uint8Array(audio);
+        expect(slice.length % FRAME_BYTES).toBe(0);
+
+        // Frames start one early, except at the start of the audio
+        const firstFrame = slice[FRAME_BYTES - 1];
+        expect(firstFrame).toBe(Math.max(0, Math.floor((sliceOffsets[i] + delay) / FRAME_SAMPLES) - 1));
+
+        // The trims cover the decoded samples outside of the slice
+        expect(trim!.start).toBe(sliceOffsets[i] + delay - firstFrame * FRAME_SAMPLES);
+        expect(trim!.start + sliceOffsets[i + 1] - sliceOffsets[i] + trim!.end).toBe((slice.length / FRAME_BYTES) * FRAME_SAMPLES);
+        expect(trim!.end).toBeLessThan(FRAME_SAMPLES + (i === sliceIds.length - 1 ? delay : 0));
+      }
+    }
+
+    // Strict browsers get PCM, which the decoder has trimmed already
+    const processed = await new AudioProcessor({ sliceDurationMs: 500, audioDecoder: new WASMAudioDecoder() }).processAudio(createMp3Data(), sessionKey, 'session-2');
+    const slice = await processed.getSlice(processed.slicePlan.sliceIds[1], SAFARI_UA);
+    expect(decodeSliceTrim(await decryptSlice(sessionKey, slice!)).trim).toBeUndefined();
+  });
+
+  it('counts gapless samples while streaming and from ranged reads', async() => {
+    const data = createMp3Data();
+    const bytes = new Uint8Array(data);
+    const ingest = new AudioIngest();
+    ingest.append(bytes.subarray(0, 100 * FRAME_BYTES + 200));
+    const partial = ingest.snapshot();
+    expect(partial.format).toBe('mp3');
+    expect(partial.mp3SamplesPerFrame).toBe(FRAME_SAMPLES);
+    expect(partial.length).toBe(99 * FRAME_SAMPLES - ENCODER_DELAY - MP3_DECODER_DELAY);
+
+    ingest.append(bytes.subarray(100 * FRAME_BYTES + 200));
+    ingest.finish();
+    expect(ingest.snapshot().length).toBe(TOTAL_SAMPLES);
+
+    const provider = new InMemoryAudioSourceProvider(data);
+    const metadata = await readAudioMetadata(provider);
+    expect(metadata).toMatchObject({ encoderDelay: ENCODER_DELAY, encoderPadding: ENCODER_PADDING });
+    expect(await readMP3FrameMap(provider, metadata)).toEqual({ frameBoundaries: buildMP3FrameMap(data), samplesPerFrame: FRAME_SAMPLES });
+  });
+});
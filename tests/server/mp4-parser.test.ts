@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+import { parseAudioMetadata } from '../../src/server/audio/format-parser.js';
+import { parseMP4SampleTable } from '../../src/server/audio/mp4-parser.js';
+import { AudioIngest } from '../../src/server/processing/audio-ingest.js';
+import { AudioProcessor } from '../../src/server/processing/audio-processor.js';
+import { readAudioMetadata, readMP4SampleTable } from '../../src/server/sources/audio-source-provider.js';
+import { InMemoryAudioSourceProvider } from '../../src/server/sources/in-memory-source.js';
+import { DeflateCompressionProcessor } from '../../src/shared/compression/processors/deflate-processor.js';
+
+const SAFARI_UA = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15';
+const SAMPLE_RATE = 44100;
+const ENCODER_DELAY = 2112;
+
+interface M4AOptions {
+  codec?: 'mp4a' | 'alac';
+  frames?: number;
+  moovAtEnd?: boolean;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+function u32(...values: number[]): Uint8Array {
+  const bytes = new Uint8Array(values.length * 4);
+  values.forEach((value, i) => new DataView(bytes.buffer).setUint32(i * 4, value >>> 0, false));
+  return bytes;
+}
+
+function box(type: string, ...parts: Uint8Array[]): Uint8Array {
+  const payload = concat(parts);
+  return concat([u32(8 + payload.length), Uint8Array.from(type, char => char.charCodeAt(0)), payload]);
+}
+
+function fullBox(type: string, flags: number, ...parts: Uint8Array[]): Uint8Array {
+  return box(type, u32(flags), ...parts);
+}
+
+// Access units of varying size, numbered through their payload
+function createUnits(frames: number): Uint8Array[] {
+  return Array.from({ length: frames }, (_, i) => new Uint8Array(100 + (i % 7) * 10).fill(i & 0xFF));
+}
+
+// Stereo 44.1 kHz M4A: chunks of 10 units, then of 5, with 8 foreign bytes between chunks.
+// AAC tracks carry an empty edit and an edit skipping the priming, 2 s long
+function createM4AData(options: M4AOptions = {}): { data: ArrayBuffer; units: Uint8Array[]; totalSamples: number } {
+  const codec = options.codec ?? 'mp4a';
+  const frames = options.frames ?? 100;
+  const frameSamples = codec === 'mp4a' ? 1024 : 4096;
+  const units = createUnits(frames);
+
+  const chunks: Uint8Array[][] = [];
+  for (let i = 0; i < frames;) {
+    const size = chunks.length < 5 ? 10 : 5;
+    chunks.push(units.slice(i, i + size));
+    i += size;
+  }
+
+  const codecConfig = codec === 'mp4a' ? fullBox('esds', 0, new Uint8Array(20).fill(3)) : fullBox('alac', 0, new Uint8Array(24).fill(4));
+  const sampleEntry = box(codec, new Uint8Array(6), new Uint8Array([0, 1]), new Uint8Array(8), new Uint8Array([0, 2, 0, 16, 0, 0, 0, 0]), u32(SAMPLE_RATE * 65536), codecConfig);
+  const edits = codec === 'mp4a' ? [box('edts', fullBox('elst', 0, u32(2, 10, 0xFFFFFFFF, 0x00010000, 2000, ENCODER_DELAY, 0x00010000)))] : [];
+
+  const buildMoov = (mdatOffset: number): Uint8Array => {
+    const chunkOffsets: number[] = [];
+    let offset = mdatOffset + 8;
+    for (const chunk of chunks) {
+      chunkOffsets.push(offset);
+      offset += chunk.reduce((sum, unit) => sum + unit.length, 0) + 8;
+    }
+    const stbl = box(
+      'stbl',
+      fullBox('stsd', 0, u32(1), sampleEntry),
+      fullBox('stts', 0, u32(1, frames, frameSamples)),
+      fullBox('stsc', 0, u32(2, 1, 10, 1, 6, 5, 1)),
+      fullBox('stsz', 0, u32(0, frames, ...units.map(unit => unit.length))),
+      fullBox('stco', 0, u32(chunkOffsets.length, ...chunkOffsets)),
+    );
+    const mdia = box(
+      'mdia',
+      fullBox('mdhd', 0, u32(0, 0, SAMPLE_RATE, frames * frameSamples, 0x55C40000)),
+      fullBox('hdlr', 0, u32(0), Uint8Array.from('soun', char => char.charCodeAt(0)), u32(0, 0, 0), new Uint8Array(1)),
+      box('minf', fullBox('smhd', 0, u32(0)), stbl),
+    );
+    return box('moov', fullBox('mvhd', 0, u32(0, 0, 1000, 2000), new Uint8Array(80)), box('trak', ...edits, mdia));
+  };
+
+  const ftyp = box('ftyp', Uint8Array.from('M4A mp42', char => char.charCodeAt(0)));
+  const mdat = box('mdat', ...chunks.flatMap(chunk => [...chunk, new Uint8Array(8).fill(0xEE)]));
+  const moovSize = buildMoov(0).length;
+  const parts = options.moovAtEnd
+    ? [ftyp, mdat, buildMoov(ftyp.length)]
+    : [ftyp, buildMoov(ftyp.length + moovSize), mdat];
+
+  const totalSamples = codec === 'mp4a' ? 2 * SAMPLE_RATE : frames * frameSamples;
+  return { data: concat(parts).buffer as ArrayBuffer, units, totalSamples };
+}
+
+async function generateSessionKey(): Promise<CryptoKey> {
+  return await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+async function decryptSlice(key: CryptoKey, slice: { encryptedData: ArrayBuffer; iv: ArrayBuffer }): Promise<ArrayBuffer> {
+  const compressed = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: new Uint8Array(slice.iv) }, key, slice.encryptedData);
+  return await new DeflateCompressionProcessor().decompress(compressed);
+}
+
+describe('mp4 parsing', () => {
+  it('reads exact sample counts from the sample table and edit list', () => {
+    const { data, units, totalSamples } = createM4AData({ moovAtEnd: true });
+    const metadata = parseAudioMetadata(data);
+
+    expect(metadata).toMatchObject({
+      format: 'aac',
+      codec: 'aac',
+      container: 'mp4',
+      sampleRate: SAMPLE_RATE,
+      channels: 2,
+      bitDepth: 16,
+      dataOffset: 0,
+      dataLength: data.byteLength,
+      totalSamples,
+    });
+    expect(metadata.duration).toBe(2);
+
+    const table = parseMP4SampleTable(data)!;
+    expect(table.encoderDelay).toBe(ENCODER_DELAY);
+    expect(table.sampleOffsets).toHaveLength(100);
+    table.sampleOffsets.forEach((offset, i) => {
+      expect(new Uint8Array(data, offset, table.sampleSizes[i])).toEqual(units[i]);
+    });
+
+    expect(parseAudioMetadata(createM4AData({ codec: 'alac', frames: 30 }).data)).toMatchObject({ format: 'alac', container: 'mp4', totalSamples: 30 * 4096 });
+  });
+
+  it('serves standalone M4A slices cut at access units', async() => {
+    const { data, units, totalSamples } = createM4AData();
+    const sessionKey = await generateSessionKey();
+    const processed = await new AudioProcessor({ sliceDurationMs: 500 }).processAudio(data, sessionKey, 'session-1');
+    const { sliceIds, sliceOffsets } = processed.slicePlan;
+
+    expect(processed.sessionInfo.format).toBe('aac');
+    expect(sliceOffsets.at(-1)).toBe(totalSamples);
+
+    for (let i = 0; i < sliceIds.length; i++) {
+      const slice = await decryptSlice(sessionKey, (await processed.getSlice(sliceIds[i]))!);
+      const target = sliceOffsets[i] + ENCODER_DELAY;
+      const first = Math.floor(Math.max(0, target - 2048) / 1024);
+
+      // The edit list skips the pre-roll and ends with the slice
+      const table = parseMP4SampleTable(slice)!;
+      expect(table.encoderDelay).toBe(target - first * 1024);
+      expect(table.totalSamples).toBe(sliceOffsets[i + 1] - sliceOffsets[i]);
+      expect(table.sampleEnds.at(-1)).toBeGreaterThanOrEqual(table.encoderDelay + table.totalSamples);
+      table.sampleOffsets.forEach((offset, j) => {
+        expect(new Uint8Array(slice, offset, table.sampleSizes[j])).toEqual(units[first + j]);
+      });
+
+      // Strict browsers decode the same slices, without a PCM decoder
+      const strictSlice = await decryptSlice(sessionKey, (await processed.getSlice(sliceIds[i], SAFARI_UA))!);
+      expect(new Uint8Array(strictSlice)).toEqual(new Uint8Array(slice));
+    }
+
+    // ALAC frames decode on their own, so slices have no pre-roll
+    const alac = createM4AData({ codec: 'alac', frames: 30 });
+    const alacProcessed = await new AudioProcessor({ sliceDurationMs: 1000 }).processAudio(alac.data, sessionKey, 'session-2');
+    const second = await decryptSlice(sessionKey, (await alacProcessed.getSlice(alacProcessed.slicePlan.sliceIds[1]))!);
+    const start = alacProcessed.slicePlan.sliceOffsets[1];
+    expect(parseMP4SampleTable(second)!.encoderDelay).toBe(start % 4096);
+  });
+
+  it('reads the movie box while streaming and from ranged reads', async() => {
+    const { data, totalSamples } = createM4AData();
+    const bytes = new Uint8Array(data);
+    const ingest = new AudioIngest();
+    ingest.append(bytes.subarray(0, 4000));
+    const partial = ingest.snapshot();
+    expect(partial.format).toBe('aac');
+    expect(partial.length).toBeGreaterThan(0);
+    expect(partial.length).toBeLessThan(totalSamples);
+    ingest.append(bytes.subarray(4000));
+    ingest.finish();
+    expect(ingest.snapshot().length).toBe(totalSamples);
+
+    // The movie box after the media data only arrives with the end of the upload
+    const moovAtEnd = new Uint8Array(createM4AData({ moovAtEnd: true }).data);
+    const lateIngest = new AudioIngest();
+    lateIngest.append(moovAtEnd.subarray(0, moovAtEnd.length - 100));
+    expect(lateIngest.isReady).toBe(false);
+    lateIngest.append(moovAtEnd.subarray(moovAtEnd.length - 100));
+    expect(lateIngest.snapshot().length).toBe(totalSamples);
+
+    const provider = new InMemoryAudioSourceProvider(moovAtEnd.buffer);
+    const metadata = await readAudioMetadata(provider);
+    expect(metadata).toMatchObject({ format: 'aac', dataLength: moovAtEnd.length, totalSamples });
+    expect(await readMP4SampleTable(provider, metadata)).toEqual(parseMP4SampleTable(moovAtEnd.buffer));
+  });
+});
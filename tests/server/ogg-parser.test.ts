@@ -0,0 +1,242 @@
+import { describe, expect, it } from 'vitest';
+import { parseAudioMetadata } from '../../src/server/audio/format-parser.js';
+import { buildOggPageMap, detectOggCodec, pageChecksum, parseOggPageHeader } from '../../src/server/audio/ogg-parser.js';
+import { buildOpusPacketMap } from '../../src/server/audio/opus-parser.js';
+import { AudioIngest } from '../../src/server/processing/audio-ingest.js';
+import { AudioProcessor } from '../../src/server/processing/audio-processor.js';
+import { readAudioMetadata, readOggPageMap } from '../../src/server/sources/audio-source-provider.js';
+import { InMemoryAudioSourceProvider } from '../../src/server/sources/in-memory-source.js';
+import { DeflateCompressionProcessor } from '../../src/shared/compression/processors/deflate-processor.js';
+
+const SAMPLES_PER_PAGE = 4096;
+
+interface PageSpec {
+  granule: number;
+  segments: number[];
+  flags?: number;
+  body?: Uint8Array;
+}
+
+function asciiBytes(text: string): number[] {
+  return Array.from(text, char => char.charCodeAt(0));
+}
+
+// Lacing values of one packet
+function lacing(size: number): number[] {
+  return [...Array.from({ length: Math.floor(size / 255) }, () => 255), size % 255];
+}
+
+function createOggPage(sequence: number, spec: PageSpec): Uint8Array {
+  const bodyLength = spec.segments.reduce((sum, value) => sum + value, 0);
+  const page = new Uint8Array(27 + spec.segments.length + bodyLength);
+  const view = new DataView(page.buffer);
+
+  view.setUint32(0, 0x4F676753, false); // "OggS"
+  view.setUint8(5, spec.flags ?? 0);
+  if (spec.granule < 0) {
+    view.setUint32(6, 0xFFFFFFFF, true);
+    view.setUint32(10, 0xFFFFFFFF, true);
+  } else {
+    view.setUint32(6, spec.granule, true);
+  }
+  view.setUint32(14, 0x1234, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, spec.segments.length);
+  page.set(spec.segments, 27);
+
+  const bodyOffset = 27 + spec.segments.length;
+  if (spec.body) {
+    page.set(spec.body, bodyOffset);
+  } else {
+    page.fill(sequence & 0x3F, bodyOffset);
+  }
+  view.setUint32(22, pageChecksum(page), true);
+  return page;
+}
+
+function createOggStream(headerPages: PageSpec[], audioPages: PageSpec[]): ArrayBuffer {
+  const pages = [...headerPages, ...audioPages].map((spec, sequence) => createOggPage(sequence, spec));
+  const stream = new Uint8Array(pages.reduce((sum, page) => sum + page.length, 0));
+  let offset = 0;
+  for (const page of pages) {
+    stream.set(page, offset);
+    offset += page.length;
+  }
+  return stream.buffer;
+}
+
+// Vorbis stream (44.1 kHz stereo, 128 kbps nominal) with 4 packets of 1000 bytes per page;
+// page 10 holds only the start of a packet that page 11 completes
+function createVorbisData(pageCount: number): ArrayBuffer {
+  const identification = new Uint8Array(30);
+  const view = new DataView(identification.buffer);
+  identification.set([1, ...asciiBytes('vorbis')]);
+  view.setUint8(11, 2);
+  view.setUint32(12, 44100, true);
+  view.setInt32(20, 128000, true);
+  identification[28] = 0xB8;
+  identification[29] = 1;
+
+  const comment = new Uint8Array(20);
+  comment.set([3, ...asciiBytes('vorbis')]);
+  const setup = new Uint8Array(40);
+  setup.set([5, ...asciiBytes('vorbis')]);
+  const setupBody = new Uint8Array(60);
+  setupBody.set(comment);
+  setupBody.set(setup, 20);
+
+  const packets = [1000, 1000, 1000, 1000].flatMap(lacing);
+  const audioPages = Array.from({ length: pageCount }, (_, i): PageSpec => {
+    if (i === 10) {
+      return { granule: -1, segments: [255, 255, 255, 255] };
+    }
+    if (i === 11) {
+      return { granule: (i + 1) * SAMPLES_PER_PAGE, segments: [100, ...packets], flags: 0x01 };
+    }
+    return { granule: (i + 1) * SAMPLES_PER_PAGE, segments: packets };
+  });
+
+  return createOggStream([
+    { granule: 0, segments: [30], flags: 0x02, body: identification },
+    { granule: 0, segments: [20, 40], body: setupBody },
+  ], audioPages);
+}
+
+// Opus stream (stereo, 312 samples pre-skip) with one packet per page
+function createOpusData(pageCount: number): ArrayBuffer {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(asciiBytes('OpusHead'));
+  view.setUint8(8, 1);
+  view.setUint8(9, 2);
+  view.setUint16(10, 312, true);
+  view.setUint32(12, 44100, true);
+  const tags = new Uint8Array(16);
+  tags.set(asciiBytes('OpusTags'));
+
+  return createOggStream([
+    { granule: 0, segments: [19], flags: 0x02, body: head },
+    { granule: 0, segments: [16], body: tags },
+  ], Array.from({ length: pageCount }, (_, i) => ({ granule: 312 + (i + 1) * 960, segments: [120] })));
+}
+
+function parsePages(buffer: ArrayBuffer): Array<{ offset: number; length: number; sequenceNumber: number; checksumValid: boolean }> {
+  const pages = [];
+  const view = new DataView(buffer);
+  let offset = 0;
+  while (offset < buffer.byteLength) {
+    const page = parseOggPageHeader(buffer, offset)!;
+    const checksumValid = pageChecksum(new Uint8Array(buffer, offset, page.length)) === view.getUint32(offset + 22, true);
+    pages.push({ offset, length: page.length, sequenceNumber: page.sequenceNumber, checksumValid });
+    offset += page.length;
+  }
+  return pages;
+}
+
+async function generateSessionKey(): Promise<CryptoKey> {
+  return await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+describe('ogg parsing', () => {
+  it('reads Vorbis identification headers and granule-based length', () => {
+    const oggData = createVorbisData(40);
+    const metadata = parseAudioMetadata(oggData);
+
+    expect(metadata).toMatchObject({
+      format: 'ogg',
+      codec: 'vorbis',
+      sampleRate: 44100,
+      channels: 2,
+      bitrate: 128,
+      dataOffset: 0,
+      dataLength: oggData.byteLength,
+      totalSamples: 40 * SAMPLES_PER_PAGE,
+    });
+    expect(metadata.duration).toBeCloseTo((40 * SAMPLES_PER_PAGE) / 44100, 6);
+
+    const pageMap = buildOggPageMap(oggData)!;
+    expect(pageMap.headerLength).toBe(27 + 1 + 30 + 27 + 2 + 60);
+    expect(pageMap.pageOffsets).toHaveLength(40);
+    // The page completing no packet ends with the next page
+    expect(pageMap.pageEnds[10]).toBe(12 * SAMPLES_PER_PAGE);
+    expect(pageMap.totalSamples).toBe(40 * SAMPLES_PER_PAGE);
+  });
+
+  it('reads Opus headers and subtracts the pre-skip', () => {
+    const metadata = parseAudioMetadata(createOpusData(50));
+    expect(metadata).toMatchObject({ format: 'opus', container: 'ogg', codec: 'opus', sampleRate: 48000, channels: 2, preSkip: 312, totalSamples: 50 * 960 });
+  });
+
+  it('falls back for Ogg streams of other codecs', () => {
+    const flacHead = new Uint8Array(13);
+    flacHead.set([0x7F, ...asciiBytes('FLAC')]);
+    const oggData = createOggStream([{ granule: 0, segments: [13], flags: 0x02, body: flacHead }], [{ granule: 4096, segments: [200] }]);
+    expect(parseAudioMetadata(oggData).format).toBe('unknown');
+  });
+
+  it('treats first pages without a complete identification header as other codecs', () => {
+    const truncatedOpus = new Uint8Array(asciiBytes('OpusHead'));
+    for (const firstPage of [{ granule: 0, segments: [], flags: 0x02 }, { granule: 0, segments: [8], flags: 0x02, body: truncatedOpus }]) {
+      const oggData = createOggStream([firstPage], [{ granule: 4096, segments: [200] }]);
+      expect(detectOggCodec(oggData)).toBe('unknown');
+      expect(parseAudioMetadata(oggData).format).toBe('unknown');
+      expect(buildOggPageMap(oggData)).toBeNull();
+      expect(buildOpusPacketMap(oggData)).toBeNull();
+    }
+  });
+
+  it('serves page-aligned slices that start with the codec headers', async() => {
+    const oggData = createVorbisData(40);
+    const sessionKey = await generateSessionKey();
+    const processed = await new AudioProcessor({ sliceDurationMs: 1000 }).processAudio(oggData, sessionKey, 'session-1');
+    const headerLength = buildOggPageMap(oggData)!.headerLength;
+    const header = new Uint8Array(oggData, 0, headerLength);
+    const compression = new DeflateCompressionProcessor();
+
+    expect(processed.sessionInfo.format).toBe('ogg');
+    expect(processed.slicePlan.sliceOffsets.at(-1)).toBe(40 * SAMPLES_PER_PAGE);
+
+    const audioPages: Uint8Array[] = [];
+    for (const sliceId of processed.slicePlan.sliceIds) {
+      const slice = (await processed.getSlice(sliceId))!;
+      const compressed = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: new Uint8Array(slice.iv) }, sessionKey, slice.encryptedData);
+      const data = await compression.decompress(compressed);
+
+      expect(new Uint8Array(data, 0, headerLength)).toEqual(header);
+      const pages = parsePages(data);
+      expect(pages.map(page => page.sequenceNumber)).toEqual(pages.map((_, index) => index));
+      expect(pages.every(page => page.checksumValid)).toBe(true);
+      audioPages.push(...pages.slice(2).map(page => new Uint8Array(data, page.offset, page.length)));
+    }
+
+    // Slices split the audio pages without gaps or overlap
+    expect(audioPages).toHaveLength(40);
+    const original = parsePages(oggData).slice(2);
+    audioPages.forEach((page, index) => {
+      expect(page.slice(27)).toEqual(new Uint8Array(oggData, original[index].offset + 27, original[index].length - 27));
+    });
+  });
+
+  it('indexes pages while streaming and from ranged reads', async() => {
+    // Larger than one provider scan chunk
+    const oggData = createVorbisData(300);
+    const expected = buildOggPageMap(oggData)!;
+
+    const ingest = new AudioIngest();
+    const bytes = new Uint8Array(oggData);
+    ingest.append(bytes.subarray(0, 100_000));
+    const partial = ingest.snapshot();
+    const completePages = expected.pageOffsets.filter((offset, index) => (expected.pageOffsets[index + 1] ?? oggData.byteLength) <= 100_000);
+    expect(partial.byteLength).toBe(expected.pageOffsets[completePages.length]);
+    expect(partial.length).toBe(expected.pageEnds[completePages.length - 1]);
+
+    ingest.append(bytes.subarray(100_000));
+    ingest.finish();
+    expect(ingest.snapshot().oggPages).toEqual(expected);
+
+    const provider = new InMemoryAudioSourceProvider(oggData);
+    const metadata = await readAudioMetadata(provider);
+    expect(metadata.totalSamples).toBe(300 * SAMPLES_PER_PAGE);
+    expect(await readOggPageMap(provider, metadata)).toEqual(expected);
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, expect, it } from 'vitest';
+import { detectAudioFormat, parseAudioMetadata } from '../../src/server/audio/format-parser.js';
+import { parseOggPageHeader, writeOggPage } from '../../src/server/audio/ogg-parser.js';
+import { buildOpusPacketMap, parseOpusHead } from '../../src/server/audio/opus-parser.js';
+import { WASMAudioDecoder } from '../../src/server/audio/wasm-audio-decoder.js';
+import { AudioIngest } from '../../src/server/processing/audio-ingest.js';
+import { AudioProcessor } from '../../src/server/processing/audio-processor.js';
+import { readAudioMetadata, readOpusPacketMap } from '../../src/server/sources/audio-source-provider.js';
+import { InMemoryAudioSourceProvider } from '../../src/server/sources/in-memory-source.js';
+import { DeflateCompressionProcessor } from '../../src/shared/compression/processors/deflate-processor.js';
+
+const SAFARI_UA = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15';
+const PRE_SKIP = 312;
+const PACKET_SAMPLES = 960;
+
+// CELT 20 ms stereo packets (TOC 0xFC), numbered through their payload
+function createPackets(count: number): Uint8Array[] {
+  return Array.from({ length: count }, (_, i) => {
+    const packet = new Uint8Array(80).fill(i & 0xFF);
+    packet[0] = 0xFC;
+    return packet;
+  });
+}
+
+function createOpusHead(): Uint8Array {
+  const head = new Uint8Array(19);
+  head.set(Array.from('OpusHead', char => char.charCodeAt(0)));
+  const view = new DataView(head.buffer);
+  view.setUint8(8, 1);
+  view.setUint8(9, 2);
+  view.setUint16(10, PRE_SKIP, true);
+  view.setUint32(12, 48000, true);
+  return head;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+// Ogg Opus with 10 packets per page; the last page trims endTrim samples
+function createOggOpusData(packets: Uint8Array[], endTrim = 0): ArrayBuffer {
+  const tags = new Uint8Array(16);
+  tags.set(Array.from('OpusTags', char => char.charCodeAt(0)));
+  const pages = [writeOggPage([createOpusHead()], 0x02, 0, 7, 0), writeOggPage([tags], 0, 0, 7, 1)];
+  for (let i = 0; i < packets.length; i += 10) {
+    const isLast = i + 10 >= packets.length;
+    const granule = PRE_SKIP + Math.min(i + 10, packets.length) * PACKET_SAMPLES - (isLast ? endTrim : 0);
+    pages.push(writeOggPage(packets.slice(i, i + 10), isLast ? 0x04 : 0, granule, 7, pages.length));
+  }
+  return concat(pages).buffer as ArrayBuffer;
+}
+
+// EBML element with an 8-byte size, or an unknown size as written by live recorders
+function ebml(id: number, children: Uint8Array[] | Uint8Array, unknownSize = false): Uint8Array {
+  const payload = children instanceof Uint8Array ? children : concat(children);
+  const idBytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    idBytes.unshift(value & 0xFF);
+  }
+  const size = new Uint8Array(8);
+  size[0] = 0x01;
+  if (unknownSize) {
+    size.fill(0xFF, 1);
+  } else {
+    new DataView(size.buffer).setUint32(4, payload.length, false);
+  }
+  return concat([new Uint8Array(idBytes), size, unknownSize ? new Uint8Array(0) : payload]);
+}
+
+function ebmlUint(id: number, value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, false);
+  return ebml(id, bytes);
+}
+
+function simpleBlock(track: number, frames: Uint8Array[]): Uint8Array {
+  if (frames.length === 1) {
+    return ebml(0xA3, concat([new Uint8Array([0x80 | track, 0, 0, 0x80]), frames[0]]));
+  }
+  // Xiph lacing (frames shorter than 255 bytes)
+  const sizes = frames.slice(0, -1).map(frame => frame.length);
+  return ebml(0xA3, concat([new Uint8Array([0x80 | track, 0, 0, 0x82, frames.length - 1, ...sizes]), ...frames]));
+}
+
+// MediaRecorder-style WebM: segment and clusters of unknown size, 50 packets per cluster,
+// a laced block and a block of another track
+function createWebMOpusData(packets: Uint8Array[]): ArrayBuffer {
+  const sampleRate = new Uint8Array(8);
+  new DataView(sampleRate.buffer).setFloat64(0, 48000, false);
+
+  const parts = [
+    ebml(0x1A45DFA3, [ebml(0x4282, new TextEncoder().encode('webm'))]),
+    ebml(0x18538067, [], true),
+    ebml(0x1549A966, [ebmlUint(0x2AD7B1, 1000000)]),
+    ebml(0x1654AE6B, [ebml(0xAE, [
+      ebmlUint(0xD7, 1),
+      ebmlUint(0x83, 2),
+      ebml(0x86, new TextEncoder().encode('A_OPUS')),
+      ebml(0x63A2, createOpusHead()),
+      ebmlUint(0x56AA, 6500000),
+      ebml(0xE1, [ebml(0xB5, sampleRate), ebmlUint(0x9F, 2)]),
+    ])]),
+  ];
+  for (let i = 0; i < packets.length; i += 50) {
+    parts.push(ebml(0x1F43B675, [], true), ebmlUint(0xE7, i * 20));
+    const clusterPackets = packets.slice(i, i + 50);
+    parts.push(simpleBlock(1, clusterPackets.slice(0, 2)), simpleBlock(2, [new Uint8Array(30)]));
+    parts.push(...clusterPackets.slice(2).map(packet => simpleBlock(1, [packet])));
+  }
+  return concat(parts).buffer as ArrayBuffer;
+}
+
+// Pages of an Ogg stream: first packet of the first page, granule positions, flags and packets
+function parseOggOpus(buffer: ArrayBuffer): { preSkip: number; granule: number; endOfStream: boolean; packets: Uint8Array[] } {
+  const bytes = new Uint8Array(buffer);
+  const packets: Uint8Array[] = [];
+  let offset = 0;
+  let granule = 0;
+  let headerType = 0;
+  while (offset < buffer.byteLength) {
+    const page = parseOggPageHeader(buffer, offset)!;
+    let position = page.bodyOffset;
+    for (let i = 0; i < page.bodyOffset - offset - 27; i++) {
+      const length = bytes[offset + 27 + i];
+      packets.push(bytes.slice(position, position + length));
+      position += length;
+    }
+    granule = page.granulePosition;
+    headerType = page.headerType;
+    offset += page.length;
+  }
+  return { preSkip: parseOpusHead(packets[0])!.preSkip, granule, endOfStream: (headerType & 0x04) !== 0, packets: packets.slice(2) };
+}
+
+async function generateSessionKey(): Promise<CryptoKey> {
+  return await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+async function decryptSlice(key: CryptoKey, slice: { encryptedData: ArrayBuffer; iv: ArrayBuffer }): Promise<ArrayBuffer> {
+  const compressed = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: new Uint8Array(slice.iv) }, key, slice.encryptedData);
+  return await new DeflateCompressionProcessor().decompress(compressed);
+}
+
+describe('opus', () => {
+  it('detects and parses Opus in Ogg and WebM', () => {
+    const packets = createPackets(100);
+    const oggData = createOggOpusData(packets, 500);
+    expect(detectAudioFormat(oggData)).toBe('opus');
+    expect(parseAudioMetadata(oggData)).toMatchObject({
+      format: 'opus',
+      container: 'ogg',
+      sampleRate: 48000,
+      channels: 2,
+      preSkip: PRE_SKIP,
+      totalSamples: 100 * PACKET_SAMPLES - 500,
+    });
+
+    const webmData = createWebMOpusData(packets);
+    expect(detectAudioFormat(webmData)).toBe('webm');
+    expect(parseAudioMetadata(webmData)).toMatchObject({ format: 'opus', container: 'webm', sampleRate: 48000, channels: 2, preSkip: PRE_SKIP });
+
+    // Laced frames are split and other tracks ignored
+    const packetMap = buildOpusPacketMap(webmData)!;
+    expect(packetMap.packetOffsets).toHaveLength(100);
+    expect(packetMap.totalSamples).toBe(100 * PACKET_SAMPLES - PRE_SKIP);
+    expect(new Uint8Array(webmData, packetMap.packetOffsets[1], packetMap.packetEnds[1] - packetMap.packetOffsets[1])).toEqual(packets[1]);
+  });
+
+  it('serves sample-accurate Ogg Opus slices with a pre-roll', async() => {
+    const packets = createPackets(150);
+    const sessionKey = await generateSessionKey();
+    const processed = await new AudioProcessor({ sliceDurationMs: 1000 }).processAudio(createWebMOpusData(packets), sessionKey, 'session-1');
+    const { sliceIds, sliceOffsets } = processed.slicePlan;
+
+    expect(processed.sessionInfo).toMatchObject({ format: 'opus', sampleRate: 48000 });
+    expect(sliceOffsets.at(-1)).toBe(150 * PACKET_SAMPLES - PRE_SKIP);
+
+    for (let i = 0; i < sliceIds.length; i++) {
+      const slice = parseOggOpus(await decryptSlice(sessionKey, (await processed.getSlice(sliceIds[i]))!));
+      const start = sliceOffsets[i] + PRE_SKIP;
+      const first = Math.max(0, Math.floor((start - 3840) / PACKET_SAMPLES));
+
+      expect(slice.preSkip).toBe(start - first * PACKET_SAMPLES);
+      expect(slice.preSkip).toBeGreaterThanOrEqual(i === 0 ? PRE_SKIP : 3840);
+      // The final granule position trims the output to the slice
+      expect(slice.granule - slice.preSkip).toBe(sliceOffsets[i + 1] - sliceOffsets[i]);
+      expect(slice.endOfStream).toBe(true);
+      expect(slice.packets[0]).toEqual(packets[first]);
+      expect(slice.packets.length * PACKET_SAMPLES).toBeGreaterThanOrEqual(slice.granule);
+    }
+  });
+
+  it('indexes packets while streaming and from ranged reads', async() => {
+    const webmData = createWebMOpusData(createPackets(120));
+    const expected = buildOpusPacketMap(webmData)!;
+
+    const ingest = new AudioIngest();
+    const bytes = new Uint8Array(webmData);
+    ingest.append(bytes.subarray(0, 4000));
+    const partial = ingest.snapshot();
+    expect(partial.format).toBe('opus');
+    expect(partial.length).toBeGreaterThan(0);
+    expect(partial.length).toBeLessThan(expected.totalSamples);
+
+    ingest.append(bytes.subarray(4000));
+    ingest.finish();
+    expect(ingest.snapshot().opusPackets).toEqual(expected);
+
+    const provider = new InMemoryAudioSourceProvider(createOggOpusData(createPackets(120)));
+    const metadata = await readAudioMetadata(provider);
+    expect(metadata.totalSamples).toBe(120 * PACKET_SAMPLES);
+    expect(await readOpusPacketMap(provider, metadata)).toEqual(buildOpusPacketMap(createOggOpusData(createPackets(120))));
+  });
+
+  it('decodes Opus to PCM for strict browsers', async() => {
+    const sessionKey = await generateSessionKey();
+    const processor = new AudioProcessor({ sliceDurationMs: 1000, audioDecoder: new WASMAudioDecoder() });
+    const processed = await processor.processAudio(createOggOpusData(createPackets(100), 500), sessionKey, 'session-1');
+    const { sliceIds, sliceOffsets } = processed.slicePlan;
+
+    const pcm = await decryptSlice(sessionKey, (await processed.getSlice(sliceIds[1], SAFARI_UA))!);
+    // Interleaved stereo Float32
+    expect(pcm.byteLength).toBe((sliceOffsets[2] - sliceOffsets[1]) * 2 * 4);
+    expect(processor.getMemoryUsage().decodedPCMBytes).toBe((100 * PACKET_SAMPLES - 500) * 2 * 4);
+  });
+});
@@ -0,0 +1,105 @@
+import type { SessionManagerEventMap } from '../../src/server/core/session-events.js';
+import type { SessionInfo } from '../../src/shared/types/interfaces.js';
+import { afterEach, describe, expect, it } from 'vitest';
+import { SessionManager } from '../../src/server/core/session-manager.js';
+import { EcdhP256KeyExchangeProcessor } from '../../src/shared/crypto/key-exchange/ecdh-p256-processor.js';
+import { createWavData } from '../helpers/wav.js';
+
+type RecordedEvent = { type: string } & Record<string, unknown>;
+
+function recordEvents(sessionManager: SessionManager): RecordedEvent[] {
+  const events: RecordedEvent[] = [];
+  const types: Array<keyof SessionManagerEventMap> = [
+    'sessioncreated',
+    'keyexchange',
+    'trackprocessed',
+    'trackfailed',
+    'sliceserved',
+    'cachehit',
+    'cachemiss',
+    'sessiondestroyed',
+  ];
+  for (const type of types) {
+    sessionManager.addEventListener(type, event => events.push({ type, ...event.detail }));
+  }
+  return events;
+}
+
+describe('sessionManager events', () => {
+  let sessionManager: SessionManager;
+
+  afterEach(() => {
+    sessionManager.destroy();
+  });
+
+  it('reports the lifecycle of a single-track session', async() => {
+    sessionManager = new SessionManager({ sliceDurationMs: 1000 });
+    const events = recordEvents(sessionManager);
+
+    const client = new EcdhP256KeyExchangeProcessor();
+    await client.initialize();
+    const sessionId = await sessionManager.createSession(createWavData(3));
+    const response = await sessionManager.handleKeyExchange(sessionId, await client.createKeyExchangeRequest());
+    const { sliceIds } = response.sessionInfo as SessionInfo;
+
+    const slice = await sessionManager.getSlice(sessionId, sliceIds[1]);
+    await sessionManager.getSlice(sessionId, sliceIds[1]);
+    await sessionManager.destroySession(sessionId);
+
+    expect(events.map(event => event.type)).toEqual([
+      'sessioncreated',
+      'trackprocessed',
+      'keyexchange',
+      'cachemiss',
+      'sliceserved',
+      'cachehit',
+      'sliceserved',
+      'sessiondestroyed',
+    ]);
+    expect(events[0]).toMatchObject({ sessionId, trackCount: 1, isLive: false });
+    expect(events[1]).toMatchObject({ sessionId, totalSlices: 3 });
+    expect(events[4]).toMatchObject({ sessionId, sliceId: sliceIds[1], sequence: 1, bytes: slice!.encryptedData.byteLength });
+    expect(events[4].latencyMs).toBeGreaterThanOrEqual(0);
+    expect(events[7]).toMatchObject({ sessionId, reason: 'destroyed' });
+    expect(events.every(event => typeof event.timestamp === 'number')).toBe(true);
+    client.destroy();
+  });
+
+  it('reports tracks of multi-track sessions', async() => {
+    sessionManager = new SessionManager({ sliceDurationMs: 1000 });
+    const events = recordEvents(sessionManager);
+
+    const client = new EcdhP256KeyExchangeProcessor();
+    await client.initialize();
+    const sessionId = await sessionManager.createMultiTrackSession([{ audioData: createWavData(2) }, { audioData: createWavData(2) }]);
+    const response = await sessionManager.handleKeyExchange(sessionId, await client.createKeyExchangeRequest());
+    const track = (response.sessionInfo as SessionInfo).tracks![0];
+    await sessionManager.getSlice(sessionId, track.sliceIds[0], track.trackId);
+
+    expect(events[0]).toMatchObject({ type: 'sessioncreated', sessionId, trackCount: 2 });
+    expect(events.find(event => event.type === 'keyexchange')).toMatchObject({ sessionId, trackId: track.trackId });
+    expect(events.find(event => event.type === 'trackprocessed')).toMatchObject({ trackId: track.trackId, totalSlices: 2 });
+    expect(events.find(event => event.type === 'sliceserved')).toMatchObject({ trackId: track.trackId, sliceId: track.sliceIds[0] });
+    client.destroy();
+  });
+
+  it('reports failed uploads', async() => {
+    sessionManager = new SessionManager({ sliceDurationMs: 1000 });
+    const events = recordEvents(sessionManager);
+
+    let fail!: (error: Error) => void;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array(createWavData(2).slice(0, 1000)));
+        fail = error => controller.error(error);
+      },
+    });
+    const sessionId = await sessionManager.createSession(stream);
+    fail(new Error('connection reset'));
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(events.map(event => event.type)).toEqual(['sessioncreated', 'trackfailed', 'sessiondestroyed']);
+    expect((events[1].error as Error).message).toBe('connection reset');
+    expect(events[2]).toMatchObject({ sessionId, reason: 'failed' });
+  });
+});
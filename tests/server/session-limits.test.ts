@@ -0,0 +1,105 @@
+import type { SessionDestroyedEvent } from '../../src/server/core/session-events.js';
+import { afterEach, describe, expect, it } from 'vitest';
+import { InvalidOperationError, SessionLimitError, SessionNotFoundError, TrackLimitError } from '../../src/server/core/errors.js';
+import { SessionManager } from '../../src/server/core/session-manager.js';
+import { createWavData } from '../helpers/wav.js';
+
+async function wait(ms: number): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('sessionManager session limits', () => {
+  let sessionManager: SessionManager;
+
+  afterEach(() => {
+    sessionManager.destroy();
+  });
+
+  function recordDestroyed(): SessionDestroyedEvent[] {
+    const events: SessionDestroyedEvent[] = [];
+    sessionManager.addEventListener('sessiondestroyed', event => events.push(event.detail));
+    return events;
+  }
+
+  it('expires idle sessions on access', async() => {
+    sessionManager = new SessionManager({ sessionLimits: { idleTimeoutMs: 30 } });
+    const destroyed = recordDestroyed();
+    const sessionId = await sessionManager.createSession(createWavData(1));
+
+    await wait(50);
+    await expect(sessionManager.resolveSessionInfo(sessionId)).resolves.toBeNull();
+    expect(destroyed).toMatchObject([{ sessionId, reason: 'expired' }]);
+  });
+
+  it('expires sessions after their maximum lifetime, even while in use', async() => {
+    sessionManager = new SessionManager({ sessionLimits: { maxLifetimeMs: 60 } });
+    const sessionId = await sessionManager.createSession(createWavData(1));
+
+    await wait(40);
+    await sessionManager.addTrack(sessionId, createWavData(1));
+    await wait(40);
+    await expect(sessionManager.addTrack(sessionId, createWavData(1))).rejects.toBeInstanceOf(SessionNotFoundError);
+  });
+
+  it('rejects sessions beyond maxSessions', async() => {
+    sessionManager = new SessionManager({ sessionLimits: { maxSessions: 2 } });
+    await sessionManager.createSession(createWavData(1));
+    await sessionManager.createSession(createWavData(1));
+
+    const error = await sessionManager.createSession(createWavData(1)).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(SessionLimitError);
+    expect((error as SessionLimitError).status).toBe(503);
+    expect((error as SessionLimitError).code).toBe('SESSION_LIMIT_REACHED');
+    expect(sessionManager.getStats().activeSessions).toBe(2);
+  });
+
+  it('counts sessions that are still being created against maxSessions', async() => {
+    sessionManager = new SessionManager({ sessionLimits: { maxSessions: 2 } });
+    const results = await Promise.allSettled([
+      sessionManager.createSession(createWavData(1)),
+      sessionManager.createLiveSession(new Uint8Array(createWavData(1))),
+      sessionManager.createMultiTrackSession([{ audioData: createWavData(1) }]),
+      sessionManager.createSession(createWavData(1)),
+      sessionManager.createSession(createWavData(1)),
+    ]);
+
+    const created = results.filter(result => result.status === 'fulfilled');
+    expect(created).toHaveLength(2);
+    for (const result of results.filter(result => result.status === 'rejected')) {
+      expect(result.reason).toBeInstanceOf(SessionLimitError);
+    }
+    expect(sessionManager.getStats().activeSessions).toBe(2);
+
+    // Failed creations give their slot back
+    await sessionManager.destroySession(created[0].value);
+    await expect(sessionManager.createLiveSession(new Uint8Array(4))).rejects.toBeInstanceOf(InvalidOperationError);
+    await sessionManager.createSession(createWavData(1));
+    expect(sessionManager.getStats().activeSessions).toBe(2);
+  });
+
+  it('evicts the least recently used session with the lru policy', async() => {
+    sessionManager = new SessionManager({ sessionLimits: { maxSessions: 2, evictionPolicy: 'lru' } });
+    const destroyed = recordDestroyed();
+    const first = await sessionManager.createSession(createWavData(1));
+    await wait(5);
+    const second = await sessionManager.createSession(createWavData(1));
+    await wait(5);
+    await sessionManager.addTrack(first, createWavData(1));
+
+    await sessionManager.createSession(createWavData(1));
+    expect(destroyed).toMatchObject([{ sessionId: second, reason: 'evicted' }]);
+    expect(sessionManager.getStats().activeSessions).toBe(2);
+  });
+
+  it('limits the tracks of a session', async() => {
+    sessionManager = new SessionManager({ sessionLimits: { maxTracksPerSession: 2 } });
+    const tracks = [{ audioData: createWavData(1) }, { audioData: createWavData(1) }, { audioData: createWavData(1) }];
+    await expect(sessionManager.createMultiTrackSession(tracks)).rejects.toBeInstanceOf(TrackLimitError);
+
+    const sessionId = await sessionManager.createSession(createWavData(1));
+    await sessionManager.addTrack(sessionId, createWavData(1));
+    const error = await sessionManager.addTrack(sessionId, createWavData(1)).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(TrackLimitError);
+    expect((error as TrackLimitError).code).toBe('TRACK_LIMIT_REACHED');
+  });
+});
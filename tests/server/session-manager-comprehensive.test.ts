@@ -244,7 +244,7 @@ describe('SessionManager - Comprehensive Tests', () => {
       const response = await sessionManager.handleKeyExchange(sessionId, request);
 
       const trackToRemove = response.sessionInfo.tracks![1].trackId;
-      const updatedSessionInfo = sessionManager.removeTrack(sessionId, trackToRemove);
+      const updatedSessionInfo = await sessionManager.removeTrack(sessionId, trackToRemove);
 
       expect(updatedSessionInfo.tracks).toBeDefined();
       expect(updatedSessionInfo.tracks!.length).toBe(2);
@@ -263,7 +263,7 @@ describe('SessionManager - Comprehensive Tests', () => {
       await sessionManager.handleKeyExchange(sessionId, request);
 
       // Remove second track by index
-      const updatedSessionInfo = sessionManager.removeTrack(sessionId, 1);
+      const updatedSessionInfo = await sessionManager.removeTrack(sessionId, 1);
 
       expect(updatedSessionInfo.tracks!.length).toBe(2);
       expect(updatedSessionInfo.tracks![0].title).toBe('Track 1');
@@ -284,7 +284,7 @@ describe('SessionManager - Comprehensive Tests', () => {
       const secondTrackId = response.sessionInfo.tracks![1].trackId;
 
       // Remove first track (which is active)
-      const updatedSessionInfo = sessionManager.removeTrack(sessionId, firstTrackId);
+      const updatedSessionInfo = await sessionManager.removeTrack(sessionId, firstTrackId);
 
       // Active track should switch to second track
       expect(updatedSessionInfo.activeTrackId).toBe(secondTrackId);
@@ -301,7 +301,7 @@ describe('SessionManager - Comprehensive Tests', () => {
 
       const trackId = response.sessionInfo.tracks![0].trackId;
 
-      expect(() => sessionManager.removeTrack(sessionId, trackId)).toThrow('Cannot remove the last track');
+      await expect(sessionManager.removeTrack(sessionId, trackId)).rejects.toThrow('Cannot remove the last track');
     });
 
     it('should error when removing track from single-track session', async () => {
@@ -310,7 +310,7 @@ describe('SessionManager - Comprehensive Tests', () => {
       const request = await clientKeyProcessor.createKeyExchangeRequest();
       await sessionManager.handleKeyExchange(sessionId, request);
 
-      expect(() => sessionManager.removeTrack(sessionId, 0)).toThrow('Cannot remove track from single-track session');
+      await expect(sessionManager.removeTrack(sessionId, 0)).rejects.toThrow('Cannot remove track from single-track session');
     });
 
     it('should error when removing non-existent track', async () => {
@@ -323,8 +323,8 @@ describe('SessionManager - Comprehensive Tests', () => {
       const request = await clientKeyProcessor.createKeyExchangeRequest();
       await sessionManager.handleKeyExchange(sessionId, request);
 
-      expect(() => sessionManager.removeTrack(sessionId, 'non-existent-track-id')).toThrow('Track not found');
-      expect(() => sessionManager.removeTrack(sessionId, 99)).toThrow('Track not found');
+      await expect(sessionManager.removeTrack(sessionId, 'non-existent-track-id')).rejects.toThrow('Track not found');
+      await expect(sessionManager.removeTrack(sessionId, 99)).rejects.toThrow('Track not found');
     });
   });
 
@@ -359,9 +359,9 @@ describe('SessionManager - Comprehensive Tests', () => {
       expect(response3.sessionInfo.tracks!.find(t => t.trackId === track3Id)!.sliceIds.length).toBeGreaterThan(0);
 
       // User finishes album, removes played tracks to free memory
-      sessionManager.removeTrack(sessionId, 0); // Remove track 1
-      sessionManager.removeTrack(sessionId, 0); // Remove track 2 (now at index 0)
-      sessionManager.removeTrack(sessionId, 0); // Remove track 3 (now at index 0)
+      await sessionManager.removeTrack(sessionId, 0); // Remove track 1
+      await sessionManager.removeTrack(sessionId, 0); // Remove track 2 (now at index 0)
+      await sessionManager.removeTrack(sessionId, 0); // Remove track 3 (now at index 0)
 
       const finalInfo = sessionManager.getSessionInfo(sessionId);
       expect(finalInfo).toBeDefined();
@@ -388,7 +388,7 @@ describe('SessionManager - Comprehensive Tests', () => {
       expect(response.sessionInfo.tracks!.length).toBe(3);
 
       // User finishes episode 1, removes it from queue
-      const updatedInfo = sessionManager.removeTrack(sessionId, 0);
+      const updatedInfo = await sessionManager.removeTrack(sessionId, 0);
       expect(updatedInfo.tracks!.length).toBe(2);
 
       // User adds episode 104 to queue while listening
@@ -407,7 +407,7 @@ describe('SessionManager - Comprehensive Tests', () => {
       expect(sessionManager.getSessionInfo(sessionId)).toBeNull(); // No session info until key exchange
 
       // Destroy session manually
-      sessionManager.destroySession(sessionId);
+      await sessionManager.destroySession(sessionId);
 
       // Verify session is gone
       expect(sessionManager.getSessionInfo(sessionId)).toBeNull();
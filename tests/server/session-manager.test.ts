@@ -135,7 +135,7 @@ describe('SessionManager', () => {
     const audioData = createMockWavData()
     const sessionId = await sessionManager.createSession(audioData)
     
-    sessionManager.destroySession(sessionId)
+    await sessionManager.destroySession(sessionId)
     
     const sessionInfo = sessionManager.getSessionInfo(sessionId)
     expect(sessionInfo).toBeNull()
@@ -0,0 +1,176 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SessionManager } from '../../src/server/core/session-manager.js';
+import { FileSessionStore } from '../../src/server/store/file-store.js';
+import { InMemorySessionStore } from '../../src/server/store/in-memory-store.js';
+import { unwrapSessionKey, wrapSessionKey, createKeyWrappingKey } from '../../src/server/store/key-wrapping.js';
+import { EcdhP256KeyExchangeProcessor } from '../../src/shared/crypto/key-exchange/ecdh-p256-processor.js';
+import type { SessionRecord, SessionStore } from '../../src/server/store/session-store.js';
+import { createWavData } from '../helpers/wav.js';
+
+async function decryptSlice(key: CryptoKey, encryptedData: ArrayBuffer, iv: ArrayBuffer): Promise<ArrayBuffer> {
+  return await crypto.subtle.decrypt({ name: 'AES-GCM', iv: new Uint8Array(iv) }, key, encryptedData);
+}
+
+function describeSharedStore(name: string, createStore: () => Promise<SessionStore>, cleanup: () => Promise<void>) {
+  describe(`SessionManager with shared ${name}`, () => {
+    let store: SessionStore;
+    let managers: SessionManager[];
+    let client: EcdhP256KeyExchangeProcessor;
+
+    const createManager = () => {
+      const manager = new SessionManager({
+        sliceDurationMs: 1000,
+        randomizeSliceLength: true,
+        sessionStore: store,
+        sessionKeyWrappingSecret: 'shared-test-secret',
+      });
+      managers.push(manager);
+      return manager;
+    };
+
+    beforeEach(async () => {
+      store = await createStore();
+      managers = [];
+      client = new EcdhP256KeyExchangeProcessor();
+      await client.initialize();
+    });
+
+    afterEach(async () => {
+      managers.forEach(manager => manager.destroy());
+      client.destroy();
+      await cleanup();
+    });
+
+    it('serves slices from an instance that did not create the session', async () => {
+      const creator = createManager();
+      const exchanger = createManager();
+      const server = createManager();
+
+      const sessionId = await creator.createSession(createWavData(3, { tone: true }));
+      const response = await exchanger.handleKeyExchange(sessionId, await client.createKeyExchangeRequest());
+      const sessionKey = await client.processKeyExchangeResponse(response, sessionId);
+
+      const { sliceIds } = response.sessionInfo;
+      expect(sliceIds.length).toBeGreaterThan(1);
+
+      const fromExchanger = await exchanger.getSlice(sessionId, sliceIds[1]);
+      const fromServer = await server.getSlice(sessionId, sliceIds[1]);
+
+      expect(fromServer).not.toBeNull();
+      expect(fromServer!.sequence).toBe(1);
+
+      // Same slice boundaries and the same key on both instances
+      const expected = await decryptSlice(sessionKey, fromExchanger!.encryptedData, fromExchanger!.iv);
+      const actual = await decryptSlice(sessionKey, fromServer!.encryptedData, fromServer!.iv);
+      expect(new Uint8Array(actual)).toEqual(new Uint8Array(expected));
+
+      expect((await server.resolveSessionInfo(sessionId))!.sliceIds).toEqual(sliceIds);
+    });
+
+    it('removes destroyed sessions from the store', async () => {
+      const manager = createManager();
+      const sessionId = await manager.createSession(createWavData(1, { tone: true }));
+      expect(await store.get(sessionId)).not.toBeNull();
+
+      await manager.destroySession(sessionId);
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(await store.get(sessionId)).toBeNull();
+      expect(await createManager().getSlice(sessionId, 'any')).toBeNull();
+    });
+
+    it('writes the record before dropping the audio of a removed track', async () => {
+      const manager = createManager();
+      const sessionId = await manager.createMultiTrackSession([
+        { audioData: createWavData(1, { tone: true }) },
+        { audioData: createWavData(1, { tone: true }) },
+      ]);
+      const [removed, kept] = (await store.get(sessionId))!.tracks.map(track => track.audioRef!);
+
+      await manager.removeTrack(sessionId, 0);
+
+      expect((await store.get(sessionId))!.tracks.map(track => track.audioRef)).toEqual([kept]);
+      expect((await createManager().resolveSessionInfo(sessionId))!.tracks).toHaveLength(1);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(await store.getAudio(removed)).toBeNull();
+    });
+  });
+}
+
+describeSharedStore('InMemorySessionStore', async () => new InMemorySessionStore(), async () => {});
+
+let directory = '';
+describeSharedStore('FileSessionStore', async () => {
+  directory = await mkdtemp(join(tmpdir(), 'secstream-store-'));
+  return new FileSessionStore(directory);
+}, async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('Session key wrapping', () => {
+  it('round-trips CryptoKeys without exposing raw key material', async () => {
+    const wrappingKey = await createKeyWrappingKey('secret');
+    const sessionKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+
+    const wrapped = await wrapSessionKey(sessionKey, wrappingKey);
+    const raw = new Uint8Array(await crypto.subtle.exportKey('raw', sessionKey));
+    expect(wrapped!.type).toBe('CryptoKey');
+    expect(wrapped!.data).not.toContain(btoa(String.fromCharCode(...raw)));
+
+    const restored = await unwrapSessionKey(wrapped!, await createKeyWrappingKey('secret')) as CryptoKey;
+    expect(new Uint8Array(await crypto.subtle.exportKey('raw', restored))).toEqual(raw);
+
+    await expect(unwrapSessionKey(wrapped!, await createKeyWrappingKey('other'))).rejects.toThrow();
+  });
+});
+
+describe('Session store write failures', () => {
+  class FailingStore extends InMemorySessionStore {
+    set(): void {
+      throw new Error('store unavailable');
+    }
+  }
+
+  it('does not keep sessions whose record could not be written', async () => {
+    const manager = new SessionManager({ sessionStore: new FailingStore(), sessionLimits: { maxSessions: 1 } });
+
+    await expect(manager.createSession(createWavData(1, { tone: true }))).rejects.toThrow('store unavailable');
+    await expect(manager.createLiveSession(createWavData(1, { tone: true }))).rejects.toThrow('store unavailable');
+    await expect(manager.createMultiTrackSession([{ audioData: createWavData(1, { tone: true }) }])).rejects.toThrow('store unavailable');
+
+    expect(manager.getStats().activeSessions).toBe(0);
+    manager.destroy();
+  });
+});
+
+describe('Expiry in a shared session store', () => {
+  // Slow reads let the sweeps of both instances overlap
+  class SlowStore extends InMemorySessionStore {
+    async get(sessionId: string): Promise<SessionRecord | null> {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return super.get(sessionId);
+    }
+  }
+
+  it('reports a session expired by several instances once', async () => {
+    const store = new SlowStore();
+    const createManager = () => new SessionManager({ sessionStore: store, sessionLimits: { idleTimeoutMs: 30, cleanupIntervalMs: 20 } });
+
+    const creator = createManager();
+    const sessionId = await creator.createSession(createWavData(1, { tone: true }));
+    creator.destroy();
+
+    const sweepers = [createManager(), createManager()];
+    const destroyed: string[] = [];
+    sweepers.forEach(manager => manager.addEventListener('sessiondestroyed', event => destroyed.push(event.detail.sessionId)));
+
+    await new Promise(resolve => setTimeout(resolve, 150));
+    sweepers.forEach(manager => manager.destroy());
+
+    expect(await store.get(sessionId)).toBeNull();
+    expect(destroyed).toEqual([sessionId]);
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { PacingError } from '../../src/server/core/errors.js';
+import { SessionManager } from '../../src/server/core/session-manager.js';
+import { SlicePacer } from '../../src/server/core/slice-pacer.js';
+import type { PacingEvent } from '../../src/server/core/slice-pacer.js';
+import { EcdhP256KeyExchangeProcessor } from '../../src/shared/crypto/key-exchange/ecdh-p256-processor.js';
+import type { SessionInfo } from '../../src/shared/types/interfaces.js';
+import { createWavData } from '../helpers/wav.js';
+
+describe('SlicePacer', () => {
+  it('allows fetching up to the lead ahead of real time', () => {
+    const pacer = new SlicePacer({ leadSeconds: 10, maxDelayMs: 0 });
+
+    for (let index = 0; index < 2; index++) {
+      expect(pacer.evaluate('session', { index, duration: 5 }, 0).action).toBe('allow');
+    }
+    expect(pacer.evaluate('session', { index: 2, duration: 5 }, 0).action).toBe('throttle');
+
+    // Playback catches up
+    expect(pacer.evaluate('session', { index: 2, duration: 5 }, 5000).action).toBe('allow');
+  });
+
+  it('delays requests slightly ahead and does not count refetches', () => {
+    const pacer = new SlicePacer({ leadSeconds: 5, maxDelayMs: 3000 });
+
+    expect(pacer.evaluate('session', { index: 0, duration: 5 }, 0).action).toBe('allow');
+    expect(pacer.evaluate('session', { index: 0, duration: 5 }, 0).action).toBe('allow');
+
+    const decision = pacer.evaluate('session', { index: 1, duration: 5 }, 3000);
+    expect(decision.action).toBe('delay');
+    expect(decision.delayMs).toBe(2000);
+  });
+
+  it('grants seek allowance up to the lead', () => {
+    const pacer = new SlicePacer({ leadSeconds: 10, seekAllowanceSeconds: 5, maxDelayMs: 0 });
+
+    pacer.evaluate('session', { index: 0, duration: 5 }, 0);
+    pacer.evaluate('session', { index: 1, duration: 5 }, 0);
+
+    const seek = pacer.evaluate('session', { index: 20, duration: 5 }, 0);
+    expect(seek).toMatchObject({ action: 'allow', seek: true });
+    expect(pacer.evaluate('session', { index: 21, duration: 5 }, 0)).toMatchObject({ action: 'throttle', seek: false });
+
+    // Further seeks earn allowance until it reaches the lead
+    expect(pacer.evaluate('session', { index: 40, duration: 5 }, 0).action).toBe('allow');
+    expect(pacer.evaluate('session', { index: 60, duration: 5 }, 0).action).toBe('throttle');
+  });
+
+  it('revokes sessions that keep pulling ahead', () => {
+    const pacer = new SlicePacer({ leadSeconds: 5, maxDelayMs: 0, revokeAfterThrottles: 2 });
+
+    pacer.evaluate('session', { index: 0, duration: 5 }, 0);
+    expect(pacer.evaluate('session', { index: 1, duration: 5 }, 0).action).toBe('throttle');
+    expect(pacer.evaluate('session', { index: 1, duration: 5 }, 0).action).toBe('revoke');
+  });
+});
+
+describe('SessionManager pacing', () => {
+  let sessionManager: SessionManager;
+
+  afterEach(() => {
+    sessionManager.destroy();
+  });
+
+  it('throttles and revokes sessions that fetch far ahead of playback', async () => {
+    sessionManager = new SessionManager({
+      sliceDurationMs: 1000,
+      pacing: { leadSeconds: 2, maxDelayMs: 0, revokeAfterThrottles: 2 },
+    });
+    const events: PacingEvent[] = [];
+    sessionManager.addEventListener('pacing', event => events.push((event as CustomEvent<PacingEvent>).detail));
+
+    const client = new EcdhP256KeyExchangeProcessor();
+    await client.initialize();
+    const sessionId = await sessionManager.createSession(createWavData(5));
+    const response = await sessionManager.handleKeyExchange(sessionId, await client.createKeyExchangeRequest());
+    const { sliceIds } = response.sessionInfo as SessionInfo;
+
+    expect(await sessionManager.getSlice(sessionId, sliceIds[0])).not.toBeNull();
+    expect(await sessionManager.getSlice(sessionId, sliceIds[1])).not.toBeNull();
+
+    const throttled = await sessionManager.getSlice(sessionId, sliceIds[2]).catch((e: unknown) => e);
+    expect(throttled).toBeInstanceOf(PacingError);
+    expect((throttled as PacingError).status).toBe(429);
+    expect((throttled as PacingError).retryAfterMs).toBeGreaterThan(0);
+
+    await expect(sessionManager.getSlice(sessionId, sliceIds[3])).rejects.toBeInstanceOf(PacingError);
+    expect(await sessionManager.getSlice(sessionId, sliceIds[0])).toBeNull();
+
+    expect(events.map(event => event.type)).toEqual(['throttle', 'revoke']);
+    expect(events[0]).toMatchObject({ sessionId, sliceId: sliceIds[2] });
+    client.destroy();
+  });
+});
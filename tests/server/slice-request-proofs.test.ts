@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SecureAudioClient } from '../../src/client/core/client.js';
+import { FetchTransport } from '../../src/client/network/fetch-transport.js';
+import { HttpError } from '../../src/client/network/transport.js';
+import { InvalidRequestProofError } from '../../src/server/core/errors.js';
+import { SliceProofVerifier } from '../../src/server/core/request-proofs.js';
+import { SessionManager } from '../../src/server/core/session-manager.js';
+import { SecureAudioAPI } from '../../src/server/http/api.js';
+import { EcdhP256KeyExchangeProcessor } from '../../src/shared/crypto/key-exchange/ecdh-p256-processor.js';
+import { createSliceRequestProof, deriveRequestProofKey } from '../../src/shared/crypto/request-proof.js';
+import { formatSliceRequestProof, parseSliceRequestProof } from '../../src/shared/protocol/http.js';
+import type { SessionInfo } from '../../src/shared/types/interfaces.js';
+import { FakeAudioContext } from '../helpers/audio-context.js';
+import { createWavData } from '../helpers/wav.js';
+
+async function generateSessionKey(): Promise<CryptoKey> {
+  return await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+describe('SliceProofVerifier', () => {
+  const request = { sessionId: 'session-1', sliceId: 'slice-1' };
+
+  it('accepts a fresh proof once', async () => {
+    const sessionKey = await generateSessionKey();
+    const deriveKey = async (): Promise<CryptoKey> => await deriveRequestProofKey(sessionKey, request.sessionId);
+    const verifier = new SliceProofVerifier();
+    const proof = await createSliceRequestProof(await deriveKey(), request);
+
+    expect(await verifier.verify(request, proof, sessionKey, deriveKey)).toBe('valid');
+    expect(await verifier.verify(request, proof, sessionKey, deriveKey)).toBe('replayed');
+    expect(await verifier.verify(request, undefined, sessionKey, deriveKey)).toBe('missing');
+  });
+
+  it('rejects stale, forged and mismatched proofs', async () => {
+    const sessionKey = await generateSessionKey();
+    const deriveKey = async (): Promise<CryptoKey> => await deriveRequestProofKey(sessionKey, request.sessionId);
+    const verifier = new SliceProofVerifier({ maxAgeMs: 1000 });
+
+    const stale = await createSliceRequestProof(await deriveKey(), request, Date.now() - 5000);
+    expect(await verifier.verify(request, stale, sessionKey, deriveKey)).toBe('stale');
+
+    const otherKey = await deriveRequestProofKey(await generateSessionKey(), request.sessionId);
+    expect(await verifier.verify(request, await createSliceRequestProof(otherKey, request), sessionKey, deriveKey)).toBe('invalid');
+
+    const proof = await createSliceRequestProof(await deriveKey(), request);
+    expect(await verifier.verify({ ...request, sliceId: 'slice-2' }, proof, sessionKey, deriveKey)).toBe('invalid');
+    expect(await verifier.verify({ ...request, trackId: 'track-1' }, proof, sessionKey, deriveKey)).toBe('invalid');
+  });
+
+  it('round-trips proofs through the header format', async () => {
+    const key = await deriveRequestProofKey(await generateSessionKey(), request.sessionId);
+    const proof = await createSliceRequestProof(key, request);
+
+    expect(parseSliceRequestProof(formatSliceRequestProof(proof))).toEqual(proof);
+    expect(parseSliceRequestProof('not-a-proof')).toBeNull();
+  });
+});
+
+describe('SessionManager slice request proofs', () => {
+  let sessionManager: SessionManager;
+
+  afterEach(() => {
+    sessionManager.destroy();
+    vi.unstubAllGlobals();
+  });
+
+  function createTransport(): FetchTransport {
+    const api = new SecureAudioAPI(sessionManager);
+    return new FetchTransport({
+      baseUrl: 'http://localhost/',
+      fetch: async (input, init) => await api.fetch(new Request(input, init)),
+    });
+  }
+
+  it('only serves slices to holders of the session key', async () => {
+    sessionManager = new SessionManager({ sliceDurationMs: 1000, sliceRequestProofs: {} });
+    const transport = createTransport();
+
+    const client = new EcdhP256KeyExchangeProcessor();
+    await client.initialize();
+    const sessionId = await transport.createSession(createWavData(2));
+    const response = await transport.performKeyExchange(sessionId, await client.createKeyExchangeRequest());
+    const sessionInfo = response.sessionInfo as SessionInfo;
+    expect(sessionInfo.sliceRequestProofs).toBe(true);
+
+    const sliceId = sessionInfo.sliceIds[0];
+    const unsigned = await transport.fetchSlice(sessionId, sliceId).catch((e: unknown) => e);
+    expect(unsigned).toBeInstanceOf(HttpError);
+    expect((unsigned as HttpError).status).toBe(401);
+    expect((unsigned as HttpError).code).toBe('INVALID_REQUEST_PROOF');
+
+    const proofKey = await deriveRequestProofKey(await client.processKeyExchangeResponse(response), sessionId);
+    const proof = await createSliceRequestProof(proofKey, { sessionId, sliceId });
+    const slice = await transport.fetchSlice(sessionId, sliceId, undefined, undefined, proof);
+    expect(slice.id).toBe(sliceId);
+
+    // Replaying the request fails
+    await expect(transport.fetchSlice(sessionId, sliceId, undefined, undefined, proof)).rejects.toThrow(HttpError);
+
+    // The proof is bound to the slice
+    const other = await createSliceRequestProof(proofKey, { sessionId, sliceId });
+    await expect(sessionManager.getSlice(sessionId, sessionInfo.sliceIds[1], undefined, undefined, { sliceProof: other }))
+      .rejects
+      .toBeInstanceOf(InvalidRequestProofError);
+    client.destroy();
+  });
+
+  it('signs slice requests from SecureAudioClient', async () => {
+    vi.stubGlobal('window', { AudioContext: FakeAudioContext });
+    sessionManager = new SessionManager({ sliceDurationMs: 1000, sliceRequestProofs: {} });
+    const transport = createTransport();
+    const sessionId = await transport.createSession(createWavData(2));
+
+    const client = new SecureAudioClient(transport, { workerConfig: { enabled: false } });
+    await client.initializeSession(sessionId);
+    expect((await client.loadSlice(client.getSliceId(1)!)).sequence).toBe(1);
+    client.destroy();
+  });
+});
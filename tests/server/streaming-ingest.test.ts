@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SessionManager } from '../../src/server/core/session-manager.js';
+import { AudioIngest } from '../../src/server/processing/audio-ingest.js';
+import { AudioProcessor } from '../../src/server/processing/audio-processor.js';
+import { EcdhP256KeyExchangeProcessor } from '../../src/shared/crypto/key-exchange/ecdh-p256-processor.js';
+import { createWavData } from '../helpers/wav.js';
+
+const SAMPLE_RATE = 44100;
+const FRAME_SIZE = 4; // 16-bit stereo
+
+// A ReadableStream the test feeds by hand
+function createUpload(): { stream: ReadableStream<Uint8Array>; push: (bytes: Uint8Array) => void; close: () => void; error: (reason: Error) => void } {
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const stream = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+  });
+  return {
+    stream,
+    push: bytes => controller.enqueue(bytes),
+    close: () => controller.close(),
+    error: reason => controller.error(reason),
+  };
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  expect(condition()).toBe(true);
+}
+
+describe('streaming ingest', () => {
+  let sessionKey: CryptoKey;
+
+  beforeEach(async () => {
+    sessionKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  });
+
+  it('parses the header incrementally', () => {
+    const wav = new Uint8Array(createWavData(1));
+    const ingest = new AudioIngest();
+
+    ingest.append(wav.subarray(0, 30));
+    expect(() => ingest.snapshot()).toThrow();
+
+    ingest.append(wav.subarray(30, 44 + 1000 * FRAME_SIZE + 2));
+    const partial = ingest.snapshot();
+    expect(partial).toMatchObject({ format: 'wav', sampleRate: SAMPLE_RATE, channels: 2, length: 1000 });
+
+    ingest.append(wav.subarray(44 + 1000 * FRAME_SIZE + 2));
+    ingest.finish();
+    expect(ingest.snapshot().length).toBe(SAMPLE_RATE);
+    expect(new Uint8Array(ingest.toArrayBuffer())).toEqual(wav);
+  });
+
+  it('publishes slices while the upload is still arriving', async () => {
+    const wav = new Uint8Array(createWavData(3));
+    const upload = createUpload();
+    const processor = new AudioProcessor({ sliceDurationMs: 1000 });
+
+    // Header plus 1.5 seconds of audio: exactly one complete slice
+    const firstPart = 44 + Math.floor(SAMPLE_RATE * 1.5) * FRAME_SIZE;
+    upload.push(wav.slice(0, firstPart));
+    const { sessionInfo, completed, getSlice } = await processor.processAudio(upload.stream, sessionKey, 'session-1');
+
+    expect(sessionInfo.isComplete).toBe(false);
+    expect(sessionInfo.totalSlices).toBe(1);
+    expect((await getSlice(sessionInfo.sliceIds[0]))?.sequence).toBe(0);
+
+    upload.push(wav.slice(firstPart));
+    upload.close();
+    const finalPlan = await completed;
+
+    expect(sessionInfo.isComplete).toBe(true);
+    expect(sessionInfo.totalSlices).toBe(3);
+    expect(sessionInfo.sliceIds).toHaveLength(3);
+    expect((await getSlice(sessionInfo.sliceIds[2]))?.sequence).toBe(2);
+
+    // Same boundaries as processing the buffered file
+    const buffered = await processor.processAudio(wav.buffer, sessionKey, 'session-1');
+    expect(finalPlan.sliceOffsets).toEqual(buffered.slicePlan.sliceOffsets);
+  });
+
+  describe('SessionManager', () => {
+    let sessionManager: SessionManager;
+    let client: EcdhP256KeyExchangeProcessor;
+
+    beforeEach(async () => {
+      sessionManager = new SessionManager({ sliceDurationMs: 1000 });
+      client = new EcdhP256KeyExchangeProcessor();
+      await client.initialize();
+    });
+
+    afterEach(() => {
+      sessionManager.destroy();
+      client.destroy();
+    });
+
+    it('grows the session info until the upload completes', async () => {
+      const wav = new Uint8Array(createWavData(3));
+      const upload = createUpload();
+      const firstPart = 44 + SAMPLE_RATE * 2 * FRAME_SIZE;
+      upload.push(wav.slice(0, firstPart));
+
+      const sessionId = await sessionManager.createSession(upload.stream);
+      const response = await sessionManager.handleKeyExchange(sessionId, await client.createKeyExchangeRequest());
+      expect(response.sessionInfo).toMatchObject({ totalSlices: 2, isComplete: false });
+      expect(await sessionManager.getSlice(sessionId, 'unknown-slice')).toBeNull();
+
+      upload.push(wav.slice(firstPart));
+      upload.close();
+      await waitFor(() => sessionManager.getSessionInfo(sessionId)?.isComplete === true);
+
+      const sessionInfo = (await sessionManager.resolveSessionInfo(sessionId))!;
+      expect(sessionInfo.totalSlices).toBe(3);
+      expect((await sessionManager.getSlice(sessionId, sessionInfo.sliceIds[2]))?.sequence).toBe(2);
+    });
+
+    it('stores the upload after slice requests before key exchange', async () => {
+      const wav = new Uint8Array(createWavData(2));
+      const upload = createUpload();
+      upload.push(wav.slice(0, 44 + 4096));
+
+      const sessionId = await sessionManager.createSession(upload.stream);
+      // Looks for the key in the session store, which must not replace the receiving session
+      expect(await sessionManager.getSlice(sessionId, 'unknown-slice')).toBeNull();
+
+      upload.push(wav.slice(44 + 4096));
+      upload.close();
+      const response = await sessionManager.handleKeyExchange(sessionId, await client.createKeyExchangeRequest());
+      expect(response.sessionInfo?.totalSlices).toBe(2);
+      expect((await sessionManager.getSlice(sessionId, response.sessionInfo!.sliceIds[1]))?.sequence).toBe(1);
+    });
+
+    it('destroys the session when the upload fails', async () => {
+      const upload = createUpload();
+      upload.push(new Uint8Array(createWavData(1)).slice(0, 44 + 4096));
+
+      const sessionId = await sessionManager.createSession(upload.stream);
+      upload.error(new Error('connection reset'));
+
+      await waitFor(() => sessionManager.getStats().activeSessions === 0);
+      expect(await sessionManager.resolveSessionInfo(sessionId)).toBeNull();
+    });
+  });
+});
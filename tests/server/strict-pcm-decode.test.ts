@@ -0,0 +1,79 @@
+import type { AudioMetadata } from '../../src/server/audio/format-parser.js';
+import type { AudioDecoder, PCMAudioData } from '../../src/server/audio/types.js';
+import { describe, expect, it } from 'vitest';
+import { InMemoryAudioCache } from '../../src/server/cache/in-memory-cache.js';
+import { AudioProcessor } from '../../src/server/processing/audio-processor.js';
+
+const SAFARI_UA = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Safari/605.1.15';
+const FRAME_BYTES = 417; // MPEG-1 Layer III, 128 kbps, 44.1 kHz, no padding
+
+// Silent MP3: frame headers followed by zeroed frame data
+function createMp3Data(frameCount: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(frameCount * FRAME_BYTES);
+  const view = new DataView(buffer);
+  for (let i = 0; i < frameCount; i++) {
+    view.setUint32(i * FRAME_BYTES, 0xFFFB9000, false);
+  }
+  return buffer;
+}
+
+// Produces 16-bit stereo silence for the estimated length of the input
+class CountingDecoder implements AudioDecoder {
+  calls = 0;
+
+  async decode(compressedData: ArrayBuffer, metadata: AudioMetadata): Promise<PCMAudioData> {
+    this.calls++;
+    await new Promise(resolve => setTimeout(resolve, 10));
+    const samples = metadata.totalSamples ?? Math.floor(compressedData.byteLength / FRAME_BYTES) * 1152;
+    return { pcmData: new ArrayBuffer(samples * 4), sampleRate: 44100, channels: 2, bitDepth: 16, isFloat32: false };
+  }
+
+  supportsFormat(format: string): boolean {
+    return format === 'mp3';
+  }
+
+  getName(): string {
+    return 'CountingDecoder';
+  }
+}
+
+async function generateSessionKey(): Promise<CryptoKey> {
+  return await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+describe('strict browser PCM decoding', () => {
+  it('decodes the audio once for all slice requests', async() => {
+    const decoder = new CountingDecoder();
+    const processor = new AudioProcessor({ sliceDurationMs: 1000, audioDecoder: decoder });
+    const { sessionInfo, getSlice } = await processor.processAudio(createMp3Data(120), await generateSessionKey(), 'session-1');
+    expect(sessionInfo.totalSlices).toBeGreaterThan(2);
+
+    const slices = await Promise.all(sessionInfo.sliceIds.map(async sliceId => await getSlice(sliceId, SAFARI_UA)));
+    expect(slices.every(slice => slice !== null)).toBe(true);
+    expect(decoder.calls).toBe(1);
+    expect(processor.getMemoryUsage().decodedPCMBytes).toBe(120 * 1152 * 4);
+
+    // Chromium clients are served compressed slices without decoding
+    processor.clearCaches();
+    expect(processor.getMemoryUsage()).toMatchObject({ sliceCacheBytes: 0, decodedPCMBytes: 0 });
+    await getSlice(sessionInfo.sliceIds[0], 'Mozilla/5.0 Chrome/120.0.0.0 Safari/537.36');
+    expect(decoder.calls).toBe(1);
+
+    // Cleared PCM is decoded again on demand
+    await getSlice(sessionInfo.sliceIds[1], SAFARI_UA);
+    expect(decoder.calls).toBe(2);
+  });
+
+  it('shares decoded PCM through the audio decode cache', async() => {
+    const decoder = new CountingDecoder();
+    const audioDecodeCache = new InMemoryAudioCache();
+    const mp3Data = createMp3Data(120);
+
+    for (const sessionId of ['session-1', 'session-2']) {
+      const processor = new AudioProcessor({ sliceDurationMs: 1000, audioDecoder: decoder, audioDecodeCache });
+      const { sessionInfo, getSlice } = await processor.processAudio(mp3Data, await generateSessionKey(), sessionId);
+      await getSlice(sessionInfo.sliceIds[0], SAFARI_UA);
+    }
+    expect(decoder.calls).toBe(1);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { AudioProcessor } from '../../src/server/processing/audio-processor.js';
+import { HkdfAesGcmEncryptionProcessor } from '../../src/shared/crypto/processors/hkdf-aes-gcm-processor.js';
+import { getSliceEncryptionOptions } from '../../src/shared/protocol/slice-envelope.js';
+import type { SliceEncryptionOptions } from '../../src/shared/types/processors.js';
+import { createWavData } from '../helpers/wav.js';
+
+const options: SliceEncryptionOptions = { sessionId: 'session-1', trackId: 'track-1', sequence: 3, sliceId: 'slice-3' };
+
+describe('HkdfAesGcmEncryptionProcessor', () => {
+  it('round-trips with the same slice options and key', async () => {
+    const processor = new HkdfAesGcmEncryptionProcessor();
+    const sessionKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const rawKey = await crypto.subtle.exportKey('raw', sessionKey);
+    const data = new Uint8Array([1, 2, 3, 4, 5]).buffer;
+
+    const { encrypted, metadata } = await processor.encrypt(data, sessionKey, options);
+    expect(new Uint8Array(await processor.decrypt(encrypted, sessionKey, metadata, { ...options }))).toEqual(new Uint8Array(data));
+
+    // Raw key bytes derive the same slice keys (decryption worker)
+    expect(new Uint8Array(await processor.decrypt(encrypted, rawKey, metadata, options))).toEqual(new Uint8Array(data));
+
+    // The session key alone does not decrypt the slice
+    await expect(crypto.subtle.decrypt({ name: 'AES-GCM', iv: metadata.iv! }, sessionKey, encrypted)).rejects.toThrow();
+  });
+
+  it('rejects slices moved to another position, track, session or ID', async () => {
+    const processor = new HkdfAesGcmEncryptionProcessor();
+    const sessionKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const { encrypted, metadata } = await processor.encrypt(new Uint8Array(64).buffer, sessionKey, options);
+
+    for (const tampered of [
+      { ...options, sequence: 4 },
+      { ...options, trackId: 'track-2' },
+      { ...options, trackId: undefined },
+      { ...options, sessionId: 'session-2' },
+      { ...options, sliceId: 'slice-4' },
+    ]) {
+      await expect(processor.decrypt(encrypted, sessionKey, metadata, tampered)).rejects.toThrow();
+    }
+  });
+
+  it('requires slice options', async () => {
+    const processor = new HkdfAesGcmEncryptionProcessor();
+    const sessionKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    await expect(processor.encrypt(new ArrayBuffer(8), sessionKey)).rejects.toThrow(/slice options/);
+  });
+
+  it('decrypts slices produced by AudioProcessor', async () => {
+    const encryptionProcessor = new HkdfAesGcmEncryptionProcessor();
+    const sessionKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const audioProcessor = new AudioProcessor({ sliceDurationMs: 1000, processingConfig: { encryptionProcessor } });
+    const { sessionInfo, getSlice } = await audioProcessor.processAudio(createWavData(2), sessionKey, 'session-1', undefined, 'track-1');
+
+    const first = (await getSlice(sessionInfo.sliceIds[0]))!;
+    const second = (await getSlice(sessionInfo.sliceIds[1]))!;
+    expect(first.trackId).toBe('track-1');
+
+    const metadata = { iv: first.iv };
+    await expect(encryptionProcessor.decrypt(first.encryptedData, sessionKey, metadata, getSliceEncryptionOptions(first))).resolves.toBeInstanceOf(ArrayBuffer);
+
+    // Serving slice 0 in place of slice 1 is detected
+    await expect(encryptionProcessor.decrypt(first.encryptedData, sessionKey, metadata, getSliceEncryptionOptions(second))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { EcdhP256KeyExchangeProcessor } from '../../src/shared/crypto/key-exchange/ecdh-p256-processor.js';
+import { EcdhP384KeyExchangeProcessor } from '../../src/shared/crypto/key-exchange/ecdh-p384-processor.js';
+import { NegotiatedKeyExchangeProcessor } from '../../src/shared/crypto/key-exchange/negotiated-processor.js';
+import { X25519KeyExchangeProcessor } from '../../src/shared/crypto/key-exchange/x25519-processor.js';
+import type { KeyExchangeProcessor } from '../../src/shared/types/processors.js';
+
+async function exchange(client: KeyExchangeProcessor, server: KeyExchangeProcessor): Promise<{ curve: unknown; keysMatch: boolean }> {
+  await client.initialize();
+  await server.initialize();
+  const request = await client.createKeyExchangeRequest();
+  const { response, sessionKey: serverKey } = await server.processKeyExchangeRequest(request, 'session-1');
+  const clientKey = await client.processKeyExchangeResponse(response);
+
+  const [clientRaw, serverRaw] = await Promise.all([
+    crypto.subtle.exportKey('raw', clientKey),
+    crypto.subtle.exportKey('raw', serverKey),
+  ]);
+  return {
+    curve: response.metadata?.curve,
+    keysMatch: Buffer.from(clientRaw).equals(Buffer.from(serverRaw)),
+  };
+}
+
+describe('key exchange curves', () => {
+  it('derives matching keys on P-384 and X25519', async () => {
+    expect(await exchange(new EcdhP384KeyExchangeProcessor(), new EcdhP384KeyExchangeProcessor())).toEqual({ curve: 'P-384', keysMatch: true });
+    expect(await exchange(new X25519KeyExchangeProcessor(), new X25519KeyExchangeProcessor())).toEqual({ curve: 'X25519', keysMatch: true });
+  });
+
+  it('negotiates the strongest curve both sides support', async () => {
+    expect(await exchange(new NegotiatedKeyExchangeProcessor(), new NegotiatedKeyExchangeProcessor())).toEqual({ curve: 'P-384', keysMatch: true });
+    expect(await exchange(
+      new NegotiatedKeyExchangeProcessor(['X25519', 'P-256']),
+      new NegotiatedKeyExchangeProcessor(),
+    )).toEqual({ curve: 'X25519', keysMatch: true });
+  });
+
+  it('interoperates with fixed-curve processors', async () => {
+    // Negotiating server answers a plain P-256 client
+    expect(await exchange(new EcdhP256KeyExchangeProcessor(), new NegotiatedKeyExchangeProcessor())).toEqual({ curve: 'P-256', keysMatch: true });
+    // Negotiating client falls back to its P-256 offer with a plain server
+    expect(await exchange(new NegotiatedKeyExchangeProcessor(), new EcdhP256KeyExchangeProcessor())).toEqual({ curve: 'P-256', keysMatch: true });
+  });
+
+  it('rejects when no curve is shared', async () => {
+    const client = new NegotiatedKeyExchangeProcessor(['X25519']);
+    const server = new NegotiatedKeyExchangeProcessor(['P-384']);
+    await expect(exchange(client, server)).rejects.toThrow(/No common key exchange curve/);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { assertSliceIdentity, decodeSlice, encodeSlice, getSliceSessionId, SliceEnvelopeError } from '../../src/shared/protocol/slice-envelope.js';
+import type { EncryptedSlice } from '../../src/shared/types/interfaces.js';
+
+function createSlice(overrides: Partial<EncryptedSlice> = {}): EncryptedSlice {
+  return {
+    id: 'slice-ü-1',
+    encryptedData: new Uint8Array([1, 2, 3, 4, 5, 250]).buffer,
+    iv: new Uint8Array(12).fill(7).buffer,
+    sequence: 42,
+    sessionId: 'session-1',
+    trackId: 'track-1',
+    keyEpoch: 7,
+    processors: { compression: 'DeflateCompressionProcessor', encryption: 'AesGcmEncryptionProcessor' },
+    ...overrides,
+  };
+}
+
+function expectEnvelopeError(fn: () => unknown, code: string): void {
+  try {
+    fn();
+  } catch(error) {
+    expect(error).toBeInstanceOf(SliceEnvelopeError);
+    expect((error as SliceEnvelopeError).code).toBe(code);
+    return;
+  }
+  throw new Error(`Expected SliceEnvelopeError ${code}`);
+}
+
+describe('slice envelope', () => {
+  it('round-trips every field', () => {
+    const slice = createSlice();
+    const decoded = decodeSlice(encodeSlice(slice));
+
+    expect(decoded).toMatchObject({ id: slice.id, sequence: 42, sessionId: 'session-1', trackId: 'track-1', keyEpoch: 7, processors: slice.processors });
+    expect(new Uint8Array(decoded.encryptedData)).toEqual(new Uint8Array(slice.encryptedData));
+    expect(new Uint8Array(decoded.iv)).toEqual(new Uint8Array(slice.iv));
+  });
+
+  it('omits optional fields', () => {
+    const decoded = decodeSlice(encodeSlice(createSlice({ trackId: undefined, keyEpoch: undefined, processors: undefined }), { integrity: false }));
+    expect(decoded.trackId).toBeUndefined();
+    expect(decoded.keyEpoch).toBeUndefined();
+    expect(decoded.processors).toBeUndefined();
+  });
+
+  it('decodes from a Uint8Array view with an offset', () => {
+    const envelope = new Uint8Array(encodeSlice(createSlice()));
+    const padded = new Uint8Array(envelope.length + 3);
+    padded.set(envelope, 3);
+    expect(decodeSlice(padded.subarray(3)).sequence).toBe(42);
+  });
+
+  it('detects corruption, truncation and foreign data', () => {
+    const envelope = new Uint8Array(encodeSlice(createSlice()));
+
+    const corrupted = envelope.slice();
+    corrupted[corrupted.length - 6] ^= 0xFF;
+    expectEnvelopeError(() => decodeSlice(corrupted), 'INTEGRITY_MISMATCH');
+    expectEnvelopeError(() => decodeSlice(envelope.slice(0, envelope.length - 8)), 'TRUNCATED');
+    expectEnvelopeError(() => decodeSlice(new Uint8Array(32)), 'INVALID_MAGIC');
+
+    const future = envelope.slice();
+    future[4] = 99;
+    expectEnvelopeError(() => decodeSlice(future), 'UNSUPPORTED_VERSION');
+
+    const unknownField = envelope.slice();
+    unknownField[5] |= 0x80;
+    expectEnvelopeError(() => decodeSlice(unknownField), 'UNSUPPORTED_VERSION');
+  });
+
+  it('rejects slices produced by other processors', () => {
+    const envelope = encodeSlice(createSlice());
+    expectEnvelopeError(
+      () => decodeSlice(envelope, { expectedProcessors: { encryption: 'XorStreamCipherProcessor' } }),
+      'PROCESSOR_MISMATCH',
+    );
+    expect(() => decodeSlice(envelope, { expectedProcessors: { encryption: 'AesGcmEncryptionProcessor' } })).not.toThrow();
+  });
+
+  it('rejects slices other than the requested one', () => {
+    const slice = createSlice();
+    const expected = { sessionId: 'session-1', trackId: 'track-1', sequence: 42, sliceId: slice.id };
+    expect(() => assertSliceIdentity(slice, expected)).not.toThrow();
+    expectEnvelopeError(() => assertSliceIdentity(slice, { ...expected, sequence: 43 }), 'IDENTITY_MISMATCH');
+    expectEnvelopeError(() => assertSliceIdentity(slice, { ...expected, sliceId: 'slice-2' }), 'IDENTITY_MISMATCH');
+    expectEnvelopeError(() => assertSliceIdentity(slice, { ...expected, trackId: undefined }), 'IDENTITY_MISMATCH');
+
+    expect(getSliceSessionId('session-1')).toBe('session-1');
+    expect(getSliceSessionId('session-1', 'track-1')).toBe('session-1_track-1');
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { AudioProcessor } from '../../src/server/processing/audio-processor.js';
+import { AesGcmEncryptionProcessor } from '../../src/shared/crypto/processors/aes-gcm-processor.js';
+import { HkdfAesGcmEncryptionProcessor } from '../../src/shared/crypto/processors/hkdf-aes-gcm-processor.js';
+import { decryptSliceTimings, SliceTimingTable } from '../../src/shared/protocol/slice-timings.js';
+import { createWavData } from '../helpers/wav.js';
+
+async function generateKey(): Promise<CryptoKey> {
+  return await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+describe('slice timing table', () => {
+  it('publishes the exact boundaries of randomized slices', async () => {
+    const encryptionProcessor = new HkdfAesGcmEncryptionProcessor();
+    const sessionKey = await generateKey();
+    const audioProcessor = new AudioProcessor({ sliceDurationMs: 1000, randomizeSliceLength: true, processingConfig: { encryptionProcessor } });
+    const { sessionInfo, slicePlan } = await audioProcessor.processAudio(createWavData(10), sessionKey, 'session-1');
+
+    expect(sessionInfo.sliceTimings).toBeDefined();
+    // Boundaries are not visible in the published session info
+    expect(JSON.stringify(sessionInfo)).not.toContain(JSON.stringify(slicePlan.sliceOffsets));
+
+    const table = await decryptSliceTimings(encryptionProcessor, sessionKey, sessionInfo.sliceTimings!, sessionInfo.sampleRate);
+    expect(table.totalSlices).toBe(sessionInfo.totalSlices);
+    expect(table.duration).toBeCloseTo(10, 5);
+    for (let i = 0; i < table.totalSlices; i++) {
+      expect(table.getStartTime(i)).toBeCloseTo(slicePlan.sliceOffsets[i] / 44100, 6);
+    }
+
+    // Another session key cannot read the table
+    await expect(decryptSliceTimings(encryptionProcessor, await generateKey(), sessionInfo.sliceTimings!, 44100)).rejects.toThrow();
+  });
+
+  it('publishes the table once a streamed upload completes', async () => {
+    const encryptionProcessor = new AesGcmEncryptionProcessor();
+    const sessionKey = await generateKey();
+    const audioProcessor = new AudioProcessor({ sliceDurationMs: 1000, processingConfig: { encryptionProcessor } });
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array(createWavData(3)));
+        controller.close();
+      },
+    });
+
+    const { sessionInfo, completed } = await audioProcessor.processAudio(stream, sessionKey, 'session-1');
+    await completed;
+    expect(sessionInfo.isComplete).toBe(true);
+
+    const table = await decryptSliceTimings(encryptionProcessor, sessionKey, sessionInfo.sliceTimings!, sessionInfo.sampleRate);
+    expect(table.totalSlices).toBe(3);
+    expect(table.duration).toBeCloseTo(3, 5);
+  });
+
+  it('maps times to slices', () => {
+    // Slices of 1.5s, 0.5s and 2s at 1 kHz
+    const table = new SliceTimingTable([0, 1500, 2000, 4000], 1000);
+
+    expect(table.duration).toBe(4);
+    expect([0, 1.49, 1.5, 1.99, 2, 3.9, 10].map(time => table.getSliceIndex(time))).toEqual([0, 0, 1, 1, 2, 2, 2]);
+    expect(table.getSliceIndex(-1)).toBe(0);
+    expect(table.getStartTime(2)).toBe(2);
+    expect(table.getSliceDuration(0)).toBe(1.5);
+    expect(table.getSliceDuration(3)).toBe(0);
+    expect(() => new SliceTimingTable([0, 2000, 1000], 1000)).toThrow(TypeError);
+  });
+});
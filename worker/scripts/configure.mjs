@@ -7,6 +7,14 @@ const WORKER_ROOT = path.resolve(ROOT, '..');
 const BUCKET_NAME = process.env.BUCKET_NAME;
 const KEY_PREFIX = process.env.KEY_PREFIX || '';
 const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS || '';
+// Optional session limits, passed through to [vars] when set
+const SESSION_LIMIT_VARS = [
+  'SESSION_IDLE_TIMEOUT_MS',
+  'SESSION_MAX_LIFETIME_MS',
+  'MAX_SESSIONS',
+  'MAX_TRACKS_PER_SESSION',
+  'SESSION_EVICTION_POLICY',
+].filter(name => process.env[name]);
 
 if (!BUCKET_NAME) {
   const msg = [
@@ -24,7 +32,8 @@ const varsBlock = [
   ...(ALLOWED_ORIGINS ? [`ALLOWED_ORIGINS = "${ALLOWED_ORIGINS}"`] : [
     '# Optional. Comma-separated list of allowed origins.',
     '# ALLOWED_ORIGINS = "https://your-app.com"'
-  ])
+  ]),
+  ...SESSION_LIMIT_VARS.map(name => `${name} = "${process.env[name]}"`)
 ].join('\n');
 
 const wranglerToml = `# Generated by scripts/configure.mjs. Do not edit by hand.\n\nname = "secstream-worker"\nmain = "worker.ts"\ncompatibility_date = "2024-06-13"\n\n[[r2_buckets]]\n# Binding name must match Env.AUDIO_BUCKET in code\nbinding = "AUDIO_BUCKET"\nbucket_name = "${BUCKET_NAME}"\n\n[vars]\n${varsBlock}\n`;
@@ -1,5 +1,6 @@
 // SecStream worker with R2 integration and optional key prefix
-import { parseAudioMetadata, SecureAudioServer, SessionManager } from 'secstream/server';
+import type { ObjectStorageClient, SessionLimitsConfig, SessionRecord } from 'secstream/server';
+import { ObjectStorageAudioSourceProvider, readAudioMetadata, SecStreamError, SecureAudioAPI, SessionManager, SessionStore } from 'secstream/server';
 
 export interface Env {
   // R2 binding produced by wrangler.toml (configured via scripts/configure.mjs)
@@ -8,12 +9,142 @@ export interface Env {
   ALLOWED_ORIGINS?: string;
   // Optional key prefix used as the R2 root for requests
   KEY_PREFIX?: string;
+  // Optional session limits (see SessionLimitsConfig); numbers are milliseconds or counts
+  SESSION_IDLE_TIMEOUT_MS?: string;
+  SESSION_MAX_LIFETIME_MS?: string;
+  MAX_SESSIONS?: string;
+  MAX_TRACKS_PER_SESSION?: string;
+  // 'lru' or 'reject' (default)
+  SESSION_EVICTION_POLICY?: string;
+  // Optional secret (wrangler secret put). When set, sessions are stored in AUDIO_BUCKET and
+  // every isolate can serve them; otherwise each isolate only knows the sessions it created
+  SESSION_KEY_WRAPPING_SECRET?: string;
 }
 
 interface ExportedHandler<Environment = unknown> {
   fetch: (request: Request, env: Environment, ctx: ExecutionContext) => Promise<Response> | Response;
 }
 
+// Session records are stored under this R2 prefix, outside KEY_PREFIX
+const SESSION_STORE_PREFIX = '.secstream/';
+
+// SecStream components are created once per isolate (on the first request, when env is
+// available). Without SESSION_KEY_WRAPPING_SECRET, sessions only survive within that isolate
+let runtime: { sessionManager: SessionManager; api: SecureAudioAPI } | null = null;
+
+function getRuntime(env: Env): { sessionManager: SessionManager; api: SecureAudioAPI } {
+  if (!runtime) {
+    const storage = createR2StorageClient(env.AUDIO_BUCKET);
+    const sessionManager = new SessionManager({
+      sliceDurationMs: 5000,
+      compressionLevel: 6,
+      sessionLimits: getSessionLimits(env),
+      sessionStore: env.SESSION_KEY_WRAPPING_SECRET ? new R2SessionStore(env.AUDIO_BUCKET, SESSION_STORE_PREFIX) : undefined,
+      sessionKeyWrappingSecret: env.SESSION_KEY_WRAPPING_SECRET,
+      // Sessions reference their R2 object by key
+      resolveAudioSource: key => new ObjectStorageAudioSourceProvider(storage, key, key),
+    });
+    const api = new SecureAudioAPI(sessionManager, {
+      onError: error => console.error('SecStream API error:', error),
+    });
+    runtime = { sessionManager, api };
+  }
+  return runtime;
+}
+
+function getSessionLimits(env: Env): SessionLimitsConfig {
+  const toNumber = (value?: string): number | undefined => (value ? Number(value) : undefined);
+  return {
+    idleTimeoutMs: toNumber(env.SESSION_IDLE_TIMEOUT_MS),
+    maxLifetimeMs: toNumber(env.SESSION_MAX_LIFETIME_MS),
+    maxSessions: toNumber(env.MAX_SESSIONS),
+    maxTracksPerSession: toNumber(env.MAX_TRACKS_PER_SESSION),
+    evictionPolicy: env.SESSION_EVICTION_POLICY === 'lru' ? 'lru' : 'reject',
+  };
+}
+
+// Ranged reads, so audio is never downloaded completely
+function createR2StorageClient(bucket: R2Bucket): ObjectStorageClient {
+  return {
+    size: async key => (await bucket.head(key))?.size ?? null,
+    getRange: async(key, offset, length) => {
+      const object = await bucket.get(key, { range: { offset, length } });
+      if (!object) {
+        throw new Error(`R2 object ${key} disappeared`);
+      }
+      return await object.arrayBuffer();
+    },
+  };
+}
+
+/**
+ * Session store backed by R2, shared by all isolates
+ * Layout: <prefix>sessions/<sessionId>.json and <prefix>audio/<ref>
+ */
+class R2SessionStore extends SessionStore {
+  private readonly bucket: R2Bucket;
+  private readonly prefix: string;
+
+  constructor(bucket: R2Bucket, prefix: string) {
+    super();
+    this.bucket = bucket;
+    this.prefix = prefix;
+  }
+
+  async get(sessionId: string): Promise<SessionRecord | null> {
+    const object = await this.bucket.get(this.recordKey(sessionId));
+    return object ? await object.json<SessionRecord>() : null;
+  }
+
+  async set(record: SessionRecord): Promise<void> {
+    await this.bucket.put(this.recordKey(record.id), JSON.stringify(record));
+  }
+
+  // R2 deletes do not report whether the object existed; concurrent sweeps may both see it
+  async delete(sessionId: string): Promise<boolean> {
+    const existed = (await this.bucket.head(this.recordKey(sessionId))) !== null;
+    await this.bucket.delete(this.recordKey(sessionId));
+    return existed;
+  }
+
+  async keys(): Promise<string[]> {
+    const prefix = `${this.prefix}sessions/`;
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const listing = await this.bucket.list({ prefix, cursor });
+      ids.push(...listing.objects.map(object => object.key.slice(prefix.length, -'.json'.length)));
+      cursor = listing.truncated ? listing.cursor : undefined;
+    } while (cursor);
+    return ids;
+  }
+
+  async putAudio(ref: string, data: ArrayBuffer): Promise<void> {
+    await this.bucket.put(this.audioKey(ref), data);
+  }
+
+  async getAudio(ref: string): Promise<ArrayBuffer | null> {
+    const object = await this.bucket.get(this.audioKey(ref));
+    return object ? await object.arrayBuffer() : null;
+  }
+
+  async deleteAudio(ref: string): Promise<void> {
+    await this.bucket.delete(this.audioKey(ref));
+  }
+
+  getName(): string {
+    return 'R2SessionStore';
+  }
+
+  private recordKey(sessionId: string): string {
+    return `${this.prefix}sessions/${sessionId}.json`;
+  }
+
+  private audioKey(ref: string): string {
+    return `${this.prefix}audio/${ref}`;
+  }
+}
+
 const worker: ExportedHandler<Env> = {
   async fetch(request: Request, env: Env, _ctx: ExecutionContext): Promise<Response> {
     // Handle CORS preflight
@@ -21,16 +152,11 @@ const worker: ExportedHandler<Env> = {
       return handleCors(request, env.ALLOWED_ORIGINS);
     }
 
+    const { sessionManager, api } = getRuntime(env);
+
     const url = new URL(request.url);
 
     try {
-      // Initialize SecStream components
-      const sessionManager = new SessionManager({
-        sliceDurationMs: 5000,
-        compressionLevel: 6,
-      });
-      const api = new SecureAudioServer(sessionManager);
-
       // Route: Create session from R2 using path-based addressing with optional KEY_PREFIX
       // Example: POST /api/sessions/from-r2/music/track.mp3
       if (request.method === 'POST' && url.pathname.startsWith('/api/sessions/from-r2/')) {
@@ -44,8 +170,9 @@ const worker: ExportedHandler<Env> = {
       }
 
       // Route: SecStream API endpoints
-      if (url.pathname.startsWith('/api/sessions')) {
-        return handleSecStreamAPI(request, api, env.ALLOWED_ORIGINS);
+      const response = await api.handle(request);
+      if (response) {
+        return withCors(request, response, env.ALLOWED_ORIGINS);
       }
 
       return new Response('Not Found', { status: 404 });
@@ -110,21 +237,21 @@ async function createSessionFromR2Key(
   sessionManager: SessionManager,
 ): Promise<Response> {
   try {
-    // Retrieve audio file from R2
-    const object = await env.AUDIO_BUCKET.get(key);
+    // Check the audio file in R2 without downloading it; session records are not audio
+    const object = key.startsWith(SESSION_STORE_PREFIX) ? null : await env.AUDIO_BUCKET.head(key);
     if (!object) {
       return json({ error: 'Audio file not found in R2', key }, 404);
     }
 
-    // Convert R2 object to ArrayBuffer
-    const audioBuffer = await object.arrayBuffer();
+    // Slices are read from R2 by byte range
+    const source = new ObjectStorageAudioSourceProvider(createR2StorageClient(env.AUDIO_BUCKET), key, key);
 
     // Parse audio metadata for format validation
-    const metadata = parseAudioMetadata(audioBuffer);
+    const metadata = await readAudioMetadata(source);
     console.log(`Processing ${key}: ${metadata.format}, duration: ${metadata.duration}s`);
 
     // Create secure session
-    const sessionId = await sessionManager.createSession(audioBuffer);
+    const sessionId = await sessionManager.createSession(source);
 
     // Get session info for client
     const sessionInfo = sessionManager.getSessionInfo(sessionId);
@@ -136,6 +263,10 @@ async function createSessionFromR2Key(
       r2Key: key,
     }, 201));
   } catch(error) {
+    // Session and track limits carry their own status (e.g. 503 SESSION_LIMIT_REACHED)
+    if (error instanceof SecStreamError) {
+      return json({ error: error.message, code: error.code }, error.status);
+    }
     console.error('Error creating session from R2:', error);
     return json({
       error: 'Failed to create session',
@@ -144,90 +275,13 @@ async function createSessionFromR2Key(
   }
 }
 
-async function handleSecStreamAPI(
-  request: Request,
-  api: SecureAudioServer,
-  allowedOrigins?: string,
-): Promise<Response> {
-  const url = new URL(request.url);
-  const apiPath = url.pathname.replace('/api/sessions', '') || '/';
-  const method = request.method;
-
-  try {
-    let response: Response;
-
-    if (method === 'POST' && apiPath === '/') {
-      // Create session (direct upload)
-      const formData = await request.formData();
-      const audioFile = formData.get('audio') as File;
-      if (!audioFile)
-        return json({ error: 'No audio file provided' }, 400);
-
-      const audioBuffer = await audioFile.arrayBuffer();
-      const result = await api.createSession(audioBuffer);
-      response = json(result);
-    } else if (method === 'POST' && apiPath.match(/^\/[\w-]+\/key-exchange$/)) {
-      // Key exchange
-      const sessionId = apiPath.split('/')[1];
-      const keyExchangeData = await request.json() as Record<string, unknown>;
-      const result = await api.handleKeyExchange(sessionId, keyExchangeData);
-      response = json(result);
-    } else if (method === 'GET' && apiPath.match(/^\/[\w-]+\/info$/)) {
-      // Session info
-      const sessionId = apiPath.split('/')[1];
-      const result = await api.getSessionInfo(sessionId);
-      if (!result)
-        return json({ error: 'Session not found' }, 404);
-      response = json(result);
-    } else if (method === 'GET' && apiPath.match(/^\/[\w-]+\/slices\/[\w-]+$/)) {
-      // Get slice
-      const pathParts = apiPath.split('/');
-      const sessionId = pathParts[1];
-      const sliceId = pathParts[3];
-      const result = await api.getSlice(sessionId, sliceId);
-      if (!result)
-        return json({ error: 'Slice not found' }, 404);
-      response = new Response(result.encryptedData, {
-        headers: {
-          'Content-Type': 'application/octet-stream',
-          'X-Slice-Id': result.id,
-          'X-Slice-IV': Array.from(new Uint8Array(result.iv)).join(','),
-          'X-Slice-Sequence': result.sequence.toString(),
-          'X-Session-Id': result.sessionId,
-        },
-      });
-    } else {
-      response = new Response('Not Found', { status: 404 });
-    }
-
-    // Add CORS headers to successful responses
-    if (response.status < 400) {
-      const corsHeaders = getCorsHeaders(request.headers.get('Origin'), allowedOrigins);
-      const newHeaders = new Headers(response.headers);
-      Object.entries(corsHeaders).forEach(([key, value]) => newHeaders.set(key, value));
-      return new Response(response.body, {
-        status: response.status,
-        statusText: response.statusText,
-        headers: newHeaders,
-      });
-    }
-    return response;
-  } catch(error) {
-    console.error('SecStream API error:', error);
-    return json({
-      error: 'API request failed',
-      message: error instanceof Error ? error.message : 'Unknown error',
-    }, 500);
-  }
-}
-
 function handleCors(request: Request, allowedOrigins?: string): Response {
   const corsHeaders = getCorsHeaders(request.headers.get('Origin'), allowedOrigins);
   return new Response(null, {
     status: 204,
     headers: {
       ...corsHeaders,
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
       'Access-Control-Allow-Headers': 'Content-Type, Authorization',
       'Access-Control-Max-Age': '86400',
     },
@@ -256,10 +310,10 @@ function json(body: unknown, status = 200, headers: Record<string, string> = { '
   return new Response(JSON.stringify(body), { status, headers });
 }
 
-function withCors(request: Request, response: Response): Response {
+function withCors(request: Request, response: Response, allowedOrigins?: string): Response {
   if (response.status >= 400)
     return response;
-  const corsHeaders = getCorsHeaders(request.headers.get('Origin'));
+  const corsHeaders = getCorsHeaders(request.headers.get('Origin'), allowedOrigins);
   const newHeaders = new Headers(response.headers);
   Object.entries(corsHeaders).forEach(([k, v]) => newHeaders.set(k, v));
   return new Response(response.body, { status: response.status, statusText: response.statusText, headers: newHeaders });